@@ -0,0 +1,387 @@
+// Ingest CLI
+// Loads export files into Supabase without a browser, with the same parser, row shaping and fee
+// pricing as an upload from the dashboard (src/lib/serverIngest.ts).
+//
+//   npm run ingest -- <file-or-directory> [--dry-run] [--watch] [--type <FileType>]
+//
+// A directory ingests every .csv / .xlsx / .xls file in it (not subfolders); --watch then keeps
+// running and ingests files as they appear. Files already uploaded (same bytes) are skipped, and an
+// earlier upload of the same file that stopped part way (incomplete, or no checkpoint for a while) is
+// resumed; one that is still being written elsewhere is skipped. --dry-run parses and reports what would be
+// written without writing anything.
+//
+// Credentials come from SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY, falling back to the app's
+// VITE_SUPABASE_URL / VITE_SUPABASE_PUBLISHABLE_KEY.
+
+import { openAsBlob, readdirSync, statSync, watch } from 'node:fs';
+import { basename, extname, join, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { createClient } from '@supabase/supabase-js';
+import { format } from 'date-fns';
+import type { Database, Json, Tables } from '@/integrations/supabase/types';
+import { operationsNow } from '@/lib/operationsTime';
+import { hashFile } from '@/lib/fileHash';
+import type { ColumnMapping } from '@/lib/columnMapping';
+import { createUnitSummary, ExistingTrgidCounts } from '@/lib/uploadPreview';
+import { fetchUploadBatchProgress, isUploadStalled } from '@/lib/uploadBatches';
+import {
+  INGEST_BATCH_SIZE,
+  IngestClient,
+  fetchSavedBatchIndices,
+  ingestBatches,
+  ingestErrorMessage,
+  loadFeeRegistries,
+  openIngestSource,
+  saveIngestRowIssues,
+  streamIngestUnits,
+} from '@/lib/serverIngest';
+
+type FileType = Database['public']['Enums']['file_type'];
+type UploadRow = Tables<'file_uploads'>;
+
+const SUPPORTED_EXTENSIONS = ['.csv', '.xlsx', '.xls'];
+const FILE_TYPES: FileType[] = ['Sales', 'Inbound', 'Outbound', 'Inventory', 'Production', 'SLA', 'Monthly'];
+const EXISTING_CHECK_BATCH = 5000; // TRGIDs per count_existing_trgids call
+// Exports are written gradually; a file is ingested once its size has held still this long
+const SETTLE_MS = 3000;
+
+const USAGE = `Usage: npm run ingest -- <file-or-directory> [options]
+
+Options:
+  --dry-run          parse and report what would be written; write nothing
+  --watch            (directory) keep running and ingest new files as they appear
+  --type <FileType>  file type for every file (${FILE_TYPES.join(', ')}); detected from the columns otherwise
+  --help             show this message`;
+
+interface IngestOptions {
+  dryRun: boolean;
+  fileType: FileType | null;
+}
+
+type IngestOutcome = 'ingested' | 'skipped' | 'incomplete' | 'failed' | 'checked';
+
+const isSupportedFile = (path: string) => {
+  const name = basename(path);
+  // Office lock files (~$Sales.xlsx) and hidden files are never exports
+  return SUPPORTED_EXTENSIONS.includes(extname(name).toLowerCase()) && !name.startsWith('~$') && !name.startsWith('.');
+};
+
+const log = (fileName: string, message: string) => console.log(`[${format(new Date(), 'HH:mm:ss')}] ${fileName}: ${message}`);
+
+function createIngestClient(): IngestClient {
+  const url = process.env.SUPABASE_URL ?? process.env.VITE_SUPABASE_URL ?? import.meta.env?.VITE_SUPABASE_URL;
+  const key =
+    process.env.SUPABASE_SERVICE_ROLE_KEY ??
+    process.env.VITE_SUPABASE_PUBLISHABLE_KEY ??
+    import.meta.env?.VITE_SUPABASE_PUBLISHABLE_KEY;
+  if (!url || !key) {
+    throw new Error('Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY (or VITE_SUPABASE_URL and VITE_SUPABASE_PUBLISHABLE_KEY)');
+  }
+  return createClient<Database>(url, key, { auth: { persistSession: false } });
+}
+
+// Earlier upload of exactly the same bytes, if any
+async function findSameContentUpload(supabase: IngestClient, contentHash: string): Promise<UploadRow | null> {
+  const { data, error } = await supabase
+    .from('file_uploads')
+    .select('*')
+    .eq('content_hash', contentHash)
+    .order('upload_timestamp', { ascending: false })
+    .limit(1);
+  if (error) throw error;
+  return data?.[0] ?? null;
+}
+
+async function countExistingTrgids(supabase: IngestClient, trgids: string[], snapshotDate: string): Promise<ExistingTrgidCounts> {
+  const counts: ExistingTrgidCounts = { units: 0, sales: 0, fees: 0, shipments: 0, snapshot: 0 };
+  for (let i = 0; i < trgids.length; i += EXISTING_CHECK_BATCH) {
+    const { data, error } = await supabase.rpc('count_existing_trgids', {
+      p_trgids: trgids.slice(i, i + EXISTING_CHECK_BATCH),
+      p_snapshot_date: snapshotDate,
+    });
+    if (error) throw error;
+    counts.units += Number(data?.[0]?.units_existing || 0);
+    counts.sales += Number(data?.[0]?.sales_existing || 0);
+    counts.fees += Number(data?.[0]?.fees_existing || 0);
+    counts.shipments += Number(data?.[0]?.shipments_existing || 0);
+    counts.snapshot += Number(data?.[0]?.snapshot_existing || 0);
+  }
+  return counts;
+}
+
+async function ingestFile(supabase: IngestClient, path: string, options: IngestOptions): Promise<IngestOutcome> {
+  const fileName = basename(path);
+  try {
+    const file = await openAsBlob(path);
+    const contentHash = await hashFile(file);
+
+    // The same bytes under any name would double count lifecycle events
+    const existing = await findSameContentUpload(supabase, contentHash);
+    if (existing?.upload_status === 'complete' || (existing && existing.ingest_mode === 'server')) {
+      log(fileName, `skipped, already uploaded as "${existing.file_name}" on ${format(new Date(existing.upload_timestamp), 'MMM d, yyyy')}`);
+      return 'skipped';
+    }
+    // Only an upload nothing is writing any more is picked up; one still running in a browser tab or
+    // another CLI would get the same batches twice
+    let resuming: UploadRow | null = null;
+    if (existing && existing.batch_size !== null) {
+      if (existing.upload_status !== 'incomplete') {
+        const progress = await fetchUploadBatchProgress(supabase, existing.id);
+        if (!isUploadStalled(existing.upload_timestamp, progress)) {
+          const of = existing.total_batches !== null ? ` of ${existing.total_batches}` : '';
+          log(fileName, `skipped, "${existing.file_name}" is still being uploaded (${progress.doneBatches}${of} batches saved)`);
+          return 'skipped';
+        }
+      }
+      resuming = existing;
+    }
+
+    log(fileName, `parsing (${(file.size / (1024 * 1024)).toFixed(1)} MB)`);
+    const opened = await openIngestSource(supabase, {
+      fileName,
+      file,
+      sheetNames: (resuming?.sheet_names as unknown as string[] | null) ?? null,
+      mapping: (resuming?.column_mapping as unknown as ColumnMapping | null) ?? null,
+    });
+
+    // The header row decides what the file holds; --type (or the earlier upload) only relabels it,
+    // except for a file whose columns say nothing, where it is the only answer
+    const detection = opened.fileTypeDetection;
+    const detectedType = detection.fileType === 'Unknown' ? null : detection.fileType;
+    const fileType = resuming?.file_type ?? options.fileType ?? detectedType;
+    if (!fileType) {
+      throw new Error(`could not tell the file type: ${detection.reasons.join('; ')}. Pass --type (${detection.candidates.join(', ')})`);
+    }
+    const contentType = detectedType ?? fileType;
+    log(
+      fileName,
+      detectedType
+        ? `${detectedType} by its columns (${detection.confidence} confidence: ${detection.reasons.join('; ')})${fileType !== detectedType ? `, labelled ${fileType}` : ''}`
+        : `${fileType} as given; ${detection.reasons.join('; ')}`
+    );
+
+    const businessDate = opened.businessDate;
+    const businessDay = format(businessDate ?? operationsNow(), 'yyyy-MM-dd');
+
+    if (options.dryRun) {
+      // Summarized and checked against the stored rows batch by batch, so the file is never held whole
+      const summary = createUnitSummary(fileType);
+      const stored: ExistingTrgidCounts = { units: 0, sales: 0, fees: 0, shipments: 0, snapshot: 0 };
+      let pending: string[] = [];
+      const checkPending = async () => {
+        const counts = await countExistingTrgids(supabase, pending, businessDay);
+        pending = [];
+        for (const key of Object.keys(stored) as (keyof ExistingTrgidCounts)[]) stored[key] += counts[key];
+      };
+      const streamed = await streamIngestUnits(opened, async batch => {
+        summary.add(batch);
+        for (const unit of batch) pending.push(unit.trgid);
+        if (pending.length >= EXISTING_CHECK_BATCH) await checkPending();
+      });
+      if (streamed.rowCount === 0) throw new Error('no valid rows found');
+      if (pending.length > 0) await checkPending();
+      const issueSummary = streamed.issues.summary();
+      const stats = summary.finish(businessDate, streamed.skippedRows, issueSummary);
+      log(fileName, `would write ${streamed.rowCount.toLocaleString()} units (${fileType}, business date ${businessDate ? businessDay : 'none'})`);
+      console.log(`  WM weeks: ${stats.wmWeeks.join(', ') || 'none'}`);
+      console.log(`  Stages: ${Object.entries(stats.stageCounts).map(([stage, count]) => `${stage} ${count.toLocaleString()}`).join(', ')}`);
+      if (contentType === 'Inventory') {
+        console.log(`  Already in the ${businessDay} inventory snapshot: ${stored.snapshot.toLocaleString()} units`);
+      } else if (contentType === 'Outbound') {
+        console.log(`  Already stored: ${stored.shipments.toLocaleString()} shipments, ${stored.fees.toLocaleString()} fee rows`);
+      } else {
+        console.log(`  Already stored: ${stored.units.toLocaleString()} units, ${stored.sales.toLocaleString()} sales, ${stored.fees.toLocaleString()} fee rows`);
+      }
+      if (issueSummary.total > 0) {
+        console.log(`  Row issues: ${issueSummary.rejected.toLocaleString()} rejected, ${issueSummary.warnings.toLocaleString()} warnings`);
+      }
+      for (const warning of stats.warnings) console.log(`  Warning: ${warning}`);
+      if (resuming) console.log(`  An incomplete upload of this file exists and would be resumed`);
+      return 'checked';
+    }
+
+    await loadFeeRegistries(supabase);
+    let upload: UploadRow;
+    let saved = new Set<number>();
+
+    // Rows are written as they are parsed, so the row is created (or reopened) first; the counts and
+    // fingerprint are filled in once the whole file has been read
+    if (resuming) {
+      if (resuming.batch_size !== INGEST_BATCH_SIZE) {
+        throw new Error(`an incomplete upload of this file exists but it was written in batches of ${resuming.batch_size}; delete "${resuming.file_name}" first`);
+      }
+      saved = await fetchSavedBatchIndices(supabase, resuming.id);
+      upload = resuming;
+      log(fileName, `resuming "${resuming.file_name}": ${saved.size} batches already saved`);
+      const { error } = await supabase.from('file_uploads').update({ upload_status: 'uploading' }).eq('id', upload.id);
+      if (error) throw error;
+    } else {
+      const { data, error } = await supabase
+        .from('file_uploads')
+        .insert({
+          file_name: fileName,
+          file_type: fileType,
+          file_business_date: businessDay,
+          processed: false,
+          content_hash: contentHash,
+          upload_status: 'uploading',
+          batch_size: INGEST_BATCH_SIZE,
+          column_mapping: opened.mapping as unknown as Json,
+          sheet_names: opened.sheetNames as unknown as Json,
+          ingest_mode: 'cli',
+        })
+        .select()
+        .single();
+      if (error) throw error;
+      upload = data;
+    }
+
+    let lastLogged = 0;
+    const result = await ingestBatches(supabase, opened, {
+      context: {
+        fileUploadId: upload.id,
+        parsedFileType: contentType,
+        finalFileType: fileType,
+        businessDate: upload.file_business_date, // businessDay, or what the resumed upload was started with
+      },
+      savedBatches: saved,
+      resend: !!resuming,
+      beforeBatch: ({ parsedRows, savedBatches }) => {
+        if (Date.now() - lastLogged > 5000) {
+          lastLogged = Date.now();
+          log(fileName, `${savedBatches} batches saved, ${parsedRows.toLocaleString()} rows read`);
+        }
+      },
+    });
+
+    const { rowCount, totalBatches, failed } = result;
+    // A resumed upload must parse to the same rows, or its checkpointed batch indices no longer line up
+    const reparsedDifferently = resuming?.total_batches != null && resuming.row_count !== rowCount;
+    const complete = rowCount > 0 && failed.length === 0 && !reparsedDifferently;
+    const issueSummary = result.issues.summary();
+    const { error: statusError } = await supabase
+      .from('file_uploads')
+      .update({
+        row_count: rowCount,
+        fingerprint: `${fileType}|${upload.file_business_date}|${result.trgidHash}`,
+        total_batches: totalBatches,
+        issue_summary: issueSummary as unknown as Json,
+        upload_status: complete ? 'complete' : 'incomplete',
+        processed: complete,
+      })
+      .eq('id', upload.id);
+    if (statusError) throw statusError;
+
+    if (issueSummary.total > 0) {
+      try {
+        await saveIngestRowIssues(supabase, upload.id, result.issues.issues());
+      } catch (issueError) {
+        console.warn(`Could not save row issues for ${fileName}:`, ingestErrorMessage(issueError));
+      }
+    }
+
+    if (rowCount === 0) throw new Error('no valid rows found');
+    if (reparsedDifferently) {
+      throw new Error(`"${upload.file_name}" now parses to ${rowCount.toLocaleString()} rows, not ${upload.row_count?.toLocaleString()}; delete it first`);
+    }
+    if (!complete) {
+      log(fileName, `incomplete: ${failed.length} of ${totalBatches} batches failed; run again to send only those`);
+      return 'incomplete';
+    }
+    log(fileName, `ingested ${rowCount.toLocaleString()} units`);
+    return 'ingested';
+  } catch (error) {
+    log(fileName, `failed: ${ingestErrorMessage(error)}`);
+    return 'failed';
+  }
+}
+
+// Resolves once the file has stopped growing (or has gone away)
+async function waitUntilSettled(path: string): Promise<boolean> {
+  let lastSize = -1;
+  for (;;) {
+    let size: number;
+    try {
+      size = statSync(path).size;
+    } catch {
+      return false;
+    }
+    if (size === lastSize && size > 0) return true;
+    lastSize = size;
+    await new Promise(resolve => setTimeout(resolve, SETTLE_MS));
+  }
+}
+
+// Ingest files as they are added to the directory, one at a time, until interrupted
+function watchDirectory(supabase: IngestClient, dir: string, options: IngestOptions): Promise<never> {
+  const queued = new Set<string>();
+  let queue = Promise.resolve();
+
+  log(dir, 'watching for new files (Ctrl+C to stop)');
+  watch(dir, (_event, name) => {
+    if (!name) return;
+    const path = join(dir, name.toString());
+    if (!isSupportedFile(path) || queued.has(path)) return;
+    queued.add(path);
+    queue = queue.then(async () => {
+      if (await waitUntilSettled(path)) await ingestFile(supabase, path, options);
+      queued.delete(path);
+    });
+  });
+  return new Promise<never>(() => undefined);
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      'dry-run': { type: 'boolean', default: false },
+      watch: { type: 'boolean', default: false },
+      type: { type: 'string' },
+      help: { type: 'boolean', default: false },
+    },
+  });
+
+  if (values.help || positionals.length !== 1) {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+
+  const fileType = (values.type as FileType | undefined) ?? null;
+  if (fileType && !FILE_TYPES.includes(fileType)) {
+    throw new Error(`Unknown file type "${fileType}". Use one of: ${FILE_TYPES.join(', ')}`);
+  }
+  const options: IngestOptions = { dryRun: values['dry-run'], fileType };
+
+  const target = resolve(positionals[0]);
+  const isDirectory = statSync(target).isDirectory();
+  if (values.watch && !isDirectory) throw new Error('--watch needs a directory');
+
+  const supabase = createIngestClient();
+  const files = isDirectory
+    ? readdirSync(target)
+        .map(name => join(target, name))
+        .filter(path => isSupportedFile(path) && statSync(path).isFile())
+        .sort()
+    : [target];
+
+  const outcomes: IngestOutcome[] = [];
+  for (const path of files) outcomes.push(await ingestFile(supabase, path, options));
+
+  if (files.length > 1) {
+    const count = (outcome: IngestOutcome) => outcomes.filter(o => o === outcome).length;
+    console.log(
+      options.dryRun
+        ? `${count('checked')} checked, ${count('skipped')} already uploaded, ${count('failed')} failed`
+        : `${count('ingested')} ingested, ${count('skipped')} already uploaded, ${count('incomplete')} incomplete, ${count('failed')} failed`
+    );
+  }
+
+  if (values.watch) await watchDirectory(supabase, target, options);
+  process.exit(outcomes.some(o => o === 'failed' || o === 'incomplete') ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error(ingestErrorMessage(error));
+  process.exit(1);
+});
@@ -0,0 +1,237 @@
+import { Fragment, useEffect, useMemo, useState } from 'react';
+import { Columns3, AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useColumnProfiles } from '@/hooks/useColumnProfiles';
+import {
+  ColumnMapping,
+  ColumnMappingRequest,
+  ColumnMappingResult,
+  MappedUnitField,
+  MatchConfidence,
+  UNIT_COLUMN_FIELDS,
+  isFieldRequired,
+  missingRequiredFields,
+  suggestProfileName,
+} from '@/lib/columnMapping';
+
+interface ColumnMappingDialogProps {
+  request: ColumnMappingRequest | null;
+  onResolve: (result: ColumnMappingResult | null) => void;
+}
+
+const NOT_MAPPED = '__none__';
+
+const confidenceStyles: Record<MatchConfidence, { label: string; className: string }> = {
+  exact: { label: 'Exact', className: 'bg-success/10 text-success border-success/20' },
+  normalized: { label: 'Close', className: 'bg-info/10 text-info border-info/20' },
+  partial: { label: 'Check', className: 'bg-warning/10 text-warning border-warning/20' },
+  profile: { label: 'Profile', className: 'bg-primary/10 text-primary border-primary/20' },
+  manual: { label: 'Manual', className: 'bg-muted text-muted-foreground border-border' },
+  none: { label: 'Not found', className: 'bg-muted text-muted-foreground border-border' },
+};
+
+// Upload wizard step: confirm which header feeds each unit field before the file is parsed
+export function ColumnMappingDialog({ request, onResolve }: ColumnMappingDialogProps) {
+  const { data: profiles } = useColumnProfiles();
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [confidence, setConfidence] = useState<Partial<Record<MappedUnitField, MatchConfidence>>>({});
+  const [saveProfile, setSaveProfile] = useState(true);
+  const [profileName, setProfileName] = useState('');
+
+  // Start from the detected matches for each new file
+  useEffect(() => {
+    if (!request) return;
+    const nextMapping: ColumnMapping = {};
+    const nextConfidence: Partial<Record<MappedUnitField, MatchConfidence>> = {};
+    for (const detected of request.detected) {
+      nextMapping[detected.field] = detected.header;
+      nextConfidence[detected.field] = detected.confidence;
+    }
+    setMapping(nextMapping);
+    setConfidence(nextConfidence);
+    setSaveProfile(true);
+    setProfileName(suggestProfileName(request.fileName));
+  }, [request]);
+
+  const missing = useMemo(
+    () => (request ? missingRequiredFields(mapping, request.headers, request.fileType) : []),
+    [mapping, request]
+  );
+
+  const unusedHeaders = useMemo(() => {
+    if (!request) return [];
+    const used = new Set(Object.values(mapping).filter(Boolean));
+    return request.headers.filter(h => h && !used.has(h));
+  }, [mapping, request]);
+
+  if (!request) return null;
+
+  const mappedCount = UNIT_COLUMN_FIELDS.filter(f => mapping[f.field]).length;
+
+  const setField = (field: MappedUnitField, header: string | null) => {
+    setMapping(prev => ({ ...prev, [field]: header }));
+    setConfidence(prev => ({ ...prev, [field]: header ? 'manual' : 'none' }));
+  };
+
+  // Copy another profile's choices for every header this file also has
+  const applyProfile = (id: string) => {
+    const profile = profiles?.find(p => p.id === id);
+    if (!profile) return;
+    const present = new Set(request.headers);
+    const nextMapping = { ...mapping };
+    const nextConfidence = { ...confidence };
+    for (const [field, header] of Object.entries(profile.mapping) as [MappedUnitField, string | null][]) {
+      if (header && present.has(header)) {
+        nextMapping[field] = header;
+        nextConfidence[field] = 'profile';
+      }
+    }
+    setMapping(nextMapping);
+    setConfidence(nextConfidence);
+  };
+
+  const confirm = () => {
+    onResolve({ mapping, profileName: saveProfile && profileName.trim() ? profileName.trim() : null });
+  };
+
+  return (
+    <Dialog open onOpenChange={open => !open && onResolve(null)}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Columns3 className="h-5 w-5 text-muted-foreground" />
+            Map Columns
+          </DialogTitle>
+          <DialogDescription>
+            {request.fileName} has a column layout without a saved profile. {request.headers.length} columns detected,{' '}
+            {mappedCount} of {UNIT_COLUMN_FIELDS.length} fields matched.
+          </DialogDescription>
+        </DialogHeader>
+
+        {missing.length > 0 && (
+          <div className="flex items-start gap-2 p-3 rounded-lg bg-destructive/10 text-destructive text-sm">
+            <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>
+              Required for {request.fileType} files: {missing.map(f => f.label).join(', ')}
+            </span>
+          </div>
+        )}
+
+        {profiles && profiles.length > 0 && (
+          <div className="flex items-center gap-2">
+            <Label className="text-sm text-muted-foreground whitespace-nowrap">Start from profile</Label>
+            <Select onValueChange={applyProfile}>
+              <SelectTrigger className="h-8 w-[260px]">
+                <SelectValue placeholder="Choose a saved profile" />
+              </SelectTrigger>
+              <SelectContent>
+                {profiles.map(p => (
+                  <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="max-h-[50vh] overflow-y-auto border rounded-lg">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-card">
+              <tr className="border-b">
+                <th className="text-left font-medium p-2">Field</th>
+                <th className="text-left font-medium p-2">Column</th>
+                <th className="text-left font-medium p-2">Match</th>
+              </tr>
+            </thead>
+            <tbody>
+              {UNIT_COLUMN_FIELDS.map((field, index) => {
+                const header = mapping[field.field] ?? null;
+                const required = isFieldRequired(field, request.fileType);
+                const style = confidenceStyles[confidence[field.field] ?? 'none'];
+                const groupRow = index === 0 || UNIT_COLUMN_FIELDS[index - 1].group !== field.group;
+
+                return (
+                  <Fragment key={field.field}>
+                    {groupRow && (
+                      <tr className="bg-muted/50">
+                        <td colSpan={3} className="px-2 py-1 text-xs font-medium text-muted-foreground">{field.group}</td>
+                      </tr>
+                    )}
+                    <tr className="border-b last:border-0">
+                      <td className="p-2">
+                        {field.label}
+                        {required && <span className="text-destructive ml-1">*</span>}
+                      </td>
+                      <td className="p-2">
+                        <Select
+                          value={header ?? NOT_MAPPED}
+                          onValueChange={v => setField(field.field, v === NOT_MAPPED ? null : v)}
+                        >
+                          <SelectTrigger className={cn('h-8 w-[280px]', required && !header && 'border-destructive')}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                            {request.headers.filter(Boolean).map(h => (
+                              <SelectItem key={h} value={h}>{h}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </td>
+                      <td className="p-2">
+                        {required && !header ? (
+                          <Badge variant="outline" className="text-xs bg-destructive/10 text-destructive border-destructive/20">
+                            Required
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline" className={cn('text-xs', style.className)}>{style.label}</Badge>
+                        )}
+                      </td>
+                    </tr>
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {unusedHeaders.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Not used: {unusedHeaders.slice(0, 12).join(', ')}
+            {unusedHeaders.length > 12 && ` and ${unusedHeaders.length - 12} more`}
+          </p>
+        )}
+
+        <div className="flex items-center gap-3">
+          <Switch id="save-column-profile" checked={saveProfile} onCheckedChange={setSaveProfile} />
+          <Label htmlFor="save-column-profile" className="text-sm whitespace-nowrap">Save as profile</Label>
+          <Input
+            value={profileName}
+            onChange={e => setProfileName(e.target.value)}
+            disabled={!saveProfile}
+            placeholder="Profile name"
+            className="h-8"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onResolve(null)}>Cancel Upload</Button>
+          <Button onClick={confirm} disabled={missing.length > 0}>Use Mapping</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -30,6 +30,7 @@ interface SalesRow {
   order_closed_date: string;
   tag_ebay_auction_sale?: boolean | null;
   b2c_auction?: string | null;
+  tag_clientsource?: string | null;
   order_type_sold_on?: string | null;
 }
 
@@ -87,6 +88,7 @@ export function DRPPerformance({ salesData, isLoading }: DRPPerformanceProps) {
         marketplace_profile_sold_on: r.marketplace_profile_sold_on ?? null,
         tag_ebay_auction_sale: r.tag_ebay_auction_sale,
         b2c_auction: r.b2c_auction,
+        tag_clientsource: r.tag_clientsource ?? null,
       });
       if (!map[ch]) map[ch] = { sales: 0, retail: 0, units: 0 };
       map[ch].sales += r.gross_sale || 0;
@@ -136,6 +138,7 @@ export function DRPPerformance({ salesData, isLoading }: DRPPerformanceProps) {
         marketplace_profile_sold_on: r.marketplace_profile_sold_on ?? null,
         tag_ebay_auction_sale: r.tag_ebay_auction_sale,
         b2c_auction: r.b2c_auction,
+        tag_clientsource: r.tag_clientsource ?? null,
       });
       const prog = r.program_name?.trim() || '';
       const fac = FACILITY_MAP[prog] || r.facility || 'Unknown';
@@ -0,0 +1,148 @@
+import { useMemo, useState } from 'react';
+import { Download, Loader2, Receipt } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useRateCards } from '@/hooks/useRateCards';
+import { useFeeRules } from '@/hooks/useFeeRules';
+import {
+  AccrualDimension,
+  AccrualUnit,
+  ACCRUAL_DIMENSIONS,
+  buildFeeAccrual,
+  feeAccrualToCSV,
+  sumFeeAccrual,
+} from '@/lib/feeAccrual';
+
+const MAX_ROWS_SHOWN = 50;
+
+interface FeeAccrualProps {
+  units: AccrualUnit[] | undefined;
+}
+
+const formatCurrency = (value: number) => {
+  if (value >= 1000000) return `$${(value / 1000000).toFixed(2)}M`;
+  if (value >= 1000) return `$${(value / 1000).toFixed(1)}K`;
+  return `$${value.toFixed(2)}`;
+};
+
+export function FeeAccrual({ units }: FeeAccrualProps) {
+  const { data: rateCardVersions } = useRateCards();
+  const { data: feeRuleSets } = useFeeRules();
+  const [dimension, setDimension] = useState<AccrualDimension>('program');
+
+  // Re-price once today's published cards and rules are registered
+  const groups = useMemo(
+    () => (units && rateCardVersions && feeRuleSets ? buildFeeAccrual(units, dimension) : []),
+    [units, dimension, rateCardVersions, feeRuleSets]
+  );
+  const totals = sumFeeAccrual(groups);
+  const dimensionLabel = ACCRUAL_DIMENSIONS.find(d => d.id === dimension)?.label || '';
+
+  const handleExport = () => {
+    const blob = new Blob([feeAccrualToCSV(groups, dimensionLabel)], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `wip_fee_accrual_by_${dimension}_${new Date().toISOString().split('T')[0]}.csv`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  return (
+    <div className="bg-card rounded-lg border p-6 space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold flex items-center gap-2">
+            <Receipt className="h-5 w-5 text-muted-foreground" />
+            Expected Fee Accrual
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            Check-in, refurb and PPS fees projected for unsold units at today's rate cards.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={dimension} onValueChange={(v) => setDimension(v as AccrualDimension)}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ACCRUAL_DIMENSIONS.map(d => (
+                <SelectItem key={d.id} value={d.id}>By {d.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={groups.length === 0} className="h-10">
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      {!units || !rateCardVersions || !feeRuleSets ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Pricing WIP units...
+        </div>
+      ) : groups.length > 0 ? (
+        <>
+          <div className="grid gap-4 md:grid-cols-4">
+            <div className="p-4 bg-muted/50 rounded-lg">
+              <p className="text-sm text-muted-foreground">Total Accrual</p>
+              <p className="text-2xl font-bold">{formatCurrency(totals.total)}</p>
+              <p className="text-sm text-muted-foreground">{totals.units.toLocaleString()} WIP units</p>
+            </div>
+            <div className="p-4 bg-muted/50 rounded-lg">
+              <p className="text-sm text-muted-foreground">Expected Check-In</p>
+              <p className="text-2xl font-bold">{formatCurrency(totals.checkInFee)}</p>
+            </div>
+            <div className="p-4 bg-muted/50 rounded-lg">
+              <p className="text-sm text-muted-foreground">Expected Refurb</p>
+              <p className="text-2xl font-bold">{formatCurrency(totals.refurbFee)}</p>
+            </div>
+            <div className="p-4 bg-muted/50 rounded-lg">
+              <p className="text-sm text-muted-foreground">Expected PPS</p>
+              <p className="text-2xl font-bold">{formatCurrency(totals.ppsFee)}</p>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto max-h-[500px] overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left py-3 px-4 font-medium text-muted-foreground">{dimensionLabel}</th>
+                  <th className="text-right py-3 px-4 font-medium text-muted-foreground">WIP Units</th>
+                  <th className="text-right py-3 px-4 font-medium text-muted-foreground">Retail</th>
+                  <th className="text-right py-3 px-4 font-medium text-muted-foreground">Check-In</th>
+                  <th className="text-right py-3 px-4 font-medium text-muted-foreground">Refurb</th>
+                  <th className="text-right py-3 px-4 font-medium text-muted-foreground">PPS</th>
+                  <th className="text-right py-3 px-4 font-medium text-muted-foreground">Accrual</th>
+                </tr>
+              </thead>
+              <tbody>
+                {groups.slice(0, MAX_ROWS_SHOWN).map(group => (
+                  <tr key={group.key} className="border-b last:border-0">
+                    <td className="py-3 px-4 font-medium">{group.key}</td>
+                    <td className="py-3 px-4 text-right">{group.units.toLocaleString()}</td>
+                    <td className="py-3 px-4 text-right font-mono">{formatCurrency(group.retail)}</td>
+                    <td className="py-3 px-4 text-right font-mono">{formatCurrency(group.checkInFee)}</td>
+                    <td className="py-3 px-4 text-right font-mono">{formatCurrency(group.refurbFee)}</td>
+                    <td className="py-3 px-4 text-right font-mono">{formatCurrency(group.ppsFee)}</td>
+                    <td className="py-3 px-4 text-right font-mono font-medium">{formatCurrency(group.total)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {groups.length > MAX_ROWS_SHOWN && (
+              <p className="text-xs text-muted-foreground mt-2">
+                Showing {MAX_ROWS_SHOWN} of {groups.length.toLocaleString()} - export for the full list
+              </p>
+            )}
+          </div>
+        </>
+      ) : (
+        <div className="h-[120px] flex items-center justify-center text-muted-foreground">
+          No unsold units to accrue
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+import { useMemo, useState } from 'react';
+import { Scale, ArrowUpRight, ArrowDownRight, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { UnitDetailPanel } from '@/components/dashboard/UnitDetailPanel';
+import { useRateCards } from '@/hooks/useRateCards';
+import { useFeeRules } from '@/hooks/useFeeRules';
+import {
+  ReconciliationSale,
+  ReconciledFeeType,
+  ReconciliationDimension,
+  RECONCILED_FEES,
+  RECONCILIATION_DIMENSIONS,
+  buildReconciliationLines,
+  summarizeVariance,
+  filterLinesByDimension,
+  topVarianceLines,
+} from '@/lib/feeReconciliation';
+
+const DRILL_DOWN_LIMIT = 100;
+
+interface FeeReconciliationProps {
+  sales: ReconciliationSale[] | undefined;
+}
+
+const formatCurrency = (value: number) => {
+  const sign = value < 0 ? '-' : '';
+  const abs = Math.abs(value);
+  if (abs >= 1000000) return `${sign}$${(abs / 1000000).toFixed(2)}M`;
+  if (abs >= 1000) return `${sign}$${(abs / 1000).toFixed(1)}K`;
+  return `${sign}$${abs.toFixed(2)}`;
+};
+
+const varianceClass = (value: number) =>
+  value > 0 ? 'text-destructive' : value < 0 ? 'text-warning' : 'text-muted-foreground';
+
+const feeLabel = (type: ReconciledFeeType) => RECONCILED_FEES.find(f => f.type === type)?.label || type;
+
+export function FeeReconciliation({ sales }: FeeReconciliationProps) {
+  const { data: rateCardVersions } = useRateCards();
+  const { data: feeRuleSets } = useFeeRules();
+  const [feeType, setFeeType] = useState<ReconciledFeeType | 'all'>('all');
+  const [dimension, setDimension] = useState<ReconciliationDimension>('program');
+  const [selectedGroup, setSelectedGroup] = useState<string | null>(null);
+  const [direction, setDirection] = useState<'over' | 'under'>('over');
+  const [detailTrgid, setDetailTrgid] = useState<string | null>(null);
+
+  // Wait for published cards and rules so units are priced by the version in force when they sold
+  const allLines = useMemo(
+    () => (rateCardVersions && feeRuleSets && sales ? buildReconciliationLines(sales) : []),
+    [sales, rateCardVersions, feeRuleSets]
+  );
+
+  const lines = feeType === 'all' ? allLines : allLines.filter(l => l.feeType === feeType);
+  const groups = summarizeVariance(lines, dimension);
+  const drillLines = selectedGroup ? filterLinesByDimension(lines, dimension, selectedGroup) : lines;
+  const topLines = topVarianceLines(drillLines, direction, DRILL_DOWN_LIMIT);
+
+  const totals = groups.reduce(
+    (acc, g) => ({
+      invoiced: acc.invoiced + g.invoiced,
+      calculated: acc.calculated + g.calculated,
+      overBilled: acc.overBilled + g.overBilled,
+      underBilled: acc.underBilled + g.underBilled,
+      mismatched: acc.mismatched + g.mismatched,
+    }),
+    { invoiced: 0, calculated: 0, overBilled: 0, underBilled: 0, mismatched: 0 }
+  );
+
+  const handleDimensionChange = (value: string) => {
+    setDimension(value as ReconciliationDimension);
+    setSelectedGroup(null);
+  };
+
+  return (
+    <div className="bg-card rounded-lg border p-6 space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold flex items-center gap-2">
+            <Scale className="h-5 w-5 text-muted-foreground" />
+            Invoiced vs Calculated Reconciliation
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            Every invoiced Check-In, Refurb and PPS fee compared against the rate card in force when the unit sold.
+            Positive variance = billed above the card.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={feeType} onValueChange={(v) => { setFeeType(v as ReconciledFeeType | 'all'); setSelectedGroup(null); }}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Fees</SelectItem>
+              {RECONCILED_FEES.map(fee => (
+                <SelectItem key={fee.type} value={fee.type}>{fee.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={dimension} onValueChange={handleDimensionChange}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RECONCILIATION_DIMENSIONS.map(d => (
+                <SelectItem key={d.id} value={d.id}>By {d.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-4">
+        <div className="p-4 bg-muted/50 rounded-lg">
+          <p className="text-sm text-muted-foreground">Invoiced</p>
+          <p className="text-2xl font-bold">{formatCurrency(totals.invoiced)}</p>
+        </div>
+        <div className="p-4 bg-muted/50 rounded-lg">
+          <p className="text-sm text-muted-foreground">Calculated</p>
+          <p className="text-2xl font-bold">{formatCurrency(totals.calculated)}</p>
+        </div>
+        <div className="p-4 bg-muted/50 rounded-lg">
+          <p className="text-sm text-muted-foreground">Over / Under Billed</p>
+          <p className="text-2xl font-bold">
+            <span className="text-destructive">{formatCurrency(totals.overBilled)}</span>
+            {' / '}
+            <span className="text-warning">{formatCurrency(totals.underBilled)}</span>
+          </p>
+        </div>
+        <div className="p-4 bg-muted/50 rounded-lg">
+          <p className="text-sm text-muted-foreground">Mismatched Fees</p>
+          <p className="text-2xl font-bold">
+            {totals.mismatched.toLocaleString()}
+            <span className="text-sm font-normal text-muted-foreground"> of {lines.length.toLocaleString()}</span>
+          </p>
+        </div>
+      </div>
+
+      {groups.length > 0 ? (
+        <div className="overflow-x-auto max-h-[400px] overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left py-3 px-4 font-medium text-muted-foreground">
+                  {RECONCILIATION_DIMENSIONS.find(d => d.id === dimension)?.label}
+                </th>
+                <th className="text-right py-3 px-4 font-medium text-muted-foreground">Fees</th>
+                <th className="text-right py-3 px-4 font-medium text-muted-foreground">Mismatched</th>
+                <th className="text-right py-3 px-4 font-medium text-muted-foreground">Invoiced</th>
+                <th className="text-right py-3 px-4 font-medium text-muted-foreground">Calculated</th>
+                <th className="text-right py-3 px-4 font-medium text-muted-foreground">Variance</th>
+                <th className="text-right py-3 px-4 font-medium text-muted-foreground">Variance %</th>
+              </tr>
+            </thead>
+            <tbody>
+              {groups.map(group => (
+                <tr
+                  key={group.key}
+                  onClick={() => setSelectedGroup(group.key === selectedGroup ? null : group.key)}
+                  className={cn(
+                    'border-b last:border-0 cursor-pointer hover:bg-muted/50',
+                    group.key === selectedGroup && 'bg-muted'
+                  )}
+                >
+                  <td className="py-3 px-4 font-medium">{group.key}</td>
+                  <td className="py-3 px-4 text-right">{group.lines.toLocaleString()}</td>
+                  <td className="py-3 px-4 text-right">{group.mismatched.toLocaleString()}</td>
+                  <td className="py-3 px-4 text-right font-mono">{formatCurrency(group.invoiced)}</td>
+                  <td className="py-3 px-4 text-right font-mono">{formatCurrency(group.calculated)}</td>
+                  <td className={cn('py-3 px-4 text-right font-mono', varianceClass(group.variance))}>
+                    {formatCurrency(group.variance)}
+                  </td>
+                  <td className="py-3 px-4 text-right text-muted-foreground">
+                    {group.calculated > 0 ? `${((group.variance / group.calculated) * 100).toFixed(1)}%` : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="h-[120px] flex items-center justify-center text-muted-foreground">
+          {rateCardVersions && feeRuleSets ? 'No invoiced fees to reconcile' : 'Loading rate cards...'}
+        </div>
+      )}
+
+      {/* Drill-down */}
+      {lines.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h4 className="font-medium">
+              Biggest {direction === 'over' ? 'Over-Billed' : 'Under-Billed'} Units
+              {selectedGroup && <span className="text-muted-foreground font-normal"> in {selectedGroup}</span>}
+            </h4>
+            <div className="flex gap-2">
+              {selectedGroup && (
+                <Button variant="ghost" size="sm" onClick={() => setSelectedGroup(null)}>
+                  <X className="h-4 w-4 mr-1" />
+                  Clear
+                </Button>
+              )}
+              <Button variant={direction === 'over' ? 'default' : 'outline'} size="sm" onClick={() => setDirection('over')}>
+                <ArrowUpRight className="h-4 w-4 mr-1" />
+                Over
+              </Button>
+              <Button variant={direction === 'under' ? 'default' : 'outline'} size="sm" onClick={() => setDirection('under')}>
+                <ArrowDownRight className="h-4 w-4 mr-1" />
+                Under
+              </Button>
+            </div>
+          </div>
+
+          {topLines.length > 0 ? (
+            <div className="overflow-x-auto max-h-[400px] overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-3 px-4 font-medium text-muted-foreground">TRGID</th>
+                    <th className="text-left py-3 px-4 font-medium text-muted-foreground">Fee</th>
+                    <th className="text-left py-3 px-4 font-medium text-muted-foreground">Program</th>
+                    <th className="text-left py-3 px-4 font-medium text-muted-foreground">Category</th>
+                    <th className="text-left py-3 px-4 font-medium text-muted-foreground">Facility</th>
+                    <th className="text-right py-3 px-4 font-medium text-muted-foreground">Week</th>
+                    <th className="text-right py-3 px-4 font-medium text-muted-foreground">Invoiced</th>
+                    <th className="text-right py-3 px-4 font-medium text-muted-foreground">Calculated</th>
+                    <th className="text-right py-3 px-4 font-medium text-muted-foreground">Variance</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {topLines.map(line => (
+                    <tr
+                      key={`${line.trgid}-${line.feeType}`}
+                      onClick={() => setDetailTrgid(line.trgid)}
+                      className="border-b last:border-0 cursor-pointer hover:bg-muted/50"
+                    >
+                      <td className="py-2 px-4 font-mono text-xs">{line.trgid}</td>
+                      <td className="py-2 px-4">{feeLabel(line.feeType)}</td>
+                      <td className="py-2 px-4">{line.program}</td>
+                      <td className="py-2 px-4">{line.category}</td>
+                      <td className="py-2 px-4">{line.facility}</td>
+                      <td className="py-2 px-4 text-right">{line.wmWeek ?? '—'}</td>
+                      <td className="py-2 px-4 text-right font-mono">${line.invoiced.toFixed(2)}</td>
+                      <td className="py-2 px-4 text-right font-mono">${line.calculated.toFixed(2)}</td>
+                      <td className={cn('py-2 px-4 text-right font-mono', varianceClass(line.variance))}>
+                        {formatCurrency(line.variance)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              No {direction === 'over' ? 'over' : 'under'}-billed units{selectedGroup ? ' in this group' : ''}
+            </p>
+          )}
+        </div>
+      )}
+
+      <UnitDetailPanel trgid={detailTrgid} onClose={() => setDetailTrgid(null)} />
+    </div>
+  );
+}
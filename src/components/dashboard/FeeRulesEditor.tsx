@@ -0,0 +1,323 @@
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { ListChecks, Plus, Trash2, Upload, Loader2, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useFeeRules, publishFeeRuleSet } from '@/hooks/useFeeRules';
+import { useRepriceSaleFees } from '@/hooks/useSaleFees';
+import {
+  FeeFlag,
+  FeeRuleField,
+  FeeRuleOperator,
+  FeeRuleSet,
+  FeeEligibilityRule,
+  FeeRuleInput,
+  FEE_FLAGS,
+  FEE_FLAG_LABELS,
+  FEE_RULE_FIELDS,
+  FEE_RULE_FIELD_LABELS,
+  FEE_RULE_OPERATORS,
+  BUNDLED_FEE_RULE_SET,
+  explainFeeFlags,
+  getActiveFeeRuleSet,
+} from '@/lib/feeRules';
+import { DEFAULT_CLIENT } from '@/lib/clients';
+
+const EMPTY_SAMPLE: FeeRuleInput = {
+  marketplace: '',
+  program: '',
+  facility: '',
+  sortingIndex: '',
+  clientSource: DEFAULT_CLIENT,
+};
+
+const newRule = (): FeeEligibilityRule => ({
+  id: `rule-${crypto.randomUUID().slice(0, 8)}`,
+  flag: 'b2c',
+  value: false,
+  description: '',
+  conditions: [{ field: 'marketplace', operator: 'contains', value: '' }],
+});
+
+export function FeeRulesEditor() {
+  const queryClient = useQueryClient();
+  const repriceSaleFees = useRepriceSaleFees();
+  const { data: versions, isLoading } = useFeeRules();
+  const [draft, setDraft] = useState<Pick<FeeRuleSet, 'defaults' | 'rules'>>(BUNDLED_FEE_RULE_SET);
+  const [notes, setNotes] = useState('');
+  const [sample, setSample] = useState<FeeRuleInput>(EMPTY_SAMPLE);
+  const [isPublishing, setIsPublishing] = useState(false);
+
+  const active = getActiveFeeRuleSet();
+
+  // Start editing from whatever is active once versions load
+  useEffect(() => {
+    if (versions) setDraft(getActiveFeeRuleSet());
+  }, [versions]);
+
+  const { flags, matched } = explainFeeFlags(sample, { ...active, ...draft });
+
+  const updateRule = (index: number, changes: Partial<FeeEligibilityRule>) => {
+    setDraft(prev => ({ ...prev, rules: prev.rules.map((r, i) => (i === index ? { ...r, ...changes } : r)) }));
+  };
+
+  const updateCondition = (index: number, changes: Partial<FeeEligibilityRule['conditions'][number]>) => {
+    setDraft(prev => ({
+      ...prev,
+      rules: prev.rules.map((r, i) => (i === index ? { ...r, conditions: [{ ...r.conditions[0], ...changes }] } : r)),
+    }));
+  };
+
+  const handlePublish = async () => {
+    const invalid = draft.rules.find(r => !r.id.trim() || r.conditions.some(c => c.operator !== 'isBlank' && !c.value.trim()));
+    if (invalid) {
+      toast.error(`Rule "${invalid.id || '(no id)'}" needs a match value`);
+      return;
+    }
+
+    setIsPublishing(true);
+    try {
+      await publishFeeRuleSet(draft, notes.trim() || undefined);
+      toast.success('Fee rules published');
+      setNotes('');
+      await queryClient.invalidateQueries({ queryKey: ['fee-rules'] });
+      await repriceSaleFees();
+    } catch (error) {
+      console.error('Publish fee rules error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to publish fee rules');
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  return (
+    <div className="bg-card rounded-lg border p-6 space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold flex items-center gap-2">
+            <ListChecks className="h-5 w-5 text-muted-foreground" />
+            Fee Eligibility Rules
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            Decide which sales count as B2C, dropship, excluded, SAMS or vendor pallet. Each flag starts at its
+            default and the first matching rule sets it. Matching is case-insensitive.
+          </p>
+        </div>
+        <Badge variant="outline" className="text-xs">
+          {isLoading ? 'Loading...' : active.version ? `Active: v${active.version}` : 'Active: bundled'}
+        </Badge>
+      </div>
+
+      {/* Defaults */}
+      <div className="flex flex-wrap gap-6">
+        {FEE_FLAGS.map(flag => (
+          <div key={flag} className="flex items-center gap-2">
+            <Switch
+              id={`default-${flag}`}
+              checked={draft.defaults[flag]}
+              onCheckedChange={(checked) => setDraft(prev => ({ ...prev, defaults: { ...prev.defaults, [flag]: checked } }))}
+            />
+            <Label htmlFor={`default-${flag}`} className="text-sm">{FEE_FLAG_LABELS[flag]} by default</Label>
+          </div>
+        ))}
+      </div>
+
+      {/* Rules */}
+      <div className="overflow-x-auto max-h-[420px] overflow-y-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b">
+              <th className="text-left py-2 px-2 font-medium text-muted-foreground">Flag</th>
+              <th className="text-left py-2 px-2 font-medium text-muted-foreground">Sets To</th>
+              <th className="text-left py-2 px-2 font-medium text-muted-foreground">When</th>
+              <th className="text-left py-2 px-2 font-medium text-muted-foreground">Operator</th>
+              <th className="text-left py-2 px-2 font-medium text-muted-foreground">Value</th>
+              <th className="text-left py-2 px-2 font-medium text-muted-foreground">Description</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {draft.rules.map((feeRule, index) => {
+              const condition = feeRule.conditions[0];
+              const fired = matched.find(m => m.rule.id === feeRule.id);
+              return (
+                <tr
+                  key={`${feeRule.id}-${index}`}
+                  className={cn('border-b last:border-0', fired?.decided && 'bg-success/10', fired && !fired.decided && 'bg-muted/50')}
+                >
+                  <td className="py-1 px-2">
+                    <Select value={feeRule.flag} onValueChange={(v) => updateRule(index, { flag: v as FeeFlag })}>
+                      <SelectTrigger className="h-8 w-[150px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {FEE_FLAGS.map(flag => (
+                          <SelectItem key={flag} value={flag}>{FEE_FLAG_LABELS[flag]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </td>
+                  <td className="py-1 px-2">
+                    <Select value={String(feeRule.value)} onValueChange={(v) => updateRule(index, { value: v === 'true' })}>
+                      <SelectTrigger className="h-8 w-[80px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="true">Yes</SelectItem>
+                        <SelectItem value="false">No</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </td>
+                  <td className="py-1 px-2">
+                    <Select value={condition.field} onValueChange={(v) => updateCondition(index, { field: v as FeeRuleField })}>
+                      <SelectTrigger className="h-8 w-[140px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {FEE_RULE_FIELDS.map(field => (
+                          <SelectItem key={field} value={field}>{FEE_RULE_FIELD_LABELS[field]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </td>
+                  <td className="py-1 px-2">
+                    <Select value={condition.operator} onValueChange={(v) => updateCondition(index, { operator: v as FeeRuleOperator })}>
+                      <SelectTrigger className="h-8 w-[120px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {FEE_RULE_OPERATORS.map(op => (
+                          <SelectItem key={op} value={op}>{op}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </td>
+                  <td className="py-1 px-2">
+                    <Input
+                      className="h-8 w-[150px]"
+                      value={condition.value}
+                      disabled={condition.operator === 'isBlank'}
+                      onChange={(e) => updateCondition(index, { value: e.target.value })}
+                    />
+                  </td>
+                  <td className="py-1 px-2">
+                    <Input
+                      className="h-8 w-[180px]"
+                      value={feeRule.description}
+                      onChange={(e) => updateRule(index, { description: e.target.value })}
+                    />
+                  </td>
+                  <td className="py-1 px-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setDraft(prev => ({ ...prev, rules: prev.rules.filter((_, i) => i !== index) }))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" size="sm" onClick={() => setDraft(prev => ({ ...prev, rules: [...prev.rules, newRule()] }))}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Rule
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => setDraft(active)}>
+          <RotateCcw className="h-4 w-4 mr-1" />
+          Discard Changes
+        </Button>
+        <Input
+          className="h-9 w-[260px] ml-auto"
+          placeholder="Notes for this version"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+        />
+        <Button size="sm" onClick={handlePublish} disabled={isPublishing}>
+          {isPublishing ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Upload className="h-4 w-4 mr-1" />}
+          Publish Rules
+        </Button>
+      </div>
+
+      {/* Sample sale tester */}
+      <div className="border-t pt-4 space-y-3">
+        <h4 className="font-medium">Test a Sample Sale</h4>
+        <div className="grid gap-3 md:grid-cols-5">
+          {FEE_RULE_FIELDS.map(field => (
+            <div key={field} className="space-y-1">
+              <Label className="text-xs">{FEE_RULE_FIELD_LABELS[field]}</Label>
+              <Input
+                className="h-8"
+                value={sample[field] || ''}
+                onChange={(e) => setSample(prev => ({ ...prev, [field]: e.target.value }))}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {FEE_FLAGS.map(flag => (
+            <Badge
+              key={flag}
+              variant="outline"
+              className={cn('text-xs', flags[flag] ? 'bg-warning/10 text-warning border-warning/20' : 'text-muted-foreground')}
+            >
+              {FEE_FLAG_LABELS[flag]}: {flags[flag] ? 'yes' : 'no'}
+            </Badge>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {matched.length > 0
+            ? `Rules fired: ${matched.map(m => `${m.rule.id}${m.decided ? '' : ' (shadowed)'}`).join(', ')}`
+            : 'No rules fired - every flag at its default'}
+        </p>
+      </div>
+
+      {/* Version history */}
+      {versions && versions.length > 0 && (
+        <div className="border-t pt-4">
+          <h4 className="font-medium mb-2">Published Versions</h4>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left py-2 px-2 font-medium text-muted-foreground">Version</th>
+                <th className="text-left py-2 px-2 font-medium text-muted-foreground">Published</th>
+                <th className="text-right py-2 px-2 font-medium text-muted-foreground">Rules</th>
+                <th className="text-left py-2 px-2 font-medium text-muted-foreground">Notes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {versions.map(ruleSet => (
+                <tr key={ruleSet.id} className="border-b last:border-0">
+                  <td className="py-2 px-2">
+                    v{ruleSet.version}
+                    {ruleSet.id === active.id && (
+                      <Badge variant="outline" className="ml-2 text-xs bg-success/10 text-success border-success/20">
+                        Active
+                      </Badge>
+                    )}
+                  </td>
+                  <td className="py-2 px-2 text-muted-foreground">
+                    {ruleSet.publishedAt ? new Date(ruleSet.publishedAt).toLocaleString() : '—'}
+                  </td>
+                  <td className="py-2 px-2 text-right">{ruleSet.rules.length}</td>
+                  <td className="py-2 px-2 text-muted-foreground">{ruleSet.notes || '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+import { useState } from 'react';
+import { FlaskConical, Plus, Trash2, Play, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useRateCards } from '@/hooks/useRateCards';
+import { useFeeRules } from '@/hooks/useFeeRules';
+import { SaleRecord } from '@/lib/feeCalculator';
+import { RATE_CARD_TYPES, RATE_CARD_LABELS, RateCardType } from '@/lib/rateCards';
+import {
+  RateOverride,
+  RateOverrideMode,
+  ScenarioComparison,
+  ScenarioDeltaRow,
+  compareScenario,
+  countOverrideMatches,
+} from '@/lib/feeScenario';
+
+const MAX_GROUP_ROWS = 15;
+
+interface FeeScenarioSimulatorProps {
+  sales: SaleRecord[] | undefined;
+}
+
+const formatCurrency = (value: number) => {
+  const sign = value < 0 ? '-' : '';
+  const abs = Math.abs(value);
+  if (abs >= 1000000) return `${sign}$${(abs / 1000000).toFixed(2)}M`;
+  if (abs >= 1000) return `${sign}$${(abs / 1000).toFixed(1)}K`;
+  return `${sign}$${abs.toFixed(2)}`;
+};
+
+// Fees going down is good for net dollars
+const deltaClass = (value: number) =>
+  value < 0 ? 'text-success' : value > 0 ? 'text-destructive' : 'text-muted-foreground';
+
+const newOverride = (): RateOverride => ({
+  id: crypto.randomUUID(),
+  cardType: 'PPS',
+  category: '',
+  program: '',
+  condition: '',
+  mode: 'adjust',
+  value: 0,
+});
+
+function DeltaTable({ title, rows }: { title: string; rows: ScenarioDeltaRow[] }) {
+  return (
+    <div>
+      <h4 className="font-medium mb-2">{title}</h4>
+      {rows.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left py-2 px-3 font-medium text-muted-foreground">{title.replace('By ', '')}</th>
+                <th className="text-right py-2 px-3 font-medium text-muted-foreground">Units</th>
+                <th className="text-right py-2 px-3 font-medium text-muted-foreground">Baseline</th>
+                <th className="text-right py-2 px-3 font-medium text-muted-foreground">Scenario</th>
+                <th className="text-right py-2 px-3 font-medium text-muted-foreground">Delta</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.slice(0, MAX_GROUP_ROWS).map(row => (
+                <tr key={row.key} className="border-b last:border-0">
+                  <td className="py-2 px-3">{row.key}</td>
+                  <td className="py-2 px-3 text-right">{row.units.toLocaleString()}</td>
+                  <td className="py-2 px-3 text-right font-mono">{formatCurrency(row.baselineFees)}</td>
+                  <td className="py-2 px-3 text-right font-mono">{formatCurrency(row.scenarioFees)}</td>
+                  <td className={cn('py-2 px-3 text-right font-mono', deltaClass(row.delta))}>
+                    {row.delta > 0 ? '+' : ''}{formatCurrency(row.delta)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {rows.length > MAX_GROUP_ROWS && (
+            <p className="text-xs text-muted-foreground mt-1">Top {MAX_GROUP_ROWS} of {rows.length}</p>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">No change</p>
+      )}
+    </div>
+  );
+}
+
+export function FeeScenarioSimulator({ sales }: FeeScenarioSimulatorProps) {
+  const { data: rateCardVersions } = useRateCards();
+  const { data: feeRuleSets } = useFeeRules();
+  const [overrides, setOverrides] = useState<RateOverride[]>([newOverride()]);
+  const [result, setResult] = useState<ScenarioComparison | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const updateOverride = (id: string, changes: Partial<RateOverride>) => {
+    setOverrides(prev => prev.map(o => (o.id === id ? { ...o, ...changes } : o)));
+  };
+
+  const runScenario = () => {
+    if (!sales) return;
+    setIsRunning(true);
+    // Let the spinner paint before the (synchronous) recompute
+    setTimeout(() => {
+      setResult(compareScenario(sales, overrides));
+      setIsRunning(false);
+    }, 0);
+  };
+
+  const canRun = !!sales && sales.length > 0 && !!rateCardVersions && !!feeRuleSets && overrides.length > 0 && !isRunning;
+
+  return (
+    <div className="bg-card rounded-lg border p-6 space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <FlaskConical className="h-5 w-5 text-muted-foreground" />
+          Fee What-If Simulator
+        </h3>
+        <p className="text-sm text-muted-foreground">
+          Override rate card entries and reprice the filtered sales. Category and program match by prefix;
+          refurb % of retail values are whole percents.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        {overrides.map(override => (
+          <div key={override.id} className="flex flex-wrap items-center gap-2">
+            <Select value={override.cardType} onValueChange={(v) => updateOverride(override.id, { cardType: v as RateCardType })}>
+              <SelectTrigger className="w-[170px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RATE_CARD_TYPES.map(type => (
+                  <SelectItem key={type} value={type}>{RATE_CARD_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              className="w-[200px]"
+              placeholder="Category (any)"
+              value={override.category}
+              onChange={(e) => updateOverride(override.id, { category: e.target.value })}
+            />
+            <Input
+              className="w-[160px]"
+              placeholder="Program (any)"
+              value={override.program}
+              onChange={(e) => updateOverride(override.id, { program: e.target.value })}
+            />
+            {override.cardType === 'RefurbFee' && (
+              <Input
+                className="w-[130px]"
+                placeholder="Condition (any)"
+                value={override.condition}
+                onChange={(e) => updateOverride(override.id, { condition: e.target.value })}
+              />
+            )}
+            <Select value={override.mode} onValueChange={(v) => updateOverride(override.id, { mode: v as RateOverrideMode })}>
+              <SelectTrigger className="w-[120px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="adjust">Adjust by</SelectItem>
+                <SelectItem value="set">Set to</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              className="w-[100px]"
+              type="number"
+              step="0.01"
+              value={Number.isFinite(override.value) ? override.value : ''}
+              onChange={(e) => updateOverride(override.id, { value: parseFloat(e.target.value) })}
+            />
+            <span className="text-xs text-muted-foreground">
+              {rateCardVersions ? `${countOverrideMatches(override).toLocaleString()} rates` : ''}
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setOverrides(prev => prev.filter(o => o.id !== override.id))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => setOverrides(prev => [...prev, newOverride()])}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Override
+          </Button>
+          <Button size="sm" onClick={runScenario} disabled={!canRun}>
+            {isRunning ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Play className="h-4 w-4 mr-1" />}
+            Run Scenario
+          </Button>
+        </div>
+      </div>
+
+      {result && (
+        <div className="space-y-6">
+          <div className="grid gap-4 md:grid-cols-4">
+            <div className="p-4 bg-muted/50 rounded-lg">
+              <p className="text-sm text-muted-foreground">Baseline Fees</p>
+              <p className="text-2xl font-bold">{formatCurrency(result.baseline.totalFees)}</p>
+            </div>
+            <div className="p-4 bg-muted/50 rounded-lg">
+              <p className="text-sm text-muted-foreground">Scenario Fees</p>
+              <p className="text-2xl font-bold">{formatCurrency(result.scenario.totalFees)}</p>
+              <p className={cn('text-sm', deltaClass(result.scenario.totalFees - result.baseline.totalFees))}>
+                {formatCurrency(result.scenario.totalFees - result.baseline.totalFees)}
+              </p>
+            </div>
+            <div className="p-4 bg-muted/50 rounded-lg">
+              <p className="text-sm text-muted-foreground">Net Dollars (Baseline → Scenario)</p>
+              <p className="text-2xl font-bold">{formatCurrency(result.scenario.netDollars)}</p>
+              <p className="text-sm text-muted-foreground">
+                from {formatCurrency(result.baseline.netDollars)} (
+                {formatCurrency(result.scenario.netDollars - result.baseline.netDollars)})
+              </p>
+            </div>
+            <div className="p-4 bg-muted/50 rounded-lg">
+              <p className="text-sm text-muted-foreground">Units Repriced</p>
+              <p className="text-2xl font-bold">{result.unitsChanged.toLocaleString()}</p>
+              <p className="text-sm text-muted-foreground">of {(sales?.length || 0).toLocaleString()} filtered sales</p>
+            </div>
+          </div>
+
+          <DeltaTable title="By Fee Type" rows={result.byFeeType} />
+          <div className="grid gap-6 lg:grid-cols-2">
+            <DeltaTable title="By Program" rows={result.byProgram} />
+            <DeltaTable title="By Category" rows={result.byCategory} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
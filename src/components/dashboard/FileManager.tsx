@@ -1,13 +1,19 @@
 import { useState, useRef } from 'react';
 import { format } from 'date-fns';
-import { FileSpreadsheet, CheckCircle, XCircle, Eye, EyeOff, Trash2, RefreshCw, Upload } from 'lucide-react';
+import { FileSpreadsheet, CheckCircle, XCircle, Eye, EyeOff, Trash2, RefreshCw, Upload, PlayCircle, FileWarning } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { useFilters } from '@/contexts/FilterContext';
-import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { useFileUpload } from '@/hooks/useFileUpload';
+import { needsServerUpload, useFileUpload } from '@/hooks/useFileUpload';
+import { deleteFileUpload, formatDeletedRows } from '@/hooks/useFileDeletion';
+import { fetchRowIssues, readIssueSummary } from '@/hooks/useRowIssues';
+import { RowIssueSummary, rowIssuesToCSV } from '@/lib/rowIssues';
+import { FileTypeDialog } from '@/components/dashboard/FileTypeDialog';
+import { ColumnMappingDialog } from '@/components/dashboard/ColumnMappingDialog';
+import { UploadPreviewDialog } from '@/components/dashboard/UploadPreviewDialog';
+import { ResumeUploadControl } from '@/components/dashboard/ResumeUploadControl';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -28,6 +34,10 @@ interface FileUpload {
   upload_timestamp: string;
   row_count: number;
   processed: boolean;
+  upload_status: string;
+  total_batches: number | null;
+  issue_summary: unknown;
+  ingest_mode: string;
 }
 
 interface FileManagerProps {
@@ -36,6 +46,13 @@ interface FileManagerProps {
   className?: string;
 }
 
+// "Missing TRGID: 12, Unrecognized date: 340"
+const describeIssues = (summary: RowIssueSummary) =>
+  Object.entries(summary.byReason)
+    .sort(([, a], [, b]) => b - a)
+    .map(([reason, count]) => `${reason}: ${count.toLocaleString()}`)
+    .join('\n') + (summary.truncated ? '\nOnly the first 10,000 are kept for download' : '');
+
 const fileTypeColors: Record<string, string> = {
   Sales: 'bg-success/10 text-success border-success/20',
   Inbound: 'bg-info/10 text-info border-info/20',
@@ -47,32 +64,38 @@ const fileTypeColors: Record<string, string> = {
 export function FileManager({ uploads, onRefresh, className }: FileManagerProps) {
   const { excludeFile, includeFile, isFileExcluded } = useFilters();
   const { toast } = useToast();
-  const { uploadFile, isUploading, uploadProgress } = useFileUpload();
+  const {
+    uploadFile,
+    queueServerUpload,
+    isUploading,
+    uploadProgress,
+    fileTypeRequest,
+    resolveFileType,
+    columnMappingRequest,
+    resolveColumnMapping,
+    uploadPreview,
+    resolveUploadPreview,
+  } = useFileUpload();
   const [deletingId, setDeletingId] = useState<string | null>(null);
   const [replacingId, setReplacingId] = useState<string | null>(null);
+  const [downloadingIssuesId, setDownloadingIssuesId] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleDelete = async (fileId: string, fileName: string) => {
     setDeletingId(fileId);
     try {
-      // Delete from all related tables
-      await supabase.from('lifecycle_events').delete().eq('file_upload_id', fileId);
-      await supabase.from('sales_metrics').delete().eq('file_upload_id', fileId);
-      await supabase.from('fee_metrics').delete().eq('file_upload_id', fileId);
-      await supabase.from('units_canonical').delete().eq('file_upload_id', fileId);
-      
-      const { error } = await supabase.from('file_uploads').delete().eq('id', fileId);
-      if (error) throw error;
+      // One transaction: either the file and all its data go, or nothing does
+      const deleted = await deleteFileUpload(fileId);
 
       toast({
         title: 'File Deleted',
-        description: `${fileName} and all its data have been removed.`,
+        description: `${fileName} has been removed (${formatDeletedRows(deleted)}).`,
       });
       onRefresh();
     } catch (error) {
       toast({
         title: 'Delete Failed',
-        description: 'Could not delete the file. Please try again.',
+        description: error instanceof Error ? error.message : 'Could not delete the file. Please try again.',
         variant: 'destructive',
       });
     } finally {
@@ -98,21 +121,22 @@ export function FileManager({ uploads, onRefresh, className }: FileManagerProps)
     const fileToReplace = uploads.find(u => u.id === replacingId);
     
     try {
-      // First delete the old file's data
-      await supabase.from('lifecycle_events').delete().eq('file_upload_id', replacingId);
-      await supabase.from('sales_metrics').delete().eq('file_upload_id', replacingId);
-      await supabase.from('fee_metrics').delete().eq('file_upload_id', replacingId);
-      await supabase.from('units_canonical').delete().eq('file_upload_id', replacingId);
-      await supabase.from('file_uploads').delete().eq('id', replacingId);
-
-      // Upload the new file
-      const result = await uploadFile(file);
+      // Upload the new file; the old file and its data stay until every batch of the new one is in.
+      // A file too big for the browser is queued for the server, which swaps it in once loaded.
+      if (needsServerUpload(file)) {
+        const queued = await queueServerUpload(file, { replacesUploadId: replacingId });
+        if (queued.success) onRefresh();
+        return;
+      }
+      const result = await uploadFile(file, { replacesUploadId: replacingId });
       
       if (result.success) {
-        toast({
-          title: 'File Replaced',
-          description: `${fileToReplace?.file_name} has been replaced with ${file.name}`,
-        });
+        if (!result.incomplete) {
+          toast({
+            title: 'File Replaced',
+            description: `${fileToReplace?.file_name} has been replaced with ${file.name}${result.replaced ? ` (removed ${formatDeletedRows(result.replaced)})` : ''}`,
+          });
+        }
         onRefresh();
       }
     } catch (error) {
@@ -130,6 +154,27 @@ export function FileManager({ uploads, onRefresh, className }: FileManagerProps)
     }
   };
 
+  const handleDownloadIssues = async (fileId: string, fileName: string) => {
+    setDownloadingIssuesId(fileId);
+    try {
+      const issues = await fetchRowIssues(fileId);
+      const blob = new Blob([rowIssuesToCSV(issues)], { type: 'text/csv;charset=utf-8;' });
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = `${fileName.replace(/\.[^.]+$/, '')}_issues.csv`;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (error) {
+      toast({
+        title: 'Download Failed',
+        description: 'Could not load the issue log. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setDownloadingIssuesId(null);
+    }
+  };
+
   const toggleFileExclusion = (fileId: string, fileName: string) => {
     if (isFileExcluded(fileId)) {
       includeFile(fileId);
@@ -148,9 +193,14 @@ export function FileManager({ uploads, onRefresh, className }: FileManagerProps)
   };
 
   const excludedCount = uploads.filter(u => isFileExcluded(u.id)).length;
+  const filesWithIssues = uploads.filter(u => readIssueSummary(u.issue_summary)?.total).length;
 
   return (
     <div className={cn('bg-card rounded-lg border p-6', className)}>
+      <FileTypeDialog request={fileTypeRequest} onResolve={resolveFileType} />
+      <ColumnMappingDialog request={columnMappingRequest} onResolve={resolveColumnMapping} />
+      <UploadPreviewDialog preview={uploadPreview} onResolve={resolveUploadPreview} />
+
       {/* Hidden file input for replace functionality */}
       <input
         type="file"
@@ -165,6 +215,7 @@ export function FileManager({ uploads, onRefresh, className }: FileManagerProps)
           <h3 className="text-lg font-semibold">File Management</h3>
           <p className="text-sm text-muted-foreground">
             {uploads.length} files • {excludedCount > 0 && <span className="text-warning">{excludedCount} excluded</span>}
+            {filesWithIssues > 0 && <span className="text-warning"> {filesWithIssues} with row issues</span>}
           </p>
         </div>
       </div>
@@ -191,12 +242,14 @@ export function FileManager({ uploads, onRefresh, className }: FileManagerProps)
             const excluded = isFileExcluded(upload.id);
             const isDeleting = deletingId === upload.id;
             const isReplacing = replacingId === upload.id;
+            const issues = readIssueSummary(upload.issue_summary);
             
             return (
               <div
                 key={upload.id}
+                id={`upload-${upload.id}`}
                 className={cn(
-                  'flex items-center gap-3 p-3 rounded-lg transition-all',
+                  'flex items-center gap-3 p-3 rounded-lg transition-all scroll-mt-20 target:ring-2 target:ring-primary',
                   excluded ? 'bg-muted/30 opacity-60' : 'bg-muted/50',
                   (isDeleting || isReplacing) && 'opacity-50 pointer-events-none'
                 )}
@@ -224,11 +277,34 @@ export function FileManager({ uploads, onRefresh, className }: FileManagerProps)
                   {upload.file_type}
                 </Badge>
 
+                {issues && issues.total > 0 && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className={cn(
+                      'h-6 px-2 text-xs gap-1',
+                      issues.rejected > 0
+                        ? 'bg-destructive/10 text-destructive border-destructive/20 hover:text-destructive'
+                        : 'bg-warning/10 text-warning border-warning/20 hover:text-warning'
+                    )}
+                    onClick={() => handleDownloadIssues(upload.id, upload.file_name)}
+                    disabled={downloadingIssuesId === upload.id}
+                    title={`${describeIssues(issues)}\nClick to download the rows as CSV`}
+                  >
+                    <FileWarning className="h-3 w-3" />
+                    {issues.rejected > 0 && `${issues.rejected.toLocaleString()} rejected`}
+                    {issues.rejected > 0 && issues.warnings > 0 && ' · '}
+                    {issues.warnings > 0 && `${issues.warnings.toLocaleString()} warnings`}
+                  </Button>
+                )}
+
+                <ResumeUploadControl upload={upload} onResumed={onRefresh} />
+
                 {excluded ? (
                   <Badge variant="outline" className="text-xs bg-warning/10 text-warning border-warning/20">
                     Excluded
                   </Badge>
-                ) : (
+                ) : upload.upload_status === 'complete' && (
                   <CheckCircle className="h-4 w-4 text-success flex-shrink-0" />
                 )}
                 
@@ -300,7 +376,9 @@ export function FileManager({ uploads, onRefresh, className }: FileManagerProps)
       {/* File Management Info */}
       <div className="mt-4 p-3 bg-muted/50 rounded-lg text-xs text-muted-foreground space-y-1">
         <p><Eye className="h-3 w-3 inline mr-1" /><strong>Exclude/Include:</strong> Temporarily hide file from calculations (reversible)</p>
-        <p><RefreshCw className="h-3 w-3 inline mr-1" /><strong>Replace:</strong> Delete old data and upload corrected file</p>
+        <p><RefreshCw className="h-3 w-3 inline mr-1" /><strong>Replace:</strong> Upload a corrected file; the old data is removed once it has fully loaded</p>
+        <p><PlayCircle className="h-3 w-3 inline mr-1" /><strong>Resume:</strong> Pick the same file again to send only the batches an incomplete upload did not save</p>
+        <p><FileWarning className="h-3 w-3 inline mr-1" /><strong>Issues:</strong> Download the rows that were rejected or had unreadable values, to send back to the source system</p>
         <p><Trash2 className="h-3 w-3 inline mr-1" /><strong>Delete:</strong> Permanently remove file and all associated data</p>
       </div>
     </div>
@@ -0,0 +1,88 @@
+import { useEffect, useState } from 'react';
+import { FileQuestion } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { DETECTABLE_FILE_TYPES, DetectableFileType, FileTypeRequest } from '@/lib/fileTypeDetection';
+
+interface FileTypeDialogProps {
+  request: FileTypeRequest | null;
+  onResolve: (fileType: DetectableFileType | null) => void;
+}
+
+const HEADER_PREVIEW_COUNT = 12;
+
+// Upload step for files whose columns do not say what they are: the user picks the type
+export function FileTypeDialog({ request, onResolve }: FileTypeDialogProps) {
+  const [selected, setSelected] = useState<DetectableFileType | null>(null);
+
+  useEffect(() => {
+    setSelected(null);
+  }, [request]);
+
+  if (!request) return null;
+
+  const { detection } = request;
+  // Types the columns fit come first
+  const options = [
+    ...detection.candidates,
+    ...DETECTABLE_FILE_TYPES.filter(type => !detection.candidates.includes(type)),
+  ];
+  const fits = detection.candidates.length < DETECTABLE_FILE_TYPES.length ? new Set(detection.candidates) : new Set();
+  const headers = request.headers.filter(Boolean);
+
+  return (
+    <Dialog open onOpenChange={open => !open && onResolve(null)}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileQuestion className="h-5 w-5 text-muted-foreground" />
+            What Kind of File Is This?
+          </DialogTitle>
+          <DialogDescription>
+            The type of {request.fileName} could not be told from its columns. Pick it to continue; the type decides
+            which tables the rows are written to.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="list-disc list-inside text-sm text-muted-foreground space-y-1">
+          {detection.reasons.map(reason => <li key={reason}>{reason}</li>)}
+        </ul>
+
+        <p className="text-xs text-muted-foreground">
+          Columns:{' '}
+          {headers.length === 0
+            ? 'none'
+            : headers.slice(0, HEADER_PREVIEW_COUNT).join(', ') +
+              (headers.length > HEADER_PREVIEW_COUNT ? ` and ${headers.length - HEADER_PREVIEW_COUNT} more` : '')}
+        </p>
+
+        <RadioGroup value={selected ?? ''} onValueChange={value => setSelected(value as DetectableFileType)} className="grid grid-cols-2 gap-2">
+          {options.map(type => (
+            <div key={type} className="flex items-center gap-2 rounded-lg border p-3">
+              <RadioGroupItem value={type} id={`file-type-${type}`} />
+              <Label htmlFor={`file-type-${type}`} className="flex-1">{type}</Label>
+              {fits.has(type) && <Badge variant="outline" className="text-xs">Fits columns</Badge>}
+            </div>
+          ))}
+        </RadioGroup>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onResolve(null)}>Cancel Upload</Button>
+          <Button onClick={() => selected && onResolve(selected)} disabled={!selected}>
+            {selected ? `Upload as ${selected}` : 'Choose a Type'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,9 +1,15 @@
 import { useCallback, useState } from 'react';
 import { Upload, CheckCircle, AlertCircle, Loader2, Clock, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { useFileUpload } from '@/hooks/useFileUpload';
+import { BROWSER_UPLOAD_LIMIT_MB, needsServerUpload, useFileUpload } from '@/hooks/useFileUpload';
+import { SheetPickerDialog } from '@/components/dashboard/SheetPickerDialog';
+import { FileTypeDialog } from '@/components/dashboard/FileTypeDialog';
+import { ColumnMappingDialog } from '@/components/dashboard/ColumnMappingDialog';
+import { UploadPreviewDialog } from '@/components/dashboard/UploadPreviewDialog';
 import { Progress } from '@/components/ui/progress';
 import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { Database } from '@/integrations/supabase/types';
 
 type FileType = Database['public']['Enums']['file_type'];
@@ -30,7 +36,23 @@ function formatTimeRemaining(seconds: number): string {
 export function FileUploadZone({ onUploadComplete, className, defaultFileType, title = "Upload Files" }: FileUploadZoneProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [inputId] = useState(() => `file-input-${++uploadZoneCounter}-${defaultFileType || 'default'}`);
-  const { uploadFile, cancelUpload, isUploading, uploadProgress } = useFileUpload(defaultFileType);
+  // Send files as they are and let the ingest-upload function load them
+  const [serverSide, setServerSide] = useState(false);
+  const {
+    uploadFile,
+    queueServerUpload,
+    cancelUpload,
+    isUploading,
+    uploadProgress,
+    fileTypeRequest,
+    resolveFileType,
+    columnMappingRequest,
+    resolveColumnMapping,
+    sheetSelectionRequest,
+    resolveSheetSelection,
+    uploadPreview,
+    resolveUploadPreview,
+  } = useFileUpload(defaultFileType);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -52,22 +74,22 @@ export function FileUploadZone({ onUploadComplete, className, defaultFileType, t
     );
     
     for (const file of supportedFiles) {
-      await uploadFile(file);
+      await (serverSide || needsServerUpload(file) ? queueServerUpload(file) : uploadFile(file));
     }
     
     onUploadComplete?.();
-  }, [uploadFile, onUploadComplete]);
+  }, [serverSide, uploadFile, queueServerUpload, onUploadComplete]);
 
   const handleFileSelect = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
     
     for (const file of files) {
-      await uploadFile(file);
+      await (serverSide || needsServerUpload(file) ? queueServerUpload(file) : uploadFile(file));
     }
     
     e.target.value = '';
     onUploadComplete?.();
-  }, [uploadFile, onUploadComplete]);
+  }, [serverSide, uploadFile, queueServerUpload, onUploadComplete]);
 
   const getStatusIcon = () => {
     if (!uploadProgress) return <Upload className="h-8 w-8 text-muted-foreground" />;
@@ -84,6 +106,11 @@ export function FileUploadZone({ onUploadComplete, className, defaultFileType, t
 
   return (
     <div className={cn('bg-card rounded-lg border p-6', className)}>
+      <SheetPickerDialog request={sheetSelectionRequest} onResolve={resolveSheetSelection} />
+      <FileTypeDialog request={fileTypeRequest} onResolve={resolveFileType} />
+      <ColumnMappingDialog request={columnMappingRequest} onResolve={resolveColumnMapping} />
+      <UploadPreviewDialog preview={uploadPreview} onResolve={resolveUploadPreview} />
+
       <h3 className="text-lg font-semibold mb-4">{title}</h3>
       
       <div
@@ -113,6 +140,15 @@ export function FileUploadZone({ onUploadComplete, className, defaultFileType, t
           {uploadProgress ? (
             <div className="w-full max-w-xs space-y-2">
               <p className="text-sm font-medium">{uploadProgress.message}</p>
+              {uploadProgress.duplicateOf && (
+                <a
+                  href={`#upload-${uploadProgress.duplicateOf.id}`}
+                  onClick={(e) => e.stopPropagation()}
+                  className="block text-xs text-primary underline"
+                >
+                  View existing upload
+                </a>
+              )}
               <Progress value={uploadProgress.progress} className="h-2" />
               {uploadProgress.estimatedTimeRemaining !== undefined && uploadProgress.estimatedTimeRemaining > 0 && (
                 <div className="flex items-center justify-center gap-1 text-xs text-muted-foreground">
@@ -147,6 +183,16 @@ export function FileUploadZone({ onUploadComplete, className, defaultFileType, t
           )}
         </div>
       </div>
+
+      <div className="mt-4 flex items-start gap-3">
+        <Switch id={`${inputId}-server`} checked={serverSide} onCheckedChange={setServerSide} disabled={isUploading} />
+        <div>
+          <Label htmlFor={`${inputId}-server`} className="text-sm">Process on server</Label>
+          <p className="text-xs text-muted-foreground">
+            For files too large for the browser: the file is loaded by the server, so this tab can be closed. No preview before saving. Files over {BROWSER_UPLOAD_LIMIT_MB} MB always go this way.
+          </p>
+        </div>
+      </div>
       
       <div className="mt-4 text-xs text-muted-foreground">
         <p className="font-medium mb-1">Naming Convention:</p>
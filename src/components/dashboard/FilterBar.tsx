@@ -3,6 +3,7 @@ import { Button } from '@/components/ui/button';
 import { Calendar, RefreshCw } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { getWMWeekNumber, formatWMWeek, getWMWeekRange } from '@/lib/wmWeek';
+import { operationsNow } from '@/lib/operationsTime';
 
 interface FilterBarProps {
   wmWeek?: number;
@@ -29,7 +30,7 @@ export function FilterBar({
   onRefresh,
   className,
 }: FilterBarProps) {
-  const currentWeek = getWMWeekNumber(new Date());
+  const currentWeek = getWMWeekNumber(operationsNow());
   const weekOptions = Array.from({ length: 12 }, (_, i) => currentWeek - i).filter(w => w > 0);
 
   return (
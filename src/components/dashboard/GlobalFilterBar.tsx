@@ -3,6 +3,7 @@ import { RefreshCw, RotateCcw, Filter, ChevronDown, ChevronUp } from 'lucide-rea
 import { cn } from '@/lib/utils';
 import { useFilters } from '@/contexts/FilterContext';
 import { getWMWeekNumber, WM_DAY_NAMES } from '@/lib/wmWeek';
+import { operationsNow } from '@/lib/operationsTime';
 import { useState } from 'react';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { MultiSelect } from '@/components/ui/multi-select';
@@ -36,7 +37,7 @@ export function GlobalFilterBar({
 }: GlobalFilterBarProps) {
   const { filters, setFilter, resetFilters } = useFilters();
   const [isExpanded, setIsExpanded] = useState(false);
-  const currentWeek = getWMWeekNumber(new Date());
+  const currentWeek = getWMWeekNumber(operationsNow());
   const weekOptions = Array.from({ length: 52 }, (_, i) => ({
     value: (i + 1).toString(),
     label: `WK${(i + 1).toString().padStart(2, '0')}${i + 1 === currentWeek ? ' (Current)' : ''}`,
@@ -0,0 +1,85 @@
+import { useEffect, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Loader2, RotateCw, Server } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { isIngestJobActive, isIngestJobStalled, startIngestJob, useIngestJob } from '@/hooks/useIngestJobs';
+
+interface IngestJobControlProps {
+  uploadId: string;
+  fileName: string;
+  onFinished?: () => void;
+}
+
+// Status badge for a server-side upload, polled while its job runs, with Retry for failed or stalled jobs;
+// renders nothing once the job has succeeded
+export function IngestJobControl({ uploadId, fileName, onFinished }: IngestJobControlProps) {
+  const queryClient = useQueryClient();
+  const { data: job, refetch } = useIngestJob(uploadId);
+  const [isStarting, setIsStarting] = useState(false);
+  const wasActive = useRef(false);
+
+  // The file lists only change when the job ends, so refresh them then
+  const active = isIngestJobActive(job?.status);
+  useEffect(() => {
+    if (wasActive.current && !active) {
+      queryClient.invalidateQueries({ queryKey: ['file-uploads'] });
+      onFinished?.();
+    }
+    wasActive.current = active;
+  }, [active, queryClient, onFinished]);
+
+  if (!job || job.status === 'succeeded') return null;
+
+  const stalled = isIngestJobStalled(job);
+
+  const handleRetry = async () => {
+    setIsStarting(true);
+    try {
+      await startIngestJob(uploadId);
+      toast.success(`Server ingest of "${fileName}" started again`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not start the server ingest');
+    } finally {
+      setIsStarting(false);
+      refetch();
+    }
+  };
+
+  if (active && !stalled) {
+    return (
+      <Badge
+        variant="outline"
+        className="text-xs bg-info/10 text-info border-info/20 gap-1"
+        title="Processed by the server; the page can be closed"
+      >
+        <Loader2 className="h-3 w-3 animate-spin" />
+        {job.status === 'queued' ? 'Server · queued' : `Server · ${job.message ?? 'running'}`}
+      </Badge>
+    );
+  }
+
+  return (
+    <>
+      <Badge
+        variant="outline"
+        className="text-xs bg-destructive/10 text-destructive border-destructive/20 gap-1"
+        title={stalled ? 'The server job stopped reporting progress' : job.message ?? 'The server job failed'}
+      >
+        <Server className="h-3 w-3" />
+        {stalled ? 'Server job stalled' : 'Server job failed'}
+      </Badge>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 text-primary hover:text-primary"
+        onClick={handleRetry}
+        disabled={isStarting}
+        title="Retry on the server: only the batches not yet saved are sent"
+      >
+        {isStarting ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCw className="h-4 w-4" />}
+      </Button>
+    </>
+  );
+}
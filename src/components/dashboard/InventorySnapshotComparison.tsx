@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { ArrowRight, GitCompare } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TabName } from '@/contexts/FilterContext';
+import {
+  useInventoryChanges,
+  useInventoryComparison,
+  useInventorySnapshotDates,
+} from '@/hooks/useInventorySnapshots';
+import { INVENTORY_CHANGES, InventoryChange, formatSnapshotDate } from '@/lib/inventorySnapshots';
+
+interface InventorySnapshotComparisonProps {
+  tabName: TabName;
+}
+
+const DETAIL_LIMIT = 200; // get_inventory_snapshot_changes' default
+
+const place = (facility: string | null, location: string | null) =>
+  [facility, location].filter(Boolean).join(' / ') || '—';
+
+// Two snapshot dates side by side: which units arrived, disappeared, moved or changed stage
+export function InventorySnapshotComparison({ tabName }: InventorySnapshotComparisonProps) {
+  const { data: snapshotDates } = useInventorySnapshotDates(tabName);
+  const [pickedFrom, setPickedFrom] = useState<string | null>(null);
+  const [pickedTo, setPickedTo] = useState<string | null>(null);
+  const [change, setChange] = useState<InventoryChange>('arrived');
+
+  // Latest snapshot against the one before it until others are picked, or when the filters leave a picked date empty
+  const hasDate = (date: string | null) => !!date && !!snapshotDates?.some(entry => entry.snapshotDate === date);
+  const toDate = (hasDate(pickedTo) ? pickedTo : snapshotDates?.[0]?.snapshotDate) ?? null;
+  const fromDate = (hasDate(pickedFrom) ? pickedFrom : snapshotDates?.[1]?.snapshotDate) ?? null;
+  const { data: counts } = useInventoryComparison(fromDate, toDate, tabName);
+  const { data: units, isLoading } = useInventoryChanges(fromDate, toDate, change, tabName);
+
+  if (!snapshotDates || snapshotDates.length < 2) {
+    return (
+      <div className="bg-card rounded-lg border p-6">
+        <h3 className="text-lg font-semibold mb-2">Compare Snapshots</h3>
+        <p className="text-muted-foreground">Two inventory snapshots are needed to compare dates.</p>
+      </div>
+    );
+  }
+
+  const dateSelect = (value: string | null, onChange: (date: string) => void) => (
+    <Select value={value ?? undefined} onValueChange={onChange}>
+      <SelectTrigger className="w-[200px]">
+        <SelectValue placeholder="Snapshot date" />
+      </SelectTrigger>
+      <SelectContent>
+        {snapshotDates.map(({ snapshotDate }) => (
+          <SelectItem key={snapshotDate} value={snapshotDate}>
+            {formatSnapshotDate(snapshotDate)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const selectedCount = counts?.[change] ?? 0;
+
+  return (
+    <div className="bg-card rounded-lg border p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <GitCompare className="h-5 w-5 text-muted-foreground" />
+          Compare Snapshots
+        </h3>
+        <div className="flex items-center gap-2">
+          {dateSelect(fromDate, setPickedFrom)}
+          <ArrowRight className="h-4 w-4 text-muted-foreground" />
+          {dateSelect(toDate, setPickedTo)}
+        </div>
+      </div>
+
+      {fromDate && toDate && fromDate > toDate && (
+        <p className="text-sm text-warning">The first date is later than the second, so arrivals and disappearances are reversed.</p>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-5">
+        {INVENTORY_CHANGES.map(entry => (
+          <button
+            key={entry.change}
+            type="button"
+            onClick={() => setChange(entry.change)}
+            className={cn(
+              'p-4 rounded-lg text-left border transition-colors',
+              change === entry.change ? 'border-primary bg-primary/5' : 'bg-muted/50 border-transparent hover:border-border'
+            )}
+          >
+            <p className="text-sm text-muted-foreground">{entry.label}</p>
+            <p className="text-2xl font-bold">{(counts?.[entry.change] ?? 0).toLocaleString()}</p>
+            <p className="text-xs text-muted-foreground">{entry.description}</p>
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">
+          {INVENTORY_CHANGES.find(entry => entry.change === change)?.label} units
+          {selectedCount > DETAIL_LIMIT && ` (longest on hand ${DETAIL_LIMIT} of ${selectedCount.toLocaleString()})`}
+        </p>
+        <div className="overflow-x-auto border rounded-lg max-h-[400px] overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b bg-muted/50">
+                <th className="text-left font-medium p-2">TRGID</th>
+                <th className="text-left font-medium p-2">Program</th>
+                <th className="text-left font-medium p-2">Stage</th>
+                <th className="text-left font-medium p-2">Place</th>
+                <th className="text-right font-medium p-2">Days on hand</th>
+              </tr>
+            </thead>
+            <tbody>
+              {(units || []).map(unit => (
+                <tr key={unit.trgid} className="border-b last:border-0">
+                  <td className="p-2 font-mono text-xs">{unit.trgid}</td>
+                  <td className="p-2 truncate max-w-[160px]">{unit.program_name || '—'}</td>
+                  <td className="p-2">
+                    {unit.from_stage !== unit.to_stage && unit.from_stage && unit.to_stage
+                      ? `${unit.from_stage} → ${unit.to_stage}`
+                      : unit.to_stage ?? unit.from_stage ?? '—'}
+                  </td>
+                  <td className="p-2">
+                    {change === 'moved'
+                      ? `${place(unit.from_facility, unit.from_location)} → ${place(unit.to_facility, unit.to_location)}`
+                      : place(unit.to_facility ?? unit.from_facility, unit.to_location ?? unit.from_location)}
+                  </td>
+                  <td className="p-2 text-right">{unit.days_on_hand ?? '—'}</td>
+                </tr>
+              ))}
+              {!isLoading && (units || []).length === 0 && (
+                <tr>
+                  <td colSpan={5} className="p-4 text-center text-muted-foreground">No units</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import { useState } from 'react';
+import { Boxes, Clock, DollarSign, Hourglass } from 'lucide-react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer
+} from 'recharts';
+import { KPICard } from '@/components/dashboard/KPICard';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TabName } from '@/contexts/FilterContext';
+import { useInventorySnapshot, useInventorySnapshotDates } from '@/hooks/useInventorySnapshots';
+import { InventoryBreakdownRow, averageDaysOnHand, formatSnapshotDate } from '@/lib/inventorySnapshots';
+
+interface InventorySnapshotHistoryProps {
+  tabName: TabName;
+}
+
+const formatCurrency = (value: number) => {
+  if (value >= 1000000) return `$${(value / 1000000).toFixed(2)}M`;
+  if (value >= 1000) return `$${(value / 1000).toFixed(1)}K`;
+  return `$${value.toFixed(0)}`;
+};
+
+const formatDays = (days: number | null) => (days === null ? '—' : days.toFixed(1));
+
+function BreakdownTable({ title, rows }: { title: string; rows: InventoryBreakdownRow[] }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b">
+            <th className="text-left py-2 px-3 font-medium text-muted-foreground">{title}</th>
+            <th className="text-right py-2 px-3 font-medium text-muted-foreground">Units</th>
+            <th className="text-right py-2 px-3 font-medium text-muted-foreground">Avg days</th>
+            <th className="text-right py-2 px-3 font-medium text-muted-foreground">Retail</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.label} className="border-b last:border-0">
+              <td className="py-2 px-3 truncate max-w-[180px]">{row.label}</td>
+              <td className="py-2 px-3 text-right">{row.units.toLocaleString()}</td>
+              <td className="py-2 px-3 text-right">{formatDays(averageDaysOnHand(row))}</td>
+              <td className="py-2 px-3 text-right font-mono">{formatCurrency(row.retail)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// Work in progress as an Inventory file recorded it on a chosen day
+export function InventorySnapshotHistory({ tabName }: InventorySnapshotHistoryProps) {
+  const { data: snapshotDates } = useInventorySnapshotDates(tabName);
+  const [pickedDate, setPickedDate] = useState<string | null>(null);
+  // Latest snapshot until another is picked, or when the filters leave the picked date empty
+  const hasDate = (date: string | null) => !!date && !!snapshotDates?.some(entry => entry.snapshotDate === date);
+  const snapshotDate = (hasDate(pickedDate) ? pickedDate : snapshotDates?.[0]?.snapshotDate) ?? null;
+  const { data: snapshot, isLoading } = useInventorySnapshot(snapshotDate, tabName);
+
+  if (snapshotDates && snapshotDates.length === 0) {
+    return (
+      <div className="bg-card rounded-lg border p-6">
+        <h3 className="text-lg font-semibold mb-2">Inventory Snapshots</h3>
+        <p className="text-muted-foreground">
+          No inventory snapshots yet. Upload Inventory files (one per day) to see work in progress on any date.
+        </p>
+      </div>
+    );
+  }
+
+  const totals = snapshot?.totals;
+
+  return (
+    <div className="bg-card rounded-lg border p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold">Inventory Snapshot</h3>
+          <p className="text-sm text-muted-foreground">Work in progress as the Inventory file for the day recorded it</p>
+        </div>
+        <Select value={snapshotDate ?? undefined} onValueChange={setPickedDate}>
+          <SelectTrigger className="w-[240px]">
+            <SelectValue placeholder="Snapshot date" />
+          </SelectTrigger>
+          <SelectContent>
+            {(snapshotDates || []).map(({ snapshotDate: date, units }) => (
+              <SelectItem key={date} value={date}>
+                {formatSnapshotDate(date)} ({units.toLocaleString()})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-4">
+        <KPICard
+          title="On Hand"
+          value={isLoading || !totals ? '—' : totals.units.toLocaleString()}
+          subtitle="Units in the snapshot"
+          icon={<Boxes className="h-5 w-5" />}
+          variant="primary"
+        />
+        <KPICard
+          title="Avg Days on Hand"
+          value={formatDays(totals?.avgDaysOnHand ?? null)}
+          subtitle="Units with a known age"
+          icon={<Clock className="h-5 w-5" />}
+          variant="info"
+        />
+        <KPICard
+          title="Aged Over 90 Days"
+          value={(totals?.agedUnits ?? 0).toLocaleString()}
+          subtitle={totals && totals.units > 0 ? `${((totals.agedUnits / totals.units) * 100).toFixed(1)}% of on hand` : 'Of on hand'}
+          icon={<Hourglass className="h-5 w-5" />}
+          variant="warning"
+        />
+        <KPICard
+          title="Retail Value"
+          value={formatCurrency(totals?.retail ?? 0)}
+          subtitle="Effective retail on hand"
+          icon={<DollarSign className="h-5 w-5" />}
+          variant="success"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">By stage</p>
+        <div className="grid gap-4 md:grid-cols-4">
+          {(snapshot?.stages || []).map(row => (
+            <div key={row.label} className="p-4 bg-muted/50 rounded-lg">
+              <p className="text-sm text-muted-foreground">{row.label}</p>
+              <p className="text-2xl font-bold">{row.units.toLocaleString()}</p>
+              <p className="text-xs text-muted-foreground">avg {formatDays(averageDaysOnHand(row))} days on hand</p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Aging</p>
+          <div className="h-[260px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={snapshot?.aging || []} layout="vertical" margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-border" horizontal={false} />
+                <XAxis type="number" allowDecimals={false} tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }} />
+                <YAxis
+                  type="category"
+                  dataKey="label"
+                  width={90}
+                  tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--card))',
+                    border: '1px solid hsl(var(--border))',
+                    borderRadius: '8px',
+                  }}
+                  formatter={(value: number) => [value.toLocaleString(), 'Units']}
+                />
+                <Bar dataKey="units" fill="hsl(var(--warning))" radius={[0, 4, 4, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+        <div className="space-y-2">
+          <p className="text-sm font-medium">By facility</p>
+          <BreakdownTable title="Facility" rows={snapshot?.facilities || []} />
+        </div>
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Busiest locations</p>
+          <BreakdownTable title="Location" rows={snapshot?.locations || []} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend
+} from 'recharts';
+import { TabName } from '@/contexts/FilterContext';
+import { useInventoryTrend } from '@/hooks/useInventorySnapshots';
+import { InventoryTrendPoint, formatSnapshotDate } from '@/lib/inventorySnapshots';
+
+interface InventoryTrendChartProps {
+  tabName: TabName;
+}
+
+const STAGE_COLORS = [
+  'hsl(var(--primary))',
+  'hsl(var(--success))',
+  'hsl(var(--info))',
+  'hsl(var(--warning))',
+  'hsl(var(--destructive))',
+  'hsl(var(--muted-foreground))',
+];
+
+// On-hand inventory by WM week, from the last snapshot of each week
+export function InventoryTrendChart({ tabName }: InventoryTrendChartProps) {
+  const { data } = useInventoryTrend(tabName);
+  const points = data?.points || [];
+  const stages = data?.stages || [];
+
+  return (
+    <div className="bg-card rounded-lg border p-6">
+      <h3 className="text-lg font-semibold">On-Hand Inventory by Week</h3>
+      <p className="text-sm text-muted-foreground mb-6">Last snapshot of each WM week, last 26 weeks</p>
+
+      {points.length > 0 ? (
+        <div className="h-[320px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={points} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+              <XAxis dataKey="week" tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }} />
+              <YAxis allowDecimals={false} tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }} />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: 'hsl(var(--card))',
+                  border: '1px solid hsl(var(--border))',
+                  borderRadius: '8px',
+                }}
+                labelFormatter={(week, payload) => {
+                  const point = payload?.[0]?.payload as InventoryTrendPoint | undefined;
+                  return point ? `${week} (snapshot ${formatSnapshotDate(point.snapshotDate)})` : week;
+                }}
+                formatter={(value: number, name: string) => [value.toLocaleString(), name]}
+              />
+              <Legend />
+              <Line type="monotone" dataKey="total" name="Total on hand" stroke="hsl(var(--foreground))" strokeWidth={2} dot={false} />
+              {stages.map((stage, i) => (
+                <Line
+                  key={stage}
+                  type="monotone"
+                  dataKey={stage}
+                  stroke={STAGE_COLORS[i % STAGE_COLORS.length]}
+                  strokeWidth={1.5}
+                  dot={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <div className="h-[320px] flex items-center justify-center text-muted-foreground">
+          No inventory snapshots in the last 26 weeks.
+        </div>
+      )}
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ interface SalesRow {
   order_closed_date: string;
   tag_ebay_auction_sale?: boolean | null;
   b2c_auction?: string | null;
+  tag_clientsource?: string | null;
 }
 
 interface MonthlySalesPieChartProps {
@@ -66,6 +67,7 @@ export function MonthlySalesPieChart({ salesData, isLoading }: MonthlySalesPieCh
         marketplace_profile_sold_on: row.marketplace_profile_sold_on ?? null,
         tag_ebay_auction_sale: row.tag_ebay_auction_sale,
         b2c_auction: row.b2c_auction,
+        tag_clientsource: row.tag_clientsource ?? null,
       });
       channelTotals[marketplace] = (channelTotals[marketplace] || 0) + (row.gross_sale || 0);
     });
@@ -8,6 +8,7 @@ interface SalesRow {
   wm_week?: number | null;
   tag_ebay_auction_sale?: boolean | null;
   b2c_auction?: string | null;
+  tag_clientsource?: string | null;
 }
 
 interface MonthlySalesTableProps {
@@ -41,6 +42,7 @@ export function MonthlySalesTable({ salesData, isLoading }: MonthlySalesTablePro
         marketplace_profile_sold_on: row.marketplace_profile_sold_on ?? null,
         tag_ebay_auction_sale: row.tag_ebay_auction_sale,
         b2c_auction: row.b2c_auction,
+        tag_clientsource: row.tag_clientsource ?? null,
       });
       chSet.add(channel);
       if (!map[wk]) map[wk] = {};
@@ -0,0 +1,48 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { saveOperationsTimeZone, useOperationsTimeZone } from '@/hooks/useOperationsSettings';
+import { DEFAULT_OPERATIONS_TIME_ZONE, OPERATIONS_TIME_ZONES } from '@/lib/operationsTime';
+
+// Header picker for the operations time zone: the zone upload dates and WM weeks are read in
+export function OperationsTimeZoneSelect() {
+  const queryClient = useQueryClient();
+  const { data: timeZone = DEFAULT_OPERATIONS_TIME_ZONE } = useOperationsTimeZone();
+  const [isSaving, setIsSaving] = useState(false);
+
+  // A zone set outside the picker is still shown
+  const zones = OPERATIONS_TIME_ZONES.some(z => z.zone === timeZone)
+    ? OPERATIONS_TIME_ZONES
+    : [...OPERATIONS_TIME_ZONES, { zone: timeZone, label: timeZone }];
+
+  const handleChange = async (zone: string) => {
+    setIsSaving(true);
+    try {
+      await saveOperationsTimeZone(zone);
+      await queryClient.invalidateQueries({ queryKey: ['operations-settings'] });
+      toast.success(`Operations time zone set to ${zone}`, {
+        description: 'Files uploaded from now on are read in this zone; stored dates are not changed.',
+      });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not save the time zone');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Select value={timeZone} onValueChange={handleChange} disabled={isSaving}>
+      <SelectTrigger className="w-[150px] h-9" title="Operations time zone: upload dates and WM weeks are read in this zone">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {zones.map(({ zone, label }) => (
+          <SelectItem key={zone} value={zone}>
+            {label === zone ? zone : `${label} (${zone.replace(/^.*\//, '').replace(/_/g, ' ')})`}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
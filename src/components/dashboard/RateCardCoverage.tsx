@@ -0,0 +1,153 @@
+import { useMemo, useState } from 'react';
+import { Download, Loader2, SearchX } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useRateCards } from '@/hooks/useRateCards';
+import { useFeeRules } from '@/hooks/useFeeRules';
+import { useRateCardCoverageData } from '@/hooks/useRateCardCoverage';
+import {
+  CoverageFeeType,
+  COVERAGE_FEE_LABELS,
+  coverageGapsToCSV,
+  findCoverageGaps,
+} from '@/lib/rateCardCoverage';
+
+const MAX_ROWS_SHOWN = 200;
+
+const formatCurrency = (value: number) => {
+  if (value >= 1000000) return `$${(value / 1000000).toFixed(2)}M`;
+  if (value >= 1000) return `$${(value / 1000).toFixed(1)}K`;
+  return `$${value.toFixed(0)}`;
+};
+
+export function RateCardCoverage() {
+  const { data: rateCardVersions } = useRateCards();
+  const { data: feeRuleSets } = useFeeRules();
+  const { data, isLoading } = useRateCardCoverageData();
+  const [feeType, setFeeType] = useState<CoverageFeeType | 'all'>('all');
+
+  // Re-run once published cards and rules are registered so units are checked against the right card
+  const gaps = useMemo(
+    () => (data && rateCardVersions && feeRuleSets ? findCoverageGaps(data.sales, data.wipUnits) : []),
+    [data, rateCardVersions, feeRuleSets]
+  );
+
+  const visible = feeType === 'all' ? gaps : gaps.filter(g => g.feeType === feeType);
+  const soldUnits = visible.reduce((sum, g) => sum + g.soldUnits, 0);
+  const wipUnits = visible.reduce((sum, g) => sum + g.wipUnits, 0);
+  const retailAtStake = visible.reduce((sum, g) => sum + g.retailAtStake, 0);
+
+  const handleExport = () => {
+    const blob = new Blob([coverageGapsToCSV(visible)], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `rate_card_gaps_${new Date().toISOString().split('T')[0]}.csv`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  return (
+    <div className="bg-card rounded-lg border p-6 space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold flex items-center gap-2">
+            <SearchX className="h-5 w-5 text-muted-foreground" />
+            Coverage Gaps
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            Category/program combinations with no invoiced fee and no rate card match - these fees are currently priced at $0.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={feeType} onValueChange={(v) => setFeeType(v as CoverageFeeType | 'all')}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Fees</SelectItem>
+              {(Object.keys(COVERAGE_FEE_LABELS) as CoverageFeeType[]).map(type => (
+                <SelectItem key={type} value={type}>{COVERAGE_FEE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={visible.length === 0} className="h-10">
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      {isLoading || !rateCardVersions || !feeRuleSets ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Checking sales and WIP units against the rate cards...
+        </div>
+      ) : (
+        <>
+          <div className="grid gap-4 md:grid-cols-4">
+            <div className="p-4 bg-muted/50 rounded-lg">
+              <p className="text-sm text-muted-foreground">Missing Rates</p>
+              <p className="text-2xl font-bold">{visible.length.toLocaleString()}</p>
+            </div>
+            <div className="p-4 bg-muted/50 rounded-lg">
+              <p className="text-sm text-muted-foreground">Sold Units Affected</p>
+              <p className="text-2xl font-bold">{soldUnits.toLocaleString()}</p>
+            </div>
+            <div className="p-4 bg-muted/50 rounded-lg">
+              <p className="text-sm text-muted-foreground">WIP Units Affected</p>
+              <p className="text-2xl font-bold">{wipUnits.toLocaleString()}</p>
+            </div>
+            <div className="p-4 bg-muted/50 rounded-lg">
+              <p className="text-sm text-muted-foreground">Retail At Stake</p>
+              <p className="text-2xl font-bold">{formatCurrency(retailAtStake)}</p>
+            </div>
+          </div>
+
+          {visible.length > 0 ? (
+            <div className="overflow-x-auto max-h-[500px] overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-3 px-4 font-medium text-muted-foreground">Fee</th>
+                    <th className="text-left py-3 px-4 font-medium text-muted-foreground">Category</th>
+                    <th className="text-left py-3 px-4 font-medium text-muted-foreground">Program</th>
+                    <th className="text-left py-3 px-4 font-medium text-muted-foreground">Condition</th>
+                    <th className="text-right py-3 px-4 font-medium text-muted-foreground">Sold</th>
+                    <th className="text-right py-3 px-4 font-medium text-muted-foreground">WIP</th>
+                    <th className="text-right py-3 px-4 font-medium text-muted-foreground">Retail At Stake</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visible.slice(0, MAX_ROWS_SHOWN).map(gap => (
+                    <tr
+                      key={`${gap.feeType}|${gap.category}|${gap.program}|${gap.condition}`}
+                      className="border-b last:border-0"
+                      title={`Keys tried: ${gap.keysTried.join(', ')}`}
+                    >
+                      <td className="py-3 px-4">{COVERAGE_FEE_LABELS[gap.feeType]}</td>
+                      <td className="py-3 px-4">{gap.category || '(blank)'}</td>
+                      <td className="py-3 px-4 font-mono text-xs">{gap.program || '(blank)'}</td>
+                      <td className="py-3 px-4 text-muted-foreground">{gap.condition || '—'}</td>
+                      <td className="py-3 px-4 text-right">{gap.soldUnits.toLocaleString()}</td>
+                      <td className="py-3 px-4 text-right">{gap.wipUnits.toLocaleString()}</td>
+                      <td className="py-3 px-4 text-right font-mono">{formatCurrency(gap.retailAtStake)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {visible.length > MAX_ROWS_SHOWN && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  Showing {MAX_ROWS_SHOWN} of {visible.length.toLocaleString()} - export for the full list
+                </p>
+              )}
+            </div>
+          ) : (
+            <div className="h-[120px] flex items-center justify-center text-muted-foreground">
+              Every sold and WIP unit matched a rate
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+import { useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { format, addDays } from 'date-fns';
+import { Upload, AlertCircle, CheckCircle, Loader2, FileSpreadsheet } from 'lucide-react';
+import { toast } from 'sonner';
+import * as XLSX from 'xlsx';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { publishRateCard, useRateCards } from '@/hooks/useRateCards';
+import { useRepriceSaleFees } from '@/hooks/useSaleFees';
+import { useActiveClient } from '@/contexts/FilterContext';
+import { ALL_CLIENTS } from '@/lib/clients';
+import { operationsNow } from '@/lib/operationsTime';
+import {
+  RateCardType,
+  RateCardEntry,
+  RateCardParseResult,
+  RATE_CARD_TYPES,
+  RATE_CARD_LABELS,
+  RATE_CARD_LAYOUTS,
+  RATE_CARD_PARSERS,
+  diffRateCardEntries,
+  getCurrentRateCard,
+} from '@/lib/rateCards';
+
+// Cap on rendered diff/issue rows so a full-sheet change doesn't stall the page
+const MAX_ROWS_SHOWN = 200;
+
+interface RateCardImportProps {
+  className?: string;
+}
+
+const formatPrice = (entry: RateCardEntry) =>
+  entry.priceType === 'percent' ? `${entry.price}%` : `$${entry.price.toFixed(2)}`;
+
+// Finance sometimes sends the sheet as xlsx - take the first sheet as CSV
+async function readSheetAsCSV(file: File): Promise<string> {
+  if (file.name.endsWith('.xlsx') || file.name.endsWith('.xls')) {
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+    const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (!worksheet) throw new Error('Workbook has no sheets');
+    return XLSX.utils.sheet_to_csv(worksheet, { blankrows: false });
+  }
+  return await file.text();
+}
+
+export function RateCardImport({ className }: RateCardImportProps) {
+  const queryClient = useQueryClient();
+  const repriceSaleFees = useRepriceSaleFees();
+  const { activeClient } = useActiveClient();
+  const [cardType, setCardType] = useState<RateCardType>('PPS');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<RateCardParseResult | null>(null);
+  const [effectiveFrom, setEffectiveFrom] = useState(() => format(addDays(operationsNow(), 1), 'yyyy-MM-dd'));
+  const [notes, setNotes] = useState('');
+  const [isPublishing, setIsPublishing] = useState(false);
+
+  // Subscribed so the comparison re-renders once published versions load or change
+  useRateCards();
+  const current = getCurrentRateCard(cardType, activeClient);
+
+  // Cards are published per client, so one has to be picked in the header
+  const isAllClients = activeClient === ALL_CLIENTS;
+
+  const diff = useMemo(
+    () => (parsed ? diffRateCardEntries(current.entries, parsed.entries) : null),
+    [current.entries, parsed]
+  );
+
+  const errors = parsed?.issues.filter(i => i.severity === 'error') || [];
+  const skipped = parsed?.issues.filter(i => i.severity === 'skipped') || [];
+  const canPublish = !!parsed && parsed.entries.length > 0 && errors.length === 0 && !!effectiveFrom && !isPublishing && !isAllClients;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const csv = await readSheetAsCSV(file);
+      setFileName(file.name);
+      setParsed(RATE_CARD_PARSERS[cardType](csv));
+    } catch (error) {
+      console.error('Rate card read error:', error);
+      toast.error(error instanceof Error ? error.message : 'Could not read the sheet');
+    }
+  };
+
+  const handleTypeChange = (value: string) => {
+    setCardType(value as RateCardType);
+    setParsed(null);
+    setFileName(null);
+  };
+
+  const handlePublish = async () => {
+    if (!parsed) return;
+    setIsPublishing(true);
+    try {
+      await publishRateCard({
+        clientSource: activeClient,
+        cardType,
+        effectiveFrom,
+        entries: parsed.entries,
+        sourceFileName: fileName || undefined,
+        notes: notes.trim() || undefined,
+      });
+      toast.success(`Published ${activeClient} ${RATE_CARD_LABELS[cardType]} card effective ${effectiveFrom}`);
+      setParsed(null);
+      setFileName(null);
+      setNotes('');
+      await queryClient.invalidateQueries({ queryKey: ['rate-cards'] });
+      await repriceSaleFees(effectiveFrom);
+    } catch (error) {
+      console.error('Publish rate card error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to publish rate card');
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const diffRows = diff
+    ? [
+        ...diff.changed.map(c => ({ status: 'Changed' as const, key: c.key, before: formatPrice(c.before), after: formatPrice(c.after) })),
+        ...diff.added.map(e => ({ status: 'Added' as const, key: e.key, before: '—', after: formatPrice(e) })),
+        ...diff.removed.map(e => ({ status: 'Removed' as const, key: e.key, before: formatPrice(e), after: '—' })),
+      ]
+    : [];
+
+  const statusStyles = {
+    Added: 'bg-success/10 text-success border-success/20',
+    Removed: 'bg-destructive/10 text-destructive border-destructive/20',
+    Changed: 'bg-warning/10 text-warning border-warning/20',
+  };
+
+  return (
+    <div className={cn('bg-card rounded-lg border p-6 space-y-6', className)}>
+      <div>
+        <h3 className="text-lg font-semibold">Import Rate Card</h3>
+        <p className="text-sm text-muted-foreground">
+          Load a finance price sheet, review the changes against the current card, then publish it as a new version.
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-4">
+        <div className="space-y-2">
+          <Label>Card Type</Label>
+          <Select value={cardType} onValueChange={handleTypeChange}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RATE_CARD_TYPES.map(type => (
+                <SelectItem key={type} value={type}>{RATE_CARD_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="rate-card-file">Price Sheet</Label>
+          <Input id="rate-card-file" type="file" accept=".csv,.xlsx,.xls" onChange={handleFile} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="rate-card-effective">Effective From</Label>
+          <Input id="rate-card-effective" type="date" value={effectiveFrom} onChange={(e) => setEffectiveFrom(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="rate-card-notes">Notes</Label>
+          <Input id="rate-card-notes" value={notes} placeholder="e.g. Q3 contract amendment" onChange={(e) => setNotes(e.target.value)} />
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Expected columns: <span className="font-mono">{RATE_CARD_LAYOUTS[cardType].header}</span>
+      </p>
+
+      {parsed && diff && (
+        <>
+          <div className="flex items-center gap-2 text-sm">
+            <FileSpreadsheet className="h-4 w-4 text-muted-foreground" />
+            <span className="font-medium">{fileName}</span>
+            <span className="text-muted-foreground">
+              • {parsed.entries.length.toLocaleString()} rates vs. current{' '}
+              {current.version ? `v${current.version.version} (effective ${current.version.effectiveFrom})` : 'bundled card'}
+            </span>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-4">
+            {[
+              { label: 'Added', value: diff.added.length },
+              { label: 'Removed', value: diff.removed.length },
+              { label: 'Changed', value: diff.changed.length },
+              { label: 'Unchanged', value: diff.unchangedCount },
+            ].map(stat => (
+              <div key={stat.label} className="p-4 bg-muted/50 rounded-lg">
+                <p className="text-sm text-muted-foreground">{stat.label}</p>
+                <p className="text-2xl font-bold">{stat.value.toLocaleString()}</p>
+              </div>
+            ))}
+          </div>
+
+          {errors.length > 0 && (
+            <div className="bg-destructive/10 border border-destructive/20 rounded-lg p-4">
+              <h4 className="font-medium text-destructive flex items-center gap-2">
+                <AlertCircle className="h-4 w-4" />
+                {errors.length.toLocaleString()} rejected rows - fix the sheet before publishing
+              </h4>
+              <ul className="mt-2 space-y-1 text-sm max-h-[200px] overflow-y-auto">
+                {errors.slice(0, MAX_ROWS_SHOWN).map(issue => (
+                  <li key={issue.line} className="font-mono text-xs">
+                    <span className="font-semibold">Line {issue.line}:</span> {issue.message}
+                    <span className="text-muted-foreground"> — {issue.raw.substring(0, 120)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {skipped.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {skipped.length.toLocaleString()} rows left out (zero prices or duplicate keys): lines{' '}
+              {skipped.slice(0, 20).map(i => i.line).join(', ')}{skipped.length > 20 ? ', …' : ''}
+            </p>
+          )}
+
+          {diffRows.length > 0 ? (
+            <div className="overflow-x-auto max-h-[400px] overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-3 px-4 font-medium text-muted-foreground">Change</th>
+                    <th className="text-left py-3 px-4 font-medium text-muted-foreground">Key</th>
+                    <th className="text-right py-3 px-4 font-medium text-muted-foreground">Current</th>
+                    <th className="text-right py-3 px-4 font-medium text-muted-foreground">New</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diffRows.slice(0, MAX_ROWS_SHOWN).map(row => (
+                    <tr key={`${row.status}-${row.key}`} className="border-b last:border-0">
+                      <td className="py-2 px-4">
+                        <Badge variant="outline" className={cn('text-xs', statusStyles[row.status])}>{row.status}</Badge>
+                      </td>
+                      <td className="py-2 px-4 font-mono text-xs">{row.key}</td>
+                      <td className="py-2 px-4 text-right font-mono">{row.before}</td>
+                      <td className="py-2 px-4 text-right font-mono">{row.after}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {diffRows.length > MAX_ROWS_SHOWN && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  Showing {MAX_ROWS_SHOWN} of {diffRows.length.toLocaleString()} changes
+                </p>
+              )}
+            </div>
+          ) : (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <CheckCircle className="h-4 w-4 text-success" />
+              No price changes against the current card
+            </div>
+          )}
+
+          <div className="flex items-center justify-end gap-4">
+            {isAllClients && (
+              <p className="text-sm text-muted-foreground">Pick a client in the header to publish its card</p>
+            )}
+            <Button onClick={handlePublish} disabled={!canPublish}>
+              {isPublishing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+              Publish as new version
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
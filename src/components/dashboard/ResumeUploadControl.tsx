@@ -0,0 +1,104 @@
+import { useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Loader2, PlayCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useFileUpload } from '@/hooks/useFileUpload';
+import { useUploadBatchProgress } from '@/hooks/useUploadCheckpoints';
+import { isUploadStalled } from '@/lib/uploadBatches';
+import { IngestJobControl } from '@/components/dashboard/IngestJobControl';
+
+interface ResumableUpload {
+  id: string;
+  file_name: string;
+  upload_timestamp: string;
+  upload_status: string;
+  total_batches: number | null;
+  ingest_mode?: string;
+}
+
+interface ResumeUploadControlProps {
+  upload: ResumableUpload;
+  onResumed?: () => void;
+}
+
+// Status badge and Resume action for an upload that has not saved every batch; renders nothing once complete.
+// Server-side uploads are resumed by running their job again instead.
+export function ResumeUploadControl({ upload, onResumed }: ResumeUploadControlProps) {
+  if (upload.ingest_mode === 'server') {
+    return <IngestJobControl uploadId={upload.id} fileName={upload.file_name} onFinished={onResumed} />;
+  }
+  return <BrowserResumeControl upload={upload} onResumed={onResumed} />;
+}
+
+function BrowserResumeControl({ upload, onResumed }: ResumeUploadControlProps) {
+  const queryClient = useQueryClient();
+  const incomplete = upload.upload_status !== 'complete';
+  const { data: progress } = useUploadBatchProgress(upload.id, incomplete);
+  const { resumeUpload, isUploading, uploadProgress } = useFileUpload();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  if (!incomplete) return null;
+
+  // Another tab (or this one) is still writing batches
+  const running = upload.upload_status === 'uploading' && !isUploadStalled(upload.upload_timestamp, progress);
+  const batches = upload.total_batches
+    ? `${(progress?.doneBatches ?? 0).toLocaleString()}/${upload.total_batches.toLocaleString()} batches`
+    : null;
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    await resumeUpload(file, upload.id);
+    queryClient.invalidateQueries({ queryKey: ['upload-batch-progress', upload.id] });
+    queryClient.invalidateQueries({ queryKey: ['file-uploads'] });
+    onResumed?.();
+  };
+
+  if (isUploading) {
+    return (
+      <Badge variant="outline" className="text-xs bg-primary/10 text-primary border-primary/20 gap-1">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        {uploadProgress ? `Resuming ${Math.round(uploadProgress.progress)}%` : 'Resuming'}
+      </Badge>
+    );
+  }
+
+  if (running) {
+    return (
+      <Badge variant="outline" className="text-xs bg-info/10 text-info border-info/20">
+        Uploading{batches && ` · ${batches}`}
+      </Badge>
+    );
+  }
+
+  return (
+    <>
+      <input
+        type="file"
+        ref={fileInputRef}
+        className="hidden"
+        accept=".csv,.xlsx,.xls"
+        onChange={handleFileSelected}
+      />
+      <Badge
+        variant="outline"
+        className="text-xs bg-destructive/10 text-destructive border-destructive/20"
+        title={progress?.failedBatches ? `${progress.failedBatches} batches failed after every retry` : 'The upload stopped before every batch was saved'}
+      >
+        Incomplete{batches && ` · ${batches}`}
+      </Badge>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 text-primary hover:text-primary"
+        onClick={() => fileInputRef.current?.click()}
+        title={`Resume: pick ${upload.file_name} again to send only the unsaved batches`}
+      >
+        <PlayCircle className="h-4 w-4" />
+      </Button>
+    </>
+  );
+}
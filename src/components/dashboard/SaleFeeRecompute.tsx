@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Database, RefreshCw, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { useRateCards } from '@/hooks/useRateCards';
+import { useFeeRules } from '@/hooks/useFeeRules';
+import { recomputeSaleFees, useSaleFeeTotals } from '@/hooks/useSaleFees';
+
+const formatCurrency = (value: number) => {
+  const sign = value < 0 ? '-' : '';
+  const abs = Math.abs(value);
+  if (abs >= 1000000) return `${sign}$${(abs / 1000000).toFixed(2)}M`;
+  if (abs >= 1000) return `${sign}$${(abs / 1000).toFixed(1)}K`;
+  return `${sign}$${abs.toFixed(2)}`;
+};
+
+export function SaleFeeRecompute() {
+  const queryClient = useQueryClient();
+  const { data: rateCardVersions } = useRateCards();
+  const { data: feeRuleSets } = useFeeRules();
+  const { data: totals, isLoading } = useSaleFeeTotals();
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const runRecompute = async (force: boolean) => {
+    setProgress({ done: 0, total: 0 });
+    try {
+      const { scanned, updated } = await recomputeSaleFees({
+        force,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      toast.success(
+        updated > 0
+          ? `Re-priced ${updated.toLocaleString()} of ${scanned.toLocaleString()} sales`
+          : `All ${scanned.toLocaleString()} stored sales are current`
+      );
+      queryClient.invalidateQueries({ queryKey: ['sale-fee-totals'] });
+    } catch (error) {
+      console.error('Sale fee recompute error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to recompute sale fees');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  // Rows are compared against the registered cards and rules, so wait for both to load
+  const canRun = !!rateCardVersions && !!feeRuleSets && !progress;
+
+  return (
+    <div className="bg-card rounded-lg border p-6 space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold flex items-center gap-2">
+            <Database className="h-5 w-5 text-muted-foreground" />
+            Stored Sale Fees
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            Every sale's full calculated fee breakdown, saved with the rate cards and rule set that priced it.
+            Publishing a card or rule set re-prices the affected rows automatically.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => runRecompute(false)} disabled={!canRun}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Re-price Stale
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => runRecompute(true)} disabled={!canRun}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Re-price All
+          </Button>
+        </div>
+      </div>
+
+      {progress && (
+        <div className="space-y-2">
+          <Progress value={progress.total > 0 ? (progress.done / progress.total) * 100 : 0} className="h-2" />
+          <p className="text-xs text-muted-foreground">
+            {progress.total > 0
+              ? `${progress.done.toLocaleString()} / ${progress.total.toLocaleString()} sales checked`
+              : 'Comparing stored rows against the current rate cards and rules...'}
+          </p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading stored fees...
+        </div>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-4">
+          <div className="p-4 bg-muted/50 rounded-lg">
+            <p className="text-sm text-muted-foreground">Sales Stored</p>
+            <p className="text-2xl font-bold">{(totals?.units ?? 0).toLocaleString()}</p>
+          </div>
+          <div className="p-4 bg-muted/50 rounded-lg">
+            <p className="text-sm text-muted-foreground">Total Fees</p>
+            <p className="text-2xl font-bold">{formatCurrency(Number(totals?.total_fees) || 0)}</p>
+          </div>
+          <div className="p-4 bg-muted/50 rounded-lg">
+            <p className="text-sm text-muted-foreground">Net Dollars</p>
+            <p className="text-2xl font-bold">{formatCurrency(Number(totals?.net_dollars) || 0)}</p>
+          </div>
+          <div className="p-4 bg-muted/50 rounded-lg">
+            <p className="text-sm text-muted-foreground">Last Priced</p>
+            <p className="text-2xl font-bold">
+              {totals?.last_calculated_at ? new Date(totals.last_calculated_at).toLocaleDateString() : '—'}
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
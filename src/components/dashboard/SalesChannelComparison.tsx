@@ -1,7 +1,8 @@
 import { useMemo, useState, Fragment, useCallback } from 'react';
 import { cn } from '@/lib/utils';
+import { toCSV } from '@/lib/csvWriter';
 import { ChevronDown, ChevronRight, Filter, Download } from 'lucide-react';
-import { WalmartChannel, WALMART_CHANNEL_OPTIONS } from '@/lib/walmartChannel';
+import { WalmartChannel, getChannelOptions } from '@/lib/walmartChannel';
 import { mapMarketplace } from '@/lib/marketplaceMapping';
 import { SalesRecordWithChannel } from '@/hooks/useFilteredData';
 import { MultiSelect } from '@/components/ui/multi-select';
@@ -71,7 +72,7 @@ function groupByChannelMarketplaceCategoryTitle(records: SalesRecordWithChannel[
   const channelMap = new Map<WalmartChannel, Map<string, Map<string, Map<string, SalesRecordWithChannel[]>>>>();
   
   // Initialize all channels
-  WALMART_CHANNEL_OPTIONS.forEach(channel => {
+  getChannelOptions().forEach(channel => {
     channelMap.set(channel, new Map());
   });
 
@@ -82,6 +83,10 @@ function groupByChannelMarketplaceCategoryTitle(records: SalesRecordWithChannel[
     const category = record.category_name || 'Unknown';
     const title = (record as any).title || 'Unknown';
     
+    // Under "All clients" a sale can land in a channel only its own client defines
+    if (!channelMap.has(channel)) {
+      channelMap.set(channel, new Map());
+    }
     const marketplaceMap = channelMap.get(channel)!;
     if (!marketplaceMap.has(marketplace)) {
       marketplaceMap.set(marketplace, new Map());
@@ -98,7 +103,7 @@ function groupByChannelMarketplaceCategoryTitle(records: SalesRecordWithChannel[
   });
 
   // Calculate metrics for each level
-  const channels: ChannelData[] = WALMART_CHANNEL_OPTIONS.map(channel => {
+  const channels: ChannelData[] = [...channelMap.keys()].map(channel => {
     const marketplaceMap = channelMap.get(channel)!;
     const allChannelRecords: SalesRecordWithChannel[] = [];
     const marketplaces: MarketplaceData[] = [];
@@ -167,7 +172,7 @@ export function SalesChannelComparison({
   lastWeek,
   className 
 }: SalesChannelComparisonProps) {
-  const [expandedChannels, setExpandedChannels] = useState<Set<WalmartChannel>>(new Set(WALMART_CHANNEL_OPTIONS));
+  const [expandedChannels, setExpandedChannels] = useState<Set<WalmartChannel>>(new Set(getChannelOptions()));
   const [expandedMarketplaces, setExpandedMarketplaces] = useState<Set<string>>(new Set());
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set());
   
@@ -404,7 +409,7 @@ export function SalesChannelComparison({
     ]);
 
     // Add only title-level (line item) rows
-    WALMART_CHANNEL_OPTIONS.forEach(channel => {
+    getChannelOptions().forEach(channel => {
       const marketplaces = getMarketplacesForChannel(channel);
       marketplaces.forEach(marketplace => {
         const categories = getCategoriesForMarketplace(channel, marketplace);
@@ -427,15 +432,7 @@ export function SalesChannelComparison({
     });
 
     // Convert to CSV string
-    const csvContent = rows.map(row => 
-      row.map(cell => {
-        // Escape quotes and wrap in quotes if contains comma or quote
-        const escaped = String(cell).replace(/"/g, '""');
-        return escaped.includes(',') || escaped.includes('"') || escaped.includes('\n') 
-          ? `"${escaped}"` 
-          : escaped;
-      }).join(',')
-    ).join('\n');
+    const csvContent = toCSV(rows);
 
     // Download
     const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
@@ -478,7 +475,7 @@ export function SalesChannelComparison({
             className="w-[150px]"
           />
           <MultiSelect
-            options={WALMART_CHANNEL_OPTIONS.map(c => ({ value: c, label: c }))}
+            options={getChannelOptions().map(c => ({ value: c, label: c }))}
             selected={localFilters.walmartChannels}
             onChange={(values) => setLocalFilters(prev => ({ ...prev, walmartChannels: values as WalmartChannel[] }))}
             placeholder="Walmart Channel"
@@ -543,7 +540,7 @@ export function SalesChannelComparison({
             </tr>
           </thead>
           <tbody className="divide-y divide-border/50">
-            {WALMART_CHANNEL_OPTIONS.map(channel => {
+            {getChannelOptions().map(channel => {
               const twChannel = twData.channels.find(c => c.channel === channel);
               const lwChannel = lwData.channels.find(c => c.channel === channel);
               const twlyChannel = twlyData.channels.find(c => c.channel === channel);
@@ -0,0 +1,141 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Sheet, AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { SheetSelectionRequest, SheetSelectionResult, mismatchedSheets } from '@/lib/excelSheets';
+
+interface SheetPickerDialogProps {
+  request: SheetSelectionRequest | null;
+  onResolve: (result: SheetSelectionResult | null) => void;
+}
+
+const HEADER_PREVIEW_COUNT = 6;
+
+// Upload step for workbooks with several sheets: choose which ones hold the data
+export function SheetPickerDialog({ request, onResolve }: SheetPickerDialogProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [remember, setRemember] = useState(true);
+
+  useEffect(() => {
+    if (!request) return;
+    setSelected(request.selected);
+    setRemember(true);
+  }, [request]);
+
+  const mismatched = useMemo(
+    () => (request ? mismatchedSheets(request.sheets, selected) : []),
+    [request, selected]
+  );
+
+  if (!request) return null;
+
+  // Keep workbook order, which is the order rows are appended in
+  const toggle = (name: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(name);
+    else next.delete(name);
+    setSelected(request.sheets.map(s => s.name).filter(n => next.has(n)));
+  };
+
+  const selectedRows = request.sheets
+    .filter(s => selected.includes(s.name))
+    .reduce((sum, s) => sum + s.rowCount, 0);
+
+  return (
+    <Dialog open onOpenChange={open => !open && onResolve(null)}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Sheet className="h-5 w-5 text-muted-foreground" />
+            Choose Sheets
+          </DialogTitle>
+          <DialogDescription>
+            {request.fileName} has {request.sheets.length} sheets. Pick the ones to upload; several sheets are combined
+            in the order shown and must have the same columns.
+          </DialogDescription>
+        </DialogHeader>
+
+        {mismatched.length > 0 && (
+          <div className="flex items-start gap-2 p-3 rounded-lg bg-destructive/10 text-destructive text-sm">
+            <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>
+              {mismatched.map(s => s.name).join(', ')} {mismatched.length === 1 ? 'has' : 'have'} different columns
+              from {selected[0]}. Upload them separately.
+            </span>
+          </div>
+        )}
+
+        <div className="max-h-[50vh] overflow-y-auto border rounded-lg">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-card">
+              <tr className="border-b">
+                <th className="w-10 p-2" />
+                <th className="text-left font-medium p-2">Sheet</th>
+                <th className="text-right font-medium p-2">Rows</th>
+                <th className="text-left font-medium p-2">Columns</th>
+              </tr>
+            </thead>
+            <tbody>
+              {request.sheets.map(sheet => {
+                const checked = selected.includes(sheet.name);
+                const headers = sheet.headers.filter(Boolean);
+                return (
+                  <tr
+                    key={sheet.name}
+                    className={cn('border-b last:border-0', mismatched.some(s => s.name === sheet.name) && 'bg-destructive/5')}
+                  >
+                    <td className="p-2">
+                      <Checkbox
+                        id={`sheet-${sheet.name}`}
+                        checked={checked}
+                        onCheckedChange={value => toggle(sheet.name, value === true)}
+                      />
+                    </td>
+                    <td className="p-2">
+                      <Label htmlFor={`sheet-${sheet.name}`} className="font-medium">{sheet.name}</Label>
+                    </td>
+                    <td className="p-2 text-right">{sheet.rowCount.toLocaleString()}</td>
+                    <td className="p-2 text-xs text-muted-foreground">
+                      {headers.length === 0
+                        ? 'Empty'
+                        : headers.slice(0, HEADER_PREVIEW_COUNT).join(', ') +
+                          (headers.length > HEADER_PREVIEW_COUNT ? ` and ${headers.length - HEADER_PREVIEW_COUNT} more` : '')}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <Switch id="remember-sheets" checked={remember} onCheckedChange={setRemember} />
+          <Label htmlFor="remember-sheets" className="text-sm">
+            Remember for files named like <span className="font-mono text-xs">{request.filePattern}</span>
+          </Label>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onResolve(null)}>Cancel Upload</Button>
+          <Button
+            onClick={() => onResolve({ sheetNames: selected, remember })}
+            disabled={selected.length === 0 || mismatched.length > 0}
+          >
+            Use {selected.length === 1 ? '1 Sheet' : `${selected.length} Sheets`} ({selectedRows.toLocaleString()} rows)
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
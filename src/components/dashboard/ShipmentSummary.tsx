@@ -0,0 +1,140 @@
+import { useMemo } from 'react';
+import { Truck } from 'lucide-react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer
+} from 'recharts';
+import { Tables } from '@/integrations/supabase/types';
+
+interface ShipmentSummaryProps {
+  shipments: Tables<'outbound_shipments'>[] | undefined;
+}
+
+const NO_CARRIER = 'No carrier';
+
+const formatCurrency = (value: number) => {
+  if (value >= 1000000) return `$${(value / 1000000).toFixed(2)}M`;
+  if (value >= 1000) return `$${(value / 1000).toFixed(1)}K`;
+  return `$${value.toFixed(2)}`;
+};
+
+// Shipments from Outbound files: volume per WM week and cost per carrier
+export function ShipmentSummary({ shipments }: ShipmentSummaryProps) {
+  const { weekly, carriers, totalCost, costedShipments } = useMemo(() => {
+    const byWeek = new Map<number, number>();
+    const byCarrier = new Map<string, { shipments: number; cost: number; costed: number }>();
+    let totalCost = 0;
+    let costedShipments = 0;
+
+    for (const shipment of shipments || []) {
+      if (shipment.wm_week !== null) byWeek.set(shipment.wm_week, (byWeek.get(shipment.wm_week) || 0) + 1);
+
+      const carrier = shipment.carrier || NO_CARRIER;
+      const entry = byCarrier.get(carrier) || { shipments: 0, cost: 0, costed: 0 };
+      entry.shipments++;
+      if (shipment.shipping_cost !== null) {
+        const cost = Number(shipment.shipping_cost);
+        entry.cost += cost;
+        entry.costed++;
+        totalCost += cost;
+        costedShipments++;
+      }
+      byCarrier.set(carrier, entry);
+    }
+
+    return {
+      weekly: [...byWeek.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([week, count]) => ({ week: `WK${week}`, shipments: count })),
+      carriers: [...byCarrier.entries()]
+        .map(([carrier, entry]) => ({ carrier, ...entry }))
+        .sort((a, b) => b.shipments - a.shipments),
+      totalCost,
+      costedShipments,
+    };
+  }, [shipments]);
+
+  const shipmentCount = shipments?.length || 0;
+
+  return (
+    <div className="bg-card rounded-lg border p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <Truck className="h-5 w-5 text-muted-foreground" />
+          Shipments
+        </h3>
+        <div className="flex gap-6 text-sm">
+          <div className="text-right">
+            <p className="text-muted-foreground">Shipped units</p>
+            <p className="font-semibold">{shipmentCount.toLocaleString()}</p>
+          </div>
+          <div className="text-right">
+            <p className="text-muted-foreground">Shipping cost</p>
+            <p className="font-semibold">{formatCurrency(totalCost)}</p>
+          </div>
+          <div className="text-right">
+            <p className="text-muted-foreground">Avg cost/shipment</p>
+            <p className="font-semibold">{costedShipments > 0 ? formatCurrency(totalCost / costedShipments) : '—'}</p>
+          </div>
+        </div>
+      </div>
+
+      {shipmentCount === 0 ? (
+        <div className="h-[120px] flex items-center justify-center text-muted-foreground">
+          No shipments yet. Upload an Outbound file with ship dates.
+        </div>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-2">
+          <div className="h-[250px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={weekly} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-border" vertical={false} />
+                <XAxis dataKey="week" tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }} />
+                <YAxis allowDecimals={false} tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }} />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--card))',
+                    border: '1px solid hsl(var(--border))',
+                    borderRadius: '8px',
+                  }}
+                  formatter={(value: number) => [value.toLocaleString(), 'Shipments']}
+                />
+                <Bar dataKey="shipments" fill="hsl(var(--primary))" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left py-3 px-4 font-medium text-muted-foreground">Carrier</th>
+                  <th className="text-right py-3 px-4 font-medium text-muted-foreground">Shipments</th>
+                  <th className="text-right py-3 px-4 font-medium text-muted-foreground">Cost</th>
+                  <th className="text-right py-3 px-4 font-medium text-muted-foreground">Avg/Shipment</th>
+                </tr>
+              </thead>
+              <tbody>
+                {carriers.map(row => (
+                  <tr key={row.carrier} className="border-b last:border-0">
+                    <td className="py-3 px-4">{row.carrier}</td>
+                    <td className="py-3 px-4 text-right">{row.shipments.toLocaleString()}</td>
+                    <td className="py-3 px-4 text-right font-mono">{formatCurrency(row.cost)}</td>
+                    <td className="py-3 px-4 text-right font-mono">
+                      {row.costed > 0 ? formatCurrency(row.cost / row.costed) : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,6 +7,8 @@ import { Trash2, Edit2, Check, X, FileText, Loader2 } from 'lucide-react';
 import { format } from 'date-fns';
 import { toast } from 'sonner';
 import { Database } from '@/integrations/supabase/types';
+import { ResumeUploadControl } from '@/components/dashboard/ResumeUploadControl';
+import { deleteFileUpload, formatDeletedRows } from '@/hooks/useFileDeletion';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -49,23 +51,15 @@ export function TabFileManager({ fileType, onFilesChanged }: TabFileManagerProps
   const handleDelete = async (fileId: string, fileName: string) => {
     setDeletingId(fileId);
     try {
-      // Delete associated data first
-      await supabase.from('lifecycle_events').delete().eq('file_upload_id', fileId);
-      await supabase.from('sales_metrics').delete().eq('file_upload_id', fileId);
-      await supabase.from('fee_metrics').delete().eq('file_upload_id', fileId);
-      await supabase.from('units_canonical').delete().eq('file_upload_id', fileId);
+      // One transaction: either the file and all its data go, or nothing does
+      const deleted = await deleteFileUpload(fileId);
       
-      // Delete the file record
-      const { error } = await supabase.from('file_uploads').delete().eq('id', fileId);
-      
-      if (error) throw error;
-      
-      toast.success(`Deleted "${fileName}"`);
+      toast.success(`Deleted "${fileName}" (${formatDeletedRows(deleted)})`);
       queryClient.invalidateQueries({ queryKey: ['file-uploads'] });
       onFilesChanged?.();
     } catch (error) {
       console.error('Error deleting file:', error);
-      toast.error('Failed to delete file');
+      toast.error(error instanceof Error ? error.message : 'Failed to delete file');
     } finally {
       setDeletingId(null);
     }
@@ -117,7 +111,8 @@ export function TabFileManager({ fileType, onFilesChanged }: TabFileManagerProps
           {files.map((file) => (
             <div 
               key={file.id} 
-              className="flex items-center justify-between p-3 bg-muted/50 rounded-lg"
+              id={`upload-${file.id}`}
+              className="flex items-center justify-between p-3 bg-muted/50 rounded-lg scroll-mt-20 target:ring-2 target:ring-primary"
             >
               <div className="flex items-center gap-3 flex-1 min-w-0">
                 <FileText className="h-5 w-5 text-muted-foreground shrink-0" />
@@ -160,6 +155,7 @@ export function TabFileManager({ fileType, onFilesChanged }: TabFileManagerProps
                   </>
                 ) : (
                   <>
+                    <ResumeUploadControl upload={file} onResumed={onFilesChanged} />
                     <Button 
                       variant="ghost" 
                       size="icon" 
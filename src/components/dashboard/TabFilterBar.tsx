@@ -3,7 +3,8 @@ import { RefreshCw, RotateCcw, Filter, ChevronDown, ChevronUp } from 'lucide-rea
 import { cn } from '@/lib/utils';
 import { useTabFilters, TabName, TabFilters } from '@/contexts/FilterContext';
 import { getWMWeekNumber, WM_DAY_NAMES } from '@/lib/wmWeek';
-import { WALMART_CHANNEL_OPTIONS } from '@/lib/walmartChannel';
+import { operationsNow } from '@/lib/operationsTime';
+import { getChannelOptions } from '@/lib/walmartChannel';
 import { useState } from 'react';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { MultiSelect } from '@/components/ui/multi-select';
@@ -43,7 +44,7 @@ export function TabFilterBar({
 }: TabFilterBarProps) {
   const { filters, setFilter, resetFilters } = useTabFilters(tabName);
   const [isExpanded, setIsExpanded] = useState(false);
-  const currentWeek = getWMWeekNumber(new Date());
+  const currentWeek = getWMWeekNumber(operationsNow());
   // Week options: current week at top, descending order, with Select All
   const weekOptions = [
     { value: 'all', label: 'Select All' },
@@ -110,7 +111,7 @@ export function TabFilterBar({
         {/* Walmart Channel - Sales tabs only */}
         {showWalmartChannel && (
           <MultiSelect
-            options={WALMART_CHANNEL_OPTIONS.map(c => ({ value: c, label: c }))}
+            options={getChannelOptions().map(c => ({ value: c, label: c }))}
             selected={filters.walmartChannels}
             onChange={(values) => setFilter('walmartChannels', values as typeof filters.walmartChannels)}
             placeholder="Walmart Channel"
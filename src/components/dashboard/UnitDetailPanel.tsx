@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { useUnitSales } from '@/hooks/useUnitDetail';
+import { useRateCards } from '@/hooks/useRateCards';
+import { useFeeRules } from '@/hooks/useFeeRules';
+import { explainFeesForSale, FeeRule } from '@/lib/feeCalculator';
+import { BUNDLED_RATE_CARD_ID } from '@/lib/rateCards';
+
+interface UnitDetailPanelProps {
+  trgid: string | null;
+  onClose: () => void;
+}
+
+const RULE_STYLES: Record<FeeRule, string> = {
+  'invoiced': 'bg-info/10 text-info border-info/20',
+  'vendor-pallet': 'bg-primary/10 text-primary border-primary/20',
+  'lookup': 'bg-success/10 text-success border-success/20',
+  'pct-of-retail': 'bg-success/10 text-success border-success/20',
+  'refund-amount': 'bg-primary/10 text-primary border-primary/20',
+  'excluded': 'bg-muted text-muted-foreground',
+  'not-invoiced': 'bg-muted text-muted-foreground',
+  'no-match': 'bg-warning/10 text-warning border-warning/20',
+};
+
+const formatValue = (value: string | number | boolean | null) => {
+  if (value == null || value === '') return '—';
+  if (typeof value === 'number') return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  return String(value);
+};
+
+export function UnitDetailPanel({ trgid, onClose }: UnitDetailPanelProps) {
+  const { data: sales, isLoading } = useUnitSales(trgid);
+  const { data: rateCardVersions } = useRateCards();
+  // Subscribed so the trace re-renders with the published rule set
+  useFeeRules();
+  const [saleIndex, setSaleIndex] = useState(0);
+
+  const sale = sales?.[saleIndex] || sales?.[0];
+  const explained = sale ? explainFeesForSale(sale) : null;
+
+  const cardLabel = (id: string | null) => {
+    if (!id) return null;
+    if (id === BUNDLED_RATE_CARD_ID) return 'bundled card';
+    const version = rateCardVersions?.find(v => v.id === id);
+    return version ? `v${version.version} (from ${version.effectiveFrom})` : id;
+  };
+
+  return (
+    <Sheet open={!!trgid} onOpenChange={(open) => { if (!open) { setSaleIndex(0); onClose(); } }}>
+      <SheetContent className="w-full sm:max-w-2xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="font-mono">{trgid}</SheetTitle>
+          <SheetDescription>How each fee component on this unit was derived</SheetDescription>
+        </SheetHeader>
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground mt-6">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading unit...
+          </div>
+        ) : !sale || !explained ? (
+          <p className="text-sm text-muted-foreground mt-6">No sale found for this unit</p>
+        ) : (
+          <div className="space-y-6 mt-6">
+            {sales && sales.length > 1 && (
+              <div className="flex flex-wrap gap-2">
+                {sales.map((s, i) => (
+                  <button
+                    key={s.id}
+                    onClick={() => setSaleIndex(i)}
+                    className={cn(
+                      'text-xs px-2 py-1 rounded border',
+                      i === saleIndex ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'
+                    )}
+                  >
+                    Sold {s.order_closed_date}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {/* Sale inputs */}
+            <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+              <span className="text-muted-foreground">Order closed</span>
+              <span>{explained.trace.orderClosedDate || '—'}</span>
+              {Object.entries(explained.trace.inputs).map(([name, value]) => (
+                <div key={name} className="contents">
+                  <span className="text-muted-foreground">{name}</span>
+                  <span className="font-mono text-xs">{formatValue(value)}</span>
+                </div>
+              ))}
+            </div>
+
+            {/* Exclusion flags */}
+            <div className="flex flex-wrap gap-2">
+              {Object.entries(explained.trace.flags).map(([flag, on]) => (
+                <Badge
+                  key={flag}
+                  variant="outline"
+                  className={cn('text-xs', on ? 'bg-warning/10 text-warning border-warning/20' : 'text-muted-foreground')}
+                >
+                  {flag}: {on ? 'yes' : 'no'}
+                </Badge>
+              ))}
+            </div>
+
+            {/* Eligibility rules */}
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">
+                Rules fired ({explained.trace.ruleSetVersion ? `rule set v${explained.trace.ruleSetVersion}` : 'bundled rules'}):
+              </p>
+              {explained.trace.firedRules.length > 0 ? (
+                <ul className="text-xs space-y-0.5">
+                  {explained.trace.firedRules.map(fired => (
+                    <li key={fired.id} className={cn(!fired.decided && 'text-muted-foreground')}>
+                      <span className="font-mono">{fired.id}</span> — {fired.description} → {fired.flag} = {String(fired.value)}
+                      {!fired.decided && ' (already decided)'}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-xs text-muted-foreground">None - every flag at its default</p>
+              )}
+            </div>
+
+            {/* Components */}
+            <div className="space-y-3">
+              {explained.trace.components.map(component => (
+                <div key={component.fee} className="border rounded-lg p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{component.label}</span>
+                      <Badge variant="outline" className={cn('text-xs', RULE_STYLES[component.rule])}>
+                        {component.rule}
+                      </Badge>
+                    </div>
+                    <span className="font-mono">${component.amount.toFixed(2)}</span>
+                  </div>
+                  <p className="text-sm text-muted-foreground">{component.reason}</p>
+                  {component.keysTried.length > 0 && (
+                    <div className="text-xs space-y-1">
+                      <p className="text-muted-foreground">
+                        Keys tried{component.rateCardId ? ` against ${cardLabel(component.rateCardId)}` : ''}:
+                      </p>
+                      <div className="flex flex-wrap gap-1">
+                        {component.keysTried.map(key => (
+                          <code
+                            key={key}
+                            className={cn(
+                              'px-1.5 py-0.5 rounded bg-muted',
+                              key === component.matchedKey ? 'bg-success/20 text-success font-semibold' : 'text-muted-foreground'
+                            )}
+                          >
+                            {key || '(empty)'}
+                          </code>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  <div className="flex flex-wrap gap-x-4 text-xs text-muted-foreground">
+                    {Object.entries(component.inputs).map(([name, value]) => (
+                      <span key={name}>
+                        {name}: <span className="font-mono">{formatValue(value)}</span>
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center justify-between border-t pt-3 font-medium">
+              <span>Total Fees</span>
+              <span className="font-mono">${explained.fees.totalFees.toFixed(2)}</span>
+            </div>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,242 @@
+import { format, parseISO } from 'date-fns';
+import { FileSearch, AlertTriangle, Copy } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { DuplicateUpload, UploadPreview } from '@/lib/uploadPreview';
+import { FileTypeConfidence } from '@/lib/fileTypeDetection';
+
+interface UploadPreviewDialogProps {
+  preview: UploadPreview | null;
+  onResolve: (confirmed: boolean) => void;
+}
+
+const DUPLICATE_LABELS: Record<DuplicateUpload['match'], string> = {
+  content: 'Same content as',
+  units: 'Same units, file type and business date as',
+  date: 'Another file with this type and business date:',
+};
+
+const CONFIDENCE_BADGES: Record<FileTypeConfidence, { label: string; className: string }> = {
+  high: { label: 'High confidence', className: 'bg-success/10 text-success border-success/20' },
+  medium: { label: 'Likely', className: 'bg-info/10 text-info border-info/20' },
+  low: { label: 'Low confidence', className: 'bg-warning/10 text-warning border-warning/20' },
+  none: { label: 'Chosen by you', className: '' },
+};
+
+const STAGE_ORDER = ['Received', 'CheckedIn', 'Tested', 'Listed', 'Sold', 'None'];
+
+const formatCurrency = (value: number | null) => (value === null ? '—' : `$${value.toFixed(2)}`);
+
+// Contiguous weeks as ranges: WK3–WK6, WK9
+const formatWeeks = (weeks: number[]): string => {
+  if (weeks.length === 0) return '—';
+  const ranges: string[] = [];
+  let start = weeks[0];
+  for (let i = 1; i <= weeks.length; i++) {
+    if (i === weeks.length || weeks[i] !== weeks[i - 1] + 1) {
+      const end = weeks[i - 1];
+      ranges.push(start === end ? `WK${start}` : `WK${start}–WK${end}`);
+      start = weeks[i];
+    }
+  }
+  return ranges.join(', ');
+};
+
+// Upload dry run: what the file would write, confirmed before anything is saved
+export function UploadPreviewDialog({ preview, onResolve }: UploadPreviewDialogProps) {
+  if (!preview) return null;
+
+  const { stats, existing, fileType, rowCount, fileTypeChoice } = preview;
+  const confidence = CONFIDENCE_BADGES[fileTypeChoice.pickedByUser ? 'none' : fileTypeChoice.detection.confidence];
+  // The Monthly area labels Sales exports; any other difference means the area's type overrode the columns
+  const relabelled =
+    fileType !== fileTypeChoice.fileType && !(fileType === 'Monthly' && fileTypeChoice.fileType === 'Sales');
+  const isSalesFile = fileType === 'Sales' || fileType === 'Monthly';
+  // Inventory and Outbound rows go to their own tables, never to units or lifecycle events
+  const isInventoryFile = fileTypeChoice.fileType === 'Inventory';
+  const isOutboundFile = fileTypeChoice.fileType === 'Outbound';
+  const businessDay = preview.businessDate ? format(parseISO(preview.businessDate), 'MMM d, yyyy') : 'today';
+  const stages = Object.entries(stats.stageCounts).sort(
+    ([a], [b]) => STAGE_ORDER.indexOf(a) - STAGE_ORDER.indexOf(b)
+  );
+
+  const existingNotes: string[] = [];
+  if (existing && isInventoryFile) {
+    existingNotes.push(
+      existing.snapshot > 0
+        ? `${existing.snapshot.toLocaleString()} units are already in the inventory snapshot for ${businessDay} and will be overwritten`
+        : `No inventory snapshot stored for ${businessDay} yet; this file starts it`
+    );
+    existingNotes.push('Stored units, lifecycle dates and sales are not changed by inventory files');
+  } else if (existing && isOutboundFile) {
+    existingNotes.push(`${existing.shipments.toLocaleString()} of these units already have shipments stored; same-day shipments will be overwritten`);
+    if (existing.fees > 0) {
+      existingNotes.push(`${existing.fees.toLocaleString()} fee rows will be overwritten`);
+    }
+    existingNotes.push('Stored units, lifecycle dates and sales are not changed by outbound files');
+  } else if (existing) {
+    const newUnits = Math.max(0, rowCount - existing.units);
+    existingNotes.push(
+      fileType === 'SLA'
+        ? `${existing.units.toLocaleString()} units already stored will be left as they are (ignored); ${newUnits.toLocaleString()} are new`
+        : `${existing.units.toLocaleString()} units already stored will be overwritten; ${newUnits.toLocaleString()} are new`
+    );
+    if (isSalesFile && existing.sales > 0) {
+      existingNotes.push(`${existing.sales.toLocaleString()} sales rows will be overwritten`);
+    }
+  }
+
+  return (
+    <Dialog open onOpenChange={open => !open && onResolve(false)}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSearch className="h-5 w-5 text-muted-foreground" />
+            Review Upload
+          </DialogTitle>
+          <DialogDescription>
+            Nothing from {preview.fileName} has been saved yet. Check the details below, then confirm or cancel.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="p-4 bg-muted/50 rounded-lg">
+            <p className="text-xs text-muted-foreground">File type</p>
+            <p className="text-lg font-semibold">{fileType}</p>
+            <Badge variant="outline" className={cn('text-xs mt-1', confidence.className)}>{confidence.label}</Badge>
+          </div>
+          <div className="p-4 bg-muted/50 rounded-lg">
+            <p className="text-xs text-muted-foreground">{isInventoryFile ? 'Snapshot date' : 'Business date'}</p>
+            <p className="text-lg font-semibold">
+              {preview.businessDate ? format(parseISO(preview.businessDate), 'MMM d, yyyy') : 'Today'}
+            </p>
+          </div>
+          <div className="p-4 bg-muted/50 rounded-lg">
+            <p className="text-xs text-muted-foreground">Rows</p>
+            <p className="text-lg font-semibold">{rowCount.toLocaleString()}</p>
+          </div>
+          <div className="p-4 bg-muted/50 rounded-lg">
+            <p className="text-xs text-muted-foreground">WM weeks</p>
+            <p className="text-sm font-semibold">{formatWeeks(stats.wmWeeks)}</p>
+          </div>
+        </div>
+
+        <div className="space-y-1 text-sm">
+          <p className="font-medium">
+            {fileTypeChoice.pickedByUser ? `${fileTypeChoice.fileType} as you chose` : `Why ${fileTypeChoice.fileType}`}
+          </p>
+          {fileTypeChoice.detection.reasons.map(reason => (
+            <p key={reason} className="text-muted-foreground">{reason}</p>
+          ))}
+          {relabelled && (
+            <p className="text-warning">
+              Labelled {fileType} by this upload area; the rows are still written as {fileTypeChoice.fileType}.
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Stage distribution</p>
+          <div className="flex flex-wrap gap-2">
+            {stages.map(([stage, count]) => (
+              <Badge key={stage} variant="outline" className="text-xs">
+                {stage === 'None' ? 'No stage' : stage}: {count.toLocaleString()}
+              </Badge>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-1 text-sm">
+          <p className="font-medium">Existing data</p>
+          {existing ? (
+            existingNotes.map(note => <p key={note} className="text-muted-foreground">{note}</p>)
+          ) : (
+            <p className="text-muted-foreground">Could not check which units already exist.</p>
+          )}
+        </div>
+
+        {preview.duplicates.length > 0 && (
+          <div className="p-3 rounded-lg bg-warning/10 text-warning text-sm space-y-1">
+            {preview.duplicates.map(duplicate => (
+              <p key={duplicate.id} className="flex items-start gap-2">
+                <Copy className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                <span>
+                  {DUPLICATE_LABELS[duplicate.match]}{' '}
+                  <a href={`#upload-${duplicate.id}`} className="font-medium underline">{duplicate.fileName}</a>{' '}
+                  (uploaded {format(new Date(duplicate.uploadedAt), 'MMM d, yyyy')})
+                </span>
+              </p>
+            ))}
+          </div>
+        )}
+
+        {stats.warnings.length > 0 && (
+          <div className="p-3 rounded-lg bg-warning/10 text-warning text-sm space-y-1">
+            {stats.warnings.map(warning => (
+              <p key={warning} className="flex items-start gap-2">
+                <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                {warning}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Sample rows</p>
+          <div className="overflow-x-auto border rounded-lg">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b bg-muted/50">
+                  <th className="text-left font-medium p-2">TRGID</th>
+                  <th className="text-left font-medium p-2">Stage</th>
+                  <th className="text-left font-medium p-2">Program</th>
+                  <th className="text-left font-medium p-2">Category</th>
+                  <th className="text-left font-medium p-2">Received</th>
+                  {isInventoryFile && <th className="text-left font-medium p-2">Location</th>}
+                  {isInventoryFile && <th className="text-right font-medium p-2">Days on hand</th>}
+                  {isOutboundFile && <th className="text-left font-medium p-2">Shipped</th>}
+                  {isOutboundFile && <th className="text-left font-medium p-2">Carrier</th>}
+                  {isOutboundFile && <th className="text-right font-medium p-2">Shipping cost</th>}
+                  {isSalesFile && <th className="text-left font-medium p-2">Sold</th>}
+                  {isSalesFile && <th className="text-right font-medium p-2">Sale price</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {stats.sampleRows.map((row, i) => (
+                  <tr key={`${row.trgid}-${i}`} className="border-b last:border-0">
+                    <td className="p-2 font-mono text-xs">{row.trgid}</td>
+                    <td className="p-2">{row.stage ?? '—'}</td>
+                    <td className="p-2 truncate max-w-[140px]">{row.programName || '—'}</td>
+                    <td className="p-2 truncate max-w-[140px]">{row.categoryName || '—'}</td>
+                    <td className="p-2">{row.receivedOn ?? '—'}</td>
+                    {isInventoryFile && <td className="p-2">{row.locationId || '—'}</td>}
+                    {isInventoryFile && <td className="p-2 text-right">{row.daysOnHand ?? '—'}</td>}
+                    {isOutboundFile && <td className="p-2">{row.shipDate ?? '—'}</td>}
+                    {isOutboundFile && <td className="p-2">{row.carrier || '—'}</td>}
+                    {isOutboundFile && <td className="p-2 text-right">{formatCurrency(row.shippingCost)}</td>}
+                    {isSalesFile && <td className="p-2">{row.orderClosedDate ?? '—'}</td>}
+                    {isSalesFile && <td className="p-2 text-right">{formatCurrency(row.salePrice)}</td>}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onResolve(false)}>Cancel</Button>
+          <Button onClick={() => onResolve(true)}>Upload {rowCount.toLocaleString()} Rows</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -8,10 +8,16 @@ import {
   Store,
   ShoppingCart,
   CalendarRange,
-  Calendar
+  Calendar,
+  FileSpreadsheet
 } from 'lucide-react';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { ThemeToggle } from '@/components/ThemeToggle';
+import { OperationsTimeZoneSelect } from '@/components/dashboard/OperationsTimeZoneSelect';
+import { useActiveClient } from '@/contexts/FilterContext';
+import { useClients } from '@/hooks/useClients';
+import { ALL_CLIENTS, getClientConfigs } from '@/lib/clients';
 
 interface DashboardLayoutProps {
   children: React.ReactNode;
@@ -28,9 +34,13 @@ const tabs = [
   { id: 'marketplace', label: 'WM Marketplace', icon: Store },
   { id: 'dsv', label: 'WM DSV', icon: ShoppingCart },
   { id: 'quarterly', label: 'Quarterly Review', icon: CalendarRange },
+  { id: 'rate-cards', label: 'Rate Cards', icon: FileSpreadsheet },
 ];
 
 export function DashboardLayout({ children, activeTab, onTabChange }: DashboardLayoutProps) {
+  const { data: clients } = useClients();
+  const { activeClient, setActiveClient } = useActiveClient();
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -47,9 +57,23 @@ export function DashboardLayout({ children, activeTab, onTabChange }: DashboardL
           </div>
           
           <div className="flex items-center gap-4">
+            <Select value={activeClient} onValueChange={setActiveClient}>
+              <SelectTrigger className="w-[180px] h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(clients ?? getClientConfigs()).map(client => (
+                  <SelectItem key={client.code} value={client.code}>
+                    {client.name} ({client.code})
+                  </SelectItem>
+                ))}
+                <SelectItem value={ALL_CLIENTS}>All Clients</SelectItem>
+              </SelectContent>
+            </Select>
             <span className="text-sm text-muted-foreground">
               Sat-Fri Week Cycle
             </span>
+            <OperationsTimeZoneSelect />
             <ThemeToggle />
           </div>
         </div>
@@ -19,6 +19,7 @@ import { useFilterOptions, useFilteredLifecycle } from '@/hooks/useFilteredData'
 import { useTabFilters } from '@/contexts/FilterContext';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { ALL_CLIENTS } from '@/lib/clients';
 const TAB_NAME = 'inbound' as const;
 
 export function InboundTab() {
@@ -70,6 +71,7 @@ export function InboundTab() {
       
       const wmWeeks = filters.wmWeeks.length > 0 ? filters.wmWeeks : null;
       const wmDays = filters.wmDaysOfWeek.length > 0 ? filters.wmDaysOfWeek : null;
+      const clientSource = filters.clientSource === ALL_CLIENTS ? null : filters.clientSource;
       
       // Use server-side RPC for aggregation - much faster than client-side batching
       const [metricsResult, chartResult] = await Promise.all([
@@ -77,11 +79,13 @@ export function InboundTab() {
           p_file_ids: activeFileIds,
           p_wm_weeks: wmWeeks,
           p_wm_days: wmDays,
+          p_client_source: clientSource,
         }),
         supabase.rpc('get_inbound_daily_chart', {
           p_file_ids: activeFileIds,
           p_wm_weeks: wmWeeks,
           p_wm_days: wmDays,
+          p_client_source: clientSource,
         }),
       ]);
       
@@ -67,7 +67,10 @@ export function MonthlyTab() {
   // Process chart data from filtered sales (grouped by WM Week + marketplace)
   const weeklyData: Record<number, { wmWeek: number; grossSales: number; effectiveRetail: number; marketplaces: Record<string, number>; sortDate: string }> = {};
   (salesData || []).forEach(row => {
-    const marketplace = mapMarketplace({ marketplace_profile_sold_on: row.marketplace_profile_sold_on ?? null });
+    const marketplace = mapMarketplace({
+      marketplace_profile_sold_on: row.marketplace_profile_sold_on ?? null,
+      tag_clientsource: row.tag_clientsource ?? null,
+    });
     const wk = row.wm_week ?? 0;
     if (!weeklyData[wk]) {
       weeklyData[wk] = { wmWeek: wk, grossSales: 0, effectiveRetail: 0, marketplaces: {}, sortDate: row.order_closed_date || '' };
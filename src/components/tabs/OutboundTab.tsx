@@ -3,6 +3,9 @@ import { FeeBreakdown } from '@/components/dashboard/FeeBreakdown';
 import { TabFilterBar } from '@/components/dashboard/TabFilterBar';
 import { FileUploadZone } from '@/components/dashboard/FileUploadZone';
 import { TabFileManager } from '@/components/dashboard/TabFileManager';
+import { FeeReconciliation } from '@/components/dashboard/FeeReconciliation';
+import { FeeScenarioSimulator } from '@/components/dashboard/FeeScenarioSimulator';
+import { ShipmentSummary } from '@/components/dashboard/ShipmentSummary';
 import { Truck, DollarSign, Package, Receipt } from 'lucide-react';
 import { 
   BarChart, 
@@ -13,7 +16,7 @@ import {
   Tooltip, 
   ResponsiveContainer
 } from 'recharts';
-import { useFilterOptions, useFilteredFees } from '@/hooks/useFilteredData';
+import { useFilterOptions, useFilteredFees, useFilteredSales, useFilteredShipments } from '@/hooks/useFilteredData';
 
 const TAB_NAME = 'outbound' as const;
 
@@ -26,10 +29,14 @@ const formatCurrency = (value: number) => {
 export function OutboundTab() {
   const { data: filterOptions, refetch: refetchOptions } = useFilterOptions();
   const { data: feeData, refetch: refetchData } = useFilteredFees(TAB_NAME);
+  const { data: salesData, refetch: refetchSales } = useFilteredSales(TAB_NAME);
+  const { data: shipmentData, refetch: refetchShipments } = useFilteredShipments(TAB_NAME);
 
   const refetch = () => {
     refetchOptions();
     refetchData();
+    refetchSales();
+    refetchShipments();
   };
 
   // Calculate aggregated metrics with all 11 fee components
@@ -77,7 +84,7 @@ export function OutboundTab() {
     <div className="space-y-6">
       <div>
         <h2 className="text-2xl font-bold">Outbound & Fees</h2>
-        <p className="text-muted-foreground">Fee tracking from Outbound files - never netted against sales</p>
+        <p className="text-muted-foreground">Shipments and fee tracking from Outbound files - fees are never netted against sales</p>
       </div>
 
       {/* Tab-Specific Filters */}
@@ -127,6 +134,9 @@ export function OutboundTab() {
         />
       </div>
 
+      {/* Shipments (Outbound files with ship dates) */}
+      <ShipmentSummary shipments={shipmentData} />
+
       {/* Important Notice */}
       <div className="bg-warning/10 border border-warning/20 rounded-lg p-4">
         <h4 className="font-medium text-warning">Fee Separation Policy</h4>
@@ -218,6 +228,12 @@ export function OutboundTab() {
         </div>
       </div>
 
+      {/* Invoiced vs Calculated Reconciliation */}
+      <FeeReconciliation sales={salesData} />
+
+      {/* Rate Negotiation What-If */}
+      <FeeScenarioSimulator sales={salesData} />
+
       {/* File Manager */}
       <TabFileManager fileType="Outbound" onFilesChanged={refetch} />
 
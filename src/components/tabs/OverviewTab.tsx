@@ -16,7 +16,8 @@ import {
   useFileUploads,
   useFilteredWeeklyTrends
 } from '@/hooks/useFilteredData';
-import { calculateTotalFees } from '@/lib/feeCalculator';
+import { FeeMetrics } from '@/hooks/useDashboardData';
+import { useFilteredSaleFeeTotals } from '@/hooks/useSaleFees';
 
 const formatCurrency = (value: number) => {
   if (value >= 1000000) return `$${(value / 1000000).toFixed(2)}M`;
@@ -51,67 +52,17 @@ export function OverviewTab() {
   const avgSalePrice = unitsCount > 0 ? grossSales / unitsCount : 0;
   const refundTotal = salesData?.reduce((sum, r) => sum + (Number(r.refund_amount) || 0), 0) || 0;
 
-  // Calculate fees using the new fee calculator (line-item based)
-  // Map all fields including invoiced fee columns for hierarchy precedence
-  const calculatedFees = salesData ? calculateTotalFees(salesData.map(s => {
-    const sale = s as Record<string, unknown>;
-    return {
-      sale_price: Number(s.sale_price) || 0,
-      category_name: s.category_name,
-      program_name: s.program_name,
-      marketplace_profile_sold_on: s.marketplace_profile_sold_on,
-      facility: s.facility,
-      effective_retail: Number(s.effective_retail) || 0,
-      tag_clientsource: s.tag_clientsource,
-      refund_amount: Number(s.refund_amount) || 0,
-      discount_amount: Number(s.discount_amount) || 0,
-      // Vendor pallet/invoice fields
-      sorting_index: sale.sorting_index as string | null,
-      vendor_invoice_total: Number(sale.vendor_invoice_total) || null,
-      service_invoice_total: Number(sale.service_invoice_total) || null,
-      expected_hv_as_is_refurb_fee: Number(sale.expected_hv_as_is_refurb_fee) || null,
-      // Invoiced fee columns (hierarchy: invoiced > calculated > rule-based)
-      invoiced_check_in_fee: Number(sale.invoiced_check_in_fee) || null,
-      invoiced_refurb_fee: Number(sale.invoiced_refurb_fee) || null,
-      invoiced_overbox_fee: Number(sale.invoiced_overbox_fee) || null,
-      invoiced_packaging_fee: Number(sale.invoiced_packaging_fee) || null,
-      invoiced_pps_fee: Number(sale.invoiced_pps_fee) || null,
-      invoiced_shipping_fee: Number(sale.invoiced_shipping_fee) || null,
-      invoiced_merchant_fee: Number(sale.invoiced_merchant_fee) || null,
-      invoiced_revshare_fee: Number(sale.invoiced_revshare_fee) || null,
-      invoiced_3pmp_fee: Number(sale.invoiced_3pmp_fee) || null,
-      invoiced_marketing_fee: Number(sale.invoiced_marketing_fee) || null,
-      invoiced_refund_fee: Number(sale.invoiced_refund_fee) || null,
-    };
-  })) : { 
-    totalFees: 0, 
+  // Fees are the stored sale_fees rows of these sales: priced on upload, re-priced when cards or rules change
+  const { data: storedFees } = useFilteredSaleFeeTotals();
+  const feeMetrics: FeeMetrics = storedFees ?? {
+    totalFees: 0,
     netDollars: 0,
-    breakdown: { 
-      checkInFees: 0, refurbFees: 0, overboxFees: 0, packagingFees: 0, 
-      ppsFees: 0, shippingFees: 0, merchantFees: 0, revshareFees: 0, 
-      thirdPartyMPFees: 0, marketingFees: 0, refundFees: 0 
-    } 
-  };
-  
-  // Net Dollars = Gross Sales - Total Fees (calculated per line item then aggregated)
-  const netSales = calculatedFees.netDollars;
-
-  // Build fee metrics for display using calculated fees (not database fees)
-  const feeMetrics = {
-    totalFees: calculatedFees.totalFees,
-    netDollars: calculatedFees.netDollars,
-    checkInFees: calculatedFees.breakdown.checkInFees,
-    refurbFees: calculatedFees.breakdown.refurbFees,
-    overboxFees: calculatedFees.breakdown.overboxFees,
-    packagingFees: calculatedFees.breakdown.packagingFees,
-    ppsFees: calculatedFees.breakdown.ppsFees,
-    shippingFees: calculatedFees.breakdown.shippingFees,
-    merchantFees: calculatedFees.breakdown.merchantFees,
-    revshareFees: calculatedFees.breakdown.revshareFees,
-    thirdPartyMPFees: calculatedFees.breakdown.thirdPartyMPFees,
-    marketingFees: calculatedFees.breakdown.marketingFees,
-    refundFees: calculatedFees.breakdown.refundFees,
+    checkInFees: 0, refurbFees: 0, overboxFees: 0, packagingFees: 0,
+    ppsFees: 0, shippingFees: 0, merchantFees: 0, revshareFees: 0,
+    thirdPartyMPFees: 0, marketingFees: 0, refundFees: 0,
   };
+  const netSales = feeMetrics.netDollars;
+  const unpricedUnits = storedFees ? unitsCount - storedFees.units : 0;
 
   const options = filterOptions || {
     programs: [],
@@ -153,7 +104,7 @@ export function OverviewTab() {
         <KPICard
           title="Net Sales"
           value={formatCurrency(netSales)}
-          subtitle="Gross - Calculated Fees"
+          subtitle={unpricedUnits > 0 ? `Gross - stored fees (${unpricedUnits.toLocaleString()} sales not priced yet)` : 'Gross - Calculated Fees'}
           icon={<DollarSign className="h-5 w-5" />}
           variant="primary"
         />
@@ -2,6 +2,10 @@ import { KPICard } from '@/components/dashboard/KPICard';
 import { TabFilterBar } from '@/components/dashboard/TabFilterBar';
 import { FileUploadZone } from '@/components/dashboard/FileUploadZone';
 import { TabFileManager } from '@/components/dashboard/TabFileManager';
+import { FeeAccrual } from '@/components/dashboard/FeeAccrual';
+import { InventorySnapshotHistory } from '@/components/dashboard/InventorySnapshotHistory';
+import { InventoryTrendChart } from '@/components/dashboard/InventoryTrendChart';
+import { InventorySnapshotComparison } from '@/components/dashboard/InventorySnapshotComparison';
 import { TestTube, Tag, Clock, Activity } from 'lucide-react';
 import { 
   AreaChart, 
@@ -14,10 +18,11 @@ import {
   Legend
 } from 'recharts';
 import { format } from 'date-fns';
-import { useFilterOptions } from '@/hooks/useFilteredData';
+import { useFilterOptions, getClientSourceScope } from '@/hooks/useFilteredData';
 import { useTabFilters } from '@/contexts/FilterContext';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { INVENTORY_SNAPSHOTS_KEY } from '@/hooks/useInventorySnapshots';
 
 const TAB_NAME = 'processing' as const;
 
@@ -49,10 +54,13 @@ export function ProcessingTab() {
       let query = supabase
         .from('units_canonical')
         .select('*')
-        .in('file_upload_id', productionFileIds)
-        .eq('tag_clientsource', 'WMUS'); // WMUS exclusive
+        .in('file_upload_id', productionFileIds);
       
       // Apply filters
+      const clientSources = getClientSourceScope(filters);
+      if (clientSources) {
+        query = query.in('tag_clientsource', clientSources);
+      }
       if (filters.programNames.length > 0) {
         query = query.in('program_name', filters.programNames);
       }
@@ -72,6 +80,8 @@ export function ProcessingTab() {
     refetchData();
     queryClient.invalidateQueries({ queryKey: ['production-file-ids'] });
     queryClient.invalidateQueries({ queryKey: ['file-uploads', 'Production'] });
+    queryClient.invalidateQueries({ queryKey: ['file-uploads', 'Inventory'] });
+    queryClient.invalidateQueries({ queryKey: [INVENTORY_SNAPSHOTS_KEY] });
   };
 
   // Calculate metrics from production units
@@ -131,7 +141,7 @@ export function ProcessingTab() {
     <div className="space-y-6">
       <div>
         <h2 className="text-2xl font-bold">Processing & Inventory</h2>
-        <p className="text-muted-foreground">Testing and listing throughput from Production files</p>
+        <p className="text-muted-foreground">Testing and listing throughput from Production files, work in progress from Inventory snapshots</p>
       </div>
 
       {/* Tab-Specific Filters */}
@@ -175,7 +185,7 @@ export function ProcessingTab() {
         <KPICard
           title="Work In Progress"
           value={wipCount.toLocaleString()}
-          subtitle="Units not yet sold"
+          subtitle="Units not yet sold (Production files, today)"
           icon={<Clock className="h-5 w-5" />}
           variant="warning"
         />
@@ -241,7 +251,8 @@ export function ProcessingTab() {
 
       {/* WIP Breakdown */}
       <div className="bg-card rounded-lg border p-6">
-        <h3 className="text-lg font-semibold mb-4">Work In Progress Breakdown</h3>
+        <h3 className="text-lg font-semibold">Work In Progress Breakdown</h3>
+        <p className="text-sm text-muted-foreground mb-4">Current, from Production files; see the inventory snapshots below for past dates</p>
         <div className="grid gap-4 md:grid-cols-4">
           {wipStages.map(stage => (
             <div key={stage} className="p-4 bg-muted/50 rounded-lg">
@@ -252,8 +263,17 @@ export function ProcessingTab() {
         </div>
       </div>
 
+      {/* Inventory snapshots: WIP on any past date, weekly trend, date-to-date changes */}
+      <InventorySnapshotHistory tabName={TAB_NAME} />
+      <InventoryTrendChart tabName={TAB_NAME} />
+      <InventorySnapshotComparison tabName={TAB_NAME} />
+
+      {/* Expected fees on WIP */}
+      <FeeAccrual units={productionFileIds?.length === 0 ? [] : productionUnits} />
+
       {/* File Manager */}
       <TabFileManager fileType="Production" onFilesChanged={refetch} />
+      <TabFileManager fileType="Inventory" onFilesChanged={refetch} />
 
       {/* Upload Section */}
       <FileUploadZone onUploadComplete={refetch} />
@@ -0,0 +1,106 @@
+import { format } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { RateCardImport } from '@/components/dashboard/RateCardImport';
+import { RateCardCoverage } from '@/components/dashboard/RateCardCoverage';
+import { FeeRulesEditor } from '@/components/dashboard/FeeRulesEditor';
+import { SaleFeeRecompute } from '@/components/dashboard/SaleFeeRecompute';
+import { useRateCards } from '@/hooks/useRateCards';
+import { useActiveClient } from '@/contexts/FilterContext';
+import { getClientConfig } from '@/lib/clients';
+import { operationsNow } from '@/lib/operationsTime';
+import { RATE_CARD_TYPES, RATE_CARD_LABELS, getBundledEntries, findRateCardVersion } from '@/lib/rateCards';
+
+export function RateCardsTab() {
+  const { data: versions, isLoading } = useRateCards();
+  const { activeClient } = useActiveClient();
+  const today = format(operationsNow(), 'yyyy-MM-dd');
+  // "All clients" shows the default client's cards
+  const client = getClientConfig(activeClient);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold">Rate Cards</h2>
+        <p className="text-muted-foreground">
+          Versioned fee rate cards per client. Sales are priced with their client's card in effect on their
+          order closed date; dates before the first published version use the bundled card.
+        </p>
+      </div>
+
+      <RateCardImport />
+
+      <div className="bg-card rounded-lg border p-6">
+        <h3 className="text-lg font-semibold mb-4">Published Versions — {client.name}</h3>
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading rate cards...
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left py-3 px-4 font-medium text-muted-foreground">Card</th>
+                  <th className="text-left py-3 px-4 font-medium text-muted-foreground">Version</th>
+                  <th className="text-left py-3 px-4 font-medium text-muted-foreground">Effective</th>
+                  <th className="text-right py-3 px-4 font-medium text-muted-foreground">Rates</th>
+                  <th className="text-left py-3 px-4 font-medium text-muted-foreground">Source</th>
+                  <th className="text-left py-3 px-4 font-medium text-muted-foreground">Notes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {RATE_CARD_TYPES.map(type => {
+                  const typeVersions = (versions || [])
+                    .filter(v => v.cardType === type && v.clientSource === client.code)
+                    .sort((a, b) => b.version - a.version);
+                  const activeId = findRateCardVersion(type, today, client.code)?.id;
+
+                  return [
+                    ...typeVersions.map(v => (
+                      <tr key={v.id} className="border-b last:border-0">
+                        <td className="py-3 px-4 font-medium">{RATE_CARD_LABELS[type]}</td>
+                        <td className="py-3 px-4">
+                          v{v.version}
+                          {v.id === activeId && (
+                            <Badge variant="outline" className="ml-2 text-xs bg-success/10 text-success border-success/20">Active</Badge>
+                          )}
+                        </td>
+                        <td className="py-3 px-4">{v.effectiveFrom} → {v.effectiveTo ?? 'open'}</td>
+                        <td className="py-3 px-4 text-right">{v.entries.length.toLocaleString()}</td>
+                        <td className="py-3 px-4 text-muted-foreground">{v.sourceFileName || '—'}</td>
+                        <td className="py-3 px-4 text-muted-foreground">{v.notes || '—'}</td>
+                      </tr>
+                    )),
+                    <tr key={`${type}-bundled`} className="border-b last:border-0">
+                      <td className="py-3 px-4 font-medium">{RATE_CARD_LABELS[type]}</td>
+                      <td className="py-3 px-4">
+                        Bundled
+                        {!activeId && (
+                          <Badge variant="outline" className="ml-2 text-xs bg-success/10 text-success border-success/20">Active</Badge>
+                        )}
+                      </td>
+                      <td className="py-3 px-4">
+                        {typeVersions.length > 0 ? `before ${typeVersions[typeVersions.length - 1].effectiveFrom}` : 'all dates'}
+                      </td>
+                      <td className="py-3 px-4 text-right">{getBundledEntries(type).length.toLocaleString()}</td>
+                      <td className="py-3 px-4 text-muted-foreground">Shipped with app</td>
+                      <td className="py-3 px-4 text-muted-foreground">—</td>
+                    </tr>,
+                  ];
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <RateCardCoverage />
+
+      <FeeRulesEditor />
+
+      <SaleFeeRecompute />
+    </div>
+  );
+}
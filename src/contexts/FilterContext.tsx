@@ -1,7 +1,11 @@
 import { createContext, useContext, useState, useCallback, ReactNode } from 'react';
 import { WalmartChannel } from '@/lib/walmartChannel';
+import { DEFAULT_CLIENT, setActiveClient as registerActiveClient } from '@/lib/clients';
 
 export interface TabFilters {
+  // Global client scope from the header switcher (ALL_CLIENTS = no scope)
+  clientSource: string;
+
   // File-level filters
   selectedFileIds: string[] | null;
   excludedFileIds: string[];
@@ -40,9 +44,13 @@ interface FilterContextType {
   isFileExcluded: (fileId: string) => boolean;
   // Global excluded files (persisted)
   globalExcludedFileIds: string[];
+  // Global client selection (persisted)
+  activeClient: string;
+  setActiveClient: (code: string) => void;
 }
 
 const defaultTabFilters: TabFilters = {
+  clientSource: DEFAULT_CLIENT,
   selectedFileIds: null,
   excludedFileIds: [],
   fileTypes: [],
@@ -73,6 +81,20 @@ export function FilterProvider({ children }: { children: ReactNode }) {
     return saved ? JSON.parse(saved) : [];
   });
 
+  // Global client selection (persisted); mirrored into the client registry so mapping and
+  // rate card lookups outside React follow the switcher
+  const [activeClient, setActiveClientState] = useState<string>(() => {
+    const code = localStorage.getItem('wm-active-client') || DEFAULT_CLIENT;
+    registerActiveClient(code);
+    return code;
+  });
+
+  const setActiveClient = useCallback((code: string) => {
+    localStorage.setItem('wm-active-client', code);
+    registerActiveClient(code);
+    setActiveClientState(code);
+  }, []);
+
   // Per-tab filters
   const [tabFilters, setTabFiltersState] = useState<Record<TabName, TabFilters>>({
     inbound: { ...defaultTabFilters, excludedFileIds: globalExcludedFileIds },
@@ -86,8 +108,8 @@ export function FilterProvider({ children }: { children: ReactNode }) {
   });
 
   const getTabFilters = useCallback((tab: TabName): TabFilters => {
-    return { ...tabFilters[tab], excludedFileIds: globalExcludedFileIds };
-  }, [tabFilters, globalExcludedFileIds]);
+    return { ...tabFilters[tab], excludedFileIds: globalExcludedFileIds, clientSource: activeClient };
+  }, [tabFilters, globalExcludedFileIds, activeClient]);
 
   const setTabFilter = useCallback(<K extends keyof TabFilters>(tab: TabName, key: K, value: TabFilters[K]) => {
     setTabFiltersState(prev => ({
@@ -140,6 +162,8 @@ export function FilterProvider({ children }: { children: ReactNode }) {
       includeFile,
       isFileExcluded,
       globalExcludedFileIds,
+      activeClient,
+      setActiveClient,
     }}>
       {children}
     </FilterContext.Provider>
@@ -174,6 +198,18 @@ export function useTabFilters(tab: TabName) {
   };
 }
 
+export function useActiveClient() {
+  const context = useContext(FilterContext);
+  if (!context) {
+    throw new Error('useActiveClient must be used within a FilterProvider');
+  }
+
+  return {
+    activeClient: context.activeClient,
+    setActiveClient: context.setActiveClient,
+  };
+}
+
 // Legacy hook for backwards compatibility - defaults to inbound
 export function useFilters() {
   return useTabFilters('inbound');
@@ -0,0 +1,41 @@
+import { queryOptions, useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  ClientConfig,
+  ChannelRule,
+  MarketplaceMappingRule,
+  BUNDLED_MARKETPLACE_RULES,
+  BUNDLED_CHANNEL_RULES,
+  BUNDLED_DEFAULT_CHANNEL,
+  setClientConfigs,
+} from '@/lib/clients';
+
+// Load the clients and register their mapping / channel rules.
+// Clients without their own rules use the bundled Walmart ones.
+export const clientsQuery = queryOptions({
+  queryKey: ['clients'],
+  staleTime: 5 * 60 * 1000,
+  refetchOnWindowFocus: false,
+  queryFn: async (): Promise<ClientConfig[]> => {
+    const { data, error } = await supabase
+      .from('clients')
+      .select('*')
+      .order('code', { ascending: true });
+
+    if (error) throw error;
+
+    const configs: ClientConfig[] = (data || []).map(row => ({
+      code: row.code,
+      name: row.name,
+      marketplaceRules: (row.marketplace_rules as unknown as MarketplaceMappingRule[] | null) ?? BUNDLED_MARKETPLACE_RULES,
+      channelRules: (row.channel_rules as unknown as ChannelRule[] | null) ?? BUNDLED_CHANNEL_RULES,
+      defaultChannel: row.default_channel || BUNDLED_DEFAULT_CHANNEL,
+    }));
+
+    setClientConfigs(configs);
+    console.log('Clients loaded:', configs.map(c => c.code));
+    return configs;
+  },
+});
+
+export const useClients = () => useQuery(clientsQuery);
@@ -0,0 +1,65 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Json, Tables } from '@/integrations/supabase/types';
+import { ColumnMapping, ColumnProfile } from '@/lib/columnMapping';
+
+const toColumnProfile = (row: Tables<'column_mapping_profiles'>): ColumnProfile => ({
+  id: row.id,
+  name: row.name,
+  headerSignature: row.header_signature,
+  headers: row.headers as unknown as string[],
+  mapping: row.mapping as unknown as ColumnMapping,
+  updatedAt: row.updated_at,
+});
+
+// All saved column mapping profiles, most recently used first
+export function useColumnProfiles() {
+  return useQuery({
+    queryKey: ['column-profiles'],
+    staleTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false,
+    queryFn: async (): Promise<ColumnProfile[]> => {
+      const { data, error } = await supabase
+        .from('column_mapping_profiles')
+        .select('*')
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map(toColumnProfile);
+    },
+  });
+}
+
+// Saved profile for a header layout, if any
+export async function fetchColumnProfile(headerSignature: string): Promise<ColumnProfile | null> {
+  const { data, error } = await supabase
+    .from('column_mapping_profiles')
+    .select('*')
+    .eq('header_signature', headerSignature)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toColumnProfile(data) : null;
+}
+
+// Save (or overwrite) the profile for a header layout
+export async function saveColumnProfile(
+  profile: Pick<ColumnProfile, 'name' | 'headerSignature' | 'headers' | 'mapping'>
+): Promise<ColumnProfile> {
+  const { data, error } = await supabase
+    .from('column_mapping_profiles')
+    .upsert(
+      {
+        name: profile.name,
+        header_signature: profile.headerSignature,
+        headers: profile.headers as unknown as Json,
+        mapping: profile.mapping as unknown as Json,
+      },
+      { onConflict: 'header_signature' }
+    )
+    .select()
+    .single();
+
+  if (error) throw error;
+  return toColumnProfile(data);
+}
@@ -1,6 +1,7 @@
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { getWMWeekNumber, getWMWeekRange } from '@/lib/wmWeek';
+import { operationsNow } from '@/lib/operationsTime';
 
 export interface DashboardFilters {
   wmWeek?: number;
@@ -42,7 +43,7 @@ export interface FeeMetrics {
 }
 
 export function useDashboardData(filters: DashboardFilters = {}) {
-  const currentWmWeek = getWMWeekNumber(new Date());
+  const currentWmWeek = getWMWeekNumber(operationsNow());
 
   // Fetch lifecycle funnel data
   const lifecycleFunnel = useQuery({
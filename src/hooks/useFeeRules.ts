@@ -0,0 +1,50 @@
+import { queryOptions, useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { FeeEligibilityRule, FeeRuleSet, BUNDLED_FEE_RULE_SET, setActiveFeeRuleSet } from '@/lib/feeRules';
+
+// Load all published rule set versions and activate the latest one for the fee calculator.
+// The bundled rules stay active until a version is published.
+export const feeRulesQuery = queryOptions({
+  queryKey: ['fee-rules'],
+  staleTime: 5 * 60 * 1000,
+  refetchOnWindowFocus: false,
+  queryFn: async (): Promise<FeeRuleSet[]> => {
+    const { data, error } = await supabase
+      .from('fee_rule_sets')
+      .select('*')
+      .order('version', { ascending: false });
+
+    if (error) throw error;
+
+    const versions: FeeRuleSet[] = (data || []).map(row => ({
+      id: row.id,
+      version: row.version,
+      defaults: { ...BUNDLED_FEE_RULE_SET.defaults, ...(row.defaults as Partial<FeeRuleSet['defaults']>) },
+      rules: row.rules as unknown as FeeEligibilityRule[],
+      notes: row.notes,
+      publishedAt: row.published_at,
+    }));
+
+    setActiveFeeRuleSet(versions[0] ?? null);
+    console.log('Fee rules active:', versions[0] ? `v${versions[0].version}` : 'bundled');
+    return versions;
+  },
+});
+
+export const useFeeRules = () => useQuery(feeRulesQuery);
+
+// Publish the edited rules as the next version
+export async function publishFeeRuleSet(
+  ruleSet: Pick<FeeRuleSet, 'defaults' | 'rules'>,
+  notes?: string
+): Promise<string> {
+  const { data, error } = await supabase.rpc('publish_fee_rule_set', {
+    p_defaults: ruleSet.defaults as unknown as Json,
+    p_rules: ruleSet.rules as unknown as Json,
+    p_notes: notes,
+  });
+
+  if (error) throw error;
+  return data;
+}
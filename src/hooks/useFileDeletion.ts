@@ -0,0 +1,83 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { removeRawFile } from '@/hooks/useIngestJobs';
+
+type DeletedRowsRow = Database['public']['Functions']['delete_file_upload']['Returns'][number];
+
+// Rows removed per table by a delete or replace
+export interface DeletedRowCounts {
+  lifecycleEvents: number;
+  salesMetrics: number;
+  saleFees: number;
+  feeMetrics: number;
+  inventorySnapshots: number;
+  outboundShipments: number;
+  unitsCanonical: number;
+  fileUploads: number;
+}
+
+const toDeletedRowCounts = (row: DeletedRowsRow | undefined): DeletedRowCounts => ({
+  lifecycleEvents: Number(row?.lifecycle_events_deleted || 0),
+  salesMetrics: Number(row?.sales_metrics_deleted || 0),
+  saleFees: Number(row?.sale_fees_deleted || 0),
+  feeMetrics: Number(row?.fee_metrics_deleted || 0),
+  inventorySnapshots: Number(row?.inventory_snapshots_deleted || 0),
+  outboundShipments: Number(row?.outbound_shipments_deleted || 0),
+  unitsCanonical: Number(row?.units_canonical_deleted || 0),
+  fileUploads: Number(row?.file_uploads_deleted || 0),
+});
+
+const COUNT_LABELS: [keyof DeletedRowCounts, string][] = [
+  ['unitsCanonical', 'units'],
+  ['lifecycleEvents', 'lifecycle events'],
+  ['salesMetrics', 'sales rows'],
+  ['saleFees', 'fee breakdowns'],
+  ['feeMetrics', 'fee rows'],
+  ['inventorySnapshots', 'inventory snapshot rows'],
+  ['outboundShipments', 'shipments'],
+];
+
+// "1,200 units, 3,400 lifecycle events" — tables with nothing removed are left out
+export function formatDeletedRows(counts: DeletedRowCounts): string {
+  const parts = COUNT_LABELS
+    .filter(([key]) => counts[key] > 0)
+    .map(([key, label]) => `${counts[key].toLocaleString()} ${label}`);
+  return parts.length > 0 ? parts.join(', ') : 'no data rows';
+}
+
+// Remove an upload and everything it wrote, in one transaction. Refused while its server ingest job
+// is running. A server upload's raw file goes too, unless another upload of the same bytes still uses it.
+export async function deleteFileUpload(uploadId: string): Promise<DeletedRowCounts> {
+  const { data: upload, error: lookupError } = await supabase
+    .from('file_uploads')
+    .select('storage_path')
+    .eq('id', uploadId)
+    .maybeSingle();
+  if (lookupError) throw lookupError;
+
+  const { data, error } = await supabase.rpc('delete_file_upload', { p_upload_id: uploadId });
+  if (error) throw new Error(error.message);
+
+  const path = upload?.storage_path;
+  if (path) {
+    try {
+      const { count, error: countError } = await supabase
+        .from('file_uploads')
+        .select('id', { count: 'exact', head: true })
+        .eq('storage_path', path);
+      if (countError) throw countError;
+      if (count === 0) await removeRawFile(path);
+    } catch (removeError) {
+      // The data is gone either way; a leftover file only takes up space
+      console.warn('Could not remove the uploaded file:', removeError);
+    }
+  }
+  return toDeletedRowCounts(data?.[0]);
+}
+
+// Drop the upload a finished replacement stands in for; null when there was nothing left to replace
+export async function completeFileReplacement(newUploadId: string): Promise<DeletedRowCounts | null> {
+  const { data, error } = await supabase.rpc('replace_file_upload', { p_new_upload_id: newUploadId });
+  if (error) throw error;
+  return data && data.length > 0 ? toDeletedRowCounts(data[0]) : null;
+}
@@ -1,152 +1,59 @@
 import { useState, useCallback, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
-import { parseCSV, ParsedUnit } from '@/lib/csvParser';
-import { determineFileType, parseFileBusinessDate, getWMWeekNumber, getWMDayOfWeek } from '@/lib/wmWeek';
+import { Database, Json, Tables } from '@/integrations/supabase/types';
+import { parseFileBusinessDate } from '@/lib/wmWeek';
 import { format } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
-import * as XLSX from 'xlsx';
+import { fetchColumnProfile, saveColumnProfile } from '@/hooks/useColumnProfiles';
+import { completeFileReplacement, formatDeletedRows } from '@/hooks/useFileDeletion';
+import { saveRowIssues } from '@/hooks/useRowIssues';
+import { ensureFeeRegistries } from '@/hooks/useSaleFees';
+import { fetchSheetSelection, saveSheetSelection } from '@/hooks/useSheetSelections';
+import { removeRawFile, startIngestJob, uploadRawFile } from '@/hooks/useIngestJobs';
+import {
+  BatchCheckpoint,
+  fetchDoneBatchIndices,
+  saveBatchCheckpoints,
+  setUploadStatus,
+} from '@/hooks/useUploadCheckpoints';
+import { createUploadParser, UploadParser } from '@/lib/uploadParserClient';
+import { getOperationsTimeZone, operationsNow } from '@/lib/operationsTime';
+import { UploadBatchContext } from '@/lib/uploadRecords';
+import { RetryPolicy, writeUploadBatch } from '@/lib/uploadBatches';
+import { DuplicateUpload, ExistingTrgidCounts, UploadPreview } from '@/lib/uploadPreview';
+import {
+  SheetInfo,
+  SheetSelectionRequest,
+  SheetSelectionResult,
+  checkServerWorkbookSize,
+  defaultSheetSelection,
+  getFileNamePattern,
+  isExcelFileName,
+  mismatchedSheets,
+} from '@/lib/excelSheets';
+import { DetectableFileType, FileTypeChoice, FileTypeRequest, detectFileType } from '@/lib/fileTypeDetection';
+import {
+  ColumnMapping,
+  ColumnMappingRequest,
+  ColumnMappingResult,
+  detectColumns,
+  getHeaderSignature,
+} from '@/lib/columnMapping';
 
 // Constants for large file handling
-const LARGE_FILE_THRESHOLD = 100 * 1024 * 1024; // 100MB
-const VERY_LARGE_FILE_THRESHOLD = 200 * 1024 * 1024; // 200MB
-
-// Read file in chunks to handle large files without memory issues
-async function readFileInChunks(file: File, onProgress?: (percent: number) => void): Promise<string> {
-  const CHUNK_SIZE = 10 * 1024 * 1024; // 10MB chunks
-  const fileSize = file.size;
-  
-  if (fileSize < CHUNK_SIZE) {
-    // Small file, read directly
-    return await file.text();
-  }
-  
-  // Large file, read in chunks using streaming
-  const chunks: string[] = [];
-  let offset = 0;
-  
-  while (offset < fileSize) {
-    const chunk = file.slice(offset, offset + CHUNK_SIZE);
-    const text = await chunk.text();
-    chunks.push(text);
-    offset += CHUNK_SIZE;
-    
-    if (onProgress) {
-      onProgress(Math.min((offset / fileSize) * 100, 100));
-    }
-    
-    // Yield to prevent UI blocking
-    await new Promise(resolve => setTimeout(resolve, 0));
-  }
-  
-  return chunks.join('');
-}
-
-// Read Excel file with aggressive memory management for large files
-async function readExcelFile(
-  file: File, 
-  onProgress?: (percent: number) => void,
-  abortSignal?: AbortSignal
-): Promise<string> {
-  const fileSizeMB = file.size / (1024 * 1024);
-  const isVeryLarge = file.size > VERY_LARGE_FILE_THRESHOLD;
-  
-  if (onProgress) onProgress(5);
-  
-  // Check for abort before starting
-  if (abortSignal?.aborted) {
-    throw new Error('Upload cancelled');
-  }
-  
-  try {
-    console.log(`Reading Excel file (${fileSizeMB.toFixed(1)} MB)...`);
-    
-    // For very large files, warn user
-    if (isVeryLarge) {
-      console.warn(`Very large file detected (${fileSizeMB.toFixed(0)}MB). This may take several minutes.`);
-    }
-    
-    // Read file with progress tracking
-    const arrayBuffer = await file.arrayBuffer();
-    
-    if (abortSignal?.aborted) {
-      throw new Error('Upload cancelled');
-    }
-    
-    if (onProgress) onProgress(30);
-    console.log(`File loaded into memory, parsing workbook...`);
-    
-    // Yield to browser before heavy parsing
-    await new Promise(resolve => setTimeout(resolve, 50));
-    
-    // Use most memory-efficient options for large files
-    const parseOptions: XLSX.ParsingOptions = {
-      type: 'array',
-      dense: true,
-      cellFormula: false,
-      cellHTML: false,
-      cellText: false,
-      cellStyles: false,
-      cellDates: true,
-      sheetRows: isVeryLarge ? 0 : undefined, // Read all rows
-    };
-    
-    const workbook = XLSX.read(arrayBuffer, parseOptions);
-    
-    if (abortSignal?.aborted) {
-      throw new Error('Upload cancelled');
-    }
-    
-    if (onProgress) onProgress(60);
-    
-    if (!workbook.SheetNames || workbook.SheetNames.length === 0) {
-      throw new Error('Excel file has no sheets');
-    }
-    
-    const firstSheetName = workbook.SheetNames[0];
-    const worksheet = workbook.Sheets[firstSheetName];
-    
-    if (!worksheet) {
-      throw new Error(`Worksheet "${firstSheetName}" is empty`);
-    }
-    
-    // Yield again before CSV conversion
-    await new Promise(resolve => setTimeout(resolve, 50));
-    
-    console.log(`Converting sheet "${firstSheetName}" to CSV...`);
-    if (onProgress) onProgress(75);
-    
-    const csvContent = XLSX.utils.sheet_to_csv(worksheet, {
-      blankrows: false, // Skip blank rows to reduce size
-    });
-    
-    if (!csvContent || csvContent.trim().length === 0) {
-      throw new Error('Excel sheet converted to empty CSV');
-    }
-    
-    console.log(`CSV conversion complete, ${(csvContent.length / 1024 / 1024).toFixed(1)} MB`);
-    if (onProgress) onProgress(95);
-    
-    return csvContent;
-  } catch (error) {
-    console.error('Excel parsing error:', error);
-    if (error instanceof Error) {
-      if (error.message === 'Upload cancelled') {
-        throw error;
-      }
-      if (error.message.includes('memory') || error.message.includes('allocation') || error.message.includes('heap')) {
-        throw new Error(`File too large for browser memory (${fileSizeMB.toFixed(0)} MB). Please save as CSV in Excel first, or try closing other browser tabs.`);
-      }
-      throw error;
-    }
-    throw new Error(`Failed to parse Excel file: ${String(error)}`);
-  }
-}
+const VERY_LARGE_FILE_THRESHOLD = 50 * 1024 * 1024; // 50MB
+const EXISTING_CHECK_BATCH = 5000; // TRGIDs per count_existing_trgids call
+// Larger batches = fewer round-trips; concurrency = parallel network I/O
+const BATCH_SIZE = 500; // stored on the upload row, so a resumed upload re-sends the same batches
+const CONCURRENCY = 3; // Reduced from 5 to prevent connection pool exhaustion
 
 export interface UploadProgress {
   stage: 'reading' | 'parsing' | 'uploading' | 'complete' | 'error';
   message: string;
   progress: number;
   estimatedTimeRemaining?: number; // in seconds
+  duplicateOf?: DuplicateUpload; // set when the file was blocked as an exact duplicate
 }
 
 function formatTimeRemaining(seconds: number): string {
@@ -158,27 +65,378 @@ function formatTimeRemaining(seconds: number): string {
   return `${minutes}m ${secs}s remaining`;
 }
 
+// Dry run: how many of the parsed TRGIDs are already stored, per table (snapshot: on the file's business date)
+async function countExistingTrgids(parser: UploadParser, rowCount: number, snapshotDate: string): Promise<ExistingTrgidCounts> {
+  const counts: ExistingTrgidCounts = { units: 0, sales: 0, fees: 0, shipments: 0, snapshot: 0 };
+  for (let index = 0; index * EXISTING_CHECK_BATCH < rowCount; index++) {
+    const trgids = await parser.getTrgids(index, EXISTING_CHECK_BATCH);
+    const { data, error } = await supabase.rpc('count_existing_trgids', { p_trgids: trgids, p_snapshot_date: snapshotDate });
+    if (error) throw error;
+    const row = data?.[0];
+    counts.units += Number(row?.units_existing || 0);
+    counts.sales += Number(row?.sales_existing || 0);
+    counts.fees += Number(row?.fees_existing || 0);
+    counts.shipments += Number(row?.shipments_existing || 0);
+    counts.snapshot += Number(row?.snapshot_existing || 0);
+  }
+  return counts;
+}
+
+// The parser worker holds every parsed unit until the last batch is sent, so files past this size are
+// loaded by the ingest-upload function instead (queueServerUpload)
+export const BROWSER_UPLOAD_LIMIT_MB = 100;
+
+export const needsServerUpload = (file: File): boolean => file.size > BROWSER_UPLOAD_LIMIT_MB * 1024 * 1024;
+
+export interface UploadFileOptions {
+  replacesUploadId?: string; // upload being replaced once this one has fully loaded; not reported as a duplicate
+}
+
+type UploadRow = Pick<Tables<'file_uploads'>, 'id' | 'file_name' | 'file_type' | 'file_business_date' | 'upload_timestamp'>;
+const UPLOAD_COLUMNS = 'id, file_name, file_type, file_business_date, upload_timestamp';
+
+const toDuplicate = (row: UploadRow, match: DuplicateUpload['match']): DuplicateUpload => ({
+  id: row.id,
+  fileName: row.file_name,
+  fileType: row.file_type,
+  businessDate: row.file_business_date,
+  uploadedAt: row.upload_timestamp,
+  match,
+});
+
+// Earlier upload with exactly the same bytes
+async function findSameContentUpload(contentHash: string, excludeId?: string): Promise<DuplicateUpload | null> {
+  const { data, error } = await supabase
+    .from('file_uploads')
+    .select(UPLOAD_COLUMNS)
+    .eq('content_hash', contentHash)
+    .order('upload_timestamp', { ascending: false });
+
+  if (error) throw error;
+  const row = (data || []).find(r => r.id !== excludeId);
+  return row ? toDuplicate(row, 'content') : null;
+}
+
+// Earlier uploads with the same units, type and business date, or just the same type and business date
+async function findSimilarUploads(
+  fingerprint: string,
+  fileType: string,
+  businessDate: string,
+  excludeId?: string
+): Promise<DuplicateUpload[]> {
+  const [byFingerprint, byDate] = await Promise.all([
+    supabase.from('file_uploads').select(UPLOAD_COLUMNS).eq('fingerprint', fingerprint),
+    supabase
+      .from('file_uploads')
+      .select(UPLOAD_COLUMNS)
+      .eq('file_type', fileType as Database['public']['Enums']['file_type'])
+      .eq('file_business_date', businessDate),
+  ]);
+  if (byFingerprint.error) throw byFingerprint.error;
+  if (byDate.error) throw byDate.error;
+
+  const duplicates = new Map<string, DuplicateUpload>();
+  for (const row of byFingerprint.data || []) duplicates.set(row.id, toDuplicate(row, 'units'));
+  for (const row of byDate.data || []) {
+    if (!duplicates.has(row.id)) duplicates.set(row.id, toDuplicate(row, 'date'));
+  }
+  if (excludeId) duplicates.delete(excludeId);
+  return [...duplicates.values()];
+}
+
+// An upload that stopped part way stays resumable; the status write is best effort
+function markIncomplete(fileUploadId: string) {
+  setUploadStatus(fileUploadId, 'incomplete').catch(error => {
+    console.warn('Could not mark upload as incomplete:', error);
+  });
+}
+
+interface BatchWriteJob {
+  parser: UploadParser;
+  context: UploadBatchContext;
+  batchIndices: number[]; // batches to send, ascending
+  totalBatches: number; // in the whole file; the ones not listed are already saved
+  rowCount: number;
+  resend: boolean; // batches may have been partly written by an earlier attempt
+  abortSignal: AbortSignal;
+  startTime: number;
+  onProgress: (progress: UploadProgress) => void;
+}
+
+// Write batches to every table, checkpointing each round; returns the batches still failing after the retry rounds
+async function writeUploadBatches(job: BatchWriteJob): Promise<number[]> {
+  const { parser, context, abortSignal, totalBatches, rowCount } = job;
+  const alreadySaved = totalBatches - job.batchIndices.length;
+  let processedBatches = 0;
+
+  console.log(`Processing ${job.batchIndices.length} of ${totalBatches} batches of ${BATCH_SIZE} (concurrency: ${CONCURRENCY})`);
+
+  const errorMessage = (reason: unknown) => (reason instanceof Error ? reason.message : String(reason));
+
+  const retryWithBackoff: RetryPolicy = async fn => {
+    const maxRetries = 8;
+    for (let attempt = 0; ; attempt++) {
+      if (abortSignal.aborted) throw new Error('Upload cancelled');
+      try {
+        return await fn();
+      } catch (error) {
+        if (errorMessage(error) === 'Upload cancelled') throw error;
+        if (attempt === maxRetries - 1) throw error;
+        // Longer backoff with jitter to avoid thundering herd
+        const baseDelay = Math.pow(2, attempt) * 800;
+        const jitter = Math.random() * 400;
+        const delay = baseDelay + jitter;
+        console.warn(`Retry attempt ${attempt + 1}/${maxRetries} after ${Math.round(delay)}ms:`, errorMessage(error));
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  };
+
+  // A lost checkpoint only means the batch is sent again on resume
+  const checkpoint = async (checkpoints: BatchCheckpoint[]) => {
+    try {
+      await saveBatchCheckpoints(context.fileUploadId, checkpoints);
+    } catch (error) {
+      console.warn('Could not save batch checkpoints:', error);
+    }
+  };
+
+  // Process a single batch: every table it touches, in parallel
+  const processBatch = async (batchIndex: number, resend: boolean) => {
+    if (abortSignal.aborted) throw new Error('Upload cancelled');
+    const batch = await parser.getBatch(batchIndex, BATCH_SIZE, context);
+    await writeUploadBatch(supabase, batch, context, { resend, retry: retryWithBackoff });
+    processedBatches++;
+  };
+
+  // Execute batches with controlled concurrency using allSettled
+  // so one failed batch doesn't kill sibling batches
+  let failedBatchIndices: number[] = [];
+
+  for (let i = 0; i < job.batchIndices.length; i += CONCURRENCY) {
+    if (abortSignal.aborted) throw new Error('Upload cancelled');
+
+    const batchIndices = job.batchIndices.slice(i, i + CONCURRENCY);
+    const results = await Promise.allSettled(batchIndices.map(j => processBatch(j, job.resend)));
+
+    // Track which batches failed
+    const checkpoints: BatchCheckpoint[] = results.map((result, idx) => {
+      const batchIdx = batchIndices[idx];
+      if (result.status === 'fulfilled') return { batchIndex: batchIdx, error: null };
+      console.error(`Batch ${batchIdx} failed permanently:`, errorMessage(result.reason));
+      failedBatchIndices.push(batchIdx);
+      return { batchIndex: batchIdx, error: errorMessage(result.reason) };
+    });
+    await checkpoint(checkpoints);
+
+    // Update progress
+    const savedBatches = alreadySaved + processedBatches;
+    const progress = 60 + ((savedBatches / totalBatches) * 35);
+    const elapsedTime = (Date.now() - job.startTime) / 1000;
+    const progressFraction = processedBatches / job.batchIndices.length;
+    const estimatedTotalTime = progressFraction > 0 ? elapsedTime / progressFraction : 0;
+    const estimatedTimeRemaining = Math.max(0, estimatedTotalTime - elapsedTime);
+
+    job.onProgress({
+      stage: 'uploading',
+      message: `${savedBatches}/${totalBatches} batches (${Math.min(savedBatches * BATCH_SIZE, rowCount).toLocaleString()} of ${rowCount.toLocaleString()} rows)`,
+      progress,
+      estimatedTimeRemaining: processedBatches > 2 ? estimatedTimeRemaining : undefined
+    });
+  }
+
+  // Retry failed batches with multiple rounds (up to 3 rounds)
+  // Process sequentially (concurrency=1) to reduce DB pressure
+  for (let retryRound = 1; retryRound <= 3 && failedBatchIndices.length > 0; retryRound++) {
+    console.log(`Retry round ${retryRound}: ${failedBatchIndices.length} failed batches...`);
+    job.onProgress({ stage: 'uploading', message: `Retry round ${retryRound}: ${failedBatchIndices.length} batches...`, progress: 95 });
+
+    // Wait before retry round to let DB recover
+    await new Promise(resolve => setTimeout(resolve, 3000 * retryRound));
+
+    const stillFailed: number[] = [];
+    for (const batchIdx of failedBatchIndices) {
+      if (abortSignal.aborted) throw new Error('Upload cancelled');
+      try {
+        await processBatch(batchIdx, true);
+        await checkpoint([{ batchIndex: batchIdx, error: null }]);
+      } catch (e) {
+        if (errorMessage(e) === 'Upload cancelled') throw e;
+        console.error(`Batch ${batchIdx} failed on retry round ${retryRound}:`, errorMessage(e));
+        await checkpoint([{ batchIndex: batchIdx, error: errorMessage(e) }]);
+        stillFailed.push(batchIdx);
+      }
+      // Small delay between sequential retries
+      await new Promise(resolve => setTimeout(resolve, 500));
+    }
+    failedBatchIndices = stillFailed;
+  }
+
+  return failedBatchIndices;
+}
+
 export function useFileUpload(fileTypeOverride?: string) {
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const uploadStartTime = useRef<number>(0);
   const abortControllerRef = useRef<AbortController | null>(null);
+  const parserRef = useRef<UploadParser | null>(null);
+  // Sheet picker: set while a multi-sheet workbook waits for the user to choose its sheets
+  const [sheetSelectionRequest, setSheetSelectionRequest] = useState<SheetSelectionRequest | null>(null);
+  const sheetResolverRef = useRef<((result: SheetSelectionResult | null) => void) | null>(null);
+  // File type prompt: set while an upload whose columns do not say what it is waits for the user
+  const [fileTypeRequest, setFileTypeRequest] = useState<FileTypeRequest | null>(null);
+  const fileTypeResolverRef = useRef<((fileType: DetectableFileType | null) => void) | null>(null);
+  // Column mapping wizard: set while an upload waits for the user to confirm its columns
+  const [columnMappingRequest, setColumnMappingRequest] = useState<ColumnMappingRequest | null>(null);
+  const mappingResolverRef = useRef<((result: ColumnMappingResult | null) => void) | null>(null);
+  // Dry-run preview: set while an upload waits for the user to confirm the write
+  const [uploadPreview, setUploadPreview] = useState<UploadPreview | null>(null);
+  const previewResolverRef = useRef<((confirmed: boolean) => void) | null>(null);
+
+  const resolveUploadPreview = useCallback((confirmed: boolean) => {
+    previewResolverRef.current?.(confirmed);
+    previewResolverRef.current = null;
+    setUploadPreview(null);
+  }, []);
+
+  const resolveSheetSelection = useCallback((result: SheetSelectionResult | null) => {
+    sheetResolverRef.current?.(result);
+    sheetResolverRef.current = null;
+    setSheetSelectionRequest(null);
+  }, []);
+
+  const resolveFileType = useCallback((fileType: DetectableFileType | null) => {
+    fileTypeResolverRef.current?.(fileType);
+    fileTypeResolverRef.current = null;
+    setFileTypeRequest(null);
+  }, []);
+
+  const resolveColumnMapping = useCallback((result: ColumnMappingResult | null) => {
+    mappingResolverRef.current?.(result);
+    mappingResolverRef.current = null;
+    setColumnMappingRequest(null);
+  }, []);
+
+  // What the file holds, from its header row; when the columns do not say, the upload zone's type
+  // (if it has one) or whatever the user picks
+  const chooseFileType = useCallback(async (file: File, headers: string[]): Promise<FileTypeChoice | null> => {
+    const detection = detectFileType(headers, file.name);
+    if (detection.fileType !== 'Unknown') return { fileType: detection.fileType, detection, pickedByUser: false };
+    const zoneType = detection.candidates.find(type => type === fileTypeOverride);
+    if (zoneType) return { fileType: zoneType, detection, pickedByUser: false };
+
+    const picked = await new Promise<DetectableFileType | null>(resolve => {
+      fileTypeResolverRef.current = resolve;
+      setFileTypeRequest({ fileName: file.name, headers, detection });
+    });
+    return picked ? { fileType: picked, detection, pickedByUser: true } : null;
+  }, [fileTypeOverride]);
+
+  // Sheets remembered for the file-name pattern, otherwise whatever the user picks
+  const chooseSheets = useCallback(async (file: File, sheets: SheetInfo[]): Promise<string[] | null> => {
+    const filePattern = getFileNamePattern(file.name);
+    const names = sheets.map(s => s.name);
+    let remembered: string[] | null = null;
+    try {
+      remembered = await fetchSheetSelection(filePattern);
+    } catch (error) {
+      console.warn('Could not load sheet selections:', error);
+    }
+
+    // Only while the workbook still has every remembered sheet and their columns still line up
+    if (
+      remembered &&
+      remembered.length > 0 &&
+      remembered.every(name => names.includes(name)) &&
+      mismatchedSheets(sheets, remembered).length === 0
+    ) {
+      console.log(`Using sheets ${remembered.join(', ')} remembered for ${filePattern}`);
+      return remembered;
+    }
+
+    const result = await new Promise<SheetSelectionResult | null>(resolve => {
+      sheetResolverRef.current = resolve;
+      const stillPresent = remembered?.filter(name => names.includes(name)) ?? [];
+      setSheetSelectionRequest({
+        fileName: file.name,
+        filePattern,
+        sheets,
+        selected: stillPresent.length > 0 ? stillPresent : defaultSheetSelection(sheets),
+      });
+    });
+    if (!result) return null;
+
+    if (result.remember) {
+      try {
+        await saveSheetSelection(filePattern, result.sheetNames);
+      } catch (error) {
+        console.warn('Could not save sheet selection:', error);
+      }
+    }
+    return result.sheetNames;
+  }, []);
+
+  // Saved profile for the file's header layout, otherwise whatever the user confirms in the wizard
+  const chooseColumnMapping = useCallback(async (
+    file: File,
+    fileType: string,
+    headers: string[]
+  ): Promise<ColumnMapping | null> => {
+    const headerSignature = getHeaderSignature(headers);
+    try {
+      const profile = await fetchColumnProfile(headerSignature);
+      if (profile) {
+        console.log(`Using column profile "${profile.name}" for ${file.name}`);
+        return profile.mapping;
+      }
+    } catch (error) {
+      console.warn('Could not load column profiles:', error);
+    }
+
+    const result = await new Promise<ColumnMappingResult | null>(resolve => {
+      mappingResolverRef.current = resolve;
+      setColumnMappingRequest({ fileName: file.name, fileType, headers, headerSignature, detected: detectColumns(headers) });
+    });
+    if (!result) return null;
+
+    if (result.profileName) {
+      try {
+        await saveColumnProfile({ name: result.profileName, headerSignature, headers, mapping: result.mapping });
+        toast({
+          title: 'Column Profile Saved',
+          description: `Files with the same columns will use "${result.profileName}" automatically.`,
+        });
+      } catch (error) {
+        console.warn('Could not save column profile:', error);
+      }
+    }
+    return result.mapping;
+  }, [toast]);
 
   const cancelUpload = useCallback(() => {
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
       abortControllerRef.current = null;
     }
+    // Stops reading/parsing immediately; pending batch requests reject with "Upload cancelled"
+    resolveSheetSelection(null);
+    resolveFileType(null);
+    resolveColumnMapping(null);
+    resolveUploadPreview(false);
+    parserRef.current?.terminate();
+    parserRef.current = null;
     setIsUploading(false);
     setUploadProgress(null);
     toast({
       title: 'Upload Cancelled',
       description: 'The file upload was cancelled.',
     });
-  }, [toast]);
+  }, [toast, resolveSheetSelection, resolveFileType, resolveColumnMapping, resolveUploadPreview]);
 
-  const uploadFile = useCallback(async (file: File) => {
+  const uploadFile = useCallback(async (file: File, options: UploadFileOptions = {}) => {
     // Create new abort controller for this upload
     abortControllerRef.current = new AbortController();
     const abortSignal = abortControllerRef.current.signal;
@@ -187,384 +445,197 @@ export function useFileUpload(fileTypeOverride?: string) {
     uploadStartTime.current = Date.now();
     
     const fileSizeMB = (file.size / (1024 * 1024)).toFixed(1);
-    const isLargeFile = file.size > LARGE_FILE_THRESHOLD;
     const isVeryLargeFile = file.size > VERY_LARGE_FILE_THRESHOLD;
     
     // Warn user about large files
     if (isVeryLargeFile) {
       toast({
         title: 'Large File Detected',
-        description: `Processing ${fileSizeMB} MB file. This may take 5-10 minutes. Please keep this tab active.`,
+        description: `Processing ${fileSizeMB} MB file. This may take a few minutes; the dashboard stays usable meanwhile.`,
       });
     }
     
+    // Set when the file is blocked as an exact duplicate, so the zone can link to the earlier upload
+    let duplicateOf: DuplicateUpload | null = null;
+    // Set once the upload row exists; an upload that stops after this point can be resumed
+    let fileUploadId: string | null = null;
+
     setUploadProgress({ 
       stage: 'reading', 
       message: `Reading file (${fileSizeMB} MB)...`, 
       progress: 5 
     });
 
+    // Reading, parsing and row shaping run in a worker; this thread only writes to Supabase
+    const parser = createUploadParser();
+    parserRef.current = parser;
+
     try {
       // Check for abort
       if (abortSignal.aborted) throw new Error('Upload cancelled');
-      
-      let content: string;
-      
-      // Handle Excel files with progress callback
-      const isExcel = file.name.endsWith('.xlsx') || file.name.endsWith('.xls');
-      if (isExcel) {
-        setUploadProgress({ stage: 'reading', message: `Converting Excel (${fileSizeMB} MB)...`, progress: 10 });
-        content = await readExcelFile(file, (percent) => {
-          setUploadProgress({ 
-            stage: 'reading', 
-            message: `Reading Excel: ${Math.round(percent)}%`, 
-            progress: 5 + (percent * 0.2) 
-          });
-        }, abortSignal);
-      } else {
-        // CSV with progress for large files
-        content = await readFileInChunks(file, (percent) => {
-          if (abortSignal.aborted) return;
-          setUploadProgress({ 
-            stage: 'reading', 
-            message: `Reading file: ${Math.round(percent)}%`, 
-            progress: 5 + (percent * 0.2) 
-          });
-        });
+      if (needsServerUpload(file)) {
+        throw new Error(`${file.name} is ${fileSizeMB} MB; the browser loads files up to ${BROWSER_UPLOAD_LIMIT_MB} MB. Process it on the server instead.`);
       }
       
+      const onParserProgress = (progress: UploadProgress) => {
+        if (abortSignal.aborted) return;
+        setUploadProgress(progress);
+      };
+
+      // Header row first, so the columns can be mapped before the file is parsed
+      const inspection = await parser.inspect(file, onParserProgress);
+      const { contentHash } = inspection;
       if (abortSignal.aborted) throw new Error('Upload cancelled');
-      
-      setUploadProgress({ stage: 'parsing', message: 'Parsing data...', progress: 30 });
-      
-      // Yield to browser before heavy parsing
-      await new Promise(resolve => setTimeout(resolve, 100));
-      
-      // Log first few lines for debugging
-      const previewLines = content.split('\n').slice(0, 3);
-      console.log('File preview - first 3 lines:', previewLines);
-      console.log(`Content size: ${(content.length / 1024 / 1024).toFixed(1)} MB`);
-      
-      // Parse CSV
-      const { units, fileType, businessDate } = parseCSV(content, file.name);
+
+      // The same bytes under any name would double count lifecycle events, so exact duplicates stop here
+      duplicateOf = await findSameContentUpload(contentHash, options.replacesUploadId);
+      if (duplicateOf) {
+        throw new Error(
+          `This file was already uploaded as "${duplicateOf.fileName}" on ${format(new Date(duplicateOf.uploadedAt), 'MMM d, yyyy')}`
+        );
+      }
+
+      // Workbooks with several sheets: the chosen sheets decide which columns there are to map
+      let headers = inspection.headers;
+      let sheetNames: string[] | undefined;
+      if (inspection.sheets) {
+        const chosen = await chooseSheets(file, inspection.sheets);
+        if (!chosen || abortSignal.aborted) throw new Error('Upload cancelled');
+        sheetNames = chosen;
+        headers = inspection.sheets.find(s => s.name === chosen[0])?.headers ?? headers;
+      }
+
+      // The header row decides what the rows are; an upload zone for one type only relabels the file
+      const fileTypeChoice = await chooseFileType(file, headers);
+      if (!fileTypeChoice || abortSignal.aborted) throw new Error('Upload cancelled');
+      const finalFileType = fileTypeOverride || fileTypeChoice.fileType;
+
+      const mapping = await chooseColumnMapping(file, finalFileType, headers);
+      if (!mapping || abortSignal.aborted) throw new Error('Upload cancelled');
+
+      const summary = await parser.parse(
+        file,
+        { mapping, fileType: finalFileType, sheetNames, timeZone: getOperationsTimeZone() },
+        onParserProgress
+      );
       
       if (abortSignal.aborted) throw new Error('Upload cancelled');
       
-      if (units.length === 0) {
+      if (summary.rowCount === 0) {
         // Check if it's a header issue
-        const firstLine = content.split('\n')[0];
-        const hasHeaders = firstLine && firstLine.length > 0;
-        const headerPreview = firstLine?.substring(0, 200);
-        console.error('No valid data found. Headers preview:', headerPreview);
-        throw new Error(`No valid data found. The file must have a TRGID column. Check console for details. First columns: ${headerPreview?.substring(0, 100)}...`);
+        console.error('No valid data found. Headers preview:', summary.headerPreview);
+        throw new Error(`No valid data found. The file must have a TRGID column. Check console for details. First columns: ${summary.headerPreview.substring(0, 100)}...`);
       }
       
-      console.log(`Parsed ${units.length} units from file`);
+      // Same as summary.fileType unless the user picked it
+      const fileType = fileTypeChoice.fileType;
+      const rowCount = summary.rowCount;
+      const businessDate = summary.businessDate || format(operationsNow(), 'yyyy-MM-dd');
+      const fingerprint = `${finalFileType}|${businessDate}|${summary.trgidHash}`;
 
-      // Use override if provided, otherwise use detected type from filename
-      const detectedType = determineFileType(file.name);
-      // IMPORTANT: fileTypeOverride takes priority over parseCSV's fileType
-      const finalFileType = fileTypeOverride || detectedType;
-      
-      // Show info toast if file type was auto-detected from smart fallback
-      const isExplicitType = ['sales', 'inbound', 'outbound', 'inventory', 'production', 'processing', 'sla'].some(
-        keyword => file.name.toLowerCase().includes(keyword)
-      );
-      
-      if (!isExplicitType && !fileTypeOverride) {
-        toast({
-          title: 'File Type Auto-Detected',
-          description: `File categorized as "${detectedType}" based on filename. For best results, use naming like: Sales_MM.DD.YY, Inbound_MM.DD.YY, Outbound_MM.DD.YY, Production_MM.DD.YY`,
-        });
+
+      // Dry run: show what would be written and wait for the user to confirm
+      setUploadProgress({ stage: 'parsing', message: 'Checking for existing units...', progress: 50 });
+      let existing: ExistingTrgidCounts | null = null;
+      try {
+        existing = await countExistingTrgids(parser, rowCount, businessDate);
+      } catch (error) {
+        console.warn('Could not count existing TRGIDs:', error);
+      }
+      let duplicates: DuplicateUpload[] = [];
+      try {
+        duplicates = await findSimilarUploads(fingerprint, finalFileType, businessDate, options.replacesUploadId);
+      } catch (error) {
+        console.warn('Could not check for similar uploads:', error);
       }
+      if (abortSignal.aborted) throw new Error('Upload cancelled');
+
+      const confirmed = await new Promise<boolean>(resolve => {
+        previewResolverRef.current = resolve;
+        setUploadPreview({
+          fileName: file.name,
+          fileType: finalFileType,
+          fileTypeChoice,
+          businessDate: summary.businessDate,
+          rowCount,
+          stats: summary.preview,
+          existing,
+          duplicates,
+        });
+      });
+      if (!confirmed || abortSignal.aborted) throw new Error('Upload cancelled');
 
       setUploadProgress({ stage: 'uploading', message: 'Saving to database...', progress: 50 });
+      // Sales are priced as their batches are written, with what is published rather than the bundled cards
+      await ensureFeeRegistries(queryClient);
+      const totalBatches = Math.ceil(rowCount / BATCH_SIZE);
 
       // Create file upload record
       const { data: fileUpload, error: fileError } = await supabase
         .from('file_uploads')
         .insert({
           file_name: file.name,
-          file_type: finalFileType as any,
-          file_business_date: businessDate ? format(businessDate, 'yyyy-MM-dd') : format(new Date(), 'yyyy-MM-dd'),
-          row_count: units.length,
+          file_type: finalFileType as Database['public']['Enums']['file_type'],
+          file_business_date: businessDate,
+          row_count: rowCount,
           processed: false,
+          content_hash: contentHash,
+          fingerprint,
+          upload_status: 'uploading',
+          batch_size: BATCH_SIZE,
+          total_batches: totalBatches,
+          column_mapping: mapping as unknown as Json,
+          replaces_upload_id: options.replacesUploadId ?? null,
+          issue_summary: summary.issues as unknown as Json,
+          sheet_names: (sheetNames ?? null) as unknown as Json,
         })
         .select()
         .single();
 
       if (fileError) throw fileError;
+      fileUploadId = fileUpload.id;
 
-      // Process units in parallel batches for maximum throughput
-      // Larger batches = fewer round-trips; concurrency = parallel network I/O
-      const batchSize = 500;
-      const CONCURRENCY = 3; // Reduced from 5 to prevent connection pool exhaustion
-      const totalBatches = Math.ceil(units.length / batchSize);
-      let processedBatches = 0;
-      
-      console.log(`Processing ${units.length} units in ${totalBatches} batches of ${batchSize} (concurrency: ${CONCURRENCY})`);
-      
-      const retryWithBackoff = async (fn: () => Promise<any>, maxRetries = 8) => {
-        for (let attempt = 0; attempt < maxRetries; attempt++) {
-          if (abortSignal.aborted) throw new Error('Upload cancelled');
-          try {
-            return await fn();
-          } catch (error: any) {
-            if (error?.message === 'Upload cancelled') throw error;
-            if (attempt === maxRetries - 1) throw error;
-            // Longer backoff with jitter to avoid thundering herd
-            const baseDelay = Math.pow(2, attempt) * 800;
-            const jitter = Math.random() * 400;
-            const delay = baseDelay + jitter;
-            console.warn(`Retry attempt ${attempt + 1}/${maxRetries} after ${Math.round(delay)}ms:`, error?.message);
-            await new Promise(resolve => setTimeout(resolve, delay));
-          }
-        }
-      };
-
-      // Process a single batch: insert into all relevant tables in parallel
-      const processBatch = async (batchIndex: number) => {
-        const start = batchIndex * batchSize;
-        const batch = units.slice(start, start + batchSize);
-        if (batch.length === 0) return;
-        if (abortSignal.aborted) throw new Error('Upload cancelled');
-
-        const canonicalRecords = batch.map(unit => ({
-          trgid: unit.trgid,
-          file_upload_id: fileUpload.id,
-          received_on: unit.receivedOn ? format(unit.receivedOn, 'yyyy-MM-dd') : null,
-          checked_in_on: unit.checkedInOn ? format(unit.checkedInOn, 'yyyy-MM-dd') : null,
-          tested_on: unit.testedOn ? format(unit.testedOn, 'yyyy-MM-dd') : null,
-          first_listed_date: unit.firstListedDate ? format(unit.firstListedDate, 'yyyy-MM-dd') : null,
-          order_closed_date: unit.orderClosedDate ? format(unit.orderClosedDate, 'yyyy-MM-dd') : null,
-          current_stage: unit.currentStage as any,
-          upc_retail: unit.upcRetail,
-          mr_lmr_upc_average_category_retail: unit.mrLmrUpcAverageCategoryRetail,
-          effective_retail: unit.effectiveRetail,
-          sale_price: unit.salePrice,
-          discount_amount: unit.discountAmount,
-          program_name: unit.programName,
-          master_program_name: unit.masterProgramName,
-          category_name: unit.categoryName,
-          marketplace_profile_sold_on: unit.marketplaceProfileSoldOn,
-          facility: unit.facility,
-          location_id: unit.locationId,
-          tag_client_ownership: unit.tagClientOwnership,
-          tag_clientsource: unit.tagClientSource || null,
-          wm_week: unit.wmWeek,
-          wm_day_of_week: unit.wmDayOfWeek,
-        }));
-
-        // Build all table inserts as parallel promises
-        const insertPromises: Promise<void>[] = [];
-
-        // 1. Units canonical
-        insertPromises.push(retryWithBackoff(async () => {
-          if (finalFileType === 'SLA') {
-            const { error } = await supabase
-              .from('units_canonical')
-              .upsert(canonicalRecords, { onConflict: 'trgid', ignoreDuplicates: true });
-            if (error) throw error;
-          } else {
-            const { error } = await supabase
-              .from('units_canonical')
-              .upsert(canonicalRecords, { onConflict: 'trgid' });
-            if (error) throw error;
-          }
-        }));
-
-        // 2. Lifecycle events
-        const lifecycleEvents: any[] = [];
-        for (const unit of batch) {
-          const stages = [
-            { stage: 'Received', date: unit.receivedOn },
-            { stage: 'CheckedIn', date: unit.checkedInOn },
-            { stage: 'Tested', date: unit.testedOn },
-            { stage: 'Listed', date: unit.firstListedDate },
-            { stage: 'Sold', date: unit.orderClosedDate },
-          ];
-          for (const { stage, date } of stages) {
-            if (date) {
-              lifecycleEvents.push({
-                trgid: unit.trgid,
-                file_upload_id: fileUpload.id,
-                stage: stage as any,
-                event_date: format(date, 'yyyy-MM-dd'),
-                file_business_date: businessDate ? format(businessDate, 'yyyy-MM-dd') : format(new Date(), 'yyyy-MM-dd'),
-                wm_week: getWMWeekNumber(date),
-                wm_day_of_week: getWMDayOfWeek(date),
-              });
-            }
-          }
-        }
-        if (lifecycleEvents.length > 0) {
-          insertPromises.push(retryWithBackoff(async () => {
-            const { error } = await supabase.from('lifecycle_events').insert(lifecycleEvents);
-            if (error) throw new Error(`Lifecycle insert failed: ${error.message}`);
-          }));
-        }
-
-        // 3. Sales metrics (for Sales & Monthly files)
-        if (fileType === 'Sales' || finalFileType === 'Monthly') {
-          const salesRecords = batch
-            .filter(unit => unit.orderClosedDate)
-            .map(unit => ({
-              trgid: unit.trgid,
-              file_upload_id: fileUpload.id,
-              order_closed_date: format(unit.orderClosedDate!, 'yyyy-MM-dd'),
-              sale_price: unit.salePrice || 0,
-              discount_amount: unit.discountAmount || 0,
-              gross_sale: unit.grossSale || 0,
-              effective_retail: unit.effectiveRetail,
-              refund_amount: unit.refundAmount || 0,
-              is_refunded: unit.isRefunded,
-              program_name: unit.programName,
-              master_program_name: unit.masterProgramName,
-              category_name: unit.categoryName,
-              marketplace_profile_sold_on: unit.marketplaceProfileSoldOn,
-              facility: unit.facility,
-              tag_clientsource: unit.tagClientSource || null,
-              wm_week: unit.wmWeek,
-              wm_day_of_week: unit.wmDayOfWeek,
-              invoiced_check_in_fee: unit.invoicedCheckInFee,
-              invoiced_refurb_fee: unit.invoicedRefurbFee,
-              invoiced_overbox_fee: unit.invoicedOverboxFee,
-              invoiced_packaging_fee: unit.invoicedPackagingFee,
-              invoiced_pps_fee: unit.invoicedPpsFee,
-              invoiced_shipping_fee: unit.invoicedShippingFee,
-              invoiced_merchant_fee: unit.invoicedMerchantFee,
-              invoiced_3pmp_fee: unit.invoiced3pmpFee,
-              invoiced_revshare_fee: unit.invoicedRevshareFee,
-              invoiced_marketing_fee: unit.invoicedMarketingFee,
-              invoiced_refund_fee: unit.invoicedRefundFee,
-              service_invoice_total: unit.serviceInvoiceTotal,
-              vendor_invoice_total: unit.vendorInvoiceTotal,
-              expected_hv_as_is_refurb_fee: unit.expectedHvAsIsRefurbFee,
-              sorting_index: unit.sortingIndex || null,
-              b2c_auction: unit.b2cAuction || null,
-              tag_ebay_auction_sale: unit.tagEbayAuctionSale,
-              order_type_sold_on: unit.orderTypeSoldOn || null,
-              title: unit.title || null,
-            }));
-          if (salesRecords.length > 0) {
-            insertPromises.push(retryWithBackoff(async () => {
-              const { error } = await supabase
-                .from('sales_metrics')
-                .upsert(salesRecords, { onConflict: 'trgid' });
-              if (error) throw new Error(`Sales insert failed: ${error.message}`);
-            }));
-          }
-        }
-
-        // 4. Fee metrics (for Outbound files)
-        if (fileType === 'Outbound') {
-          const feeRecords = batch
-            .filter(unit => unit.totalFees !== null)
-            .map(unit => ({
-              trgid: unit.trgid,
-              file_upload_id: fileUpload.id,
-              check_in_fee: unit.checkInFee || 0,
-              packaging_fee: unit.packagingFee || 0,
-              pick_pack_ship_fee: unit.pickPackShipFee || 0,
-              refurbishing_fee: unit.refurbishingFee || 0,
-              marketplace_fee: unit.marketplaceFee || 0,
-              total_fees: unit.totalFees || 0,
-              program_name: unit.programName,
-              facility: unit.facility,
-              wm_week: unit.wmWeek,
-            }));
-          if (feeRecords.length > 0) {
-            insertPromises.push(retryWithBackoff(async () => {
-              const { error } = await supabase
-                .from('fee_metrics')
-                .upsert(feeRecords, { onConflict: 'trgid' });
-              if (error) throw new Error(`Fee insert failed: ${error.message}`);
-            }));
-          }
+      // Rejected rows and unreadable values are kept with the upload; losing the log should not stop the data
+      if (summary.issues.total > 0) {
+        try {
+          await saveRowIssues(fileUpload.id, await parser.getIssues());
+        } catch (error) {
+          console.warn('Could not save row issues:', error);
         }
+      }
 
-        // Run all table inserts for this batch in parallel
-        // Use allSettled so a lifecycle failure doesn't kill the sales insert
-        const results = await Promise.allSettled(insertPromises);
-        const failures = results.filter(r => r.status === 'rejected');
-        if (failures.length > 0) {
-          // If sales_metrics specifically failed, throw to trigger retry
-          const failMessages = failures.map((f: any) => f.reason?.message || 'unknown').join('; ');
-          throw new Error(`Batch insert partial failure: ${failMessages}`);
-        }
-        
-        processedBatches++;
-      };
+      const failedBatchIndices = await writeUploadBatches({
+        parser,
+        context: {
+          fileUploadId: fileUpload.id,
+          parsedFileType: fileType,
+          finalFileType,
+          businessDate, // as stored on the upload row
+        },
+        batchIndices: Array.from({ length: totalBatches }, (_, i) => i),
+        totalBatches,
+        rowCount,
+        resend: false,
+        abortSignal,
+        startTime: uploadStartTime.current,
+        onProgress: setUploadProgress,
+      });
 
-      // Execute batches with controlled concurrency using allSettled
-      // so one failed batch doesn't kill sibling batches
-      let failedBatchIndices: number[] = [];
-      
-      for (let i = 0; i < totalBatches; i += CONCURRENCY) {
-        if (abortSignal.aborted) throw new Error('Upload cancelled');
-        
-        const batchIndices: number[] = [];
-        const concurrentBatches: Promise<void>[] = [];
-        for (let j = i; j < Math.min(i + CONCURRENCY, totalBatches); j++) {
-          batchIndices.push(j);
-          concurrentBatches.push(processBatch(j));
-        }
-        
-        const results = await Promise.allSettled(concurrentBatches);
-        
-        // Track which batches failed
-        results.forEach((result, idx) => {
-          if (result.status === 'rejected') {
-            const batchIdx = batchIndices[idx];
-            console.error(`Batch ${batchIdx} failed permanently:`, result.reason?.message || result.reason);
-            failedBatchIndices.push(batchIdx);
-          }
-        });
+      await setUploadStatus(fileUpload.id, failedBatchIndices.length > 0 ? 'incomplete' : 'complete');
+      fileUploadId = null;
 
-        // Update progress
-        const progress = 60 + ((processedBatches / totalBatches) * 35);
-        const elapsedTime = (Date.now() - uploadStartTime.current) / 1000;
-        const progressFraction = processedBatches / totalBatches;
-        const estimatedTotalTime = progressFraction > 0 ? elapsedTime / progressFraction : 0;
-        const estimatedTimeRemaining = Math.max(0, estimatedTotalTime - elapsedTime);
-        
-        setUploadProgress({ 
-          stage: 'uploading', 
-          message: `${processedBatches}/${totalBatches} batches (${Math.min(processedBatches * batchSize, units.length).toLocaleString()} of ${units.length.toLocaleString()} rows)`, 
-          progress,
-          estimatedTimeRemaining: processedBatches > 2 ? estimatedTimeRemaining : undefined
+      if (failedBatchIndices.length > 0) {
+        toast({
+          title: 'Upload Incomplete',
+          description: `${failedBatchIndices.length} of ${totalBatches} batches could not be saved. Use Resume on ${file.name} in the file manager and pick the same file to send only those batches.${options.replacesUploadId ? ' The file it replaces is kept until then.' : ''}`,
+          variant: 'destructive',
         });
+        setUploadProgress({ stage: 'complete', message: `Upload incomplete: ${failedBatchIndices.length} batches to resume`, progress: 100 });
+        return { success: true, unitsCount: rowCount, fileType, incomplete: true, replaced: null };
       }
 
-      // Retry failed batches with multiple rounds (up to 3 rounds)
-      // Process sequentially (concurrency=1) to reduce DB pressure
-      for (let retryRound = 1; retryRound <= 3 && failedBatchIndices.length > 0; retryRound++) {
-        console.log(`Retry round ${retryRound}: ${failedBatchIndices.length} failed batches...`);
-        setUploadProgress({ stage: 'uploading', message: `Retry round ${retryRound}: ${failedBatchIndices.length} batches...`, progress: 95 });
-        
-        // Wait before retry round to let DB recover
-        await new Promise(resolve => setTimeout(resolve, 3000 * retryRound));
-        
-        const stillFailed: number[] = [];
-        for (const batchIdx of failedBatchIndices) {
-          if (abortSignal.aborted) throw new Error('Upload cancelled');
-          try {
-            await processBatch(batchIdx);
-          } catch (e: any) {
-            console.error(`Batch ${batchIdx} failed on retry round ${retryRound}:`, e?.message);
-            stillFailed.push(batchIdx);
-          }
-          // Small delay between sequential retries
-          await new Promise(resolve => setTimeout(resolve, 500));
-        }
-        failedBatchIndices = stillFailed;
-      }
-
-      // Mark file as processed
-      await supabase
-        .from('file_uploads')
-        .update({ processed: true })
-        .eq('id', fileUpload.id);
+      // A replacement only takes over from the old upload once every batch is in
+      const replaced = options.replacesUploadId ? await completeFileReplacement(fileUpload.id) : null;
 
       // Post-upload verification: compare expected vs actual rows in sales_metrics
       if (fileType === 'Sales' || finalFileType === 'Monthly') {
@@ -573,7 +644,7 @@ export function useFileUpload(fileTypeOverride?: string) {
           .select('*', { count: 'exact', head: true })
           .eq('file_upload_id', fileUpload.id);
         
-        const expectedSalesRows = units.filter(u => u.orderClosedDate).length;
+        const expectedSalesRows = summary.salesRowCount;
         const rowDiff = expectedSalesRows - (actualSalesRows || 0);
         
         console.log(`Post-upload verification: expected=${expectedSalesRows}, actual=${actualSalesRows}, diff=${rowDiff}`);
@@ -582,7 +653,7 @@ export function useFileUpload(fileTypeOverride?: string) {
           const pctMissing = ((rowDiff / expectedSalesRows) * 100).toFixed(1);
           toast({
             title: '⚠️ Partial Upload Warning',
-            description: `${actualSalesRows?.toLocaleString()} of ${expectedSalesRows.toLocaleString()} sales rows saved (${pctMissing}% missing). ${failedBatchIndices.length} batches failed. Consider re-uploading.`,
+            description: `${actualSalesRows?.toLocaleString()} of ${expectedSalesRows.toLocaleString()} sales rows saved (${pctMissing}% missing) although every batch was accepted. Consider re-uploading.`,
             variant: 'destructive',
           });
           
@@ -591,39 +662,343 @@ export function useFileUpload(fileTypeOverride?: string) {
           setUploadProgress({ stage: 'complete', message: 'Upload complete!', progress: 100 });
           toast({
             title: 'Success',
-            description: `Uploaded ${units.length.toLocaleString()} units from ${file.name} — all rows verified ✓`,
+            description: `Uploaded ${rowCount.toLocaleString()} units from ${file.name} — all rows verified ✓`,
           });
         }
       } else {
         setUploadProgress({ stage: 'complete', message: 'Upload complete!', progress: 100 });
         toast({
           title: 'Success',
-          description: `Uploaded ${units.length} units from ${file.name}`,
+          description: `Uploaded ${rowCount} units from ${file.name}`,
         });
       }
 
-      return { success: true, unitsCount: units.length, fileType };
+      return { success: true, unitsCount: rowCount, fileType, incomplete: false, replaced };
     } catch (error) {
+      if (fileUploadId) markIncomplete(fileUploadId);
+
+      // Cancelled from the mapping wizard or the preview; cancelUpload reports its own cancellation
+      if (error instanceof Error && error.message === 'Upload cancelled') {
+        if (!abortSignal.aborted) {
+          setUploadProgress(null);
+          toast({
+            title: 'Upload Cancelled',
+            description: `Nothing from ${file.name} was saved.`,
+          });
+        }
+        return { success: false, error };
+      }
+
       console.error('Upload error:', error);
-      setUploadProgress({ stage: 'error', message: error instanceof Error ? error.message : 'Upload failed', progress: 0 });
+      setUploadProgress({
+        stage: 'error',
+        message: error instanceof Error ? error.message : 'Upload failed',
+        progress: 0,
+        duplicateOf: duplicateOf ?? undefined,
+      });
       
       toast({
-        title: 'Upload Failed',
+        title: duplicateOf ? 'Duplicate File' : 'Upload Failed',
         description: error instanceof Error ? error.message : 'An error occurred during upload',
         variant: 'destructive',
       });
 
       return { success: false, error };
     } finally {
+      parser.terminate();
+      parserRef.current = null;
+      abortControllerRef.current = null;
+      setIsUploading(false);
+      // A blocked duplicate keeps its message (and link) until the next upload
+      if (!duplicateOf) setTimeout(() => setUploadProgress(null), 3000);
+    }
+  }, [toast, queryClient, fileTypeOverride, chooseSheets, chooseFileType, chooseColumnMapping]);
+
+  // Server-side ingest: send the raw file to storage and let the ingest-upload function parse and load it.
+  // The worker only reads the header row (and lists a workbook's sheets) here, so the sheet picker,
+  // type detection and mapping wizard still apply; there is no dry-run preview, and the file manager polls the job.
+  const queueServerUpload = useCallback(async (file: File, options: UploadFileOptions = {}) => {
+    abortControllerRef.current = new AbortController();
+    const abortSignal = abortControllerRef.current.signal;
+
+    setIsUploading(true);
+    const fileSizeMB = (file.size / (1024 * 1024)).toFixed(1);
+    let duplicateOf: DuplicateUpload | null = null;
+    let storagePath: string | null = null;
+
+    const parser = createUploadParser();
+    parserRef.current = parser;
+
+    try {
+      // The server reads a workbook whole; refused before the browser spends any time on it
+      if (isExcelFileName(file.name)) checkServerWorkbookSize(file.name, file.size);
+
+      setUploadProgress({ stage: 'reading', message: 'Checking file...', progress: 5 });
+      const inspection = await parser.inspect(file, progress => {
+        if (!abortSignal.aborted) setUploadProgress(progress);
+      });
+      parser.terminate();
+      parserRef.current = null;
+      if (abortSignal.aborted) throw new Error('Upload cancelled');
+
+      duplicateOf = await findSameContentUpload(inspection.contentHash, options.replacesUploadId);
+      if (duplicateOf) {
+        throw new Error(
+          `This file was already uploaded as "${duplicateOf.fileName}" on ${format(new Date(duplicateOf.uploadedAt), 'MMM d, yyyy')}`
+        );
+      }
+
+      // Same sheet choice as a browser upload, stored on the row so the server loads the same sheets
+      let headers = inspection.headers;
+      let sheetNames: string[] | null = null;
+      if (inspection.sheets) {
+        sheetNames = await chooseSheets(file, inspection.sheets);
+        if (!sheetNames || abortSignal.aborted) throw new Error('Upload cancelled');
+        headers = inspection.sheets.find(s => s.name === sheetNames[0])?.headers ?? headers;
+      }
+
+      // The header row decides the type, as for a browser upload; the file name only breaks ties
+      const fileTypeChoice = await chooseFileType(file, headers);
+      if (!fileTypeChoice || abortSignal.aborted) throw new Error('Upload cancelled');
+      const finalFileType = fileTypeOverride || fileTypeChoice.fileType;
+
+      const mapping = await chooseColumnMapping(file, finalFileType, headers);
+      if (!mapping || abortSignal.aborted) throw new Error('Upload cancelled');
+
+      setUploadProgress({ stage: 'uploading', message: `Sending ${fileSizeMB} MB to the server...`, progress: 40 });
+      storagePath = await uploadRawFile(
+        file,
+        inspection.contentHash,
+        percent => {
+          if (!abortSignal.aborted) {
+            setUploadProgress({ stage: 'uploading', message: `Sending ${fileSizeMB} MB to the server: ${Math.round(percent)}%`, progress: 40 + percent * 0.45 });
+          }
+        },
+        abortSignal
+      );
+      if (abortSignal.aborted) throw new Error('Upload cancelled');
+
+      const businessDate = parseFileBusinessDate(file.name);
+      const { data: fileUpload, error: fileError } = await supabase
+        .from('file_uploads')
+        .insert({
+          file_name: file.name,
+          file_type: finalFileType as Database['public']['Enums']['file_type'],
+          file_business_date: format(businessDate ?? operationsNow(), 'yyyy-MM-dd'),
+          processed: false,
+          content_hash: inspection.contentHash,
+          upload_status: 'uploading',
+          column_mapping: mapping as unknown as Json,
+          sheet_names: sheetNames as unknown as Json,
+          replaces_upload_id: options.replacesUploadId ?? null,
+          ingest_mode: 'server',
+          storage_path: storagePath,
+          job_status: 'queued',
+          job_message: 'Waiting for the server',
+        })
+        .select()
+        .single();
+      if (fileError) throw fileError;
+      storagePath = null;
+
+      setUploadProgress({ stage: 'uploading', message: 'Starting server ingest...', progress: 90 });
+      try {
+        await startIngestJob(fileUpload.id);
+      } catch (error) {
+        // The row stays queued, so Retry in the file manager can start it later
+        console.warn('Could not start the server ingest:', error);
+        toast({
+          title: 'Server Ingest Not Started',
+          description: `${file.name} is stored but the ingest function did not answer. Use Retry on it in the file manager.`,
+          variant: 'destructive',
+        });
+        setUploadProgress({ stage: 'complete', message: 'Stored; ingest not started', progress: 100 });
+        return { success: true, queued: true, uploadId: fileUpload.id };
+      }
+
+      setUploadProgress({ stage: 'complete', message: 'Processing on the server', progress: 100 });
+      toast({
+        title: 'Processing on Server',
+        description: `${file.name} is being loaded on the server. Progress shows in the file manager; this tab can be closed.`,
+      });
+      return { success: true, queued: true, uploadId: fileUpload.id };
+    } catch (error) {
+      // The raw file is only worth keeping once an upload row points at it
+      if (storagePath) {
+        removeRawFile(storagePath).catch(removeError => console.warn('Could not remove the stored file:', removeError));
+      }
+
+      if (error instanceof Error && error.message === 'Upload cancelled') {
+        if (!abortSignal.aborted) {
+          setUploadProgress(null);
+          toast({ title: 'Upload Cancelled', description: `Nothing from ${file.name} was saved.` });
+        }
+        return { success: false, error };
+      }
+
+      console.error('Server upload error:', error);
+      setUploadProgress({
+        stage: 'error',
+        message: error instanceof Error ? error.message : 'Upload failed',
+        progress: 0,
+        duplicateOf: duplicateOf ?? undefined,
+      });
+      toast({
+        title: duplicateOf ? 'Duplicate File' : 'Upload Failed',
+        description: error instanceof Error ? error.message : 'An error occurred during upload',
+        variant: 'destructive',
+      });
+      return { success: false, error };
+    } finally {
+      parser.terminate();
+      parserRef.current = null;
+      abortControllerRef.current = null;
+      setIsUploading(false);
+      if (!duplicateOf) setTimeout(() => setUploadProgress(null), 3000);
+    }
+  }, [toast, fileTypeOverride, chooseSheets, chooseFileType, chooseColumnMapping]);
+
+  // Finish an incomplete upload: the user picks the same file again and only unsaved batches are sent
+  const resumeUpload = useCallback(async (file: File, uploadId: string) => {
+    abortControllerRef.current = new AbortController();
+    const abortSignal = abortControllerRef.current.signal;
+
+    setIsUploading(true);
+    uploadStartTime.current = Date.now();
+    setUploadProgress({ stage: 'reading', message: 'Checking file...', progress: 5 });
+
+    const parser = createUploadParser();
+    parserRef.current = parser;
+    let resumedId: string | null = null;
+
+    try {
+      const onParserProgress = (progress: UploadProgress) => {
+        if (abortSignal.aborted) return;
+        setUploadProgress(progress);
+      };
+
+      const { data: upload, error: uploadError } = await supabase
+        .from('file_uploads')
+        .select('*')
+        .eq('id', uploadId)
+        .single();
+      if (uploadError) throw uploadError;
+      if (upload.upload_status === 'complete') {
+        throw new Error(`${upload.file_name} has already been uploaded in full`);
+      }
+      if (!upload.column_mapping || !upload.batch_size || !upload.total_batches) {
+        throw new Error(`${upload.file_name} has no saved batches to resume from. Replace it instead.`);
+      }
+
+      // Batch indices only line up when the bytes, mapping and batch size are the same as the first time
+      const { contentHash } = await parser.inspect(file, onParserProgress);
+      if (abortSignal.aborted) throw new Error('Upload cancelled');
+      if (upload.content_hash && contentHash !== upload.content_hash) {
+        throw new Error(`${file.name} is not the file uploaded as "${upload.file_name}". Pick the original file to resume.`);
+      }
+      if (upload.batch_size !== BATCH_SIZE) {
+        throw new Error(`${upload.file_name} was saved in batches of ${upload.batch_size}. Replace it instead.`);
+      }
+
+      const summary = await parser.parse(
+        file,
+        {
+          mapping: upload.column_mapping as unknown as ColumnMapping,
+          fileType: upload.file_type,
+          sheetNames: (upload.sheet_names as unknown as string[] | null) ?? undefined,
+          timeZone: getOperationsTimeZone(),
+        },
+        onParserProgress
+      );
+      if (abortSignal.aborted) throw new Error('Upload cancelled');
+      if (summary.rowCount !== upload.row_count) {
+        throw new Error(`${file.name} now parses to ${summary.rowCount.toLocaleString()} rows, not ${upload.row_count?.toLocaleString()}. Replace it instead.`);
+      }
+
+      const saved = await fetchDoneBatchIndices(upload.id);
+      const pending = Array.from({ length: upload.total_batches }, (_, i) => i).filter(i => !saved.has(i));
+
+      await ensureFeeRegistries(queryClient);
+      resumedId = upload.id;
+      await setUploadStatus(upload.id, 'uploading');
+      const failedBatchIndices = await writeUploadBatches({
+        parser,
+        context: {
+          fileUploadId: upload.id,
+          // A file the user had to type only has its label left to go by
+          parsedFileType: summary.fileType === 'Unknown' ? upload.file_type : summary.fileType,
+          finalFileType: upload.file_type,
+          businessDate: upload.file_business_date,
+        },
+        batchIndices: pending,
+        totalBatches: upload.total_batches,
+        rowCount: summary.rowCount,
+        resend: true,
+        abortSignal,
+        startTime: uploadStartTime.current,
+        onProgress: setUploadProgress,
+      });
+      await setUploadStatus(upload.id, failedBatchIndices.length > 0 ? 'incomplete' : 'complete');
+      resumedId = null;
+
+      if (failedBatchIndices.length > 0) {
+        toast({
+          title: 'Upload Still Incomplete',
+          description: `${failedBatchIndices.length} of ${upload.total_batches} batches could not be saved. Resume again to send only those.`,
+          variant: 'destructive',
+        });
+        setUploadProgress({ stage: 'complete', message: `Upload incomplete: ${failedBatchIndices.length} batches to resume`, progress: 100 });
+        return { success: false, remainingBatches: failedBatchIndices.length };
+      }
+
+      const replaced = upload.replaces_upload_id ? await completeFileReplacement(upload.id) : null;
+
+      setUploadProgress({ stage: 'complete', message: 'Upload complete!', progress: 100 });
+      toast({
+        title: 'Upload Resumed',
+        description: `Sent the ${pending.length} remaining batches of ${upload.file_name}. All ${upload.total_batches} batches are saved.${replaced ? ` The file it replaces was removed (${formatDeletedRows(replaced)}).` : ''}`,
+      });
+      return { success: true, remainingBatches: 0 };
+    } catch (error) {
+      if (resumedId) markIncomplete(resumedId);
+      if (error instanceof Error && error.message === 'Upload cancelled' && abortSignal.aborted) {
+        return { success: false, error };
+      }
+
+      console.error('Resume error:', error);
+      setUploadProgress({
+        stage: 'error',
+        message: error instanceof Error ? error.message : 'Resume failed',
+        progress: 0,
+      });
+      toast({
+        title: 'Resume Failed',
+        description: error instanceof Error ? error.message : 'An error occurred while resuming the upload',
+        variant: 'destructive',
+      });
+      return { success: false, error };
+    } finally {
+      parser.terminate();
+      parserRef.current = null;
       abortControllerRef.current = null;
       setIsUploading(false);
       setTimeout(() => setUploadProgress(null), 3000);
     }
-  }, [toast]);
+  }, [toast, queryClient]);
 
   return {
     uploadFile,
+    queueServerUpload,
+    resumeUpload,
     cancelUpload,
+    sheetSelectionRequest,
+    resolveSheetSelection,
+    fileTypeRequest,
+    resolveFileType,
+    columnMappingRequest,
+    resolveColumnMapping,
+    uploadPreview,
+    resolveUploadPreview,
     isUploading,
     uploadProgress,
     formatTimeRemaining,
@@ -5,6 +5,8 @@ import { Tables } from '@/integrations/supabase/types';
 import { getWMWeekNumber, getWMDayOfWeek, getWMFiscalYearStart } from '@/lib/wmWeek';
 import { filterByWalmartChannel, addWalmartChannel, WalmartChannel } from '@/lib/walmartChannel';
 import { getMappedMarketplaceOptions, reverseMapMarketplaces, mapMarketplace as mapMp } from '@/lib/marketplaceMapping';
+import { ALL_CLIENTS } from '@/lib/clients';
+import { fetchAllPages } from '@/lib/fetchAllPages';
 
 // Calculate WM week from a date string (YYYY-MM-DD)
 function getWMWeekFromDateString(dateStr: string | null): number | null {
@@ -23,6 +25,18 @@ function getWMDayOfWeekFromDateString(dateStr: string | null): number | null {
   return getWMDayOfWeek(date);
 }
 
+// Client sources a query is scoped to: the client picked in the header switcher ("All clients"
+// = every client), narrowed by the tab's client source multi-select. Null = no client filter.
+export function getClientSourceScope(filters: Pick<TabFilters, 'clientSource' | 'tagClientSources'>): string[] | null {
+  if (filters.clientSource === ALL_CLIENTS) {
+    return filters.tagClientSources.length > 0 ? filters.tagClientSources : null;
+  }
+  if (filters.tagClientSources.length > 0 && !filters.tagClientSources.includes(filters.clientSource)) {
+    return [];
+  }
+  return [filters.clientSource];
+}
+
 // Build a Supabase query with all global filters applied (multi-select arrays)
 // NOTE: skipWmWeeks also skips wmDaysOfWeek since both are date-dependent
 function applyFilters<T extends { eq: any; not: any; in: any }>(
@@ -51,8 +65,10 @@ function applyFilters<T extends { eq: any; not: any; in: any }>(
   if (filters.tagClientOwnerships.length > 0) {
     query = query.in('tag_client_ownership', filters.tagClientOwnerships);
   }
-  // WMUS exclusive - always filter to WMUS only, ignore tagClientSources filter
-  query = query.eq('tag_clientsource', 'WMUS');
+  const clientSources = getClientSourceScope(filters);
+  if (clientSources) {
+    query = query.in('tag_clientsource', clientSources);
+  }
   // NOTE: marketplace filter is applied client-side after mapMarketplace() transformation
   // to ensure mapped names (e.g., "Manual Sales") work correctly
   if (filters.orderTypesSoldOn.length > 0) {
@@ -90,13 +106,16 @@ function filterOwnedPrograms<T extends { master_program_name?: string | null }>(
 }
 
 // Filter by mapped marketplace names (client-side, after fetching)
-function filterByMappedMarketplace<T extends { marketplace_profile_sold_on?: string | null }>(
+function filterByMappedMarketplace<T extends { marketplace_profile_sold_on?: string | null; tag_clientsource?: string | null }>(
   data: T[],
   selectedMappedNames: string[]
 ): T[] {
   if (selectedMappedNames.length === 0) return data;
   return data.filter(row => {
-    const mapped = mapMp({ marketplace_profile_sold_on: row.marketplace_profile_sold_on ?? null });
+    const mapped = mapMp({
+      marketplace_profile_sold_on: row.marketplace_profile_sold_on ?? null,
+      tag_clientsource: row.tag_clientsource ?? null,
+    });
     return selectedMappedNames.includes(mapped);
   });
 }
@@ -157,6 +176,8 @@ export function useFilteredLifecycle(tabName: TabName = 'inbound') {
     categoryNames: filters.categoryNames,
     tagClientOwnerships: filters.tagClientOwnerships,
     excludedFileIds: filters.excludedFileIds,
+    clientSource: filters.clientSource,
+    tagClientSources: filters.tagClientSources,
   });
 
   return useQuery({
@@ -187,31 +208,17 @@ export function useFilteredLifecycle(tabName: TabName = 'inbound') {
         file_upload_id: string | null;
         tag_clientsource: string | null;
       };
-      const unitsData: UnitRow[] = [];
-      let offset = 0;
-      const batchSize = 1000;
-      
-      if (activeInboundFileIds.length > 0) {
-        while (true) {
-          let query = supabase
-            .from('units_canonical')
-            .select('trgid, received_on, checked_in_on, tested_on, first_listed_date, order_closed_date, file_upload_id, tag_clientsource')
-            .in('file_upload_id', activeInboundFileIds)
-            .order('trgid', { ascending: true }); // Consistent ordering for pagination
-          
-          // Apply filters EXCEPT wmWeeks - we handle that per-stage-date
-          query = applyFilters(query, filters, { skipWmWeeks: true });
-          query = query.range(offset, offset + batchSize - 1);
-          
-          const { data, error } = await query;
-          if (error) throw error;
-          if (!data || data.length === 0) break;
-          
-          unitsData.push(...data);
-          if (data.length < batchSize) break;
-          offset += batchSize;
-        }
-      }
+      const unitsData = activeInboundFileIds.length === 0 ? [] : await fetchAllPages<UnitRow>((from, to) => {
+        let query = supabase
+          .from('units_canonical')
+          .select('trgid, received_on, checked_in_on, tested_on, first_listed_date, order_closed_date, file_upload_id, tag_clientsource')
+          .in('file_upload_id', activeInboundFileIds)
+          .order('trgid', { ascending: true }); // Consistent ordering for pagination
+        
+        // Apply filters EXCEPT wmWeeks - we handle that per-stage-date
+        query = applyFilters(query, filters, { skipWmWeeks: true });
+        return query.range(from, to);
+      });
       
       const filteredUnits = filterExcludedFiles(unitsData, filters.excludedFileIds);
       
@@ -304,6 +311,8 @@ export function useFilteredSales(tabName: TabName = 'sales') {
     locationIds: filters.locationIds,
     excludedFileIds: filters.excludedFileIds,
     walmartChannels: filters.walmartChannels,
+    clientSource: filters.clientSource,
+    tagClientSources: filters.tagClientSources,
   });
 
   return useQuery({
@@ -328,11 +337,7 @@ export function useFilteredSales(tabName: TabName = 'sales') {
       }
       
       // Fetch all records using pagination to bypass 1000 row limit
-      const allData: Tables<'sales_metrics'>[] = [];
-      let from = 0;
-      const pageSize = 1000;
-      
-      while (true) {
+      const allData = await fetchAllPages<Tables<'sales_metrics'>>((from, to) => {
         let query = supabase.from('sales_metrics').select('*');
         // Filter by file type
         query = query.in('file_upload_id', validFileIds);
@@ -343,17 +348,8 @@ export function useFilteredSales(tabName: TabName = 'sales') {
         // CRITICAL: ORDER BY is required for consistent pagination results
         // Without it, the same row can appear in multiple pages or be skipped entirely
         query = query.order('id', { ascending: true });
-        query = query.range(from, from + pageSize - 1);
-        
-        const { data, error } = await query;
-        if (error) throw error;
-        
-        if (!data || data.length === 0) break;
-        allData.push(...data);
-        
-        if (data.length < pageSize) break;
-        from += pageSize;
-      }
+        return query.range(from, to);
+      });
       
       // Filter out excluded files and "owned" programs
       const filteredByFiles = filterExcludedFiles(allData, filters.excludedFileIds);
@@ -379,6 +375,8 @@ export function useFilteredFees(tabName: TabName = 'sales') {
     programNames: filters.programNames,
     facilities: filters.facilities,
     excludedFileIds: filters.excludedFileIds,
+    clientSource: filters.clientSource,
+    tagClientSources: filters.tagClientSources,
   });
 
   return useQuery({
@@ -396,7 +394,10 @@ export function useFilteredFees(tabName: TabName = 'sales') {
       if (filters.facilities.length > 0) {
         query = query.in('facility', filters.facilities);
       }
-      // Note: fee_metrics doesn't have tag_clientsource column, WMUS filter applied at data source level
+      const clientSources = getClientSourceScope(filters);
+      if (clientSources) {
+        query = query.in('tag_clientsource', clientSources);
+      }
       
       const { data, error } = await query;
       if (error) throw error;
@@ -406,6 +407,51 @@ export function useFilteredFees(tabName: TabName = 'sales') {
   });
 }
 
+// Shipments from Outbound files, by the WM week they shipped in
+export function useFilteredShipments(tabName: TabName = 'outbound') {
+  const { filters } = useTabFilters(tabName);
+
+  const filterKey = JSON.stringify({
+    wmWeeks: filters.wmWeeks,
+    wmDaysOfWeek: filters.wmDaysOfWeek,
+    programNames: filters.programNames,
+    facilities: filters.facilities,
+    excludedFileIds: filters.excludedFileIds,
+    clientSource: filters.clientSource,
+    tagClientSources: filters.tagClientSources,
+  });
+
+  return useQuery({
+    queryKey: ['filtered-shipments', tabName, filterKey],
+    staleTime: 0,
+    queryFn: async () => {
+      let query = supabase.from('outbound_shipments').select('*');
+
+      if (filters.wmWeeks.length > 0) {
+        query = query.in('wm_week', filters.wmWeeks);
+      }
+      if (filters.wmDaysOfWeek.length > 0) {
+        query = query.in('wm_day_of_week', filters.wmDaysOfWeek);
+      }
+      if (filters.programNames.length > 0) {
+        query = query.in('program_name', filters.programNames);
+      }
+      if (filters.facilities.length > 0) {
+        query = query.in('facility', filters.facilities);
+      }
+      const clientSources = getClientSourceScope(filters);
+      if (clientSources) {
+        query = query.in('tag_clientsource', clientSources);
+      }
+
+      const { data, error } = await query.order('ship_date', { ascending: false });
+      if (error) throw error;
+
+      return filterExcludedFiles(data, filters.excludedFileIds);
+    },
+  });
+}
+
 export function useFilteredLifecycleEvents(tabName: TabName = 'inbound') {
   const { filters } = useTabFilters(tabName);
 
@@ -466,6 +512,8 @@ export function useFilteredWeeklyTrends(tabName: TabName = 'sales') {
     programNames: filters.programNames,
     facilities: filters.facilities,
     excludedFileIds: filters.excludedFileIds,
+    clientSource: filters.clientSource,
+    tagClientSources: filters.tagClientSources,
   });
 
   return useQuery({
@@ -474,16 +522,15 @@ export function useFilteredWeeklyTrends(tabName: TabName = 'sales') {
     queryFn: async () => {
       // Fetch all records using pagination
       type TrendRow = { wm_week: number | null; gross_sale: number; effective_retail: number | null; file_upload_id: string | null; master_program_name: string | null };
-      const allData: TrendRow[] = [];
-      let from = 0;
-      const pageSize = 1000;
-      
-      while (true) {
+      const allData = await fetchAllPages<TrendRow>((from, to) => {
         let query = supabase
           .from('sales_metrics')
           .select('wm_week, gross_sale, effective_retail, file_upload_id, tag_clientsource, master_program_name')
-          .not('wm_week', 'is', null)
-          .eq('tag_clientsource', 'WMUS'); // WMUS exclusive
+          .not('wm_week', 'is', null);
+        const clientSources = getClientSourceScope(filters);
+        if (clientSources) {
+          query = query.in('tag_clientsource', clientSources);
+        }
         
         if (filters.programNames.length > 0) {
           query = query.in('program_name', filters.programNames);
@@ -492,17 +539,9 @@ export function useFilteredWeeklyTrends(tabName: TabName = 'sales') {
           query = query.in('facility', filters.facilities);
         }
         
-        query = query.range(from, from + pageSize - 1).order('wm_week', { ascending: true });
-        
-        const { data, error } = await query;
-        if (error) throw error;
-        
-        if (!data || data.length === 0) break;
-        allData.push(...data);
-        
-        if (data.length < pageSize) break;
-        from += pageSize;
-      }
+        // id breaks ties within a week so the pages line up
+        return query.order('wm_week', { ascending: true }).order('id', { ascending: true }).range(from, to);
+      });
 
       const filtered = filterExcludedFiles(allData, filters.excludedFileIds);
       // Also filter out "owned" programs for weekly trends
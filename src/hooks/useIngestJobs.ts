@@ -0,0 +1,112 @@
+import { useQuery } from '@tanstack/react-query';
+import * as tus from 'tus-js-client';
+import { supabase } from '@/integrations/supabase/client';
+
+export type IngestJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface IngestJob {
+  status: IngestJobStatus | null;
+  message: string | null;
+  heartbeatAt: string | null;
+  queuedAt: string; // the upload row's timestamp
+}
+
+// Raw files for server-side ingest; the ingest-upload function removes them once the job succeeds
+const UPLOAD_BUCKET = 'uploads';
+// Supabase's resumable endpoint only takes 6 MB chunks
+const RESUMABLE_CHUNK_SIZE = 6 * 1024 * 1024;
+const RESUMABLE_RETRY_DELAYS = [0, 3000, 5000, 10000, 20000];
+// Matches claim_ingest_job's default: a running job without a heartbeat for this long can be claimed again.
+// A queued job that long after the upload was never started (the function call failed).
+const STALE_JOB_MS = 2 * 60 * 1000;
+const POLL_INTERVAL_MS = 3000;
+
+export const isIngestJobActive = (status: string | null | undefined) => status === 'queued' || status === 'running';
+
+export function isIngestJobStalled(job: IngestJob | undefined): boolean {
+  if (!job || !isIngestJobActive(job.status)) return false;
+  return Date.now() - new Date(job.heartbeatAt ?? job.queuedAt).getTime() > STALE_JOB_MS;
+}
+
+// Job state for a server-side upload, polled while the job is queued or running
+export function useIngestJob(uploadId: string, enabled = true) {
+  return useQuery({
+    queryKey: ['ingest-job', uploadId],
+    enabled,
+    refetchInterval: query => (isIngestJobActive(query.state.data?.status) ? POLL_INTERVAL_MS : false),
+    queryFn: async (): Promise<IngestJob> => {
+      const { data, error } = await supabase
+        .from('file_uploads')
+        .select('job_status, job_message, job_heartbeat_at, upload_timestamp')
+        .eq('id', uploadId)
+        .single();
+      if (error) throw error;
+      return {
+        status: data.job_status as IngestJobStatus | null,
+        message: data.job_message,
+        heartbeatAt: data.job_heartbeat_at,
+        queuedAt: data.upload_timestamp,
+      };
+    },
+  });
+}
+
+// Put the raw file where the ingest-upload function can read it; returns its storage path.
+// Sent in chunks through Supabase's resumable (TUS) endpoint, so a dropped connection picks up where it
+// stopped instead of starting over. The path comes from the content hash, so choosing the same file
+// again after a reload resumes its earlier transfer.
+export async function uploadRawFile(
+  file: File,
+  contentHash: string,
+  onProgress?: (percent: number) => void,
+  abortSignal?: AbortSignal
+): Promise<string> {
+  const path = `${contentHash}/${file.name}`;
+  const { data: { session } } = await supabase.auth.getSession();
+
+  await new Promise<void>((resolve, reject) => {
+    const upload = new tus.Upload(file, {
+      endpoint: `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/upload/resumable`,
+      retryDelays: RESUMABLE_RETRY_DELAYS,
+      headers: {
+        authorization: `Bearer ${session?.access_token ?? import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+        apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+        'x-upsert': 'true', // same path means same bytes
+      },
+      uploadDataDuringCreation: true,
+      removeFingerprintOnSuccess: true,
+      chunkSize: RESUMABLE_CHUNK_SIZE,
+      metadata: {
+        bucketName: UPLOAD_BUCKET,
+        objectName: path,
+        contentType: file.type || 'application/octet-stream',
+      },
+      onProgress: (bytesSent, bytesTotal) => onProgress?.(bytesTotal > 0 ? (bytesSent / bytesTotal) * 100 : 100),
+      onSuccess: () => resolve(),
+      onError: error => reject(new Error(`Could not upload ${file.name} to storage: ${error.message}`)),
+    });
+
+    abortSignal?.addEventListener('abort', () => {
+      upload.abort().finally(() => reject(new Error('Upload cancelled')));
+    });
+    upload
+      .findPreviousUploads()
+      .then(previous => {
+        if (previous.length > 0) upload.resumeFromPreviousUpload(previous[0]);
+        upload.start();
+      })
+      .catch(reject);
+  });
+  return path;
+}
+
+export async function removeRawFile(path: string): Promise<void> {
+  const { error } = await supabase.storage.from(UPLOAD_BUCKET).remove([path]);
+  if (error) throw error;
+}
+
+// Start (or resume) the server-side ingest of an upload; the function answers once the job is claimed
+export async function startIngestJob(uploadId: string): Promise<void> {
+  const { error } = await supabase.functions.invoke('ingest-upload', { body: { uploadId } });
+  if (error) throw new Error(`Could not start the server ingest: ${error.message}`);
+}
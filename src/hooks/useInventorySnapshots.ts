@@ -0,0 +1,147 @@
+import { useQuery } from '@tanstack/react-query';
+import { format, subWeeks } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { TabFilters, TabName, useTabFilters } from '@/contexts/FilterContext';
+import { getClientSourceScope } from '@/hooks/useFilteredData';
+import { operationsNow } from '@/lib/operationsTime';
+import {
+  InventoryChange,
+  InventoryDimension,
+  pivotWeeklyTrend,
+  sortAgingRows,
+  summarizeSnapshot,
+  toBreakdownRows,
+} from '@/lib/inventorySnapshots';
+
+// Every query here starts with this key, so one invalidation refreshes them all after an upload
+export const INVENTORY_SNAPSHOTS_KEY = 'inventory-snapshots';
+
+const LOCATION_LIMIT = 25; // busiest locations shown for a snapshot
+const TREND_WEEKS = 26;
+
+// The tab filters the snapshot functions take; omitted = no filter
+function snapshotFilterArgs(filters: TabFilters) {
+  const clientSources = getClientSourceScope(filters);
+  return {
+    p_facilities: filters.facilities.length > 0 ? filters.facilities : undefined,
+    p_program_names: filters.programNames.length > 0 ? filters.programNames : undefined,
+    p_client_sources: clientSources ?? undefined,
+  };
+}
+
+const filterKey = (filters: TabFilters) =>
+  JSON.stringify({
+    facilities: filters.facilities,
+    programNames: filters.programNames,
+    clientSource: filters.clientSource,
+    tagClientSources: filters.tagClientSources,
+  });
+
+// Dates with a snapshot for the tab's client and filters, newest first
+export function useInventorySnapshotDates(tabName: TabName) {
+  const { filters } = useTabFilters(tabName);
+
+  return useQuery({
+    queryKey: [INVENTORY_SNAPSHOTS_KEY, 'dates', tabName, filterKey(filters)],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_inventory_snapshot_dates', snapshotFilterArgs(filters));
+      if (error) throw error;
+      return (data || []).map(row => ({ snapshotDate: row.snapshot_date, units: Number(row.units) || 0 }));
+    },
+  });
+}
+
+// One snapshot date by stage, facility, busiest locations and age
+export function useInventorySnapshot(snapshotDate: string | null, tabName: TabName) {
+  const { filters } = useTabFilters(tabName);
+
+  return useQuery({
+    queryKey: [INVENTORY_SNAPSHOTS_KEY, 'breakdown', snapshotDate, tabName, filterKey(filters)],
+    enabled: !!snapshotDate,
+    queryFn: async () => {
+      const args = snapshotFilterArgs(filters);
+      const breakdown = async (dimension: InventoryDimension, limit?: number) => {
+        const { data, error } = await supabase.rpc('get_inventory_snapshot_breakdown', {
+          p_snapshot_date: snapshotDate,
+          p_dimension: dimension,
+          p_limit: limit,
+          ...args,
+        });
+        if (error) throw error;
+        return toBreakdownRows(data);
+      };
+
+      const [stages, facilities, locations, aging] = await Promise.all([
+        breakdown('stage'),
+        breakdown('facility'),
+        breakdown('location', LOCATION_LIMIT),
+        breakdown('aging'),
+      ]);
+      const agingRows = sortAgingRows(aging);
+      return { stages, facilities, locations, aging: agingRows, totals: summarizeSnapshot(agingRows) };
+    },
+  });
+}
+
+// On-hand units per stage by WM week, over the last half year
+export function useInventoryTrend(tabName: TabName) {
+  const { filters } = useTabFilters(tabName);
+
+  return useQuery({
+    queryKey: [INVENTORY_SNAPSHOTS_KEY, 'trend', tabName, filterKey(filters)],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_inventory_weekly_trend', {
+        p_since: format(subWeeks(operationsNow(), TREND_WEEKS), 'yyyy-MM-dd'),
+        ...snapshotFilterArgs(filters),
+      });
+      if (error) throw error;
+      return pivotWeeklyTrend(data);
+    },
+  });
+}
+
+// Units per kind of change between two snapshot dates
+export function useInventoryComparison(fromDate: string | null, toDate: string | null, tabName: TabName) {
+  const { filters } = useTabFilters(tabName);
+
+  return useQuery({
+    queryKey: [INVENTORY_SNAPSHOTS_KEY, 'comparison', fromDate, toDate, tabName, filterKey(filters)],
+    enabled: !!fromDate && !!toDate,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('compare_inventory_snapshots', {
+        p_from_date: fromDate,
+        p_to_date: toDate,
+        ...snapshotFilterArgs(filters),
+      });
+      if (error) throw error;
+      const counts: Partial<Record<InventoryChange, number>> = {};
+      for (const row of data || []) counts[row.change as InventoryChange] = Number(row.units) || 0;
+      return counts;
+    },
+  });
+}
+
+// The units behind one kind of change, longest on hand first
+export function useInventoryChanges(
+  fromDate: string | null,
+  toDate: string | null,
+  change: InventoryChange | null,
+  tabName: TabName
+) {
+  const { filters } = useTabFilters(tabName);
+
+  return useQuery({
+    queryKey: [INVENTORY_SNAPSHOTS_KEY, 'changes', fromDate, toDate, change, tabName, filterKey(filters)],
+    enabled: !!fromDate && !!toDate && !!change,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_inventory_snapshot_changes', {
+        p_from_date: fromDate,
+        p_to_date: toDate,
+        p_change: change,
+        ...snapshotFilterArgs(filters),
+      });
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
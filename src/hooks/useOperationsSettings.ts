@@ -0,0 +1,33 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_OPERATIONS_TIME_ZONE, getOperationsTimeZone, setOperationsTimeZone } from '@/lib/operationsTime';
+
+// Load the operations time zone and register it, so uploads and "this WM week" read days in it
+export function useOperationsTimeZone() {
+  return useQuery({
+    queryKey: ['operations-settings'],
+    staleTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false,
+    queryFn: async (): Promise<string> => {
+      const { data, error } = await supabase
+        .from('operations_settings')
+        .select('time_zone')
+        .maybeSingle();
+
+      if (error) throw error;
+
+      setOperationsTimeZone(data?.time_zone ?? DEFAULT_OPERATIONS_TIME_ZONE);
+      return getOperationsTimeZone();
+    },
+  });
+}
+
+// Only files parsed after the change use the new zone; stored days are not moved
+export async function saveOperationsTimeZone(timeZone: string): Promise<void> {
+  const { error } = await supabase
+    .from('operations_settings')
+    .upsert({ id: true, time_zone: timeZone }, { onConflict: 'id' });
+
+  if (error) throw error;
+  setOperationsTimeZone(timeZone);
+}
@@ -0,0 +1,45 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { fetchAllPages } from '@/lib/fetchAllPages';
+import { CoverageRecord } from '@/lib/rateCardCoverage';
+
+// Only the columns the fee calculator reads
+const SALES_COLUMNS =
+  'id, sale_price, category_name, program_name, marketplace_profile_sold_on, facility, effective_retail, ' +
+  'tag_clientsource, refund_amount, sorting_index, expected_hv_as_is_refurb_fee, order_closed_date, ' +
+  'tag_pricing_condition, invoiced_check_in_fee, invoiced_refurb_fee, invoiced_pps_fee';
+
+const UNIT_COLUMNS =
+  'id, sale_price, category_name, program_name, marketplace_profile_sold_on, facility, effective_retail, ' +
+  'mr_lmr_upc_average_category_retail, tag_clientsource, order_closed_date';
+
+// Sold units and still-unsold WIP units to check against the rate cards
+export function useRateCardCoverageData() {
+  return useQuery({
+    queryKey: ['rate-card-coverage'],
+    staleTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false,
+    queryFn: async () => {
+      const [sales, wipUnits] = await Promise.all([
+        fetchAllPages<CoverageRecord>((from, to) =>
+          supabase
+            .from('sales_metrics')
+            .select(SALES_COLUMNS)
+            .neq('marketplace_profile_sold_on', 'Transfer')
+            .gt('sale_price', 0)
+            .order('id', { ascending: true })
+            .range(from, to)
+        ),
+        fetchAllPages<CoverageRecord>((from, to) =>
+          supabase
+            .from('units_canonical')
+            .select(UNIT_COLUMNS)
+            .is('order_closed_date', null)
+            .order('id', { ascending: true })
+            .range(from, to)
+        ),
+      ]);
+      return { sales, wipUnits };
+    },
+  });
+}
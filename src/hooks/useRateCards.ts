@@ -0,0 +1,96 @@
+import { queryOptions, useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Json, Tables } from '@/integrations/supabase/types';
+import { fetchAllPages } from '@/lib/fetchAllPages';
+import { RateCardEntry, RateCardType, RateCardVersion, setRateCardVersions } from '@/lib/rateCards';
+
+type RateCardEntryRow = Tables<'rate_card_entries'>;
+
+// Fetch every entry for the given cards, paginated past the 1000 row limit
+function fetchRateCardEntries(cardIds: string[]): Promise<RateCardEntryRow[]> {
+  return fetchAllPages<RateCardEntryRow>((from, to) =>
+    supabase
+      .from('rate_card_entries')
+      .select('*')
+      .in('rate_card_id', cardIds)
+      .order('id', { ascending: true })
+      .range(from, to)
+  );
+}
+
+// Load all published rate card versions and register them with the fee calculator.
+// Fee calculations fall back to the bundled cards until this resolves.
+export const rateCardsQuery = queryOptions({
+  queryKey: ['rate-cards'],
+  staleTime: 5 * 60 * 1000,
+  refetchOnWindowFocus: false,
+  queryFn: async (): Promise<RateCardVersion[]> => {
+    const { data: cards, error } = await supabase
+      .from('rate_cards')
+      .select('*')
+      .order('effective_from', { ascending: true });
+
+    if (error) throw error;
+    if (!cards || cards.length === 0) {
+      setRateCardVersions([]);
+      return [];
+    }
+
+    const entries = await fetchRateCardEntries(cards.map(c => c.id));
+    const entriesByCard: Record<string, RateCardEntryRow[]> = {};
+    entries.forEach(entry => {
+      if (!entriesByCard[entry.rate_card_id]) entriesByCard[entry.rate_card_id] = [];
+      entriesByCard[entry.rate_card_id].push(entry);
+    });
+
+    const versions: RateCardVersion[] = cards.map(card => ({
+      id: card.id,
+      clientSource: card.client_source,
+      cardType: card.card_type,
+      version: card.version,
+      effectiveFrom: card.effective_from,
+      effectiveTo: card.effective_to,
+      sourceFileName: card.source_file_name,
+      notes: card.notes,
+      publishedAt: card.published_at,
+      entries: (entriesByCard[card.id] || []).map(e => ({
+        key: e.lookup_key,
+        category: e.category,
+        program: e.program,
+        condition: e.pricing_condition,
+        priceType: e.price_type === 'percent' ? 'percent' : 'dollar',
+        price: Number(e.price) || 0,
+      })),
+    }));
+
+    setRateCardVersions(versions);
+    console.log('Rate cards loaded:', versions.map(v => `${v.clientSource} ${v.cardType} v${v.version} (${v.effectiveFrom} → ${v.effectiveTo ?? 'open'})`));
+    return versions;
+  },
+});
+
+export const useRateCards = () => useQuery(rateCardsQuery);
+
+export interface PublishRateCardInput {
+  clientSource: string;
+  cardType: RateCardType;
+  effectiveFrom: string; // yyyy-MM-dd
+  entries: RateCardEntry[];
+  sourceFileName?: string;
+  notes?: string;
+}
+
+// Publish a new version for a client; that client's previous open version is closed server-side
+export async function publishRateCard(input: PublishRateCardInput): Promise<string> {
+  const { data, error } = await supabase.rpc('publish_rate_card', {
+    p_client_source: input.clientSource,
+    p_card_type: input.cardType,
+    p_effective_from: input.effectiveFrom,
+    p_entries: input.entries as unknown as Json,
+    p_source_file_name: input.sourceFileName,
+    p_notes: input.notes,
+  });
+
+  if (error) throw error;
+  return data;
+}
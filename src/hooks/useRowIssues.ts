@@ -0,0 +1,51 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { fetchAllPages } from '@/lib/fetchAllPages';
+import { RowIssue, RowIssueSeverity, RowIssueSummary } from '@/lib/rowIssues';
+
+const ISSUE_PAGE_SIZE = 1000;
+
+const toRowIssue = (row: Tables<'upload_row_issues'>): RowIssue => ({
+  line: row.line_number,
+  trgid: row.trgid,
+  column: row.column_name,
+  value: row.raw_value,
+  reason: row.reason,
+  severity: row.severity as RowIssueSeverity,
+});
+
+// The issue counts stored on an upload row; null for uploads made before issues were logged
+export const readIssueSummary = (value: unknown): RowIssueSummary | null =>
+  value && typeof value === 'object' && 'total' in value ? (value as RowIssueSummary) : null;
+
+// Save the parser's issue log against an upload
+export async function saveRowIssues(fileUploadId: string, issues: RowIssue[]): Promise<void> {
+  for (let i = 0; i < issues.length; i += ISSUE_PAGE_SIZE) {
+    const { error } = await supabase.from('upload_row_issues').insert(
+      issues.slice(i, i + ISSUE_PAGE_SIZE).map(issue => ({
+        file_upload_id: fileUploadId,
+        line_number: issue.line,
+        trgid: issue.trgid,
+        column_name: issue.column,
+        raw_value: issue.value,
+        reason: issue.reason,
+        severity: issue.severity,
+      }))
+    );
+    if (error) throw error;
+  }
+}
+
+// Every stored issue for an upload, in file order
+export async function fetchRowIssues(fileUploadId: string): Promise<RowIssue[]> {
+  const rows = await fetchAllPages<Tables<'upload_row_issues'>>((from, to) =>
+    supabase
+      .from('upload_row_issues')
+      .select('*')
+      .eq('file_upload_id', fileUploadId)
+      .order('line_number')
+      .order('id')
+      .range(from, to)
+  );
+  return rows.map(toRowIssue);
+}
@@ -0,0 +1,188 @@
+import { useCallback } from 'react';
+import { QueryClient, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { clientsQuery } from '@/hooks/useClients';
+import { feeRulesQuery } from '@/hooks/useFeeRules';
+import { rateCardsQuery } from '@/hooks/useRateCards';
+import { TabName, useActiveClient } from '@/contexts/FilterContext';
+import type { FeeMetrics } from '@/hooks/useDashboardData';
+import { useFilteredSales } from '@/hooks/useFilteredData';
+import { ALL_CLIENTS } from '@/lib/clients';
+import { SaleFeeProvenance, SaleFeeRow, SaleFeeSource, buildSaleFeeRow, isSaleFeeRowStale } from '@/lib/saleFees';
+
+// Every column the fee calculator reads, plus the row dimensions
+const SALES_COLUMNS =
+  'trgid, wm_week, sale_price, category_name, program_name, marketplace_profile_sold_on, facility, ' +
+  'effective_retail, tag_clientsource, refund_amount, discount_amount, sorting_index, vendor_invoice_total, ' +
+  'service_invoice_total, expected_hv_as_is_refurb_fee, order_closed_date, invoiced_check_in_fee, ' +
+  'invoiced_refurb_fee, invoiced_overbox_fee, invoiced_packaging_fee, invoiced_pps_fee, invoiced_shipping_fee, ' +
+  'invoiced_merchant_fee, invoiced_revshare_fee, invoiced_3pmp_fee, invoiced_marketing_fee, invoiced_refund_fee';
+
+const PROVENANCE_COLUMNS =
+  'trgid, check_in_rate_card_id, pps_rate_card_id, refurb_fee_rate_card_id, refurb_pct_rate_card_id, fee_rule_set_version';
+
+const UPSERT_BATCH_SIZE = 500; // sales read, compared and written per page
+const TOTALS_TRGID_BATCH = 5000; // TRGIDs per get_sale_fee_totals call
+
+// Register the rate cards, rule set and clients buildSaleFeeRow prices with. Only some tabs mount
+// their hooks, so anything that writes sale_fees loads them first; throws if one cannot be loaded,
+// rather than let sales be stored priced with the bundled fallbacks.
+export async function ensureFeeRegistries(queryClient: QueryClient): Promise<void> {
+  await Promise.all([
+    queryClient.ensureQueryData(rateCardsQuery),
+    queryClient.ensureQueryData(feeRulesQuery),
+    queryClient.ensureQueryData(clientsQuery),
+  ]);
+}
+
+export interface RecomputeSaleFeesOptions {
+  since?: string;   // only sales closed on or after this date (yyyy-MM-dd)
+  force?: boolean;  // re-price every row, not just stale ones
+  onProgress?: (checked: number, total: number) => void; // sales compared so far, of every sale in scope
+}
+
+export interface RecomputeSaleFeesResult {
+  scanned: number;
+  updated: number;
+}
+
+// Re-price stored rows whose rate cards or rule set version no longer match what is in force.
+// Call after the new cards/rules are registered (i.e. after the rate-cards / fee-rules queries refetch).
+// Sales are read a page at a time in TRGID order and each page is written before the next is fetched,
+// so only one page is ever held in the browser.
+export async function recomputeSaleFees(options: RecomputeSaleFeesOptions = {}): Promise<RecomputeSaleFeesResult> {
+  const { since, force = false, onProgress } = options;
+
+  let countQuery = supabase.from('sales_metrics').select('trgid', { count: 'exact', head: true });
+  if (since) countQuery = countQuery.gte('order_closed_date', since);
+  const { count, error: countError } = await countQuery;
+  if (countError) throw countError;
+  const total = count ?? 0;
+
+  let scanned = 0;
+  let updated = 0;
+  let lastTrgid: string | null = null;
+  onProgress?.(0, total);
+
+  for (;;) {
+    let query = supabase.from('sales_metrics').select(SALES_COLUMNS);
+    if (since) query = query.gte('order_closed_date', since);
+    if (lastTrgid !== null) query = query.gt('trgid', lastTrgid);
+    const { data, error } = await query.order('trgid', { ascending: true }).limit(UPSERT_BATCH_SIZE);
+    if (error) throw error;
+    const sales = (data || []) as unknown as SaleFeeSource[];
+    if (sales.length === 0) break;
+    lastTrgid = sales[sales.length - 1].trgid;
+    scanned += sales.length;
+
+    let stale = sales;
+    if (!force) {
+      const { data: stored, error: storedError } = await supabase
+        .from('sale_fees')
+        .select(PROVENANCE_COLUMNS)
+        .in('trgid', sales.map(sale => sale.trgid));
+      if (storedError) throw storedError;
+      const storedByTrgid = new Map(
+        ((stored || []) as unknown as (SaleFeeProvenance & { trgid: string })[]).map(row => [row.trgid, row])
+      );
+      stale = sales.filter(sale => isSaleFeeRowStale(storedByTrgid.get(sale.trgid), sale));
+    }
+
+    if (stale.length > 0) {
+      const rows: SaleFeeRow[] = stale.map(buildSaleFeeRow);
+      const { error: upsertError } = await supabase.from('sale_fees').upsert(rows, { onConflict: 'trgid' });
+      if (upsertError) throw new Error(`Sale fee recompute failed: ${upsertError.message}`);
+      updated += rows.length;
+    }
+    onProgress?.(scanned, total);
+    if (sales.length < UPSERT_BATCH_SIZE) break;
+  }
+
+  console.log(`Sale fees recomputed: ${updated} of ${scanned} rows${since ? ` since ${since}` : ''}`);
+  return { scanned, updated };
+}
+
+// Stored fee totals for the selected client, aggregated in SQL
+export function useSaleFeeTotals() {
+  const { activeClient } = useActiveClient();
+
+  return useQuery({
+    queryKey: ['sale-fee-totals', activeClient],
+    staleTime: 60 * 1000,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_sale_fee_totals', {
+        p_client_source: activeClient === ALL_CLIENTS ? null : activeClient,
+      });
+      if (error) throw error;
+      return data?.[0] ?? null;
+    },
+  });
+}
+
+export interface StoredFeeTotals extends FeeMetrics {
+  units: number; // sales with a stored row; fewer than asked for when some were never priced
+}
+
+// get_sale_fee_totals column for each FeeBreakdown figure
+const TOTAL_COLUMNS: [keyof FeeMetrics, string][] = [
+  ['totalFees', 'total_fees'],
+  ['netDollars', 'net_dollars'],
+  ['checkInFees', 'check_in_fees'],
+  ['refurbFees', 'refurb_fees'],
+  ['overboxFees', 'overbox_fees'],
+  ['packagingFees', 'packaging_fees'],
+  ['ppsFees', 'pps_fees'],
+  ['shippingFees', 'shipping_fees'],
+  ['merchantFees', 'merchant_fees'],
+  ['revshareFees', 'revshare_fees'],
+  ['thirdPartyMPFees', 'third_party_mp_fees'],
+  ['marketingFees', 'marketing_fees'],
+  ['refundFees', 'refund_fees'],
+];
+
+// Stored fee totals for exactly these sales, summed in SQL a slice of TRGIDs at a time
+export async function fetchStoredFeeTotals(trgids: string[]): Promise<StoredFeeTotals> {
+  const totals = { units: 0 } as StoredFeeTotals;
+  for (const [key] of TOTAL_COLUMNS) totals[key] = 0;
+
+  for (let i = 0; i < trgids.length; i += TOTALS_TRGID_BATCH) {
+    const { data, error } = await supabase.rpc('get_sale_fee_totals', { p_trgids: trgids.slice(i, i + TOTALS_TRGID_BATCH) });
+    if (error) throw error;
+    const row = data?.[0] as Record<string, unknown> | undefined;
+    if (!row) continue;
+    totals.units += Number(row.units) || 0;
+    for (const [key, column] of TOTAL_COLUMNS) totals[key] += Number(row[column]) || 0;
+  }
+  return totals;
+}
+
+// Stored fee totals for the sales a tab shows, so the dashboard reports the rows that were saved
+// rather than re-pricing every sale in the browser
+export function useFilteredSaleFeeTotals(tabName: TabName = 'sales') {
+  const { data: sales, dataUpdatedAt } = useFilteredSales(tabName);
+
+  return useQuery({
+    queryKey: ['sale-fee-totals', 'filtered', tabName, dataUpdatedAt],
+    enabled: !!sales,
+    queryFn: () => fetchStoredFeeTotals((sales || []).map(sale => sale.trgid)),
+  });
+}
+
+// Re-price stale stored rows after a publish. Await the rate-cards / fee-rules refetch first
+// so the new version is registered before rows are compared against it.
+export function useRepriceSaleFees() {
+  const queryClient = useQueryClient();
+
+  return useCallback(async (since?: string) => {
+    try {
+      const { updated } = await recomputeSaleFees({ since });
+      if (updated > 0) toast.success(`Re-priced ${updated.toLocaleString()} stored sales`);
+    } catch (error) {
+      console.error('Sale fee recompute error:', error);
+      toast.error('Published, but stored sale fees could not be re-priced - run the recompute from Rate Cards');
+    } finally {
+      queryClient.invalidateQueries({ queryKey: ['sale-fee-totals'] });
+    }
+  }, [queryClient]);
+}
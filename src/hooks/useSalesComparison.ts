@@ -1,9 +1,10 @@
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { fetchAllPages } from '@/lib/fetchAllPages';
 import { useTabFilters, TabName } from '@/contexts/FilterContext';
 import { Tables } from '@/integrations/supabase/types';
 import { addWalmartChannel, filterByWalmartChannel } from '@/lib/walmartChannel';
-import { SalesRecordWithChannel } from './useFilteredData';
+import { SalesRecordWithChannel, getClientSourceScope } from './useFilteredData';
 import { getWMFiscalYearStart } from '@/lib/wmWeek';
 import { mapMarketplace } from '@/lib/marketplaceMapping';
 
@@ -43,6 +44,8 @@ export function useSalesComparison(tabName: TabName = 'sales') {
     locationIds: filters.locationIds,
     excludedFileIds: filters.excludedFileIds,
     walmartChannels: filters.walmartChannels,
+    clientSource: filters.clientSource,
+    tagClientSources: filters.tagClientSources,
   });
 
   return useQuery({
@@ -62,12 +65,12 @@ export function useSalesComparison(tabName: TabName = 'sales') {
        * Any deviation causes KPI cards and TW column to diverge.
        * 
        * Filters applied (in same order as useFilteredData.ts):
-       * 1. wmDaysOfWeek (wmWeeks applied separately in fetchAllPages)
+       * 1. wmDaysOfWeek (wmWeeks applied separately in fetchAllFiltered)
        * 2. programNames
        * 3. facilities
        * 4. categoryNames
        * 5. tagClientOwnerships
-       * 6. tag_clientsource = 'WMUS' (always)
+       * 6. tag_clientsource (header client switcher + tagClientSources)
        * 7. marketplacesSoldOn
        * 8. orderTypesSoldOn
        * 9. locationIds
@@ -93,8 +96,10 @@ export function useSalesComparison(tabName: TabName = 'sales') {
         if (filters.tagClientOwnerships.length > 0) {
           query = query.in('tag_client_ownership', filters.tagClientOwnerships);
         }
-        // WMUS exclusive - always filter to WMUS only
-        query = query.eq('tag_clientsource', 'WMUS');
+        const clientSources = getClientSourceScope(filters);
+        if (clientSources) {
+          query = query.in('tag_clientsource', clientSources);
+        }
         // NOTE: marketplace filter applied client-side after mapMarketplace()
         if (filters.orderTypesSoldOn.length > 0) {
           query = query.in('order_type_sold_on', filters.orderTypesSoldOn);
@@ -110,30 +115,18 @@ export function useSalesComparison(tabName: TabName = 'sales') {
         return query;
       };
       
-      // Paginated fetch helper with client-side filtering
-      const fetchAllPages = async (
+      // Paginated fetch with client-side filtering
+      const fetchAllFiltered = async (
         additionalFilters: (q: any) => any
       ): Promise<Tables<'sales_metrics'>[]> => {
-        const allData: Tables<'sales_metrics'>[] = [];
-        let from = 0;
-        const pageSize = 1000;
-
-        while (true) {
+        const allData = await fetchAllPages<Tables<'sales_metrics'>>((from, to) => {
           let query = supabase.from('sales_metrics').select('*');
           query = applyAllFilters(query);
           query = additionalFilters(query);
           // CRITICAL: ORDER BY is required for consistent pagination results
           query = query.order('id', { ascending: true });
-          query = query.range(from, from + pageSize - 1);
-
-          const { data, error } = await query;
-          if (error) throw error;
-          if (!data || data.length === 0) break;
-          
-          allData.push(...data);
-          if (data.length < pageSize) break;
-          from += pageSize;
-        }
+          return query.range(from, to);
+        });
 
         // Client-side filtering: excluded files, owned programs, and marketplace (matches useFilteredSales)
         let filtered = allData.filter(row => 
@@ -149,7 +142,7 @@ export function useSalesComparison(tabName: TabName = 'sales') {
         // Apply marketplace filter using mapped names
         if (filters.marketplacesSoldOn.length > 0) {
           filtered = filtered.filter(row => {
-            const mapped = mapMarketplace({ marketplace_profile_sold_on: row.marketplace_profile_sold_on ?? null });
+            const mapped = mapMarketplace({ marketplace_profile_sold_on: row.marketplace_profile_sold_on ?? null, tag_clientsource: row.tag_clientsource });
             return filters.marketplacesSoldOn.includes(mapped);
           });
         }
@@ -161,7 +154,7 @@ export function useSalesComparison(tabName: TabName = 'sales') {
        * TW: Fetch data for selected WM Week(s).
        * NO fiscal year boundary filter - the wmWeeks filter is sufficient.
        */
-      const twRaw = await fetchAllPages(q => {
+      const twRaw = await fetchAllFiltered(q => {
         if (filters.wmWeeks.length > 0) {
           return q.in('wm_week', filters.wmWeeks);
         }
@@ -205,12 +198,12 @@ export function useSalesComparison(tabName: TabName = 'sales') {
 
         // Fetch LW and TWLY in parallel
         [lwRaw, twlyRaw] = await Promise.all([
-          fetchAllPages(q => q
+          fetchAllFiltered(q => q
             .in('wm_week', [derivedLastWeek])
             .gte('order_closed_date', formatDate(lwAfterDate))
             .lt('order_closed_date', formatDate(lwBeforeDate))
           ),
-          fetchAllPages(q => q
+          fetchAllFiltered(q => q
             .gte('order_closed_date', formatDate(priorFYStart))
             .lt('order_closed_date', formatDate(priorFYEnd))
           ),
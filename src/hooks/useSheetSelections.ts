@@ -0,0 +1,26 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+
+// Sheets remembered for a file-name pattern, if any
+export async function fetchSheetSelection(filePattern: string): Promise<string[] | null> {
+  const { data, error } = await supabase
+    .from('excel_sheet_selections')
+    .select('sheet_names')
+    .eq('file_pattern', filePattern)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? (data.sheet_names as unknown as string[]) : null;
+}
+
+// Remember (or overwrite) the sheets for a file-name pattern
+export async function saveSheetSelection(filePattern: string, sheetNames: string[]): Promise<void> {
+  const { error } = await supabase
+    .from('excel_sheet_selections')
+    .upsert(
+      { file_pattern: filePattern, sheet_names: sheetNames as unknown as Json },
+      { onConflict: 'file_pattern' }
+    );
+
+  if (error) throw error;
+}
@@ -0,0 +1,21 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+// Sale rows for a single unit, most recent first (a trgid can be resold or re-uploaded)
+export function useUnitSales(trgid: string | null) {
+  return useQuery({
+    queryKey: ['unit-sales', trgid],
+    enabled: !!trgid,
+    queryFn: async (): Promise<Tables<'sales_metrics'>[]> => {
+      const { data, error } = await supabase
+        .from('sales_metrics')
+        .select('*')
+        .eq('trgid', trgid)
+        .order('order_closed_date', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
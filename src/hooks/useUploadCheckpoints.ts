@@ -0,0 +1,59 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { fetchAllPages } from '@/lib/fetchAllPages';
+import { fetchUploadBatchProgress } from '@/lib/uploadBatches';
+
+export type UploadStatus = 'uploading' | 'incomplete' | 'complete';
+
+export interface BatchCheckpoint {
+  batchIndex: number;
+  error: string | null; // null when the batch was saved
+}
+
+// Checkpoint totals for an upload that has not completed
+export function useUploadBatchProgress(uploadId: string, enabled = true) {
+  return useQuery({
+    queryKey: ['upload-batch-progress', uploadId],
+    enabled,
+    queryFn: () => fetchUploadBatchProgress(supabase, uploadId),
+  });
+}
+
+// Record how a round of batches went; a later success overwrites an earlier failure
+export async function saveBatchCheckpoints(fileUploadId: string, checkpoints: BatchCheckpoint[]): Promise<void> {
+  if (checkpoints.length === 0) return;
+  const { error } = await supabase
+    .from('file_upload_batches')
+    .upsert(
+      checkpoints.map(c => ({
+        file_upload_id: fileUploadId,
+        batch_index: c.batchIndex,
+        status: c.error === null ? 'done' : 'failed',
+        error: c.error,
+      })),
+      { onConflict: 'file_upload_id,batch_index' }
+    );
+  if (error) throw error;
+}
+
+// Indices of every batch already saved for an upload
+export async function fetchDoneBatchIndices(fileUploadId: string): Promise<Set<number>> {
+  const rows = await fetchAllPages<{ batch_index: number }>((from, to) =>
+    supabase
+      .from('file_upload_batches')
+      .select('batch_index')
+      .eq('file_upload_id', fileUploadId)
+      .eq('status', 'done')
+      .order('batch_index')
+      .range(from, to)
+  );
+  return new Set(rows.map(row => row.batch_index));
+}
+
+export async function setUploadStatus(fileUploadId: string, status: UploadStatus): Promise<void> {
+  const { error } = await supabase
+    .from('file_uploads')
+    .update({ upload_status: status, processed: status === 'complete' })
+    .eq('id', fileUploadId);
+  if (error) throw error;
+}
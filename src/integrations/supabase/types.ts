@@ -14,6 +14,87 @@ export type Database = {
   }
   public: {
     Tables: {
+      clients: {
+        Row: {
+          channel_rules: Json | null
+          code: string
+          created_at: string
+          default_channel: string | null
+          marketplace_rules: Json | null
+          name: string
+        }
+        Insert: {
+          channel_rules?: Json | null
+          code: string
+          created_at?: string
+          default_channel?: string | null
+          marketplace_rules?: Json | null
+          name: string
+        }
+        Update: {
+          channel_rules?: Json | null
+          code?: string
+          created_at?: string
+          default_channel?: string | null
+          marketplace_rules?: Json | null
+          name?: string
+        }
+        Relationships: []
+      }
+      column_mapping_profiles: {
+        Row: {
+          created_at: string
+          header_signature: string
+          headers: Json
+          id: string
+          mapping: Json
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          header_signature: string
+          headers?: Json
+          id?: string
+          mapping?: Json
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          header_signature?: string
+          headers?: Json
+          id?: string
+          mapping?: Json
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      excel_sheet_selections: {
+        Row: {
+          created_at: string
+          file_pattern: string
+          id: string
+          sheet_names: Json
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          file_pattern: string
+          id?: string
+          sheet_names?: Json
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          file_pattern?: string
+          id?: string
+          sheet_names?: Json
+          updated_at?: string
+        }
+        Relationships: []
+      }
       fee_metrics: {
         Row: {
           check_in_fee: number | null
@@ -26,6 +107,7 @@ export type Database = {
           pick_pack_ship_fee: number | null
           program_name: string | null
           refurbishing_fee: number | null
+          tag_clientsource: string | null
           total_fees: number | null
           trgid: string
           wm_week: number | null
@@ -41,6 +123,7 @@ export type Database = {
           pick_pack_ship_fee?: number | null
           program_name?: string | null
           refurbishing_fee?: number | null
+          tag_clientsource?: string | null
           total_fees?: number | null
           trgid: string
           wm_week?: number | null
@@ -56,6 +139,7 @@ export type Database = {
           pick_pack_ship_fee?: number | null
           program_name?: string | null
           refurbishing_fee?: number | null
+          tag_clientsource?: string | null
           total_fees?: number | null
           trgid?: string
           wm_week?: number | null
@@ -70,38 +154,230 @@ export type Database = {
           },
         ]
       }
+      fee_rule_sets: {
+        Row: {
+          created_at: string
+          defaults: Json
+          id: string
+          notes: string | null
+          published_at: string
+          rules: Json
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          defaults: Json
+          id?: string
+          notes?: string | null
+          published_at?: string
+          rules: Json
+          version: number
+        }
+        Update: {
+          created_at?: string
+          defaults?: Json
+          id?: string
+          notes?: string | null
+          published_at?: string
+          rules?: Json
+          version?: number
+        }
+        Relationships: []
+      }
+      file_upload_batches: {
+        Row: {
+          batch_index: number
+          created_at: string
+          error: string | null
+          file_upload_id: string
+          id: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          batch_index: number
+          created_at?: string
+          error?: string | null
+          file_upload_id: string
+          id?: string
+          status: string
+          updated_at?: string
+        }
+        Update: {
+          batch_index?: number
+          created_at?: string
+          error?: string | null
+          file_upload_id?: string
+          id?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "file_upload_batches_file_upload_id_fkey"
+            columns: ["file_upload_id"]
+            isOneToOne: false
+            referencedRelation: "file_uploads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       file_uploads: {
         Row: {
+          batch_size: number | null
+          column_mapping: Json | null
+          content_hash: string | null
           created_at: string
           file_business_date: string
           file_name: string
           file_type: Database["public"]["Enums"]["file_type"]
+          fingerprint: string | null
           id: string
+          ingest_mode: string
+          issue_summary: Json | null
+          job_claim_id: string | null
+          job_finished_at: string | null
+          job_heartbeat_at: string | null
+          job_message: string | null
+          job_started_at: string | null
+          job_status: string | null
           processed: boolean | null
+          replaces_upload_id: string | null
           row_count: number | null
+          sheet_names: Json | null
+          storage_path: string | null
+          total_batches: number | null
+          upload_status: string
           upload_timestamp: string
         }
         Insert: {
+          batch_size?: number | null
+          column_mapping?: Json | null
+          content_hash?: string | null
           created_at?: string
           file_business_date: string
           file_name: string
           file_type?: Database["public"]["Enums"]["file_type"]
+          fingerprint?: string | null
           id?: string
+          ingest_mode?: string
+          issue_summary?: Json | null
+          job_claim_id?: string | null
+          job_finished_at?: string | null
+          job_heartbeat_at?: string | null
+          job_message?: string | null
+          job_started_at?: string | null
+          job_status?: string | null
           processed?: boolean | null
+          replaces_upload_id?: string | null
           row_count?: number | null
+          sheet_names?: Json | null
+          storage_path?: string | null
+          total_batches?: number | null
+          upload_status?: string
           upload_timestamp?: string
         }
         Update: {
+          batch_size?: number | null
+          column_mapping?: Json | null
+          content_hash?: string | null
           created_at?: string
           file_business_date?: string
           file_name?: string
           file_type?: Database["public"]["Enums"]["file_type"]
+          fingerprint?: string | null
           id?: string
+          ingest_mode?: string
+          issue_summary?: Json | null
+          job_claim_id?: string | null
+          job_finished_at?: string | null
+          job_heartbeat_at?: string | null
+          job_message?: string | null
+          job_started_at?: string | null
+          job_status?: string | null
           processed?: boolean | null
+          replaces_upload_id?: string | null
           row_count?: number | null
+          sheet_names?: Json | null
+          storage_path?: string | null
+          total_batches?: number | null
+          upload_status?: string
           upload_timestamp?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "file_uploads_replaces_upload_id_fkey"
+            columns: ["replaces_upload_id"]
+            isOneToOne: false
+            referencedRelation: "file_uploads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inventory_snapshots: {
+        Row: {
+          category_name: string | null
+          created_at: string
+          days_on_hand: number | null
+          effective_retail: number | null
+          facility: string | null
+          file_upload_id: string
+          id: string
+          location_id: string | null
+          master_program_name: string | null
+          program_name: string | null
+          received_on: string | null
+          snapshot_date: string
+          stage: string | null
+          tag_clientsource: string | null
+          trgid: string
+          wm_week: number | null
+        }
+        Insert: {
+          category_name?: string | null
+          created_at?: string
+          days_on_hand?: number | null
+          effective_retail?: number | null
+          facility?: string | null
+          file_upload_id: string
+          id?: string
+          location_id?: string | null
+          master_program_name?: string | null
+          program_name?: string | null
+          received_on?: string | null
+          snapshot_date: string
+          stage?: string | null
+          tag_clientsource?: string | null
+          trgid: string
+          wm_week?: number | null
+        }
+        Update: {
+          category_name?: string | null
+          created_at?: string
+          days_on_hand?: number | null
+          effective_retail?: number | null
+          facility?: string | null
+          file_upload_id?: string
+          id?: string
+          location_id?: string | null
+          master_program_name?: string | null
+          program_name?: string | null
+          received_on?: string | null
+          snapshot_date?: string
+          stage?: string | null
+          tag_clientsource?: string | null
+          trgid?: string
+          wm_week?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_snapshots_file_upload_id_fkey"
+            columns: ["file_upload_id"]
+            isOneToOne: false
+            referencedRelation: "file_uploads"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       lifecycle_events: {
         Row: {
@@ -147,6 +423,267 @@ export type Database = {
           },
         ]
       }
+      operations_settings: {
+        Row: {
+          created_at: string
+          id: boolean
+          time_zone: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: boolean
+          time_zone?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: boolean
+          time_zone?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      outbound_shipments: {
+        Row: {
+          carrier: string | null
+          created_at: string
+          facility: string | null
+          file_upload_id: string
+          id: string
+          program_name: string | null
+          ship_date: string
+          shipping_cost: number | null
+          tag_clientsource: string | null
+          tracking_number: string | null
+          trgid: string
+          wm_day_of_week: number | null
+          wm_week: number | null
+        }
+        Insert: {
+          carrier?: string | null
+          created_at?: string
+          facility?: string | null
+          file_upload_id: string
+          id?: string
+          program_name?: string | null
+          ship_date: string
+          shipping_cost?: number | null
+          tag_clientsource?: string | null
+          tracking_number?: string | null
+          trgid: string
+          wm_day_of_week?: number | null
+          wm_week?: number | null
+        }
+        Update: {
+          carrier?: string | null
+          created_at?: string
+          facility?: string | null
+          file_upload_id?: string
+          id?: string
+          program_name?: string | null
+          ship_date?: string
+          shipping_cost?: number | null
+          tag_clientsource?: string | null
+          tracking_number?: string | null
+          trgid?: string
+          wm_day_of_week?: number | null
+          wm_week?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "outbound_shipments_file_upload_id_fkey"
+            columns: ["file_upload_id"]
+            isOneToOne: false
+            referencedRelation: "file_uploads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rate_card_entries: {
+        Row: {
+          category: string | null
+          created_at: string
+          id: string
+          lookup_key: string
+          price: number
+          price_type: string
+          pricing_condition: string | null
+          program: string | null
+          rate_card_id: string
+        }
+        Insert: {
+          category?: string | null
+          created_at?: string
+          id?: string
+          lookup_key: string
+          price: number
+          price_type?: string
+          pricing_condition?: string | null
+          program?: string | null
+          rate_card_id: string
+        }
+        Update: {
+          category?: string | null
+          created_at?: string
+          id?: string
+          lookup_key?: string
+          price?: number
+          price_type?: string
+          pricing_condition?: string | null
+          program?: string | null
+          rate_card_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rate_card_entries_rate_card_id_fkey"
+            columns: ["rate_card_id"]
+            isOneToOne: false
+            referencedRelation: "rate_cards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rate_cards: {
+        Row: {
+          card_type: Database["public"]["Enums"]["rate_card_type"]
+          client_source: string
+          created_at: string
+          effective_from: string
+          effective_to: string | null
+          id: string
+          notes: string | null
+          published_at: string
+          source_file_name: string | null
+          version: number
+        }
+        Insert: {
+          card_type: Database["public"]["Enums"]["rate_card_type"]
+          client_source?: string
+          created_at?: string
+          effective_from: string
+          effective_to?: string | null
+          id?: string
+          notes?: string | null
+          published_at?: string
+          source_file_name?: string | null
+          version: number
+        }
+        Update: {
+          card_type?: Database["public"]["Enums"]["rate_card_type"]
+          client_source?: string
+          created_at?: string
+          effective_from?: string
+          effective_to?: string | null
+          id?: string
+          notes?: string | null
+          published_at?: string
+          source_file_name?: string | null
+          version?: number
+        }
+        Relationships: []
+      }
+      sale_fees: {
+        Row: {
+          calculated_at: string
+          category_name: string | null
+          check_in_fee: number
+          check_in_rate_card_id: string
+          created_at: string
+          facility: string | null
+          fee_rule_set_version: number
+          id: string
+          marketing_fee: number
+          merchant_fee: number
+          net_dollars: number
+          order_closed_date: string | null
+          overbox_fee: number
+          packaging_fee: number
+          pps_fee: number
+          pps_rate_card_id: string
+          program_name: string | null
+          refund_fee: number
+          refurb_fee: number
+          refurb_fee_rate_card_id: string
+          refurb_pct_rate_card_id: string
+          revshare_fee: number
+          shipping_fee: number
+          tag_clientsource: string | null
+          third_party_mp_fee: number
+          total_fees: number
+          trgid: string
+          wm_week: number | null
+        }
+        Insert: {
+          calculated_at?: string
+          category_name?: string | null
+          check_in_fee?: number
+          check_in_rate_card_id: string
+          created_at?: string
+          facility?: string | null
+          fee_rule_set_version: number
+          id?: string
+          marketing_fee?: number
+          merchant_fee?: number
+          net_dollars?: number
+          order_closed_date?: string | null
+          overbox_fee?: number
+          packaging_fee?: number
+          pps_fee?: number
+          pps_rate_card_id: string
+          program_name?: string | null
+          refund_fee?: number
+          refurb_fee?: number
+          refurb_fee_rate_card_id: string
+          refurb_pct_rate_card_id: string
+          revshare_fee?: number
+          shipping_fee?: number
+          tag_clientsource?: string | null
+          third_party_mp_fee?: number
+          total_fees?: number
+          trgid: string
+          wm_week?: number | null
+        }
+        Update: {
+          calculated_at?: string
+          category_name?: string | null
+          check_in_fee?: number
+          check_in_rate_card_id?: string
+          created_at?: string
+          facility?: string | null
+          fee_rule_set_version?: number
+          id?: string
+          marketing_fee?: number
+          merchant_fee?: number
+          net_dollars?: number
+          order_closed_date?: string | null
+          overbox_fee?: number
+          packaging_fee?: number
+          pps_fee?: number
+          pps_rate_card_id?: string
+          program_name?: string | null
+          refund_fee?: number
+          refurb_fee?: number
+          refurb_fee_rate_card_id?: string
+          refurb_pct_rate_card_id?: string
+          revshare_fee?: number
+          shipping_fee?: number
+          tag_clientsource?: string | null
+          third_party_mp_fee?: number
+          total_fees?: number
+          trgid?: string
+          wm_week?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sale_fees_trgid_fkey"
+            columns: ["trgid"]
+            isOneToOne: false
+            referencedRelation: "sales_metrics"
+            referencedColumns: ["trgid"]
+          },
+        ]
+      }
       sales_metrics: {
         Row: {
           b2c_auction: string | null
@@ -379,14 +916,99 @@ export type Database = {
           },
         ]
       }
+      upload_row_issues: {
+        Row: {
+          column_name: string | null
+          created_at: string
+          file_upload_id: string
+          id: string
+          line_number: number
+          raw_value: string
+          reason: string
+          severity: string
+          trgid: string | null
+        }
+        Insert: {
+          column_name?: string | null
+          created_at?: string
+          file_upload_id: string
+          id?: string
+          line_number: number
+          raw_value?: string
+          reason: string
+          severity: string
+          trgid?: string | null
+        }
+        Update: {
+          column_name?: string | null
+          created_at?: string
+          file_upload_id?: string
+          id?: string
+          line_number?: number
+          raw_value?: string
+          reason?: string
+          severity?: string
+          trgid?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "upload_row_issues_file_upload_id_fkey"
+            columns: ["file_upload_id"]
+            isOneToOne: false
+            referencedRelation: "file_uploads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      claim_ingest_job: {
+        Args: { p_stale_after?: unknown; p_upload_id: string }
+        Returns: Database["public"]["Tables"]["file_uploads"]["Row"][]
+      }
+      compare_inventory_snapshots: {
+        Args: {
+          p_client_sources?: string[]
+          p_facilities?: string[]
+          p_from_date: string
+          p_program_names?: string[]
+          p_to_date: string
+        }
+        Returns: {
+          change: string
+          units: number
+        }[]
+      }
+      count_existing_trgids: {
+        Args: { p_snapshot_date?: string; p_trgids: string[] }
+        Returns: {
+          fees_existing: number
+          sales_existing: number
+          shipments_existing: number
+          snapshot_existing: number
+          units_existing: number
+        }[]
+      }
+      delete_file_upload: {
+        Args: { p_upload_id: string }
+        Returns: {
+          fee_metrics_deleted: number
+          file_uploads_deleted: number
+          inventory_snapshots_deleted: number
+          lifecycle_events_deleted: number
+          outbound_shipments_deleted: number
+          sale_fees_deleted: number
+          sales_metrics_deleted: number
+          units_canonical_deleted: number
+        }[]
+      }
       get_filter_options: { Args: never; Returns: Json }
       get_inbound_daily_chart: {
         Args: {
+          p_client_source?: string
           p_file_ids: string[]
           p_wm_days?: number[]
           p_wm_weeks?: number[]
@@ -399,6 +1021,7 @@ export type Database = {
       }
       get_inbound_metrics: {
         Args: {
+          p_client_source?: string
           p_file_ids: string[]
           p_wm_days?: number[]
           p_wm_weeks?: number[]
@@ -414,8 +1037,108 @@ export type Database = {
           sold_same_week_sales: number
         }[]
       }
+      get_inventory_snapshot_breakdown: {
+        Args: {
+          p_client_sources?: string[]
+          p_facilities?: string[]
+          p_dimension: string
+          p_limit?: number
+          p_program_names?: string[]
+          p_snapshot_date: string
+        }
+        Returns: {
+          days_on_hand_total: number
+          label: string
+          retail: number
+          units: number
+          units_with_age: number
+        }[]
+      }
+      get_inventory_snapshot_changes: {
+        Args: {
+          p_change: string
+          p_client_sources?: string[]
+          p_facilities?: string[]
+          p_from_date: string
+          p_limit?: number
+          p_program_names?: string[]
+          p_to_date: string
+        }
+        Returns: {
+          change: string
+          days_on_hand: number
+          from_facility: string
+          from_location: string
+          from_stage: string
+          program_name: string
+          to_facility: string
+          to_location: string
+          to_stage: string
+          trgid: string
+        }[]
+      }
+      get_inventory_snapshot_dates: {
+        Args: {
+          p_client_sources?: string[]
+          p_facilities?: string[]
+          p_program_names?: string[]
+        }
+        Returns: {
+          snapshot_date: string
+          units: number
+        }[]
+      }
+      get_inventory_weekly_trend: {
+        Args: {
+          p_client_sources?: string[]
+          p_facilities?: string[]
+          p_program_names?: string[]
+          p_since?: string
+        }
+        Returns: {
+          snapshot_date: string
+          stage: string
+          units: number
+          week_start: string
+          wm_week: number
+        }[]
+      }
       get_monthly_chart_data: { Args: { p_file_ids?: string[] }; Returns: Json }
       get_monthly_kpis: { Args: { p_file_ids?: string[] }; Returns: Json }
+      get_sale_fee_totals: {
+        Args: {
+          p_client_source?: string
+          p_facilities?: string[]
+          p_program_names?: string[]
+          p_trgids?: string[]
+          p_wm_weeks?: number[]
+        }
+        Returns: {
+          check_in_fees: number
+          last_calculated_at: string
+          marketing_fees: number
+          merchant_fees: number
+          net_dollars: number
+          overbox_fees: number
+          packaging_fees: number
+          pps_fees: number
+          refund_fees: number
+          refurb_fees: number
+          revshare_fees: number
+          shipping_fees: number
+          third_party_mp_fees: number
+          total_fees: number
+          units: number
+        }[]
+      }
+      get_upload_batch_progress: {
+        Args: { p_upload_id: string }
+        Returns: {
+          done_batches: number
+          failed_batches: number
+          last_checkpoint_at: string
+        }[]
+      }
       get_wm_day_of_week: { Args: { p_date: string }; Returns: number }
       get_wm_week_date_range: {
         Args: { p_wm_week: number; p_year?: number }
@@ -425,6 +1148,62 @@ export type Database = {
         }[]
       }
       get_wm_week_number: { Args: { p_date: string }; Returns: number }
+      inventory_aging_bucket: {
+        Args: { p_days_on_hand: number }
+        Returns: string
+      }
+      inventory_snapshot_diff: {
+        Args: {
+          p_client_sources?: string[]
+          p_facilities?: string[]
+          p_from_date: string
+          p_program_names?: string[]
+          p_to_date: string
+        }
+        Returns: {
+          change: string
+          days_on_hand: number
+          from_facility: string
+          from_location: string
+          from_stage: string
+          program_name: string
+          to_facility: string
+          to_location: string
+          to_stage: string
+          trgid: string
+        }[]
+      }
+      operations_date: { Args: { p_at: string }; Returns: string }
+      operations_time_zone: { Args: never; Returns: string }
+      publish_fee_rule_set: {
+        Args: { p_defaults: Json; p_notes?: string; p_rules: Json }
+        Returns: string
+      }
+      publish_rate_card: {
+        Args: {
+          p_card_type: Database["public"]["Enums"]["rate_card_type"]
+          p_client_source?: string
+          p_effective_from: string
+          p_entries: Json
+          p_notes?: string
+          p_source_file_name?: string
+        }
+        Returns: string
+      }
+      replace_file_upload: {
+        Args: { p_new_upload_id: string }
+        Returns: {
+          fee_metrics_deleted: number
+          file_uploads_deleted: number
+          inventory_snapshots_deleted: number
+          lifecycle_events_deleted: number
+          outbound_shipments_deleted: number
+          sale_fees_deleted: number
+          sales_metrics_deleted: number
+          units_canonical_deleted: number
+        }[]
+      }
+      wm_fiscal_year_start: { Args: { p_year: number }; Returns: string }
     }
     Enums: {
       file_type:
@@ -437,6 +1216,7 @@ export type Database = {
         | "Monthly"
         | "SLA"
       lifecycle_stage: "Received" | "CheckedIn" | "Tested" | "Listed" | "Sold"
+      rate_card_type: "CheckIn" | "PPS" | "RefurbFee" | "RefurbPct"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -575,6 +1355,7 @@ export const Constants = {
         "SLA",
       ],
       lifecycle_stage: ["Received", "CheckedIn", "Tested", "Listed", "Sold"],
+      rate_card_type: ["CheckIn", "PPS", "RefurbFee", "RefurbPct"],
     },
   },
 } as const
@@ -0,0 +1,133 @@
+// Client registry
+// Every dashboard is scoped to the client picked in the header switcher. Each client carries its
+// own marketplace mapping and sales channel rules (stored in the clients table); clients without
+// their own rules use the bundled ones, which are the original Walmart (WMUS) definitions.
+
+import { FeeRuleOperator, matchesCondition } from '@/lib/feeRules';
+
+export const DEFAULT_CLIENT = 'WMUS';
+
+// Switcher value that shows every client at once
+export const ALL_CLIENTS = 'ALL';
+
+export type ClientRuleField = 'marketplace' | 'orderType' | 'sortingIndex' | 'ebayAuctionTag' | 'b2cAuction';
+
+// Comparisons are case-insensitive, same as the fee eligibility rules, unless matchCase is set
+export interface ClientRuleCondition {
+  field: ClientRuleField;
+  operator: FeeRuleOperator;
+  value: string;
+  matchCase?: boolean;
+}
+
+// First matching rule (all conditions) maps the raw marketplace to `mappedTo`
+export interface MarketplaceMappingRule {
+  mappedTo: string;
+  conditions: ClientRuleCondition[];
+}
+
+// First matching rule assigns the sales channel; unmatched sales fall into defaultChannel
+export interface ChannelRule {
+  channel: string;
+  conditions: ClientRuleCondition[];
+}
+
+export interface ClientConfig {
+  code: string;
+  name: string;
+  marketplaceRules: MarketplaceMappingRule[];
+  channelRules: ChannelRule[];
+  defaultChannel: string;
+}
+
+export type ClientRuleInput = Record<ClientRuleField, string | null | undefined>;
+
+// ============================================================================
+// BUNDLED RULES - the original hard-coded Walmart mapping and channel logic
+// ============================================================================
+
+const when = (field: ClientRuleField, operator: FeeRuleOperator, value = '', matchCase = false): ClientRuleCondition => ({
+  field,
+  operator,
+  value,
+  ...(matchCase && { matchCase }),
+});
+
+export const BUNDLED_MARKETPLACE_RULES: MarketplaceMappingRule[] = [
+  { mappedTo: 'Manual Sales', conditions: [when('marketplace', 'isBlank')] },
+  { mappedTo: 'Manual Sales', conditions: [when('marketplace', 'equals', 'unknown')] },
+  { mappedTo: 'DirectLiquidation', conditions: [when('marketplace', 'contains', 'dl')] },
+  { mappedTo: 'WhatNot', conditions: [when('marketplace', 'contains', 'whatnot')] },
+  { mappedTo: 'WhatNot', conditions: [when('marketplace', 'contains', 'flashfindz')] },
+  { mappedTo: 'VIPOutlet', conditions: [when('marketplace', 'contains', 'shopify')] },
+  { mappedTo: 'Local Pickup', conditions: [when('marketplace', 'contains', 'manual')] },
+  { mappedTo: 'eBay', conditions: [when('marketplace', 'contains', 'daily deals')] },
+  { mappedTo: 'eBay Auction', conditions: [when('ebayAuctionTag', 'equals', 'true')] },
+  { mappedTo: 'eBay Auction', conditions: [when('b2cAuction', 'equals', 'TRUE', true), when('marketplace', 'equals', 'eBay', true)] },
+];
+
+export const BUNDLED_CHANNEL_RULES: ChannelRule[] = [
+  { channel: 'B2C Restock', conditions: [when('marketplace', 'contains', 'walmart in store')] },
+  { channel: 'B2C Restock', conditions: [when('marketplace', 'contains', 'walmart marketplace')] },
+  { channel: 'B2C Restock', conditions: [when('marketplace', 'contains', 'walmart dsv')] },
+  { channel: 'B2C Resale', conditions: [when('orderType', 'equals', 'B2CMarketplace', true)] },
+  { channel: 'B2B Finished Goods', conditions: [when('sortingIndex', 'isBlank')] },
+];
+
+export const BUNDLED_DEFAULT_CHANNEL = 'B2B Pallet';
+
+const bundledConfig = (code: string, name = code): ClientConfig => ({
+  code,
+  name,
+  marketplaceRules: BUNDLED_MARKETPLACE_RULES,
+  channelRules: BUNDLED_CHANNEL_RULES,
+  defaultChannel: BUNDLED_DEFAULT_CHANNEL,
+});
+
+// ============================================================================
+// REGISTRY - client configs loaded from Supabase plus the switcher selection
+// ============================================================================
+
+let clientConfigs: ClientConfig[] = [bundledConfig(DEFAULT_CLIENT, 'Walmart US')];
+let activeClient: string = DEFAULT_CLIENT;
+
+export const setClientConfigs = (configs: ClientConfig[]) => {
+  clientConfigs = configs.length > 0 ? configs : [bundledConfig(DEFAULT_CLIENT, 'Walmart US')];
+};
+
+export const getClientConfigs = (): ClientConfig[] => clientConfigs;
+
+export const setActiveClient = (code: string) => {
+  activeClient = code;
+};
+
+export const getActiveClient = (): string => activeClient;
+
+// Config for a record's client (or the switcher's). Records without a client, and "All clients",
+// use the default client - never whatever the switcher happens to show.
+export const getClientConfig = (code: string | null | undefined): ClientConfig => {
+  const resolved = code && code !== ALL_CLIENTS ? code : DEFAULT_CLIENT;
+  return clientConfigs.find(c => c.code === resolved) ?? bundledConfig(resolved);
+};
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+const matchesAll = (input: ClientRuleInput, conditions: ClientRuleCondition[]): boolean =>
+  conditions.length > 0 && conditions.every(c => matchesCondition(input, c));
+
+// Mapped marketplace name; unmatched marketplaces keep their raw value
+export const applyMarketplaceRules = (config: ClientConfig, input: ClientRuleInput): string => {
+  const rule = config.marketplaceRules.find(r => matchesAll(input, r.conditions));
+  return rule ? rule.mappedTo : input.marketplace || '';
+};
+
+export const applyChannelRules = (config: ClientConfig, input: ClientRuleInput): string => {
+  const rule = config.channelRules.find(r => matchesAll(input, r.conditions));
+  return rule ? rule.channel : config.defaultChannel;
+};
+
+// Every channel a client's rules can produce, in rule order
+export const getChannelNames = (config: ClientConfig): string[] =>
+  [...new Set([...config.channelRules.map(r => r.channel), config.defaultChannel])];
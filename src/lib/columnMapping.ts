@@ -0,0 +1,195 @@
+// Column mapping for upload files
+// Every ParsedUnit field read from a column is listed here with the header names it is known by.
+// A file's headers are matched against these names (exact, then normalized, then partial), the user
+// confirms or corrects the result in the upload wizard, and the mapping is saved as a profile keyed by
+// the header signature so later files with the same columns map automatically.
+
+import type { ParsedUnit } from '@/lib/csvParser';
+
+export type MappedUnitField = keyof ParsedUnit;
+
+// Column header per field; null = not mapped (field comes through empty)
+export type ColumnMapping = Partial<Record<MappedUnitField, string | null>>;
+
+export type MatchConfidence = 'exact' | 'normalized' | 'partial' | 'profile' | 'manual' | 'none';
+
+export interface UnitColumnField {
+  field: MappedUnitField;
+  label: string;
+  aliases: string[]; // header names, most preferred first
+  requiredFor?: string[]; // file types that cannot be used without it; [] = every file type
+  group: 'Identity' | 'Lifecycle' | 'Sale' | 'Calculated fees' | 'Invoiced fees' | 'Inventory' | 'Shipment' | 'Tags';
+}
+
+export interface DetectedColumn {
+  field: MappedUnitField;
+  header: string | null;
+  confidence: MatchConfidence;
+}
+
+// Column profile saved from the wizard
+export interface ColumnProfile {
+  id: string;
+  name: string;
+  headerSignature: string;
+  headers: string[];
+  mapping: ColumnMapping;
+  updatedAt: string;
+}
+
+// What the upload wizard is asked to confirm, and what it answers
+export interface ColumnMappingRequest {
+  fileName: string;
+  fileType: string;
+  headers: string[];
+  headerSignature: string;
+  detected: DetectedColumn[];
+}
+
+export interface ColumnMappingResult {
+  mapping: ColumnMapping;
+  profileName: string | null; // null = use for this file only
+}
+
+const invoiced = (name: string): string[] => [`Invoiced_${name}`, `Invoiced${name}`, `Invoiced ${name.replace(/([a-z])([A-Z])/g, '$1 $2')}`];
+
+export const UNIT_COLUMN_FIELDS: UnitColumnField[] = [
+  { field: 'trgid', label: 'TRGID', aliases: ['TRGID', 'trgid', 'TrgId', 'Trgid', 'TRG ID', 'TRG_ID'], requiredFor: [], group: 'Identity' },
+  { field: 'programName', label: 'Program', aliases: ['ProgramName'], group: 'Identity' },
+  { field: 'masterProgramName', label: 'Master program', aliases: ['Master Program Name'], group: 'Identity' },
+  { field: 'upc', label: 'UPC', aliases: ['UPC'], group: 'Identity' },
+  { field: 'categoryName', label: 'Category', aliases: ['CategoryName'], group: 'Identity' },
+  { field: 'title', label: 'Title', aliases: ['Title'], group: 'Identity' },
+  { field: 'productStatus', label: 'Product status', aliases: ['ProductStatus'], group: 'Identity' },
+  { field: 'upcRetail', label: 'UPC retail', aliases: ['UPCRetail'], group: 'Identity' },
+  { field: 'mrLmrUpcAverageCategoryRetail', label: 'Average category retail', aliases: ['MR_LMR_UPC_AverageCategoryRetail'], group: 'Identity' },
+  { field: 'receivedOn', label: 'Received on', aliases: ['ReceivedOn'], requiredFor: ['Inbound'], group: 'Lifecycle' },
+  { field: 'checkedInOn', label: 'Checked in on', aliases: ['CheckedInOn'], group: 'Lifecycle' },
+  { field: 'testedOn', label: 'Tested on', aliases: ['TestedOn'], group: 'Lifecycle' },
+  { field: 'firstListedDate', label: 'First listed on', aliases: ['FirstListedOnMarketplaceOn'], group: 'Lifecycle' },
+  { field: 'orderClosedDate', label: 'Order closed', aliases: ['OrderClosedDate'], requiredFor: ['Sales', 'Monthly'], group: 'Sale' },
+  { field: 'salePrice', label: 'Sale price', aliases: ['Sale Price (Discount applied)'], requiredFor: ['Sales', 'Monthly'], group: 'Sale' },
+  { field: 'refundAmount', label: 'Refund amount', aliases: ['RefundedSalePriceCalculated'], group: 'Sale' },
+  { field: 'marketplaceProfileSoldOn', label: 'Marketplace sold on', aliases: ['Marketplace Profile Sold On'], group: 'Sale' },
+  { field: 'orderTypeSoldOn', label: 'Order type', aliases: ['Order Type Sold On', 'OrderTypeSoldOn', 'Order_Type_Sold_On'], group: 'Sale' },
+  { field: 'sortingIndex', label: 'Sorting index', aliases: ['SortingIndex', 'Sorting Index', 'sorting_index'], group: 'Sale' },
+  { field: 'b2cAuction', label: 'B2C auction', aliases: ['B2C_Auction', 'B2CAuction', 'B2C Auction'], group: 'Sale' },
+  { field: 'tagEbayAuctionSale', label: 'eBay auction sale', aliases: ['Tag_EbayAuctionSale', 'TagEbayAuctionSale', 'Tag Ebay Auction Sale'], group: 'Sale' },
+  { field: 'checkInFee', label: 'Check-in fee', aliases: ['CheckInFeeCalculated'], group: 'Calculated fees' },
+  { field: 'packagingFee', label: 'Packaging fee', aliases: ['PackagingFeeCalculated'], group: 'Calculated fees' },
+  { field: 'pickPackShipFee', label: 'Pick/pack/ship fee', aliases: ['ServicePickPackShipFeeCalculated'], group: 'Calculated fees' },
+  { field: 'refurbishingFee', label: 'Refurbishing fee', aliases: ['ServiceRefurbishingFeeCalculated'], group: 'Calculated fees' },
+  { field: 'marketplaceFee', label: '3P marketplace fee', aliases: ['ServiceThirdPartyMarketplaceFeeCalculated'], group: 'Calculated fees' },
+  { field: 'invoicedCheckInFee', label: 'Invoiced check-in', aliases: invoiced('CheckInFee'), group: 'Invoiced fees' },
+  { field: 'invoicedRefurbFee', label: 'Invoiced refurb', aliases: invoiced('RefurbFee'), group: 'Invoiced fees' },
+  { field: 'invoicedOverboxFee', label: 'Invoiced overbox', aliases: invoiced('OverboxFee'), group: 'Invoiced fees' },
+  { field: 'invoicedPackagingFee', label: 'Invoiced packaging', aliases: invoiced('PackagingFee'), group: 'Invoiced fees' },
+  { field: 'invoicedPpsFee', label: 'Invoiced PPS', aliases: ['Invoiced_PPSFee', 'InvoicedPPSFee', 'Invoiced PPS Fee'], group: 'Invoiced fees' },
+  { field: 'invoicedShippingFee', label: 'Invoiced shipping', aliases: invoiced('ShippingFee'), group: 'Invoiced fees' },
+  { field: 'invoicedMerchantFee', label: 'Invoiced merchant', aliases: invoiced('MerchantFee'), group: 'Invoiced fees' },
+  { field: 'invoiced3pmpFee', label: 'Invoiced 3PMP', aliases: ['Invoiced_3PMPFee', 'Invoiced3PMPFee', 'Invoiced 3PMP Fee'], group: 'Invoiced fees' },
+  { field: 'invoicedRevshareFee', label: 'Invoiced revshare', aliases: invoiced('RevshareFee'), group: 'Invoiced fees' },
+  { field: 'invoicedMarketingFee', label: 'Invoiced marketing', aliases: invoiced('MarketingFee'), group: 'Invoiced fees' },
+  { field: 'invoicedRefundFee', label: 'Invoiced refund', aliases: invoiced('RefundFee'), group: 'Invoiced fees' },
+  { field: 'serviceInvoiceTotal', label: 'Service invoice total', aliases: ['ServiceInvoiceTotal', 'Service Invoice Total'], group: 'Invoiced fees' },
+  { field: 'vendorInvoiceTotal', label: 'Vendor invoice total', aliases: ['VendorInvoiceTotal', 'Vendor Invoice Total'], group: 'Invoiced fees' },
+  { field: 'expectedHvAsIsRefurbFee', label: 'Expected HV as-is refurb', aliases: ['Expected_HV_AS_IS_RefurbFee', 'ExpectedHVASISRefurbFee', 'Expected HV AS-IS Refurb Fee'], group: 'Invoiced fees' },
+  { field: 'inventoryStage', label: 'Inventory stage', aliases: ['InventoryStage', 'Stage', 'CurrentStage', 'WIP Stage'], group: 'Inventory' },
+  { field: 'daysOnHand', label: 'Days on hand', aliases: ['DaysOnHand', 'Days On Hand', 'DOH', 'AgeInDays'], group: 'Inventory' },
+  { field: 'shipDate', label: 'Ship date', aliases: ['ShipDate', 'ShippedOn', 'ShippedDate', 'Ship Date'], group: 'Shipment' },
+  { field: 'carrier', label: 'Carrier', aliases: ['Carrier', 'CarrierName', 'ShippingCarrier'], group: 'Shipment' },
+  { field: 'trackingNumber', label: 'Tracking number', aliases: ['TrackingNumber', 'Tracking Number', 'TrackingNo', 'Tracking #'], group: 'Shipment' },
+  { field: 'shippingCost', label: 'Shipping cost', aliases: ['ShippingCost', 'ShipCost', 'Shipping Cost', 'LabelCost'], group: 'Shipment' },
+  { field: 'facility', label: 'Facility', aliases: ['Tag_Facility'], group: 'Tags' },
+  { field: 'locationId', label: 'Location', aliases: ['LocationID'], requiredFor: ['Inventory'], group: 'Tags' },
+  { field: 'tagClientOwnership', label: 'Ownership', aliases: ['Tag_Ownership'], group: 'Tags' },
+  { field: 'tagClientSource', label: 'Client source', aliases: ['Tag_ClientSource', 'ClientSource_Tag', 'Tag_Client_Source'], group: 'Tags' },
+];
+
+// Lowercase, no spaces/underscores/dashes
+export const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[\s_-]/g, '');
+
+// Stable id for a header layout: same columns in any order give the same signature
+export function getHeaderSignature(headers: string[]): string {
+  const text = headers.map(normalizeHeader).filter(Boolean).sort().join('|');
+  // FNV-1a, 32-bit
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${headers.length}-${(hash >>> 0).toString(16).padStart(8, '0')}`;
+}
+
+export const isFieldRequired = (field: UnitColumnField, fileType: string): boolean =>
+  !!field.requiredFor && (field.requiredFor.length === 0 || field.requiredFor.includes(fileType));
+
+// Best header for every field. Partial matches (one name contains the other) are only suggestions:
+// they never feed the parser unless the user confirms them. Each header is suggested for at most one
+// field, the one whose name it overlaps most.
+export function detectColumns(headers: string[]): DetectedColumn[] {
+  const exact = new Set<string>();
+  const normalized = new Map<string, string>();
+  headers.forEach(h => {
+    exact.add(h);
+    const n = normalizeHeader(h);
+    if (n && !normalized.has(n)) normalized.set(n, h);
+  });
+
+  const detected = UNIT_COLUMN_FIELDS.map(({ field, aliases }): DetectedColumn => {
+    const exactAlias = aliases.find(alias => exact.has(alias));
+    if (exactAlias) return { field, header: exactAlias, confidence: 'exact' };
+    for (const alias of aliases) {
+      const header = normalized.get(normalizeHeader(alias));
+      if (header) return { field, header, confidence: 'normalized' };
+    }
+    return { field, header: null, confidence: 'none' };
+  });
+
+  // Partial candidates among the headers nothing claimed, best overlap first
+  const claimed = new Set(detected.map(d => d.header).filter(Boolean));
+  const candidates: { index: number; header: string; score: number }[] = [];
+  detected.forEach((d, index) => {
+    if (d.header) return;
+    for (const alias of UNIT_COLUMN_FIELDS[index].aliases.map(normalizeHeader)) {
+      for (const [n, header] of normalized) {
+        if (claimed.has(header) || n.length < 4 || alias.length < 4) continue;
+        if (n.includes(alias) || alias.includes(n)) {
+          candidates.push({ index, header, score: Math.min(n.length, alias.length) / Math.max(n.length, alias.length) });
+        }
+      }
+    }
+  });
+  candidates.sort((x, y) => y.score - x.score);
+  for (const { index, header } of candidates) {
+    if (detected[index].header || claimed.has(header)) continue;
+    detected[index] = { field: detected[index].field, header, confidence: 'partial' };
+    claimed.add(header);
+  }
+
+  return detected;
+}
+
+// Mapping the parser uses when no profile or wizard result is given (exact and normalized matches)
+export function autoColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  for (const detected of detectColumns(headers)) {
+    mapping[detected.field] = detected.confidence === 'partial' ? null : detected.header;
+  }
+  return mapping;
+}
+
+// Required fields a mapping leaves unmapped (or maps to a header the file does not have)
+export function missingRequiredFields(mapping: ColumnMapping, headers: string[], fileType: string): UnitColumnField[] {
+  const present = new Set(headers);
+  return UNIT_COLUMN_FIELDS.filter(f => isFieldRequired(f, fileType) && !(mapping[f.field] && present.has(mapping[f.field]!)));
+}
+
+// Suggested profile name: the file name without dates, copy markers and extension
+export const suggestProfileName = (fileName: string): string =>
+  fileName
+    .replace(/\.[^.]+$/, '')
+    .replace(/\d{1,4}[._-]\d{1,2}[._-]\d{1,4}/g, '')
+    .replace(/\(\d+\)/g, '')
+    .replace(/[\s_-]+$/g, '')
+    .trim() || 'Upload profile';
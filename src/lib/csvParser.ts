@@ -1,4 +1,9 @@
-import { getWMWeekNumber, getWMDayOfWeek, determineFileType, parseFileBusinessDate } from './wmWeek';
+import { getWMWeekNumber, getWMDayOfWeek, parseFileBusinessDate } from './wmWeek';
+import { CSVSource, parseCSVRecords, readCSVFile } from './csvReader';
+import { autoColumnMapping, ColumnMapping, MappedUnitField } from './columnMapping';
+import { RowIssueLog, ROW_ISSUE_REASONS } from './rowIssues';
+import { detectFileType, FileTypeDetection } from './fileTypeDetection';
+import { parseAmount, parseDateValue, parseLeadingAmount } from './valueParsing';
 
 export interface ParsedUnit {
   trgid: string;
@@ -55,36 +60,14 @@ export interface ParsedUnit {
   b2cAuction: string;
   tagEbayAuctionSale: boolean;
   orderTypeSoldOn: string;
-}
-
-function parseDate(value: string): Date | null {
-  if (!value || value.trim() === '') return null;
-  
-  // Try MM/DD/YYYY HH:MM:SS AM/PM format
-  const dateTimeMatch = value.match(/(\d{1,2})\/(\d{1,2})\/(\d{4})\s+(\d{1,2}):(\d{2}):(\d{2})\s*(AM|PM)?/i);
-  if (dateTimeMatch) {
-    const [, month, day, year, hours, minutes, seconds, ampm] = dateTimeMatch;
-    let hour = parseInt(hours, 10);
-    if (ampm?.toUpperCase() === 'PM' && hour !== 12) hour += 12;
-    if (ampm?.toUpperCase() === 'AM' && hour === 12) hour = 0;
-    return new Date(parseInt(year), parseInt(month) - 1, parseInt(day), hour, parseInt(minutes), parseInt(seconds));
-  }
-  
-  // Try MM/DD/YYYY format - use noon to avoid timezone edge cases
-  const dateMatch = value.match(/(\d{1,2})\/(\d{1,2})\/(\d{4})/);
-  if (dateMatch) {
-    const [, month, day, year] = dateMatch;
-    return new Date(parseInt(year), parseInt(month) - 1, parseInt(day), 12, 0, 0);
-  }
-  
-  return null;
-}
-
-function parseNumber(value: string): number | null {
-  if (!value || value.trim() === '') return null;
-  const cleaned = value.replace(/[,$]/g, '').trim();
-  const num = parseFloat(cleaned);
-  return isNaN(num) ? null : num;
+  // Inventory snapshot fields
+  inventoryStage: string;
+  daysOnHand: number | null;
+  // Outbound shipment fields
+  shipDate: Date | null;
+  carrier: string;
+  trackingNumber: string;
+  shippingCost: number | null;
 }
 
 function parseBoolean(value: string): boolean {
@@ -109,168 +92,113 @@ function determineCurrentStage(unit: Partial<ParsedUnit>): 'Received' | 'Checked
   return null;
 }
 
-export function parseCSV(content: string, fileName: string): { units: ParsedUnit[]; fileType: string; businessDate: Date | null } {
-  const lines = content.split('\n');
-  if (lines.length < 2) {
-    console.error('CSV Parser: File has fewer than 2 lines');
-    return { units: [], fileType: 'Unknown', businessDate: null };
-  }
-  
-  const fileType = determineFileType(fileName);
-  const businessDate = parseFileBusinessDate(fileName);
-  
-  // Parse header row
-  const headerLine = lines[0];
-  const headers: string[] = [];
-  let inQuotes = false;
-  let currentHeader = '';
-  
-  for (const char of headerLine) {
-    if (char === '"') {
-      inQuotes = !inQuotes;
-    } else if (char === ',' && !inQuotes) {
-      headers.push(currentHeader.trim());
-      currentHeader = '';
-    } else {
-      currentHeader += char;
-    }
-  }
-  headers.push(currentHeader.trim());
+// Builds the row -> ParsedUnit converter for a header row; null when the file has no TRGID column.
+// Without a mapping (saved profile or wizard result) columns are matched by their known names.
+// Rejected rows and unreadable values are reported to the issue log, when one is given.
+export function createUnitRowParser(
+  rawHeaders: string[],
+  mapping?: ColumnMapping,
+  issues?: RowIssueLog
+): ((rawValues: string[], line: number) => ParsedUnit | null) | null {
+  const headers = rawHeaders.map(h => h.trim());
   
   // Log headers for debugging
   console.log('CSV Parser: Found', headers.length, 'columns');
   console.log('CSV Parser: First 10 headers:', headers.slice(0, 10));
   
-  // Create header index map (case-insensitive and with space/underscore normalization)
-  const headerIndex: Record<string, number> = {};
-  const normalizedHeaderIndex: Record<string, number> = {};
-  
-  headers.forEach((h, i) => {
-    headerIndex[h] = i;
-    // Also create normalized versions (lowercase, no spaces/underscores)
-    const normalized = h.toLowerCase().replace(/[\s_-]/g, '');
-    normalizedHeaderIndex[normalized] = i;
-  });
-  
-  // Helper to find column with flexible matching
-  const findColumnIndex = (...possibleNames: string[]): number => {
-    for (const name of possibleNames) {
-      // Try exact match first
-      if (headerIndex[name] !== undefined) return headerIndex[name];
-      // Try normalized match
-      const normalized = name.toLowerCase().replace(/[\s_-]/g, '');
-      if (normalizedHeaderIndex[normalized] !== undefined) return normalizedHeaderIndex[normalized];
-    }
-    return -1;
-  };
-  
-  // Find TRGID column with flexible matching
-  const trgidColIndex = findColumnIndex('TRGID', 'trgid', 'TrgId', 'Trgid', 'TRG ID', 'TRG_ID');
+  // Column index per mapped field
+  const columnMapping = mapping ?? autoColumnMapping(headers);
+  const columnIndex: Partial<Record<MappedUnitField, number>> = {};
+  for (const [field, header] of Object.entries(columnMapping) as [MappedUnitField, string | null][]) {
+    const idx = header ? headers.indexOf(header) : -1;
+    if (idx !== -1) columnIndex[field] = idx;
+  }
   
-  if (trgidColIndex === -1) {
+  const trgidColIndex = columnIndex.trgid;
+  if (trgidColIndex === undefined) {
     console.error('CSV Parser: TRGID column not found. Available headers:', headers.join(', '));
-    return { units: [], fileType, businessDate };
+    return null;
   }
   
   console.log('CSV Parser: TRGID column found at index', trgidColIndex);
   
-  const units: ParsedUnit[] = [];
-  
-  // Parse data rows
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
+  return (rawValues: string[], line: number): ParsedUnit | null => {
+    const values = rawValues.map(v => v.trim());
     
-    // Parse CSV line respecting quotes
-    const values: string[] = [];
-    let inQuote = false;
-    let currentValue = '';
+    const getValue = (field: MappedUnitField): string => {
+      const idx = columnIndex[field];
+      return idx !== undefined && idx < values.length ? values[idx] : '';
+    };
     
-    for (const char of line) {
-      if (char === '"') {
-        inQuote = !inQuote;
-      } else if (char === ',' && !inQuote) {
-        values.push(currentValue.trim());
-        currentValue = '';
-      } else {
-        currentValue += char;
+    const trgid = values[trgidColIndex];
+    if (!trgid) {
+      // A row of empty cells is padding, not a rejected unit
+      if (issues && values.some(Boolean)) {
+        issues.add({
+          line,
+          trgid: null,
+          column: headers[trgidColIndex],
+          value: '',
+          reason: ROW_ISSUE_REASONS.missingTrgid,
+          severity: 'rejected',
+        });
       }
+      return null;
     }
-    values.push(currentValue.trim());
     
-    // More flexible getValue that tries multiple column name variants
-    const getValue = (colName: string): string => {
-      const idx = headerIndex[colName];
-      if (idx !== undefined && idx < values.length) return values[idx];
-      
-      // Try normalized lookup
-      const normalized = colName.toLowerCase().replace(/[\s_-]/g, '');
-      const normalizedIdx = normalizedHeaderIndex[normalized];
-      if (normalizedIdx !== undefined && normalizedIdx < values.length) return values[normalizedIdx];
-      
-      return '';
+    const warn = (field: MappedUnitField, value: string, reason: string) => {
+      issues?.add({ line, trgid, column: headers[columnIndex[field]!], value, reason, severity: 'warning' });
     };
     
-    const trgid = values[trgidColIndex]?.trim();
-    if (!trgid) continue;
+    // Values that are present but unreadable are saved as empty, and logged
+    const readNumber = (field: MappedUnitField): number | null => {
+      const raw = getValue(field);
+      if (!raw) return null;
+      const amount = parseAmount(raw);
+      if (amount !== null) return amount;
+      const leading = parseLeadingAmount(raw);
+      warn(field, raw, leading === null ? ROW_ISSUE_REASONS.invalidNumber : ROW_ISSUE_REASONS.partialNumber);
+      return leading;
+    };
+    
+    const readDate = (field: MappedUnitField): Date | null => {
+      const raw = getValue(field);
+      const date = parseDateValue(raw);
+      if (raw && date === null) warn(field, raw, ROW_ISSUE_REASONS.invalidDate);
+      return date;
+    };
     
-    const upcRetail = parseNumber(getValue('UPCRetail'));
-    const categoryAvg = parseNumber(getValue('MR_LMR_UPC_AverageCategoryRetail'));
+    const upcRetail = readNumber('upcRetail');
+    const categoryAvg = readNumber('mrLmrUpcAverageCategoryRetail');
     const effectiveRetail = calculateEffectiveRetail(upcRetail, categoryAvg);
     
-    const salePrice = parseNumber(getValue('Sale Price (Discount applied)'));
-    const refundAmount = parseNumber(getValue('RefundedSalePriceCalculated'));
+    const salePrice = readNumber('salePrice');
+    const refundAmount = readNumber('refundAmount');
     
     // Calculated fees (from Outbound files)
-    const checkInFee = parseNumber(getValue('CheckInFeeCalculated'));
-    const packagingFee = parseNumber(getValue('PackagingFeeCalculated'));
-    const pickPackShipFee = parseNumber(getValue('ServicePickPackShipFeeCalculated'));
-    const refurbishingFee = parseNumber(getValue('ServiceRefurbishingFeeCalculated'));
-    const marketplaceFee = parseNumber(getValue('ServiceThirdPartyMarketplaceFeeCalculated'));
+    const checkInFee = readNumber('checkInFee');
+    const packagingFee = readNumber('packagingFee');
+    const pickPackShipFee = readNumber('pickPackShipFee');
+    const refurbishingFee = readNumber('refurbishingFee');
+    const marketplaceFee = readNumber('marketplaceFee');
     
-    // Invoiced fees (from Sales files) - try multiple column name variants
-    const invoicedCheckInFee = parseNumber(getValue('Invoiced_CheckInFee')) ?? parseNumber(getValue('InvoicedCheckInFee')) ?? parseNumber(getValue('Invoiced Check In Fee'));
-    const invoicedRefurbFee = parseNumber(getValue('Invoiced_RefurbFee')) ?? parseNumber(getValue('InvoicedRefurbFee')) ?? parseNumber(getValue('Invoiced Refurb Fee'));
-    const invoicedOverboxFee = parseNumber(getValue('Invoiced_OverboxFee')) ?? parseNumber(getValue('InvoicedOverboxFee')) ?? parseNumber(getValue('Invoiced Overbox Fee'));
-    const invoicedPackagingFee = parseNumber(getValue('Invoiced_PackagingFee')) ?? parseNumber(getValue('InvoicedPackagingFee')) ?? parseNumber(getValue('Invoiced Packaging Fee'));
-    const invoicedPpsFee = parseNumber(getValue('Invoiced_PPSFee')) ?? parseNumber(getValue('InvoicedPPSFee')) ?? parseNumber(getValue('Invoiced PPS Fee'));
-    const invoicedShippingFee = parseNumber(getValue('Invoiced_ShippingFee')) ?? parseNumber(getValue('InvoicedShippingFee')) ?? parseNumber(getValue('Invoiced Shipping Fee'));
-    const invoicedMerchantFee = parseNumber(getValue('Invoiced_MerchantFee')) ?? parseNumber(getValue('InvoicedMerchantFee')) ?? parseNumber(getValue('Invoiced Merchant Fee'));
-    const invoiced3pmpFee = parseNumber(getValue('Invoiced_3PMPFee')) ?? parseNumber(getValue('Invoiced3PMPFee')) ?? parseNumber(getValue('Invoiced 3PMP Fee'));
-    const invoicedRevshareFee = parseNumber(getValue('Invoiced_RevshareFee')) ?? parseNumber(getValue('InvoicedRevshareFee')) ?? parseNumber(getValue('Invoiced Revshare Fee'));
-    const invoicedMarketingFee = parseNumber(getValue('Invoiced_MarketingFee')) ?? parseNumber(getValue('InvoicedMarketingFee')) ?? parseNumber(getValue('Invoiced Marketing Fee'));
-    const invoicedRefundFee = parseNumber(getValue('Invoiced_RefundFee')) ?? parseNumber(getValue('InvoicedRefundFee')) ?? parseNumber(getValue('Invoiced Refund Fee'));
-    
-    // Invoice totals
-    const serviceInvoiceTotal = parseNumber(getValue('ServiceInvoiceTotal')) ?? parseNumber(getValue('Service Invoice Total'));
-    const vendorInvoiceTotal = parseNumber(getValue('VendorInvoiceTotal')) ?? parseNumber(getValue('Vendor Invoice Total'));
-    
-    // Expected HV AS-IS refurb fee
-    const expectedHvAsIsRefurbFee = parseNumber(getValue('Expected_HV_AS_IS_RefurbFee')) ?? parseNumber(getValue('ExpectedHVASISRefurbFee')) ?? parseNumber(getValue('Expected HV AS-IS Refurb Fee'));
-    
-    // Sorting and auction fields
-    const sortingIndex = getValue('SortingIndex') || getValue('Sorting Index') || getValue('sorting_index') || '';
-    const b2cAuction = getValue('B2C_Auction') || getValue('B2CAuction') || getValue('B2C Auction') || '';
-    const tagEbayAuctionSale = parseBoolean(getValue('Tag_EbayAuctionSale') || getValue('TagEbayAuctionSale') || getValue('Tag Ebay Auction Sale'));
-    const orderTypeSoldOn = getValue('Order Type Sold On') || getValue('OrderTypeSoldOn') || getValue('Order_Type_Sold_On') || '';
-    
-    const orderClosedDate = parseDate(getValue('OrderClosedDate'));
+    const orderClosedDate = readDate('orderClosedDate');
     
     const unit: ParsedUnit = {
       trgid,
-      programName: getValue('ProgramName'),
-      masterProgramName: getValue('Master Program Name'),
-      upc: getValue('UPC').replace(/^'/, ''),
-      categoryName: getValue('CategoryName'),
-      title: getValue('Title'),
-      productStatus: getValue('ProductStatus'),
+      programName: getValue('programName'),
+      masterProgramName: getValue('masterProgramName'),
+      upc: getValue('upc').replace(/^'/, ''),
+      categoryName: getValue('categoryName'),
+      title: getValue('title'),
+      productStatus: getValue('productStatus'),
       upcRetail,
       mrLmrUpcAverageCategoryRetail: categoryAvg,
       effectiveRetail,
-      checkedInOn: parseDate(getValue('CheckedInOn')),
-      testedOn: parseDate(getValue('TestedOn')),
-      receivedOn: parseDate(getValue('ReceivedOn')),
-      firstListedDate: parseDate(getValue('FirstListedOnMarketplaceOn')),
+      checkedInOn: readDate('checkedInOn'),
+      testedOn: readDate('testedOn'),
+      receivedOn: readDate('receivedOn'),
+      firstListedDate: readDate('firstListedDate'),
       orderClosedDate,
       salePrice,
       discountAmount: null,
@@ -285,39 +213,133 @@ export function parseCSV(content: string, fileName: string): { units: ParsedUnit
       totalFees: [checkInFee, packagingFee, pickPackShipFee, refurbishingFee, marketplaceFee]
         .filter(f => f !== null)
         .reduce((sum, f) => sum + (f || 0), 0) || null,
-      marketplaceProfileSoldOn: getValue('Marketplace Profile Sold On'),
-      facility: getValue('Tag_Facility'),
-      locationId: getValue('LocationID'),
-      tagClientOwnership: getValue('Tag_Ownership'),
-      tagClientSource: getValue('Tag_ClientSource') || getValue('ClientSource_Tag') || getValue('Tag_Client_Source'),
+      marketplaceProfileSoldOn: getValue('marketplaceProfileSoldOn'),
+      facility: getValue('facility'),
+      locationId: getValue('locationId'),
+      tagClientOwnership: getValue('tagClientOwnership'),
+      tagClientSource: getValue('tagClientSource'),
       wmWeek: orderClosedDate ? getWMWeekNumber(orderClosedDate) : null,
       wmDayOfWeek: orderClosedDate ? getWMDayOfWeek(orderClosedDate) : null,
       currentStage: null,
-      // Invoiced fees
-      invoicedCheckInFee,
-      invoicedRefurbFee,
-      invoicedOverboxFee,
-      invoicedPackagingFee,
-      invoicedPpsFee,
-      invoicedShippingFee,
-      invoicedMerchantFee,
-      invoiced3pmpFee,
-      invoicedRevshareFee,
-      invoicedMarketingFee,
-      invoicedRefundFee,
-      serviceInvoiceTotal,
-      vendorInvoiceTotal,
-      expectedHvAsIsRefurbFee,
-      // Additional fields
-      sortingIndex,
-      b2cAuction,
-      tagEbayAuctionSale,
-      orderTypeSoldOn,
+      // Invoiced fees (from Sales files)
+      invoicedCheckInFee: readNumber('invoicedCheckInFee'),
+      invoicedRefurbFee: readNumber('invoicedRefurbFee'),
+      invoicedOverboxFee: readNumber('invoicedOverboxFee'),
+      invoicedPackagingFee: readNumber('invoicedPackagingFee'),
+      invoicedPpsFee: readNumber('invoicedPpsFee'),
+      invoicedShippingFee: readNumber('invoicedShippingFee'),
+      invoicedMerchantFee: readNumber('invoicedMerchantFee'),
+      invoiced3pmpFee: readNumber('invoiced3pmpFee'),
+      invoicedRevshareFee: readNumber('invoicedRevshareFee'),
+      invoicedMarketingFee: readNumber('invoicedMarketingFee'),
+      invoicedRefundFee: readNumber('invoicedRefundFee'),
+      // Invoice totals
+      serviceInvoiceTotal: readNumber('serviceInvoiceTotal'),
+      vendorInvoiceTotal: readNumber('vendorInvoiceTotal'),
+      expectedHvAsIsRefurbFee: readNumber('expectedHvAsIsRefurbFee'),
+      // Sorting and auction fields
+      sortingIndex: getValue('sortingIndex'),
+      b2cAuction: getValue('b2cAuction'),
+      tagEbayAuctionSale: parseBoolean(getValue('tagEbayAuctionSale')),
+      orderTypeSoldOn: getValue('orderTypeSoldOn'),
+      // Inventory snapshot fields
+      inventoryStage: getValue('inventoryStage'),
+      daysOnHand: readNumber('daysOnHand'),
+      // Outbound shipment fields
+      shipDate: readDate('shipDate'),
+      carrier: getValue('carrier'),
+      trackingNumber: getValue('trackingNumber'),
+      shippingCost: readNumber('shippingCost'),
     };
     
     unit.currentStage = determineCurrentStage(unit);
-    units.push(unit);
+    return unit;
+  };
+}
+
+// Parse CSV text already in memory (e.g. an Excel sheet converted to CSV)
+export function parseCSV(
+  content: string,
+  fileName: string,
+  onProgress?: (rowsParsed: number, totalRows: number) => void,
+  mapping?: ColumnMapping,
+  issues?: RowIssueLog
+): { units: ParsedUnit[]; fileType: string; fileTypeDetection: FileTypeDetection; businessDate: Date | null; skippedRows: number } {
+  const businessDate = parseFileBusinessDate(fileName);
+  
+  const records = parseCSVRecords(content);
+  if (records.length < 2) {
+    console.error('CSV Parser: File has fewer than 2 lines');
+    return { units: [], fileType: 'Unknown', fileTypeDetection: detectFileType([], fileName), businessDate: null, skippedRows: 0 };
   }
   
-  return { units, fileType, businessDate };
-}
\ No newline at end of file
+  const fileTypeDetection = detectFileType(records[0].fields.map(h => h.trim()), fileName);
+  const fileType = fileTypeDetection.fileType;
+  const parseRow = createUnitRowParser(records[0].fields, mapping, issues);
+  if (!parseRow) return { units: [], fileType, fileTypeDetection, businessDate, skippedRows: 0 };
+  
+  const units: ParsedUnit[] = [];
+  let skippedRows = 0;
+  for (let i = 1; i < records.length; i++) {
+    if (onProgress && i % 10000 === 0) onProgress(i, records.length);
+    const unit = parseRow(records[i].fields, records[i].line);
+    if (unit) units.push(unit);
+    else skippedRows++;
+  }
+  
+  return { units, fileType, fileTypeDetection, businessDate, skippedRows };
+}
+
+export interface ParsedCSVFile {
+  rowCount: number;
+  skippedRows: number; // rows without a TRGID
+  fileType: string; // fileTypeDetection's verdict
+  fileTypeDetection: FileTypeDetection;
+  businessDate: Date | null;
+  headers: string[];
+}
+
+// Stream a CSV file from disk; units are handed to onUnits as each chunk is parsed (reading waits
+// for it when it returns a promise), so the file itself is never held in memory as one string
+export async function parseCSVFile(
+  file: CSVSource,
+  fileName: string,
+  onUnits: (units: ParsedUnit[]) => void | Promise<void>,
+  onProgress?: (bytesRead: number, totalBytes: number) => void,
+  mapping?: ColumnMapping,
+  issues?: RowIssueLog
+): Promise<ParsedCSVFile> {
+  const businessDate = parseFileBusinessDate(fileName);
+  
+  let headers: string[] | null = null;
+  let parseRow: ReturnType<typeof createUnitRowParser> = null;
+  let rowCount = 0;
+  let skippedRows = 0;
+  
+  for await (const records of readCSVFile(file, onProgress)) {
+    let start = 0;
+    if (!headers) {
+      headers = records[0].fields.map(h => h.trim());
+      parseRow = createUnitRowParser(headers, mapping, issues);
+      start = 1;
+    }
+    if (!parseRow) break; // no TRGID column, nothing to read
+    
+    const units: ParsedUnit[] = [];
+    for (let i = start; i < records.length; i++) {
+      const unit = parseRow(records[i].fields, records[i].line);
+      if (unit) units.push(unit);
+      else skippedRows++;
+    }
+    rowCount += units.length;
+    if (units.length > 0) await onUnits(units);
+  }
+  
+  if (!headers) {
+    console.error('CSV Parser: File is empty');
+    return { rowCount: 0, skippedRows: 0, fileType: 'Unknown', fileTypeDetection: detectFileType([], fileName), businessDate: null, headers: [] };
+  }
+  
+  const fileTypeDetection = detectFileType(headers, fileName);
+  return { rowCount, skippedRows, fileType: fileTypeDetection.fileType, fileTypeDetection, businessDate, headers };
+}
@@ -0,0 +1,183 @@
+// RFC 4180 CSV reader shared by every CSV path (uploads, Excel conversions, rate card sheets)
+// Incremental: text is pushed in chunks and complete records come out, so a file can be read from
+// File.stream() without ever holding it in memory. Handles quoted fields with embedded commas and
+// newlines, "" escapes, LF / CRLF / CR line endings and a leading byte order mark.
+// Fields are returned untrimmed; blank lines are skipped.
+
+export interface CSVRecord {
+  fields: string[];
+  line: number; // 1-based physical line the record starts on
+}
+
+export interface CSVTokenizer {
+  push: (chunk: string) => CSVRecord[];
+  end: () => CSVRecord[];
+}
+
+const COMMA = 44;
+const QUOTE = 34;
+const LF = 10;
+const CR = 13;
+const BOM = 0xfeff;
+
+// Tokenizer states
+const FIELD_START = 0;
+const UNQUOTED = 1;
+const QUOTED = 2;
+const QUOTE_IN_QUOTED = 3; // saw a quote inside a quoted field: escape or closing quote
+
+export function createCSVTokenizer(): CSVTokenizer {
+  let fields: string[] = [];
+  let field = '';
+  let state = FIELD_START;
+  let line = 1;
+  let recordLine = 1;
+  let skipLF = false; // previous chunk ended on CR, a leading LF belongs to it
+  let started = false;
+  let records: CSVRecord[] = [];
+
+  const endRecord = () => {
+    fields.push(field);
+    if (!(fields.length === 1 && fields[0] === '')) {
+      records.push({ fields, line: recordLine });
+    }
+    fields = [];
+    field = '';
+  };
+
+  const take = () => {
+    const out = records;
+    records = [];
+    return out;
+  };
+
+  const push = (chunk: string): CSVRecord[] => {
+    let i = 0;
+    if (!started && chunk.length > 0) {
+      started = true;
+      if (chunk.charCodeAt(0) === BOM) i = 1;
+    }
+    if (skipLF && chunk.length > 0) {
+      skipLF = false;
+      if (chunk.charCodeAt(i) === LF) i++;
+    }
+
+    let segStart = i;
+    for (; i < chunk.length; i++) {
+      const c = chunk.charCodeAt(i);
+
+      if (state === QUOTED) {
+        if (c === QUOTE) {
+          field += chunk.slice(segStart, i);
+          segStart = i + 1;
+          state = QUOTE_IN_QUOTED;
+        } else if (c === LF) {
+          line++;
+        }
+        continue;
+      }
+
+      if (state === QUOTE_IN_QUOTED) {
+        if (c === QUOTE) {
+          // "" - keep one quote and stay inside the field
+          segStart = i;
+          state = QUOTED;
+          continue;
+        }
+        // Closing quote; anything up to the next delimiter is kept as-is
+        state = UNQUOTED;
+        segStart = i;
+      }
+
+      if (c === COMMA) {
+        fields.push(field + chunk.slice(segStart, i));
+        field = '';
+        segStart = i + 1;
+        state = FIELD_START;
+      } else if (c === LF || c === CR) {
+        field += chunk.slice(segStart, i);
+        endRecord();
+        if (c === CR) {
+          if (i + 1 < chunk.length) {
+            if (chunk.charCodeAt(i + 1) === LF) i++;
+          } else {
+            skipLF = true;
+          }
+        }
+        line++;
+        recordLine = line;
+        segStart = i + 1;
+        state = FIELD_START;
+      } else if (state === FIELD_START) {
+        if (c === QUOTE) {
+          segStart = i + 1;
+          state = QUOTED;
+        } else {
+          state = UNQUOTED;
+        }
+      }
+    }
+
+    field += chunk.slice(segStart);
+    return take();
+  };
+
+  const end = (): CSVRecord[] => {
+    if (field !== '' || fields.length > 0 || state !== FIELD_START) endRecord();
+    state = FIELD_START;
+    return take();
+  };
+
+  return { push, end };
+}
+
+// Every record of an in-memory CSV string
+export function parseCSVRecords(text: string): CSVRecord[] {
+  const tokenizer = createCSVTokenizer();
+  return [...tokenizer.push(text), ...tokenizer.end()];
+}
+
+// Fields of a single CSV line (empty line = one empty field)
+export function parseCSVLine(line: string): string[] {
+  return parseCSVRecords(line)[0]?.fields ?? [''];
+}
+
+// Anything that streams its bytes: a File, or a download the edge function reads as it arrives
+export type CSVSource = Pick<Blob, 'size' | 'stream'>;
+
+// Records of a file, read chunk by chunk from File.stream()
+export async function* readCSVFile(
+  file: CSVSource,
+  onProgress?: (bytesRead: number, totalBytes: number) => void
+): AsyncGenerator<CSVRecord[]> {
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+  const tokenizer = createCSVTokenizer();
+  let bytesRead = 0;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      bytesRead += value.byteLength;
+      const records = tokenizer.push(decoder.decode(value, { stream: true }));
+      onProgress?.(bytesRead, file.size);
+      if (records.length > 0) yield records;
+    }
+
+    const rest = [...tokenizer.push(decoder.decode()), ...tokenizer.end()];
+    if (rest.length > 0) yield rest;
+  } finally {
+    // Also runs when the consumer stops early; the rest of a download is not fetched
+    await reader.cancel().catch(() => undefined);
+    reader.releaseLock();
+  }
+}
+
+// First record of a file (the header row), reading only as far as needed
+export async function readCSVHeader(file: CSVSource): Promise<string[]> {
+  for await (const records of readCSVFile(file)) {
+    return records[0].fields.map(f => f.trim());
+  }
+  return [];
+}
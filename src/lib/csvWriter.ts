@@ -0,0 +1,9 @@
+// CSV writer for the dashboard's exports; the counterpart of csvReader.ts
+// Cells holding a comma, quote or newline are quoted, with quotes doubled.
+
+const escapeCell = (cell: unknown): string => {
+  const escaped = String(cell).replace(/"/g, '""');
+  return escaped.includes(',') || escaped.includes('"') || escaped.includes('\n') ? `"${escaped}"` : escaped;
+};
+
+export const toCSV = (rows: unknown[][]): string => rows.map(row => row.map(escapeCell).join(',')).join('\n');
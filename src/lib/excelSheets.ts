@@ -0,0 +1,59 @@
+// Excel sheet selection for uploads
+// Workbooks can hold the data on a later sheet or split it across several. The worker lists every
+// sheet with its size and header row; the user picks the sheets to ingest, and the choice is
+// remembered for file names that follow the same pattern (dates and numbers ignored).
+
+export interface SheetInfo {
+  name: string;
+  rowCount: number; // data rows, header excluded
+  headers: string[]; // trimmed; sheets are only combined when these match in order
+}
+
+export interface SheetSelectionRequest {
+  fileName: string;
+  filePattern: string;
+  sheets: SheetInfo[];
+  selected: string[]; // pre-ticked: the remembered choice, otherwise the largest sheet
+}
+
+export interface SheetSelectionResult {
+  sheetNames: string[];
+  remember: boolean;
+}
+
+export const isExcelFileName = (fileName: string) => /\.xlsx?$/i.test(fileName);
+
+// "Monthly Sales 09.2026 (2).xlsx" -> "monthly sales #.# (#).xlsx"
+export const getFileNamePattern = (fileName: string): string =>
+  fileName.trim().toLowerCase().replace(/\d+/g, '#');
+
+// Rows are appended sheet after sheet, so the columns must be the same and in the same order
+export const sameColumns = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every((header, i) => header === b[i]);
+
+// Selected sheets whose columns differ from the first selected sheet
+export function mismatchedSheets(sheets: SheetInfo[], selected: string[]): SheetInfo[] {
+  const chosen = sheets.filter(s => selected.includes(s.name));
+  if (chosen.length < 2) return [];
+  return chosen.slice(1).filter(s => !sameColumns(s.headers, chosen[0].headers));
+}
+
+// Sheet used when nothing is chosen or remembered: the one with the most rows (first wins a tie).
+// The picker pre-selects it, and the worker, the ingest function and the CLI all fall back to it.
+export const defaultSheetSelection = (sheets: SheetInfo[]): string[] =>
+  sheets.length === 0
+    ? []
+    : [sheets.reduce((best, sheet) => (sheet.rowCount > best.rowCount ? sheet : best)).name];
+
+// A workbook is read whole into memory, which the ingest function cannot afford for big exports;
+// CSV is streamed, so there is no limit on it
+export const SERVER_WORKBOOK_LIMIT_MB = 25;
+
+export function checkServerWorkbookSize(fileName: string, fileSize: number): void {
+  const fileSizeMB = fileSize / (1024 * 1024);
+  if (fileSizeMB > SERVER_WORKBOOK_LIMIT_MB) {
+    throw new Error(
+      `${fileName} is ${fileSizeMB.toFixed(0)} MB; server uploads take workbooks up to ${SERVER_WORKBOOK_LIMIT_MB} MB. Please save it as CSV in Excel first and upload the CSV.`
+    );
+  }
+}
@@ -0,0 +1,81 @@
+// Excel workbooks as upload input
+// Lists a workbook's sheets for the sheet picker and converts the chosen ones to a single CSV text
+// for parseCSV. Shared by the upload parser worker and the server-side ingest function.
+
+import * as XLSX from 'xlsx';
+import { parseCSVRecords } from '@/lib/csvReader';
+import { sameColumns, SheetInfo } from '@/lib/excelSheets';
+
+// Out-of-memory errors from SheetJS get a message the user can act on
+export function excelError(error: unknown, fileSizeMB: number): Error {
+  console.error('Excel parsing error:', error);
+  if (error instanceof Error) {
+    if (error.message.includes('memory') || error.message.includes('allocation') || error.message.includes('heap')) {
+      return new Error(`File too large for browser memory (${fileSizeMB.toFixed(0)} MB). Please save as CSV in Excel first, or try closing other browser tabs.`);
+    }
+    return error;
+  }
+  return new Error(`Failed to parse Excel file: ${String(error)}`);
+}
+
+// Every sheet with its size and header row, for the sheet picker
+export function listSheets(workbook: XLSX.WorkBook): SheetInfo[] {
+  return workbook.SheetNames.map(name => {
+    const sheet = workbook.Sheets[name];
+    if (!sheet?.['!ref']) return { name, rowCount: 0, headers: [] };
+    const range = XLSX.utils.decode_range(sheet['!ref']);
+    const [headerRow = []] = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+      header: 1,
+      range: { s: range.s, e: { r: range.s.r, c: range.e.c } },
+      defval: '',
+      raw: false,
+    });
+    return {
+      name,
+      rowCount: Math.max(0, range.e.r - range.s.r),
+      headers: headerRow.map(h => String(h ?? '').trim()),
+    };
+  });
+}
+
+// Convert the chosen sheets to one CSV: the first sheet's header, then every sheet's rows in order
+export function sheetsToCSV(workbook: XLSX.WorkBook, sheetNames: string[], fileSizeMB: number): string {
+  try {
+    const parts: string[] = [];
+    let headers: string[] | null = null;
+
+    for (const name of sheetNames) {
+      const worksheet = workbook.Sheets[name];
+      if (!worksheet) {
+        throw new Error(`Worksheet "${name}" not found in the workbook`);
+      }
+
+      console.log(`Converting sheet "${name}" to CSV...`);
+      const csv = XLSX.utils.sheet_to_csv(worksheet, {
+        blankrows: false, // Skip blank rows to reduce size
+      });
+      if (!csv || csv.trim().length === 0) continue;
+
+      const newline = csv.indexOf('\n');
+      const sheetHeaders = (parseCSVRecords(newline === -1 ? csv : csv.substring(0, newline))[0]?.fields ?? []).map(h => h.trim());
+      if (!headers) {
+        headers = sheetHeaders;
+        parts.push(csv);
+      } else if (!sameColumns(headers, sheetHeaders)) {
+        throw new Error(`Sheet "${name}" has different columns from "${sheetNames[0]}"; upload them separately`);
+      } else if (newline !== -1) {
+        parts.push(csv.substring(newline + 1));
+      }
+    }
+
+    const csvContent = parts.join('\n');
+    if (csvContent.trim().length === 0) {
+      throw new Error(sheetNames.length > 1 ? 'The selected sheets are empty' : 'Excel sheet converted to empty CSV');
+    }
+
+    console.log(`CSV conversion complete, ${(csvContent.length / 1024 / 1024).toFixed(1)} MB`);
+    return csvContent;
+  } catch (error) {
+    throw excelError(error, fileSizeMB);
+  }
+}
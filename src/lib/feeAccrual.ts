@@ -0,0 +1,113 @@
+// Expected fee accrual for unsold (WIP) units
+// Prices every unit still in the building with today's rate cards so finance can book
+// the check-in, refurb and PPS fees it will be charged when the unit sells.
+
+import { toCSV } from '@/lib/csvWriter';
+import { calculateFeesForSale } from '@/lib/feeCalculator';
+
+export type AccrualDimension = 'program' | 'facility' | 'stage';
+
+export const ACCRUAL_DIMENSIONS: { id: AccrualDimension; label: string }[] = [
+  { id: 'program', label: 'Program' },
+  { id: 'facility', label: 'Facility' },
+  { id: 'stage', label: 'Stage' },
+];
+
+// The units_canonical columns the projection reads
+export interface AccrualUnit {
+  trgid: string;
+  current_stage: string | null;
+  category_name: string | null;
+  program_name: string | null;
+  facility: string | null;
+  effective_retail: number | null;
+  mr_lmr_upc_average_category_retail?: number | null;
+  tag_clientsource?: string | null;
+  order_closed_date: string | null;
+}
+
+export interface AccrualGroup {
+  key: string;
+  units: number;
+  retail: number;
+  checkInFee: number;
+  refurbFee: number;
+  ppsFee: number;
+  total: number;
+}
+
+// Project the lookup fees a WIP unit will carry. Unsold units have no marketplace, sale price or
+// invoice yet, so only the rate card fees apply and they are priced with the cards in force today.
+const projectUnitFees = (unit: AccrualUnit) => {
+  const fees = calculateFeesForSale({
+    sale_price: 0,
+    category_name: unit.category_name,
+    program_name: unit.program_name,
+    marketplace_profile_sold_on: null,
+    facility: unit.facility,
+    effective_retail: unit.effective_retail,
+    mr_lmr_upc_average_category_retail: unit.mr_lmr_upc_average_category_retail,
+    tag_clientsource: unit.tag_clientsource,
+    order_closed_date: null,
+  });
+  return { checkInFee: fees.checkInFee, refurbFee: fees.refurbFee, ppsFee: fees.ppsFee };
+};
+
+// Accrual totals for unsold units grouped by program, facility or lifecycle stage, largest first
+export const buildFeeAccrual = (units: AccrualUnit[], dimension: AccrualDimension): AccrualGroup[] => {
+  const groups: Record<string, AccrualGroup> = {};
+
+  for (const unit of units) {
+    if (unit.order_closed_date) continue;
+
+    const key =
+      (dimension === 'program' ? unit.program_name : dimension === 'facility' ? unit.facility : unit.current_stage) ||
+      '(blank)';
+    if (!groups[key]) {
+      groups[key] = { key, units: 0, retail: 0, checkInFee: 0, refurbFee: 0, ppsFee: 0, total: 0 };
+    }
+
+    const group = groups[key];
+    const fees = projectUnitFees(unit);
+    group.units++;
+    group.retail += Number(unit.effective_retail) || Number(unit.mr_lmr_upc_average_category_retail) || 0;
+    group.checkInFee += fees.checkInFee;
+    group.refurbFee += fees.refurbFee;
+    group.ppsFee += fees.ppsFee;
+    group.total += fees.checkInFee + fees.refurbFee + fees.ppsFee;
+  }
+
+  return Object.values(groups).sort((a, b) => b.total - a.total);
+};
+
+// Grand total across groups
+export const sumFeeAccrual = (groups: AccrualGroup[]): Omit<AccrualGroup, 'key'> =>
+  groups.reduce(
+    (sum, g) => ({
+      units: sum.units + g.units,
+      retail: sum.retail + g.retail,
+      checkInFee: sum.checkInFee + g.checkInFee,
+      refurbFee: sum.refurbFee + g.refurbFee,
+      ppsFee: sum.ppsFee + g.ppsFee,
+      total: sum.total + g.total,
+    }),
+    { units: 0, retail: 0, checkInFee: 0, refurbFee: 0, ppsFee: 0, total: 0 }
+  );
+
+// CSV for the month-end liability journal
+export const feeAccrualToCSV = (groups: AccrualGroup[], dimensionLabel: string): string => {
+  const rows = [
+    [dimensionLabel, 'WIP Units', 'Retail', 'Expected Check-In', 'Expected Refurb', 'Expected PPS', 'Total Accrual'],
+    ...groups.map(g => [
+      g.key,
+      g.units.toString(),
+      g.retail.toFixed(2),
+      g.checkInFee.toFixed(2),
+      g.refurbFee.toFixed(2),
+      g.ppsFee.toFixed(2),
+      g.total.toFixed(2),
+    ]),
+  ];
+
+  return toCSV(rows);
+};
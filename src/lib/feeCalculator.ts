@@ -1,160 +1,16 @@
-// Fee lookup tables parsed from CSV data
-// These are imported statically to avoid async loading issues
-
-import checkinData from '@/data/checkin.csv?raw';
-import ppsData from '@/data/pps.csv?raw';
-import refurbFeeData from '@/data/refurb_fee.csv?raw';
-import refurbPctData from '@/data/of_retail_ref.csv?raw';
-
-// Types
-interface CheckInLookup {
-  [key: string]: number;
-}
-
-interface PPSLookup {
-  [key: string]: number;
-}
-
-interface RefurbFeeLookup {
-  [key: string]: { type: 'dollar' | 'percent'; value: number };
-}
-
-interface RefurbPctLookup {
-  [key: string]: number; // percentage as decimal
-}
-
-// Parse helper to handle CSV price values
-const parsePrice = (value: string): number => {
-  const cleaned = value.replace(/[$,%]/g, '').trim();
-  const num = parseFloat(cleaned);
-  return isNaN(num) ? 0 : num;
-};
-
-// Parse CSV line respecting quoted fields
-const parseCSVLine = (line: string): string[] => {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    if (char === '"') {
-      inQuotes = !inQuotes;
-    } else if (char === ',' && !inQuotes) {
-      result.push(current.trim());
-      current = '';
-    } else {
-      current += char;
-    }
-  }
-  result.push(current.trim());
-  return result;
-};
-
-// Parse Check-In CSV: Category,Program,BasePriceType,Key,Price
-const parseCheckIn = (csv: string): CheckInLookup => {
-  const lines = csv.split('\n').slice(1);
-  const lookup: CheckInLookup = {};
-  
-  for (const line of lines) {
-    if (!line.trim()) continue;
-    const fields = parseCSVLine(line);
-    if (fields.length >= 5) {
-      const key = fields[3];
-      const price = parsePrice(fields[4]);
-      if (key && price > 0) {
-        lookup[key] = price;
-      }
-    }
-  }
-  return lookup;
-};
-
-// Parse PPS CSV: Category,Program(s),key,BasePriceType,Price
-const parsePPS = (csv: string): PPSLookup => {
-  const lines = csv.split('\n').slice(1);
-  const lookup: PPSLookup = {};
-  
-  for (const line of lines) {
-    if (!line.trim()) continue;
-    const fields = parseCSVLine(line);
-    if (fields.length >= 5) {
-      const key = fields[2];
-      const price = parsePrice(fields[4]);
-      if (key && price > 0) {
-        lookup[key] = price;
-      }
-    }
-  }
-  return lookup;
-};
-
-// Parse Refurb Fee CSV: Category,Program(s),Key,BasePriceType,Price,Pricing Condition,...
-const parseRefurbFee = (csv: string): RefurbFeeLookup => {
-  const lines = csv.split('\n').slice(1);
-  const lookup: RefurbFeeLookup = {};
-  
-  for (const line of lines) {
-    if (!line.trim()) continue;
-    const fields = parseCSVLine(line);
-    if (fields.length >= 5) {
-      const key = fields[2];
-      const priceType = fields[3]?.toLowerCase();
-      const priceValue = parsePrice(fields[4]);
-      
-      if (key && priceValue > 0) {
-        lookup[key] = {
-          type: priceType === 'percent' ? 'percent' : 'dollar',
-          value: priceValue
-        };
-      }
-    }
-  }
-  return lookup;
-};
-
-// Parse % of Retail Refurb CSV: Category,Key,Program(s),Price
-const parseRefurbPct = (csv: string): RefurbPctLookup => {
-  const lines = csv.split('\n').slice(1);
-  const lookup: RefurbPctLookup = {};
-  
-  for (const line of lines) {
-    if (!line.trim()) continue;
-    const fields = parseCSVLine(line);
-    if (fields.length >= 4) {
-      const key = fields[1];
-      const pct = parsePrice(fields[3]);
-      if (key && pct > 0) {
-        lookup[key] = pct / 100;
-      }
-    }
-  }
-  return lookup;
-};
-
-// Initialize lookups
-let checkInLookup: CheckInLookup = {};
-let ppsLookup: PPSLookup = {};
-let refurbFeeLookup: RefurbFeeLookup = {};
-let refurbPctLookup: RefurbPctLookup = {};
-let initialized = false;
-
-const initializeLookups = () => {
-  if (initialized) return;
-  
-  checkInLookup = parseCheckIn(checkinData);
-  ppsLookup = parsePPS(ppsData);
-  refurbFeeLookup = parseRefurbFee(refurbFeeData);
-  refurbPctLookup = parseRefurbPct(refurbPctData);
-  initialized = true;
-  
-  console.log('Fee lookups initialized:', {
-    checkIn: Object.keys(checkInLookup).length,
-    pps: Object.keys(ppsLookup).length,
-    refurbFee: Object.keys(refurbFeeLookup).length,
-    refurbPct: Object.keys(refurbPctLookup).length
-  });
-};
+// Fee calculation following the invoiced > calculated hierarchy
+// Lookup-based fees use the rate cards in force on the sale's order_closed_date
+
+import {
+  getRateCardsForDate,
+  RateCardResolver,
+  RateCardSet,
+  CheckInLookup,
+  PPSLookup,
+  RefurbFeeLookup,
+  RefurbPctLookup,
+} from '@/lib/rateCards';
+import { FeeFlag, FeeRuleInput, evaluateFeeFlags, explainFeeFlags, getActiveFeeRuleSet } from '@/lib/feeRules';
 
 // Build lookup key from category and program
 const buildKey = (category: string | null, program: string | null): string => {
@@ -221,84 +77,53 @@ const getConditionVariants = (): string[] => {
 };
 
 // ============================================================================
-// EXCLUSION LOGIC
+// EXCLUSION LOGIC - B2C/dropship/excluded/SAMS/vendor pallet flags come from the
+// declarative rule set in feeRules.ts
 // ============================================================================
 
-// Check if sale is B2C (eligible for marketplace/revshare fees)
-const isB2CSale = (marketplace: string | null): boolean => {
-  if (!marketplace || marketplace.trim() === '') return false;
-  const mp = marketplace.toLowerCase();
-  
-  // Exclusions - these are NOT B2C
-  if (mp.includes('directliquidation') || mp === 'dl') return false;
-  if (mp.includes('gowholesale')) return false;
-  if (mp.includes('manual')) return false;
-  if (mp.includes('dsv')) return false;
-  if (mp.includes('transfer')) return false;
-  if (mp.includes('in store')) return false;
-  if (mp.includes('b2b')) return false;
-  if (mp.includes('wholesale')) return false;
-  if (mp.includes('pallet')) return false;
-  if (mp.includes('truckload')) return false;
-  
-  return true;
-};
-
-// Check if program is dropship (no PPS, refurb fees)
-const isDropshipProgram = (program: string | null, facility: string | null): boolean => {
-  if (facility?.toUpperCase().includes('DS')) return true;
-  if (facility?.toUpperCase() === 'MEXICO') return true;
-  if (program?.toUpperCase().startsWith('DS-')) return true;
-  if (program?.toUpperCase().includes('MONTERREY')) return true;
-  if (program?.toUpperCase().includes('DSV')) return true;
-  return false;
-};
-
-// Check if sale should be excluded from fee calculations entirely
-const isExcludedFromFees = (
-  marketplace: string | null,
-  program: string | null,
-  sortingIndex: string | null
-): boolean => {
-  const mp = (marketplace || '').toLowerCase();
-  const prog = (program || '').toUpperCase();
-  const sorting = (sortingIndex || '').toUpperCase();
-  
-  // DSV sales excluded from most fees
-  if (mp.includes('dsv') || prog.includes('DSV')) return true;
-  
-  // Manual/transfer sales
-  if (mp.includes('manual') || mp.includes('transfer')) return true;
-  
-  return false;
-};
-
-// Check if SAMS client (different fee rules)
-const isSAMSClient = (clientSource: string | null): boolean => {
-  return clientSource?.toUpperCase() === 'SAMS';
-};
-
-// Check if vendor pallet (special net dollars calculation)
-const isVendorPallet = (sortingIndex: string | null): boolean => {
-  return sortingIndex?.toUpperCase() === 'VENDOR PALLET';
-};
+const toRuleInput = (sale: SaleRecord): FeeRuleInput => ({
+  marketplace: sale.marketplace_profile_sold_on,
+  program: sale.program_name,
+  facility: sale.facility,
+  sortingIndex: sale.sorting_index,
+  clientSource: sale.tag_clientsource,
+});
 
 // ============================================================================
 // FEE CALCULATION FUNCTIONS - Following hierarchy: Invoiced > Calculated
 // ============================================================================
 
+// Record how a fee component was resolved when a trace is being collected
+const explain = (
+  trace: FeeComponentTrace | undefined,
+  rule: FeeRule,
+  reason: string,
+  matchedKey: string | null = null
+) => {
+  if (!trace) return;
+  trace.rule = rule;
+  trace.reason = reason;
+  trace.matchedKey = matchedKey;
+};
+
 // Calculate Check-In Fee
 const calculateCheckInFee = (
   invoicedValue: number | null | undefined,
   category: string | null,
   program: string | null,
-  isSAMS: boolean
+  isSAMS: boolean,
+  checkInLookup: CheckInLookup,
+  trace?: FeeComponentTrace
 ): number => {
   // SAMS has no check-in fee
-  if (isSAMS) return 0;
+  if (isSAMS) {
+    explain(trace, 'excluded', 'SAMS client - no check-in fee');
+    return 0;
+  }
   
   // 1. Use invoiced value if present (absolute value)
   if (invoicedValue != null && invoicedValue !== 0) {
+    explain(trace, 'invoiced', 'Invoiced check-in fee');
     return Math.abs(invoicedValue);
   }
   
@@ -306,11 +131,18 @@ const calculateCheckInFee = (
   const variants = getProgramVariantsForCheckIn(program);
   for (const prog of variants) {
     const key = buildKey(category, prog);
+    trace?.keysTried.push(key);
     if (checkInLookup[key] !== undefined) {
+      explain(trace, 'lookup', 'Check-in rate card', key);
       return checkInLookup[key];
     }
   }
   
+  explain(
+    trace,
+    'no-match',
+    variants.length > 0 ? 'No check-in rate for category/program' : 'Check-in rates only apply to RECLAIMS-OVERSTOCK programs'
+  );
   return 0;
 };
 
@@ -323,26 +155,36 @@ const calculateRefurbFee = (
   effectiveRetail: number,
   isDropship: boolean,
   isSAMS: boolean,
-  isVendorPalletItem: boolean
+  isVendorPalletItem: boolean,
+  refurbFeeLookup: RefurbFeeLookup,
+  refurbPctLookup: RefurbPctLookup,
+  trace?: FeeComponentTrace
 ): number => {
   // Dropship = no refurb fee
-  if (isDropship) return 0;
+  if (isDropship) {
+    explain(trace, 'excluded', 'Dropship program/facility - no refurb fee');
+    return 0;
+  }
   
   // SAMS = no refurb fee (unless explicitly invoiced)
   if (isSAMS) {
     if (invoicedValue != null && invoicedValue !== 0) {
+      explain(trace, 'invoiced', 'Invoiced refurb fee (SAMS)');
       return Math.abs(invoicedValue);
     }
+    explain(trace, 'excluded', 'SAMS client - refurb fee only when invoiced');
     return 0;
   }
   
   // 1. Use invoiced value if present
   if (invoicedValue != null && invoicedValue !== 0) {
+    explain(trace, 'invoiced', 'Invoiced refurb fee');
     return Math.abs(invoicedValue);
   }
   
   // 2. For vendor pallets, use expected HV AS-IS refurb fee
   if (isVendorPalletItem && expectedHVRefurb != null && expectedHVRefurb !== 0) {
+    explain(trace, 'vendor-pallet', 'Vendor pallet - expected HV AS-IS refurb fee');
     return Math.abs(expectedHVRefurb);
   }
   
@@ -354,8 +196,15 @@ const calculateRefurbFee = (
   for (const prog of variants) {
     for (const cond of conditions) {
       const key = buildRefurbKey(category, prog, cond);
+      trace?.keysTried.push(key);
       if (refurbFeeLookup[key] !== undefined) {
         const entry = refurbFeeLookup[key];
+        explain(
+          trace,
+          'lookup',
+          entry.type === 'percent' ? `Refurb rate card (${entry.value}% of retail)` : 'Refurb rate card (fixed fee)',
+          key
+        );
         return entry.type === 'percent' 
           ? (effectiveRetail * entry.value / 100)
           : entry.value;
@@ -367,36 +216,45 @@ const calculateRefurbFee = (
   for (const prog of variants) {
     for (const cond of conditions) {
       const key = buildRefurbKey(category, prog, cond);
+      trace?.keysTried.push(`%:${key}`);
       if (refurbPctLookup[key] !== undefined && effectiveRetail > 0) {
+        explain(trace, 'pct-of-retail', `Refurb % of retail card (${(refurbPctLookup[key] * 100).toFixed(2)}%)`, `%:${key}`);
         return effectiveRetail * refurbPctLookup[key];
       }
     }
   }
   
+  explain(trace, 'no-match', 'No refurb rate for category/program/condition');
   return 0;
 };
 
 // Calculate Overbox Fee - invoiced or calculated fallback
 const calculateOverboxFee = (
   invoicedValue: number | null | undefined,
-  isB2C: boolean
+  isB2C: boolean,
+  trace?: FeeComponentTrace
 ): number => {
   // 1. Use invoiced value if present
   if (invoicedValue != null && invoicedValue !== 0) {
+    explain(trace, 'invoiced', 'Invoiced overbox fee');
     return Math.abs(invoicedValue);
   }
   
   // 2. No calculated fallback for overbox - it's invoiced only
+  explain(trace, 'not-invoiced', 'Overbox is invoiced only');
   return 0;
 };
 
 // Calculate Packaging Fee
 const calculatePackagingFee = (
-  invoicedValue: number | null | undefined
+  invoicedValue: number | null | undefined,
+  trace?: FeeComponentTrace
 ): number => {
   if (invoicedValue != null && invoicedValue !== 0) {
+    explain(trace, 'invoiced', 'Invoiced packaging fee');
     return Math.abs(invoicedValue);
   }
+  explain(trace, 'not-invoiced', 'Packaging is invoiced only');
   return 0;
 };
 
@@ -407,15 +265,27 @@ const calculatePPSFee = (
   program: string | null,
   isDropship: boolean,
   isSAMS: boolean,
-  isExcluded: boolean
+  isExcluded: boolean,
+  ppsLookup: PPSLookup,
+  trace?: FeeComponentTrace
 ): number => {
   // Exclusions
-  if (isDropship) return 0;
-  if (isSAMS) return 0;
-  if (isExcluded) return 0;
+  if (isDropship) {
+    explain(trace, 'excluded', 'Dropship program/facility - no PPS fee');
+    return 0;
+  }
+  if (isSAMS) {
+    explain(trace, 'excluded', 'SAMS client - no PPS fee');
+    return 0;
+  }
+  if (isExcluded) {
+    explain(trace, 'excluded', 'DSV, manual or transfer sale - excluded from PPS');
+    return 0;
+  }
   
   // 1. Use invoiced value if present
   if (invoicedValue != null && invoicedValue !== 0) {
+    explain(trace, 'invoiced', 'Invoiced PPS fee');
     return Math.abs(invoicedValue);
   }
   
@@ -423,11 +293,14 @@ const calculatePPSFee = (
   const variants = getProgramVariantsForPPS(program);
   for (const prog of variants) {
     const key = buildKey(category, prog);
+    trace?.keysTried.push(key);
     if (ppsLookup[key] !== undefined) {
+      explain(trace, 'lookup', 'PPS rate card', key);
       return ppsLookup[key];
     }
   }
   
+  explain(trace, 'no-match', 'No PPS rate for category/program');
   return 0;
 };
 
@@ -435,78 +308,97 @@ const calculatePPSFee = (
 const calculateShippingFee = (
   invoicedValue: number | null | undefined,
   isB2C: boolean,
-  salePrice: number
+  salePrice: number,
+  trace?: FeeComponentTrace
 ): number => {
   // 1. Use invoiced value if present
   if (invoicedValue != null && invoicedValue !== 0) {
+    explain(trace, 'invoiced', 'Invoiced shipping fee');
     return Math.abs(invoicedValue);
   }
   
   // 2. No calculated fallback - shipping is invoiced only
+  explain(trace, 'not-invoiced', 'Shipping is invoiced only');
   return 0;
 };
 
 // Calculate Revshare Fee - INVOICED ONLY per BI reconciliation
 const calculateRevshareFee = (
-  invoicedValue: number | null | undefined
+  invoicedValue: number | null | undefined,
+  trace?: FeeComponentTrace
 ): number => {
   // Revshare is INVOICED ONLY - no percentage fallback
   // Calculated fallbacks were creating phantom fees (~$500K variance)
   if (invoicedValue != null && invoicedValue !== 0) {
+    explain(trace, 'invoiced', 'Invoiced revshare fee');
     return Math.abs(invoicedValue);
   }
+  explain(trace, 'not-invoiced', 'Revshare is invoiced only');
   return 0;
 };
 
 // Calculate 3PMP Fee - INVOICED ONLY per BI reconciliation
 const calculate3PMPFee = (
-  invoicedValue: number | null | undefined
+  invoicedValue: number | null | undefined,
+  trace?: FeeComponentTrace
 ): number => {
   // 3PMP is INVOICED ONLY - no percentage fallback
   // Calculated fallbacks (8-12% on B2C) were creating ~$900K phantom fees
   if (invoicedValue != null && invoicedValue !== 0) {
+    explain(trace, 'invoiced', 'Invoiced 3PMP fee');
     return Math.abs(invoicedValue);
   }
+  explain(trace, 'not-invoiced', '3PMP is invoiced only');
   return 0;
 };
 
 // Calculate Merchant Fee - INVOICED ONLY, NO FALLBACK
 const calculateMerchantFee = (
-  invoicedValue: number | null | undefined
+  invoicedValue: number | null | undefined,
+  trace?: FeeComponentTrace
 ): number => {
   // Merchant fee is ONLY from invoiced values - no percentage fallback
   if (invoicedValue != null && invoicedValue !== 0) {
+    explain(trace, 'invoiced', 'Invoiced merchant fee');
     return Math.abs(invoicedValue);
   }
+  explain(trace, 'not-invoiced', 'Merchant fee is invoiced only');
   return 0;
 };
 
 // Calculate Marketing Fee - INVOICED ONLY per BI reconciliation
 const calculateMarketingFee = (
-  invoicedValue: number | null | undefined
+  invoicedValue: number | null | undefined,
+  trace?: FeeComponentTrace
 ): number => {
   // Marketing is INVOICED ONLY - no percentage fallback
   if (invoicedValue != null && invoicedValue !== 0) {
+    explain(trace, 'invoiced', 'Invoiced marketing fee');
     return Math.abs(invoicedValue);
   }
+  explain(trace, 'not-invoiced', 'Marketing is invoiced only');
   return 0;
 };
 
 // Calculate Refund Fee (contra-revenue)
 const calculateRefundFee = (
   invoicedValue: number | null | undefined,
-  refundAmount: number | null | undefined
+  refundAmount: number | null | undefined,
+  trace?: FeeComponentTrace
 ): number => {
   // 1. Use invoiced value if present
   if (invoicedValue != null && invoicedValue !== 0) {
+    explain(trace, 'invoiced', 'Invoiced refund fee');
     return Math.abs(invoicedValue);
   }
   
   // 2. Use refund_amount from sales data
   if (refundAmount != null && refundAmount !== 0) {
+    explain(trace, 'refund-amount', 'Refund amount from sales data');
     return Math.abs(refundAmount);
   }
   
+  explain(trace, 'no-match', 'No refund on this sale');
   return 0;
 };
 
@@ -543,6 +435,8 @@ export interface SaleRecord {
   vendor_invoice_total?: number | null;
   service_invoice_total?: number | null;
   expected_hv_as_is_refurb_fee?: number | null;
+  // Selects the rate cards in force when the sale closed (yyyy-MM-dd)
+  order_closed_date?: string | null;
 }
 
 // All 11 fee components
@@ -561,9 +455,122 @@ export interface CalculatedFees {
   totalFees: number;
 }
 
-// Calculate all fees for a single sale record
-export const calculateFeesForSale = (sale: SaleRecord): CalculatedFees => {
-  initializeLookups();
+// ============================================================================
+// FEE TRACE - which rule produced each component, for explaining a single unit
+// ============================================================================
+
+export type FeeComponent = Exclude<keyof CalculatedFees, 'totalFees'>;
+
+// Rule that produced a fee component
+export type FeeRule =
+  | 'invoiced'       // invoiced column on the sale
+  | 'vendor-pallet'  // expected_hv_as_is_refurb_fee
+  | 'lookup'         // fixed (or %) rate card key
+  | 'pct-of-retail'  // refurb % of retail card
+  | 'refund-amount'  // refund_amount fallback
+  | 'excluded'       // dropship / SAMS / DSV-manual-transfer exclusion
+  | 'not-invoiced'   // invoiced-only fee with no invoice
+  | 'no-match';      // lookup tried every key and found nothing
+
+export interface FeeComponentTrace {
+  fee: FeeComponent;
+  label: string;
+  amount: number;
+  rule: FeeRule;
+  reason: string;
+  keysTried: string[];
+  matchedKey: string | null;
+  rateCardId: string | null;
+  inputs: Record<string, string | number | boolean | null>;
+}
+
+export interface FeeTrace {
+  orderClosedDate: string | null;
+  flags: {
+    isSAMS: boolean;
+    isDropship: boolean;
+    isB2C: boolean;
+    isExcluded: boolean;
+    isVendorPallet: boolean;
+  };
+  // Eligibility rules that matched; 'decided' marks the one that set each flag
+  ruleSetVersion: number;
+  firedRules: { id: string; flag: FeeFlag; value: boolean; description: string; decided: boolean }[];
+  inputs: Record<string, string | number | null>;
+  components: FeeComponentTrace[];
+}
+
+const FEE_COMPONENT_LABELS: Record<FeeComponent, string> = {
+  checkInFee: 'Check-In',
+  refurbFee: 'Refurb',
+  overboxFee: 'Overbox',
+  packagingFee: 'Packaging',
+  ppsFee: 'PPS',
+  shippingFee: 'Shipping',
+  merchantFee: 'Merchant',
+  revshareFee: 'Revshare',
+  thirdPartyMPFee: '3PMP',
+  marketingFee: 'Marketing',
+  refundFee: 'Refund',
+};
+
+// Empty per-component traces, filled in as each fee function resolves
+const createComponentTraces = (
+  sale: SaleRecord,
+  effectiveRetail: number,
+  rateCards: RateCardSet
+): Record<FeeComponent, FeeComponentTrace> => {
+  const component = (
+    fee: FeeComponent,
+    inputs: FeeComponentTrace['inputs'],
+    rateCardId: string | null = null
+  ): FeeComponentTrace => ({
+    fee,
+    label: FEE_COMPONENT_LABELS[fee],
+    amount: 0,
+    rule: 'no-match',
+    reason: '',
+    keysTried: [],
+    matchedKey: null,
+    rateCardId,
+    inputs,
+  });
+
+  return {
+    checkInFee: component('checkInFee', { invoiced: sale.invoiced_check_in_fee ?? null }, rateCards.cardIds.CheckIn),
+    refurbFee: component(
+      'refurbFee',
+      {
+        invoiced: sale.invoiced_refurb_fee ?? null,
+        expectedHVRefurb: sale.expected_hv_as_is_refurb_fee ?? null,
+        effectiveRetail,
+      },
+      rateCards.cardIds.RefurbFee
+    ),
+    overboxFee: component('overboxFee', { invoiced: sale.invoiced_overbox_fee ?? null }),
+    packagingFee: component('packagingFee', { invoiced: sale.invoiced_packaging_fee ?? null }),
+    ppsFee: component('ppsFee', { invoiced: sale.invoiced_pps_fee ?? null }, rateCards.cardIds.PPS),
+    shippingFee: component('shippingFee', { invoiced: sale.invoiced_shipping_fee ?? null }),
+    merchantFee: component('merchantFee', { invoiced: sale.invoiced_merchant_fee ?? null }),
+    revshareFee: component('revshareFee', { invoiced: sale.invoiced_revshare_fee ?? null }),
+    thirdPartyMPFee: component('thirdPartyMPFee', { invoiced: sale.invoiced_3pmp_fee ?? null }),
+    marketingFee: component('marketingFee', { invoiced: sale.invoiced_marketing_fee ?? null }),
+    refundFee: component('refundFee', {
+      invoiced: sale.invoiced_refund_fee ?? null,
+      refundAmount: sale.refund_amount ?? null,
+    }),
+  };
+};
+
+// Calculate all fees for a single sale record.
+// Pass a trace to have every component record the rule, keys and inputs it used,
+// and a resolver to price against something other than the published cards.
+export const calculateFeesForSale = (
+  sale: SaleRecord,
+  trace?: FeeTrace,
+  resolveRateCards: RateCardResolver = getRateCardsForDate
+): CalculatedFees => {
+  const rateCards = resolveRateCards(sale.order_closed_date, sale.tag_clientsource);
   
   const salePrice = Number(sale.sale_price) || 0;
   const effectiveRetail = Number(sale.effective_retail) || Number(sale.mr_lmr_upc_average_category_retail) || 0;
@@ -572,15 +579,21 @@ export const calculateFeesForSale = (sale: SaleRecord): CalculatedFees => {
   const marketplace = sale.marketplace_profile_sold_on;
   const facility = sale.facility;
   
-  // Determine exclusion flags
-  const isSAMS = isSAMSClient(sale.tag_clientsource);
-  const isDropship = isDropshipProgram(program, facility);
-  const isB2C = isB2CSale(marketplace);
-  const isExcluded = isExcludedFromFees(marketplace, program, sale.sorting_index);
-  const isVendorPalletItem = isVendorPallet(sale.sorting_index);
+  // Determine exclusion flags from the rule set
+  const ruleInput = toRuleInput(sale);
+  const flagResult = trace ? explainFeeFlags(ruleInput) : { flags: evaluateFeeFlags(ruleInput), matched: [] };
+  const {
+    sams: isSAMS,
+    dropship: isDropship,
+    b2c: isB2C,
+    excluded: isExcluded,
+    vendorPallet: isVendorPalletItem,
+  } = flagResult.flags;
+  
+  const traces = trace ? createComponentTraces(sale, effectiveRetail, rateCards) : undefined;
   
   // Calculate all 11 fee components using hierarchy
-  const checkInFee = calculateCheckInFee(sale.invoiced_check_in_fee, category, program, isSAMS);
+  const checkInFee = calculateCheckInFee(sale.invoiced_check_in_fee, category, program, isSAMS, rateCards.checkIn, traces?.checkInFee);
   
   const refurbFee = calculateRefurbFee(
     sale.invoiced_refurb_fee,
@@ -590,11 +603,14 @@ export const calculateFeesForSale = (sale: SaleRecord): CalculatedFees => {
     effectiveRetail,
     isDropship,
     isSAMS,
-    isVendorPalletItem
+    isVendorPalletItem,
+    rateCards.refurbFee,
+    rateCards.refurbPct,
+    traces?.refurbFee
   );
   
-  const overboxFee = calculateOverboxFee(sale.invoiced_overbox_fee, isB2C);
-  const packagingFee = calculatePackagingFee(sale.invoiced_packaging_fee);
+  const overboxFee = calculateOverboxFee(sale.invoiced_overbox_fee, isB2C, traces?.overboxFee);
+  const packagingFee = calculatePackagingFee(sale.invoiced_packaging_fee, traces?.packagingFee);
   
   const ppsFee = calculatePPSFee(
     sale.invoiced_pps_fee,
@@ -602,28 +618,30 @@ export const calculateFeesForSale = (sale: SaleRecord): CalculatedFees => {
     program,
     isDropship,
     isSAMS,
-    isExcluded
+    isExcluded,
+    rateCards.pps,
+    traces?.ppsFee
   );
   
-  const shippingFee = calculateShippingFee(sale.invoiced_shipping_fee, isB2C, salePrice);
+  const shippingFee = calculateShippingFee(sale.invoiced_shipping_fee, isB2C, salePrice, traces?.shippingFee);
   
   // Merchant fee is INVOICED ONLY - no calculated fallback
-  const merchantFee = calculateMerchantFee(sale.invoiced_merchant_fee);
+  const merchantFee = calculateMerchantFee(sale.invoiced_merchant_fee, traces?.merchantFee);
   
-  const revshareFee = calculateRevshareFee(sale.invoiced_revshare_fee);
+  const revshareFee = calculateRevshareFee(sale.invoiced_revshare_fee, traces?.revshareFee);
   
-  const thirdPartyMPFee = calculate3PMPFee(sale.invoiced_3pmp_fee);
+  const thirdPartyMPFee = calculate3PMPFee(sale.invoiced_3pmp_fee, traces?.thirdPartyMPFee);
   
-  const marketingFee = calculateMarketingFee(sale.invoiced_marketing_fee);
+  const marketingFee = calculateMarketingFee(sale.invoiced_marketing_fee, traces?.marketingFee);
   
-  const refundFee = calculateRefundFee(sale.invoiced_refund_fee, sale.refund_amount);
+  const refundFee = calculateRefundFee(sale.invoiced_refund_fee, sale.refund_amount, traces?.refundFee);
   
   // Total fees = sum of all components
   // Note: merchantFee is only included if invoiced (not calculated), so no double-counting with 3PMP
   const totalFees = checkInFee + refurbFee + overboxFee + packagingFee + ppsFee + 
                     shippingFee + merchantFee + revshareFee + thirdPartyMPFee + marketingFee + refundFee;
   
-  return {
+  const fees: CalculatedFees = {
     checkInFee,
     refurbFee,
     overboxFee,
@@ -637,6 +655,71 @@ export const calculateFeesForSale = (sale: SaleRecord): CalculatedFees => {
     refundFee,
     totalFees
   };
+  
+  if (trace && traces) {
+    trace.orderClosedDate = sale.order_closed_date ?? null;
+    trace.flags = { isSAMS, isDropship, isB2C, isExcluded, isVendorPallet: isVendorPalletItem };
+    trace.ruleSetVersion = getActiveFeeRuleSet().version;
+    trace.firedRules = flagResult.matched.map(({ rule, decided }) => ({
+      id: rule.id,
+      flag: rule.flag,
+      value: rule.value,
+      description: rule.description,
+      decided,
+    }));
+    trace.inputs = {
+      category,
+      program,
+      marketplace,
+      facility,
+      clientSource: sale.tag_clientsource ?? null,
+      sortingIndex: sale.sorting_index ?? null,
+      salePrice,
+      effectiveRetail,
+    };
+    trace.components = (Object.keys(traces) as FeeComponent[]).map(fee => {
+      // The refurb % card only applies when that rule matched
+      if (fee === 'refurbFee' && traces.refurbFee.rule === 'pct-of-retail') {
+        traces.refurbFee.rateCardId = rateCards.cardIds.RefurbPct;
+      }
+      return { ...traces[fee], amount: fees[fee] };
+    });
+  }
+  
+  return fees;
+};
+
+// Calculate fees for one sale and return the full trace of how each component was derived
+export const explainFeesForSale = (sale: SaleRecord): { fees: CalculatedFees; trace: FeeTrace } => {
+  const trace: FeeTrace = {
+    orderClosedDate: null,
+    flags: { isSAMS: false, isDropship: false, isB2C: false, isExcluded: false, isVendorPallet: false },
+    ruleSetVersion: 0,
+    firedRules: [],
+    inputs: {},
+    components: [],
+  };
+  const fees = calculateFeesForSale(sale, trace);
+  return { fees, trace };
+};
+
+// Calculate fees from the rate card path only, ignoring every invoiced column.
+// Used by reconciliation to compare what was billed against what the cards say.
+export const calculateLookupFeesForSale = (sale: SaleRecord): CalculatedFees => {
+  return calculateFeesForSale({
+    ...sale,
+    invoiced_check_in_fee: null,
+    invoiced_refurb_fee: null,
+    invoiced_overbox_fee: null,
+    invoiced_packaging_fee: null,
+    invoiced_pps_fee: null,
+    invoiced_shipping_fee: null,
+    invoiced_merchant_fee: null,
+    invoiced_revshare_fee: null,
+    invoiced_3pmp_fee: null,
+    invoiced_marketing_fee: null,
+    invoiced_refund_fee: null,
+  });
 };
 
 // Calculate Net Dollars for a single sale following the hierarchy:
@@ -647,7 +730,7 @@ export const calculateNetDollarsForSale = (sale: SaleRecord, fees: CalculatedFee
   const salePrice = Number(sale.sale_price) || 0;
   
   // A. Vendor Pallets - special calculation
-  if (isVendorPallet(sale.sorting_index)) {
+  if (evaluateFeeFlags(toRuleInput(sale)).vendorPallet) {
     const expectedHVRefurb = Number(sale.expected_hv_as_is_refurb_fee) || 0;
     // Net = Sale - TotalFees + RefurbFee - ExpectedHVRefurb
     return salePrice - fees.totalFees + fees.refurbFee - expectedHVRefurb;
@@ -680,7 +763,10 @@ export interface FeeBreakdownAggregated {
 }
 
 // Calculate total fees for an array of sales with full breakdown
-export const calculateTotalFees = (sales: SaleRecord[]): {
+export const calculateTotalFees = (
+  sales: SaleRecord[],
+  resolveRateCards: RateCardResolver = getRateCardsForDate
+): {
   totalFees: number;
   netDollars: number;
   breakdown: FeeBreakdownAggregated;
@@ -704,7 +790,7 @@ export const calculateTotalFees = (sales: SaleRecord[]): {
   let missedLookups = { checkIn: 0, pps: 0, refurb: 0 };
   
   for (const sale of sales) {
-    const fees = calculateFeesForSale(sale);
+    const fees = calculateFeesForSale(sale, undefined, resolveRateCards);
     
     // Aggregate fees
     breakdown.checkInFees += fees.checkInFee;
@@ -724,8 +810,7 @@ export const calculateTotalFees = (sales: SaleRecord[]): {
     netDollars += calculateNetDollarsForSale(sale, fees);
     
     // Track misses for debugging
-    const isDropship = isDropshipProgram(sale.program_name, sale.facility);
-    const isSAMS = isSAMSClient(sale.tag_clientsource);
+    const { dropship: isDropship, sams: isSAMS } = evaluateFeeFlags(toRuleInput(sale));
     if (fees.checkInFee === 0 && sale.sale_price > 0 && !isSAMS) missedLookups.checkIn++;
     if (fees.ppsFee === 0 && sale.sale_price > 0 && !isDropship && !isSAMS) missedLookups.pps++;
     if (fees.refurbFee === 0 && sale.sale_price > 0 && !isDropship && !isSAMS) missedLookups.refurb++;
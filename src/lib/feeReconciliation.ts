@@ -0,0 +1,152 @@
+// Invoiced vs calculated fee reconciliation
+// Runs the rate card path alongside the invoiced values so billing errors surface before month close
+
+import { SaleRecord, CalculatedFees, calculateLookupFeesForSale } from '@/lib/feeCalculator';
+
+// Only fees with a rate card fallback can be reconciled - the rest are invoiced only
+export type ReconciledFeeType = 'checkIn' | 'refurb' | 'pps';
+
+export const RECONCILED_FEES: {
+  type: ReconciledFeeType;
+  label: string;
+  invoicedField: keyof SaleRecord;
+  feeKey: keyof CalculatedFees;
+}[] = [
+  { type: 'checkIn', label: 'Check-In', invoicedField: 'invoiced_check_in_fee', feeKey: 'checkInFee' },
+  { type: 'refurb', label: 'Refurb', invoicedField: 'invoiced_refurb_fee', feeKey: 'refurbFee' },
+  { type: 'pps', label: 'PPS', invoicedField: 'invoiced_pps_fee', feeKey: 'ppsFee' },
+];
+
+export type ReconciliationDimension = 'program' | 'category' | 'facility' | 'wmWeek';
+
+export const RECONCILIATION_DIMENSIONS: { id: ReconciliationDimension; label: string }[] = [
+  { id: 'program', label: 'Program' },
+  { id: 'category', label: 'Category' },
+  { id: 'facility', label: 'Facility' },
+  { id: 'wmWeek', label: 'WM Week' },
+];
+
+// Differences below a cent are rounding, not billing errors
+export const VARIANCE_TOLERANCE = 0.01;
+
+export interface ReconciliationSale extends SaleRecord {
+  trgid: string;
+  wm_week?: number | null;
+}
+
+// One invoiced fee on one unit, compared against its rate card value
+export interface ReconciliationLine {
+  trgid: string;
+  program: string;
+  category: string;
+  facility: string;
+  wmWeek: number | null;
+  feeType: ReconciledFeeType;
+  invoiced: number;
+  calculated: number;
+  variance: number; // invoiced - calculated; positive = over-billed
+}
+
+export interface VarianceGroup {
+  key: string;
+  lines: number;
+  mismatched: number;
+  invoiced: number;
+  calculated: number;
+  variance: number;
+  overBilled: number;
+  underBilled: number;
+}
+
+// Build a line for every invoiced fee that has a rate card counterpart
+export const buildReconciliationLines = (sales: ReconciliationSale[]): ReconciliationLine[] => {
+  const lines: ReconciliationLine[] = [];
+
+  for (const sale of sales) {
+    const invoicedFees = RECONCILED_FEES.filter(fee => {
+      const value = sale[fee.invoicedField];
+      return value != null && value !== 0;
+    });
+    if (invoicedFees.length === 0) continue;
+
+    const calculated = calculateLookupFeesForSale(sale);
+
+    for (const fee of invoicedFees) {
+      // Same absolute-value convention as the fee hierarchy
+      const invoiced = Math.abs(Number(sale[fee.invoicedField]) || 0);
+      const calc = calculated[fee.feeKey];
+      lines.push({
+        trgid: sale.trgid,
+        program: sale.program_name || 'Unknown',
+        category: sale.category_name || 'Unknown',
+        facility: sale.facility || 'Unknown',
+        wmWeek: sale.wm_week ?? null,
+        feeType: fee.type,
+        invoiced,
+        calculated: calc,
+        variance: invoiced - calc,
+      });
+    }
+  }
+
+  return lines;
+};
+
+const dimensionValue = (line: ReconciliationLine, dimension: ReconciliationDimension): string => {
+  switch (dimension) {
+    case 'program':
+      return line.program;
+    case 'category':
+      return line.category;
+    case 'facility':
+      return line.facility;
+    case 'wmWeek':
+      return line.wmWeek != null ? `Week ${line.wmWeek}` : 'Unknown';
+  }
+};
+
+// Roll lines up by a dimension, largest absolute variance first
+export const summarizeVariance = (
+  lines: ReconciliationLine[],
+  dimension: ReconciliationDimension
+): VarianceGroup[] => {
+  const groups: Record<string, VarianceGroup> = {};
+
+  for (const line of lines) {
+    const key = dimensionValue(line, dimension);
+    if (!groups[key]) {
+      groups[key] = { key, lines: 0, mismatched: 0, invoiced: 0, calculated: 0, variance: 0, overBilled: 0, underBilled: 0 };
+    }
+    const group = groups[key];
+    group.lines++;
+    group.invoiced += line.invoiced;
+    group.calculated += line.calculated;
+    group.variance += line.variance;
+    if (Math.abs(line.variance) >= VARIANCE_TOLERANCE) {
+      group.mismatched++;
+      if (line.variance > 0) group.overBilled += line.variance;
+      else group.underBilled += line.variance;
+    }
+  }
+
+  return Object.values(groups).sort((a, b) => Math.abs(b.variance) - Math.abs(a.variance));
+};
+
+// Lines within a group, for drilling down from a summary row
+export const filterLinesByDimension = (
+  lines: ReconciliationLine[],
+  dimension: ReconciliationDimension,
+  key: string
+): ReconciliationLine[] => lines.filter(line => dimensionValue(line, dimension) === key);
+
+// Units with the biggest over- or under-billing
+export const topVarianceLines = (
+  lines: ReconciliationLine[],
+  direction: 'over' | 'under',
+  limit: number
+): ReconciliationLine[] => {
+  return lines
+    .filter(line => (direction === 'over' ? line.variance >= VARIANCE_TOLERANCE : line.variance <= -VARIANCE_TOLERANCE))
+    .sort((a, b) => (direction === 'over' ? b.variance - a.variance : a.variance - b.variance))
+    .slice(0, limit);
+};
@@ -0,0 +1,186 @@
+// Declarative fee eligibility rules
+// The flags that gate fees (B2C, dropship, excluded, SAMS, vendor pallet) are derived from a
+// versioned rule set stored in Supabase instead of hard-coded string checks.
+// Each flag starts at its default; the first rule (in list order) whose conditions all match sets it.
+
+export type FeeFlag = 'b2c' | 'dropship' | 'excluded' | 'sams' | 'vendorPallet';
+
+export type FeeRuleField = 'marketplace' | 'program' | 'facility' | 'sortingIndex' | 'clientSource';
+
+// All comparisons are case-insensitive
+export type FeeRuleOperator = 'equals' | 'contains' | 'startsWith' | 'isBlank';
+
+export interface FeeRuleCondition {
+  field: FeeRuleField;
+  operator: FeeRuleOperator;
+  value: string;
+}
+
+export interface FeeEligibilityRule {
+  id: string;
+  flag: FeeFlag;
+  value: boolean;
+  description: string;
+  conditions: FeeRuleCondition[];
+}
+
+export interface FeeRuleSet {
+  id: string;
+  version: number;
+  defaults: Record<FeeFlag, boolean>;
+  rules: FeeEligibilityRule[];
+  notes?: string | null;
+  publishedAt?: string | null;
+}
+
+export type FeeRuleInput = Record<FeeRuleField, string | null | undefined>;
+
+export type FeeFlags = Record<FeeFlag, boolean>;
+
+export const FEE_FLAGS: FeeFlag[] = ['b2c', 'dropship', 'excluded', 'sams', 'vendorPallet'];
+
+export const FEE_FLAG_LABELS: Record<FeeFlag, string> = {
+  b2c: 'B2C sale',
+  dropship: 'Dropship',
+  excluded: 'Excluded from PPS',
+  sams: 'SAMS client',
+  vendorPallet: 'Vendor pallet',
+};
+
+export const FEE_RULE_FIELDS: FeeRuleField[] = ['marketplace', 'program', 'facility', 'sortingIndex', 'clientSource'];
+
+export const FEE_RULE_FIELD_LABELS: Record<FeeRuleField, string> = {
+  marketplace: 'Marketplace',
+  program: 'Program',
+  facility: 'Facility',
+  sortingIndex: 'Sorting Index',
+  clientSource: 'Client Source',
+};
+
+export const FEE_RULE_OPERATORS: FeeRuleOperator[] = ['equals', 'contains', 'startsWith', 'isBlank'];
+
+export const BUNDLED_FEE_RULE_SET_ID = 'bundled';
+
+// ============================================================================
+// BUNDLED RULES - the original hard-coded checks, used until a set is published
+// ============================================================================
+
+const rule = (
+  id: string,
+  flag: FeeFlag,
+  value: boolean,
+  description: string,
+  field: FeeRuleField,
+  operator: FeeRuleOperator,
+  match = ''
+): FeeEligibilityRule => ({ id, flag, value, description, conditions: [{ field, operator, value: match }] });
+
+export const BUNDLED_FEE_RULE_SET: FeeRuleSet = {
+  id: BUNDLED_FEE_RULE_SET_ID,
+  version: 0,
+  defaults: { b2c: true, dropship: false, excluded: false, sams: false, vendorPallet: false },
+  rules: [
+    // B2C - everything sold on a marketplace except wholesale/liquidation channels
+    rule('b2c-blank', 'b2c', false, 'No marketplace', 'marketplace', 'isBlank'),
+    rule('b2c-dl', 'b2c', false, 'DirectLiquidation', 'marketplace', 'contains', 'directliquidation'),
+    rule('b2c-dl-short', 'b2c', false, 'DirectLiquidation (DL)', 'marketplace', 'equals', 'dl'),
+    rule('b2c-gowholesale', 'b2c', false, 'GoWholesale', 'marketplace', 'contains', 'gowholesale'),
+    rule('b2c-manual', 'b2c', false, 'Manual sales', 'marketplace', 'contains', 'manual'),
+    rule('b2c-dsv', 'b2c', false, 'Walmart DSV', 'marketplace', 'contains', 'dsv'),
+    rule('b2c-transfer', 'b2c', false, 'Transfers', 'marketplace', 'contains', 'transfer'),
+    rule('b2c-in-store', 'b2c', false, 'In store', 'marketplace', 'contains', 'in store'),
+    rule('b2c-b2b', 'b2c', false, 'B2B', 'marketplace', 'contains', 'b2b'),
+    rule('b2c-wholesale', 'b2c', false, 'Wholesale', 'marketplace', 'contains', 'wholesale'),
+    rule('b2c-pallet', 'b2c', false, 'Pallet sales', 'marketplace', 'contains', 'pallet'),
+    rule('b2c-truckload', 'b2c', false, 'Truckload sales', 'marketplace', 'contains', 'truckload'),
+    // Dropship - no PPS or refurb fees
+    rule('dropship-facility-ds', 'dropship', true, 'DS facility', 'facility', 'contains', 'ds'),
+    rule('dropship-mexico', 'dropship', true, 'Mexico facility', 'facility', 'equals', 'mexico'),
+    rule('dropship-program-ds', 'dropship', true, 'DS- program', 'program', 'startsWith', 'ds-'),
+    rule('dropship-monterrey', 'dropship', true, 'Monterrey program', 'program', 'contains', 'monterrey'),
+    rule('dropship-dsv', 'dropship', true, 'DSV program', 'program', 'contains', 'dsv'),
+    // Excluded - DSV, manual and transfer sales carry no PPS
+    rule('excluded-dsv-marketplace', 'excluded', true, 'DSV marketplace', 'marketplace', 'contains', 'dsv'),
+    rule('excluded-dsv-program', 'excluded', true, 'DSV program', 'program', 'contains', 'dsv'),
+    rule('excluded-manual', 'excluded', true, 'Manual sales', 'marketplace', 'contains', 'manual'),
+    rule('excluded-transfer', 'excluded', true, 'Transfers', 'marketplace', 'contains', 'transfer'),
+    // SAMS - no check-in/PPS, refurb only when invoiced
+    rule('sams-client', 'sams', true, 'SAMS client source', 'clientSource', 'equals', 'sams'),
+    // Vendor pallets - expected HV refurb fee and special net dollars
+    rule('vendor-pallet', 'vendorPallet', true, 'Vendor pallet sorting index', 'sortingIndex', 'equals', 'vendor pallet'),
+  ],
+};
+
+// ============================================================================
+// REGISTRY - latest published rule set, loaded from Supabase
+// ============================================================================
+
+let activeRuleSet: FeeRuleSet = BUNDLED_FEE_RULE_SET;
+
+export const setActiveFeeRuleSet = (ruleSet: FeeRuleSet | null) => {
+  activeRuleSet = ruleSet ?? BUNDLED_FEE_RULE_SET;
+};
+
+export const getActiveFeeRuleSet = (): FeeRuleSet => activeRuleSet;
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+// Shared with the client marketplace/channel rules, which use their own field names
+export const matchesCondition = <F extends string>(
+  input: Partial<Record<F, string | null | undefined>>,
+  condition: { field: F; operator: FeeRuleOperator; value: string; matchCase?: boolean }
+): boolean => {
+  const raw = input[condition.field];
+  if (condition.operator === 'isBlank') return !raw || raw.trim() === '';
+  if (!raw) return false;
+
+  const value = condition.matchCase ? raw : raw.toLowerCase();
+  const target = condition.matchCase ? condition.value : condition.value.toLowerCase();
+  switch (condition.operator) {
+    case 'equals':
+      return value === target;
+    case 'contains':
+      return value.includes(target);
+    case 'startsWith':
+      return value.startsWith(target);
+  }
+};
+
+export const matchesRule = (input: FeeRuleInput, feeRule: FeeEligibilityRule): boolean =>
+  feeRule.conditions.length > 0 && feeRule.conditions.every(c => matchesCondition(input, c));
+
+// Resolve every flag; the first matching rule per flag decides it
+export const evaluateFeeFlags = (input: FeeRuleInput, ruleSet: FeeRuleSet = activeRuleSet): FeeFlags => {
+  const flags = { ...ruleSet.defaults };
+  const decided = new Set<FeeFlag>();
+  for (const feeRule of ruleSet.rules) {
+    if (decided.has(feeRule.flag)) continue;
+    if (matchesRule(input, feeRule)) {
+      flags[feeRule.flag] = feeRule.value;
+      decided.add(feeRule.flag);
+    }
+  }
+  return flags;
+};
+
+// Same as evaluateFeeFlags but reports every rule that matched, marking which one decided each flag
+export const explainFeeFlags = (
+  input: FeeRuleInput,
+  ruleSet: FeeRuleSet = activeRuleSet
+): { flags: FeeFlags; matched: { rule: FeeEligibilityRule; decided: boolean }[] } => {
+  const flags = { ...ruleSet.defaults };
+  const decided = new Set<FeeFlag>();
+  const matched: { rule: FeeEligibilityRule; decided: boolean }[] = [];
+  for (const feeRule of ruleSet.rules) {
+    if (!matchesRule(input, feeRule)) continue;
+    const decides = !decided.has(feeRule.flag);
+    if (decides) {
+      flags[feeRule.flag] = feeRule.value;
+      decided.add(feeRule.flag);
+    }
+    matched.push({ rule: feeRule, decided: decides });
+  }
+  return { flags, matched };
+};
@@ -0,0 +1,217 @@
+// Fee what-if scenarios for rate negotiations
+// Overrides are layered on top of whichever rate card a sale would normally be priced with
+
+import {
+  RateCardType,
+  RateCardEntry,
+  RateCardResolver,
+  RateCardSet,
+  CheckInLookup,
+  PPSLookup,
+  RefurbFeeLookup,
+  RefurbPctLookup,
+  buildLookup,
+  getRateCardEntries,
+  getRateCardsForDate,
+} from '@/lib/rateCards';
+import {
+  SaleRecord,
+  CalculatedFees,
+  FeeComponent,
+  calculateFeesForSale,
+  calculateNetDollarsForSale,
+} from '@/lib/feeCalculator';
+
+// 'set' replaces the price, 'adjust' adds to it (negative = cut).
+// RefurbPct prices are whole percents, e.g. set 3.5 = 3.5% of retail.
+export type RateOverrideMode = 'set' | 'adjust';
+
+export interface RateOverride {
+  id: string;
+  cardType: RateCardType;
+  category: string;   // prefix match, '' = any
+  program: string;    // prefix match, '' = any
+  condition: string;  // exact match (refurb only), '' = any
+  mode: RateOverrideMode;
+  value: number;
+}
+
+const matches = (entry: RateCardEntry, override: RateOverride): boolean => {
+  const category = override.category.trim().toLowerCase();
+  const program = override.program.trim().toLowerCase();
+  const condition = override.condition.trim().toUpperCase();
+  if (category && !(entry.category || '').toLowerCase().startsWith(category)) return false;
+  if (program && !(entry.program || '').toLowerCase().startsWith(program)) return false;
+  if (condition && (entry.condition || '') !== condition) return false;
+  return true;
+};
+
+// Apply every override for a card type; later overrides win over earlier ones
+export const applyRateOverrides = (
+  cardType: RateCardType,
+  entries: RateCardEntry[],
+  overrides: RateOverride[]
+): { entries: RateCardEntry[]; changed: number } => {
+  const relevant = overrides.filter(o => o.cardType === cardType && Number.isFinite(o.value));
+  if (relevant.length === 0) return { entries, changed: 0 };
+
+  let changed = 0;
+  const next = entries.map(entry => {
+    let price = entry.price;
+    for (const override of relevant) {
+      if (!matches(entry, override)) continue;
+      price = override.mode === 'set' ? override.value : price + override.value;
+    }
+    price = Math.max(0, price);
+    if (price === entry.price) return entry;
+    changed++;
+    return { ...entry, price };
+  });
+
+  return { entries: next, changed };
+};
+
+// Number of rate card entries each override touches on today's cards
+export const countOverrideMatches = (override: RateOverride): number => {
+  const cardId = getRateCardsForDate(null).cardIds[override.cardType];
+  return getRateCardEntries(override.cardType, cardId).filter(e => matches(e, override)).length;
+};
+
+// Resolver that prices sales with the overrides applied to whichever card is in force
+export const createScenarioResolver = (overrides: RateOverride[]): RateCardResolver => {
+  const cache = new Map<string, unknown>();
+
+  const overridden = <T>(cardType: RateCardType, cardId: string, base: T): T => {
+    if (!overrides.some(o => o.cardType === cardType)) return base;
+    const cacheKey = `${cardType}:${cardId}`;
+    if (!cache.has(cacheKey)) {
+      const { entries } = applyRateOverrides(cardType, getRateCardEntries(cardType, cardId), overrides);
+      cache.set(cacheKey, buildLookup(cardType, entries));
+    }
+    return cache.get(cacheKey) as T;
+  };
+
+  return (date, clientSource) => {
+    const base = getRateCardsForDate(date, clientSource);
+    const scenario: RateCardSet = {
+      checkIn: overridden<CheckInLookup>('CheckIn', base.cardIds.CheckIn, base.checkIn),
+      pps: overridden<PPSLookup>('PPS', base.cardIds.PPS, base.pps),
+      refurbFee: overridden<RefurbFeeLookup>('RefurbFee', base.cardIds.RefurbFee, base.refurbFee),
+      refurbPct: overridden<RefurbPctLookup>('RefurbPct', base.cardIds.RefurbPct, base.refurbPct),
+      cardIds: base.cardIds,
+    };
+    return scenario;
+  };
+};
+
+// ============================================================================
+// COMPARISON - baseline vs scenario over a set of sales
+// ============================================================================
+
+export interface ScenarioDeltaRow {
+  key: string;
+  units: number;
+  baselineFees: number;
+  scenarioFees: number;
+  delta: number;
+  baselineNet: number;
+  scenarioNet: number;
+}
+
+export interface ScenarioComparison {
+  baseline: { totalFees: number; netDollars: number };
+  scenario: { totalFees: number; netDollars: number };
+  byFeeType: ScenarioDeltaRow[];
+  byProgram: ScenarioDeltaRow[];
+  byCategory: ScenarioDeltaRow[];
+  unitsChanged: number;
+}
+
+const FEE_TYPE_ROWS: { key: string; component: FeeComponent }[] = [
+  { key: 'Check-In', component: 'checkInFee' },
+  { key: 'Refurb', component: 'refurbFee' },
+  { key: 'PPS', component: 'ppsFee' },
+];
+
+const addToGroup = (
+  groups: Record<string, ScenarioDeltaRow>,
+  key: string,
+  baseline: CalculatedFees,
+  scenario: CalculatedFees,
+  baselineNet: number,
+  scenarioNet: number
+) => {
+  if (!groups[key]) {
+    groups[key] = { key, units: 0, baselineFees: 0, scenarioFees: 0, delta: 0, baselineNet: 0, scenarioNet: 0 };
+  }
+  const group = groups[key];
+  group.units++;
+  group.baselineFees += baseline.totalFees;
+  group.scenarioFees += scenario.totalFees;
+  group.delta += scenario.totalFees - baseline.totalFees;
+  group.baselineNet += baselineNet;
+  group.scenarioNet += scenarioNet;
+};
+
+const byLargestDelta = (groups: Record<string, ScenarioDeltaRow>) =>
+  Object.values(groups)
+    .filter(g => Math.abs(g.delta) >= 0.005)
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+
+// Recompute fees and net dollars with and without the overrides
+export const compareScenario = (sales: SaleRecord[], overrides: RateOverride[]): ScenarioComparison => {
+  const resolveScenario = createScenarioResolver(overrides);
+
+  const baselineTotals = { totalFees: 0, netDollars: 0 };
+  const scenarioTotals = { totalFees: 0, netDollars: 0 };
+  const feeTypeTotals = FEE_TYPE_ROWS.map(() => ({ units: 0, baselineFees: 0, scenarioFees: 0 }));
+  const byProgram: Record<string, ScenarioDeltaRow> = {};
+  const byCategory: Record<string, ScenarioDeltaRow> = {};
+  let unitsChanged = 0;
+
+  // One pricing per sale and rate set; the totals and the groups both come from it
+  for (const sale of sales) {
+    const baseline = calculateFeesForSale(sale);
+    const scenario = calculateFeesForSale(sale, undefined, resolveScenario);
+    const baselineNet = calculateNetDollarsForSale(sale, baseline);
+    const scenarioNet = calculateNetDollarsForSale(sale, scenario);
+
+    baselineTotals.totalFees += baseline.totalFees;
+    baselineTotals.netDollars += baselineNet;
+    scenarioTotals.totalFees += scenario.totalFees;
+    scenarioTotals.netDollars += scenarioNet;
+    FEE_TYPE_ROWS.forEach((row, i) => {
+      const totals = feeTypeTotals[i];
+      totals.baselineFees += baseline[row.component];
+      totals.scenarioFees += scenario[row.component];
+      if (scenario[row.component] !== baseline[row.component]) totals.units++;
+    });
+
+    if (scenario.totalFees === baseline.totalFees) continue;
+    unitsChanged++;
+    addToGroup(byProgram, sale.program_name || 'Unknown', baseline, scenario, baselineNet, scenarioNet);
+    addToGroup(byCategory, sale.category_name || 'Unknown', baseline, scenario, baselineNet, scenarioNet);
+  }
+
+  const byFeeType: ScenarioDeltaRow[] = FEE_TYPE_ROWS.map((row, i) => {
+    const { units, baselineFees, scenarioFees } = feeTypeTotals[i];
+    return {
+      key: row.key,
+      units,
+      baselineFees,
+      scenarioFees,
+      delta: scenarioFees - baselineFees,
+      baselineNet: 0,
+      scenarioNet: 0,
+    };
+  });
+
+  return {
+    baseline: baselineTotals,
+    scenario: scenarioTotals,
+    byFeeType,
+    byProgram: byLargestDelta(byProgram),
+    byCategory: byLargestDelta(byCategory),
+    unitsChanged,
+  };
+};
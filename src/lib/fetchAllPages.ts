@@ -0,0 +1,23 @@
+// Page through a Supabase query past the 1000 row limit.
+// fetchPage builds the query for rows from..to; the query needs a stable ORDER BY for the pages to line up.
+
+const PAGE_SIZE = 1000;
+
+export async function fetchAllPages<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: Error | null }>
+): Promise<T[]> {
+  const allData: T[] = [];
+  let from = 0;
+
+  while (true) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    if (!data || data.length === 0) break;
+    allData.push(...(data as T[]));
+
+    if (data.length < PAGE_SIZE) break;
+    from += PAGE_SIZE;
+  }
+
+  return allData;
+}
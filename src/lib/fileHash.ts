@@ -0,0 +1,28 @@
+// Content hashes for duplicate upload detection
+// SubtleCrypto can only digest a whole buffer, so large files are hashed as a list: SHA-256 of each
+// 8MB slice, then SHA-256 of those digests. Memory stays at one slice however big the file is.
+// The same bytes always give the same hash, whatever the file is called.
+
+const HASH_CHUNK_SIZE = 8 * 1024 * 1024;
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+
+export async function hashFile(file: Blob, onProgress?: (percent: number) => void): Promise<string> {
+  const digests: Uint8Array[] = [];
+  for (let offset = 0; offset < file.size; offset += HASH_CHUNK_SIZE) {
+    const chunk = await file.slice(offset, offset + HASH_CHUNK_SIZE).arrayBuffer();
+    digests.push(new Uint8Array(await crypto.subtle.digest('SHA-256', chunk)));
+    onProgress?.(Math.min(((offset + HASH_CHUNK_SIZE) / file.size) * 100, 100));
+  }
+
+  const combined = new Uint8Array(digests.length * 32);
+  digests.forEach((digest, i) => combined.set(digest, i * 32));
+  return toHex(await crypto.subtle.digest('SHA-256', combined));
+}
+
+// Order-independent hash of a set of TRGIDs: the same units give the same hash whatever the layout
+export async function hashTrgids(trgids: string[]): Promise<string> {
+  const text = [...new Set(trgids)].sort().join('\n');
+  return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+}
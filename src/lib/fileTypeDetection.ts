@@ -0,0 +1,166 @@
+// File type detection for uploads
+// The exports are told apart by their header row: each file type has signature columns (a Sales
+// export has OrderClosedDate and a sale price, an Inbound export has ReceivedOn, ...). Every type
+// scores the signature columns the file has, and the file name only breaks a tie. A file whose columns
+// match no type, or match several equally with no name to decide, is Unknown and the user is asked.
+
+import type { Database } from '@/integrations/supabase/types';
+import { MappedUnitField, UNIT_COLUMN_FIELDS, detectColumns } from '@/lib/columnMapping';
+
+// Monthly is never detected; it is what the Monthly upload zone labels a Sales export
+export type DetectableFileType = Exclude<Database['public']['Enums']['file_type'], 'Monthly' | 'Unknown'>;
+
+export type FileTypeConfidence = 'high' | 'medium' | 'low' | 'none';
+
+export interface FileTypeDetection {
+  fileType: DetectableFileType | 'Unknown';
+  confidence: FileTypeConfidence;
+  reasons: string[]; // why, in plain words, for the upload dialogs
+  candidates: DetectableFileType[]; // best-scoring types, best first; what the user picks from when Unknown
+}
+
+// What the file type prompt is asked when detection gives up; it answers with a type or null (cancel)
+export interface FileTypeRequest {
+  fileName: string;
+  headers: string[];
+  detection: FileTypeDetection;
+}
+
+// How an upload's type was settled
+export interface FileTypeChoice {
+  fileType: DetectableFileType; // what the rows are; decides which tables they are written to
+  detection: FileTypeDetection;
+  pickedByUser: boolean; // detection gave up and the prompt answered
+}
+
+export const DETECTABLE_FILE_TYPES: DetectableFileType[] = ['Sales', 'Inbound', 'SLA', 'Production', 'Outbound', 'Inventory'];
+
+interface FileTypeSignature {
+  fileType: DetectableFileType;
+  key: MappedUnitField[]; // the columns the export is about
+  supporting: MappedUnitField[]; // columns it usually has besides
+}
+
+const KEY_WEIGHT = 3;
+const SUPPORTING_WEIGHT = 1;
+// A lead of at least one key column is a clear call; less is only likely
+const HIGH_CONFIDENCE_MARGIN = KEY_WEIGHT;
+
+const SIGNATURES: FileTypeSignature[] = [
+  {
+    fileType: 'Sales',
+    key: ['orderClosedDate', 'salePrice'],
+    supporting: ['refundAmount', 'marketplaceProfileSoldOn', 'orderTypeSoldOn', 'b2cAuction', 'tagEbayAuctionSale'],
+  },
+  { fileType: 'Inbound', key: ['receivedOn'], supporting: [] },
+  { fileType: 'SLA', key: ['checkedInOn'], supporting: [] },
+  { fileType: 'Production', key: ['testedOn'], supporting: ['firstListedDate'] },
+  {
+    fileType: 'Outbound',
+    key: ['pickPackShipFee', 'shipDate'],
+    supporting: ['carrier', 'trackingNumber', 'shippingCost', 'checkInFee', 'packagingFee', 'refurbishingFee', 'marketplaceFee'],
+  },
+  { fileType: 'Inventory', key: ['locationId', 'daysOnHand'], supporting: ['inventoryStage', 'facility', 'productStatus'] },
+];
+
+// What the file name says, if anything: the type's name or a word that usually goes with it
+export function fileTypeFromName(fileName: string): DetectableFileType | null {
+  const lowerName = fileName.toLowerCase();
+
+  if (lowerName.includes('checked in') || lowerName.includes('checked_in') || lowerName.includes('checkedin') || lowerName.includes('sla')) return 'SLA';
+  if (lowerName.includes('received') || lowerName.includes('inbound')) return 'Inbound';
+  if (lowerName.includes('sales')) return 'Sales';
+  if (lowerName.includes('outbound')) return 'Outbound';
+  if (lowerName.includes('inventory')) return 'Inventory';
+  if (lowerName.includes('production') || lowerName.includes('processing')) return 'Production';
+
+  if (lowerName.includes('recv') || lowerName.includes('receipt')) return 'Inbound';
+  if (lowerName.includes('ship') || lowerName.includes('fulfill')) return 'Outbound';
+  if (lowerName.includes('order') || lowerName.includes('sold')) return 'Sales';
+  if (lowerName.includes('test') || lowerName.includes('list')) return 'Production';
+  if (lowerName.includes('stock') || lowerName.includes('wip')) return 'Inventory';
+
+  return null;
+}
+
+const listHeaders = (headers: string[]) =>
+  headers.length <= 2 ? headers.join(' and ') : `${headers.slice(0, -1).join(', ')} and ${headers[headers.length - 1]}`;
+
+// Type of an export from its header row, with the file name as tie-breaker
+export function detectFileType(headers: string[], fileName: string): FileTypeDetection {
+  // Exact and normalized matches only; a partial match is too loose to decide on
+  const present = new Map<MappedUnitField, string>();
+  for (const column of detectColumns(headers)) {
+    if (column.header && column.confidence !== 'partial') present.set(column.field, column.header);
+  }
+  const label = (field: MappedUnitField) => present.get(field) ?? UNIT_COLUMN_FIELDS.find(f => f.field === field)?.label ?? field;
+
+  const scored = SIGNATURES.map(signature => {
+    const key = signature.key.filter(field => present.has(field));
+    const supporting = signature.supporting.filter(field => present.has(field));
+    return {
+      fileType: signature.fileType,
+      score: key.length * KEY_WEIGHT + supporting.length * SUPPORTING_WEIGHT,
+      key: key.map(label),
+      supporting: supporting.map(label),
+    };
+  })
+    // Stable: equal scores keep signature order
+    .sort((a, b) => b.score - a.score);
+
+  const best = scored[0];
+  const tied = scored.filter(s => s.score === best.score && s.score > 0);
+  const nameType = fileTypeFromName(fileName);
+  const evidence = (s: (typeof scored)[number]) =>
+    s.key.length > 0
+      ? `has ${listHeaders(s.key)}${s.supporting.length > 0 ? `, with ${listHeaders(s.supporting)}` : ''}`
+      : `has ${listHeaders(s.supporting)}`;
+
+  if (best.score === 0) {
+    // Nothing in the columns to go on; the name is all there is
+    if (nameType) {
+      return {
+        fileType: nameType,
+        confidence: 'low',
+        reasons: ['None of the columns identify a file type', `The file name suggests ${nameType}`],
+        candidates: [nameType],
+      };
+    }
+    return {
+      fileType: 'Unknown',
+      confidence: 'none',
+      reasons: ['None of the columns identify a file type, and the file name does not either'],
+      candidates: [...DETECTABLE_FILE_TYPES],
+    };
+  }
+
+  if (tied.length > 1) {
+    const reasons = [`The columns fit ${listHeaders(tied.map(s => s.fileType))} equally: ${tied.map(s => `${s.fileType} ${evidence(s)}`).join('; ')}`];
+    const byName = tied.find(s => s.fileType === nameType);
+    if (byName) {
+      return {
+        fileType: byName.fileType,
+        confidence: 'low',
+        reasons: [...reasons, `The file name suggests ${byName.fileType}`],
+        candidates: [byName.fileType, ...tied.filter(s => s !== byName).map(s => s.fileType)],
+      };
+    }
+    return {
+      fileType: 'Unknown',
+      confidence: 'none',
+      reasons: [...reasons, nameType ? `The file name suggests ${nameType}, which the columns do not fit` : 'The file name does not say which'],
+      candidates: tied.map(s => s.fileType),
+    };
+  }
+
+  const runnerUp = scored[1];
+  const reasons = [`${best.fileType}: ${evidence(best)}`];
+  if (runnerUp.score > 0) reasons.push(`Also fits ${runnerUp.fileType} less well (${evidence(runnerUp)})`);
+  if (nameType && nameType !== best.fileType) reasons.push(`The file name suggests ${nameType}; the columns decide`);
+  return {
+    fileType: best.fileType,
+    confidence: best.score - runnerUp.score >= HIGH_CONFIDENCE_MARGIN ? 'high' : 'medium',
+    reasons,
+    candidates: scored.filter(s => s.score > 0).map(s => s.fileType),
+  };
+}
@@ -0,0 +1,107 @@
+// Inventory snapshot history
+// Inventory files are kept as dated snapshots (inventory_snapshots, one row per unit per date), so work
+// in progress can be read for any past day. SQL does the grouping (get_inventory_snapshot_breakdown,
+// get_inventory_weekly_trend, compare_inventory_snapshots); this module orders and reshapes the results
+// for the Processing tab.
+
+import { format, parseISO } from 'date-fns';
+import { Database } from '@/integrations/supabase/types';
+
+type Functions = Database['public']['Functions'];
+type BreakdownResult = Functions['get_inventory_snapshot_breakdown']['Returns'][number];
+type TrendResult = Functions['get_inventory_weekly_trend']['Returns'][number];
+
+export type InventoryDimension = 'stage' | 'facility' | 'location' | 'aging';
+
+// Labels from inventory_aging_bucket(), youngest first
+export const AGING_BUCKETS = ['0-7 days', '8-14 days', '15-30 days', '31-60 days', '61-90 days', 'Over 90 days', 'Unknown'];
+export const AGED_BUCKET = 'Over 90 days';
+
+export type InventoryChange = 'arrived' | 'disappeared' | 'moved' | 'restaged' | 'unchanged';
+
+export const INVENTORY_CHANGES: { change: InventoryChange; label: string; description: string }[] = [
+  { change: 'arrived', label: 'Arrived', description: 'Only in the later snapshot' },
+  { change: 'disappeared', label: 'Disappeared', description: 'Only in the earlier snapshot' },
+  { change: 'moved', label: 'Moved', description: 'Different facility or location' },
+  { change: 'restaged', label: 'Changed stage', description: 'Same place, different stage' },
+  { change: 'unchanged', label: 'Unchanged', description: 'Same place and stage' },
+];
+
+// Snapshot dates are calendar days (yyyy-MM-dd)
+export const formatSnapshotDate = (date: string) => format(parseISO(date), 'EEE, MMM d, yyyy');
+
+export interface InventoryBreakdownRow {
+  label: string;
+  units: number;
+  unitsWithAge: number; // units whose days on hand are known
+  daysOnHandTotal: number;
+  retail: number;
+}
+
+export interface InventorySnapshotTotals {
+  units: number;
+  retail: number;
+  avgDaysOnHand: number | null; // over units with a known age
+  agedUnits: number; // over 90 days on hand
+}
+
+export const toBreakdownRows = (rows: BreakdownResult[] | null): InventoryBreakdownRow[] =>
+  (rows || []).map(row => ({
+    label: row.label,
+    units: Number(row.units) || 0,
+    unitsWithAge: Number(row.units_with_age) || 0,
+    daysOnHandTotal: Number(row.days_on_hand_total) || 0,
+    retail: Number(row.retail) || 0,
+  }));
+
+export const averageDaysOnHand = (row: Pick<InventoryBreakdownRow, 'unitsWithAge' | 'daysOnHandTotal'>): number | null =>
+  row.unitsWithAge > 0 ? row.daysOnHandTotal / row.unitsWithAge : null;
+
+// Age bands in age order rather than by size
+export const sortAgingRows = (rows: InventoryBreakdownRow[]): InventoryBreakdownRow[] =>
+  [...rows].sort((a, b) => AGING_BUCKETS.indexOf(a.label) - AGING_BUCKETS.indexOf(b.label));
+
+// Whole-snapshot figures from the aging breakdown (every unit is in exactly one band)
+export function summarizeSnapshot(agingRows: InventoryBreakdownRow[]): InventorySnapshotTotals {
+  const total = (key: 'units' | 'unitsWithAge' | 'daysOnHandTotal' | 'retail') =>
+    agingRows.reduce((sum, row) => sum + row[key], 0);
+  return {
+    units: total('units'),
+    retail: total('retail'),
+    avgDaysOnHand: averageDaysOnHand({ unitsWithAge: total('unitsWithAge'), daysOnHandTotal: total('daysOnHandTotal') }),
+    agedUnits: agingRows.find(row => row.label === AGED_BUCKET)?.units ?? 0,
+  };
+}
+
+export interface InventoryTrendPoint {
+  week: string; // WK label for the axis
+  weekStart: string; // yyyy-MM-dd, the Saturday
+  snapshotDate: string; // the week's last snapshot, which the counts are from
+  total: number;
+  [stage: string]: string | number;
+}
+
+// One point per week with a column per stage, plus the stages in order of their latest size
+export function pivotWeeklyTrend(rows: TrendResult[] | null): { points: InventoryTrendPoint[]; stages: string[] } {
+  const points = new Map<string, InventoryTrendPoint>();
+  for (const row of rows || []) {
+    let point = points.get(row.week_start);
+    if (!point) {
+      point = { week: `WK${row.wm_week}`, weekStart: row.week_start, snapshotDate: row.snapshot_date, total: 0 };
+      points.set(row.week_start, point);
+    }
+    const units = Number(row.units) || 0;
+    point[row.stage] = units;
+    point.total += units;
+  }
+
+  const ordered = [...points.values()].sort((a, b) => a.weekStart.localeCompare(b.weekStart));
+  const stageSet = new Set((rows || []).map(row => row.stage));
+  const latest = ordered[ordered.length - 1];
+  const stages = [...stageSet].sort((a, b) => (Number(latest?.[b]) || 0) - (Number(latest?.[a]) || 0));
+  // Weeks where a stage had no units still plot at zero
+  for (const point of ordered) {
+    for (const stage of stages) if (point[stage] === undefined) point[stage] = 0;
+  }
+  return { points: ordered, stages };
+}
@@ -1,55 +1,40 @@
 // Marketplace mapping logic from Power BI
-// This centralizes the logic so it can be used across all sales tabs
+// This centralizes the logic so it can be used across all sales tabs.
+// The rules themselves are per client - see lib/clients.ts
+
+import { applyMarketplaceRules, getClientConfig, getClientConfigs } from '@/lib/clients';
 
 export interface SaleRecord {
   marketplace_profile_sold_on: string | null;
   tag_ebay_auction_sale?: boolean | null;
   b2c_auction?: string | null;
+  order_type_sold_on?: string | null;
+  sorting_index?: string | null;
+  // Picks the client's mapping rules; null uses the default client's
+  tag_clientsource: string | null;
 }
 
 export const mapMarketplace = (sale: SaleRecord): string => {
-  const marketplaceSoldOn = sale.marketplace_profile_sold_on;
-  
-  // If blank/null/unknown → "Manual Sales"
-  if (!marketplaceSoldOn || marketplaceSoldOn.trim() === '' || marketplaceSoldOn.toLowerCase() === 'unknown') return 'Manual Sales';
-  
-  const lower = marketplaceSoldOn.toLowerCase();
-  
-  // Contains "DL" → "DirectLiquidation"
-  if (lower.includes('dl')) return 'DirectLiquidation';
-  
-  // Contains "whatnot" or "flashfindz" → "WhatNot"
-  if (lower.includes('whatnot') || lower.includes('flashfindz')) return 'WhatNot';
-  
-  // Contains "shopify" → "VIPOutlet"
-  if (lower.includes('shopify')) return 'VIPOutlet';
-  
-  // Contains "manual" → "Local Pickup"
-  if (lower.includes('manual')) return 'Local Pickup';
-  
-  // Contains "daily deals" → "eBay"
-  if (lower.includes('daily deals')) return 'eBay';
-  
-  // eBay Auction logic: Tag_eBayAuctionSale=TRUE or (B2CAuction="TRUE" && marketplace="eBay")
-  if (
-    sale.tag_ebay_auction_sale === true || 
-    (sale.b2c_auction === 'TRUE' && marketplaceSoldOn === 'eBay')
-  ) {
-    return 'eBay Auction';
-  }
-  
-  // Default: return original value
-  return marketplaceSoldOn;
+  return applyMarketplaceRules(getClientConfig(sale.tag_clientsource), {
+    marketplace: sale.marketplace_profile_sold_on,
+    orderType: sale.order_type_sold_on,
+    sortingIndex: sale.sorting_index,
+    ebayAuctionTag: sale.tag_ebay_auction_sale === true ? 'true' : null,
+    b2cAuction: sale.b2c_auction,
+  });
 };
 
+// Every client's name for a raw DB marketplace value; a raw value can map differently per client
+const mapForEveryClient = (raw: string | null): string[] =>
+  getClientConfigs().map(client => mapMarketplace({ marketplace_profile_sold_on: raw, tag_clientsource: client.code }));
+
 // Given a list of raw DB marketplace values, return the unique mapped names
 export const getMappedMarketplaceOptions = (rawMarketplaces: string[]): string[] => {
   const mapped = new Set<string>();
-  // Always include "Manual Sales" for null/blank/unknown values
-  mapped.add('Manual Sales');
+  // Always include the blank-marketplace bucket ("Manual Sales" for the bundled rules)
+  mapForEveryClient(null).forEach(name => mapped.add(name));
   rawMarketplaces.forEach(raw => {
-    const fakeSale: SaleRecord = { marketplace_profile_sold_on: raw };
-    mapped.add(mapMarketplace(fakeSale));
+    mapForEveryClient(raw).forEach(name => mapped.add(name));
   });
   return Array.from(mapped).sort();
 };
@@ -63,17 +48,15 @@ export const reverseMapMarketplaces = (
   if (mappedNames.length === 0) return null;
   
   const result: string[] = [];
-  const needsNull = mappedNames.includes('Manual Sales');
+  const needsNull = mapForEveryClient(null).some(name => mappedNames.includes(name));
   
   allRawMarketplaces.forEach(raw => {
-    const fakeSale: SaleRecord = { marketplace_profile_sold_on: raw };
-    const mapped = mapMarketplace(fakeSale);
-    if (mappedNames.includes(mapped)) {
+    if (mapForEveryClient(raw).some(name => mappedNames.includes(name))) {
       result.push(raw);
     }
   });
   
-  // "Manual Sales" also covers blank/null/unknown - add empty string
+  // The blank bucket also covers null/unknown - add empty string
   if (needsNull && !result.includes('')) {
     result.push('');
   }
@@ -0,0 +1,73 @@
+// Operations time zone
+// Export dates are calendar days at the facilities, and WM weeks are counted in that same zone,
+// whatever zone the browser, worker or server running the code is in. Dates handled here are wall
+// times: a Date whose local fields (getFullYear, getDate, getDay, getHours) read as the time in the
+// operations zone, so date-fns format() and the WM week helpers give operations days unchanged.
+// The zone is kept in operations_settings, which the SQL side (operations_date) reads as well.
+
+export const DEFAULT_OPERATIONS_TIME_ZONE = 'America/Chicago';
+
+// Offered in the settings picker; any IANA zone already stored is still honoured
+export const OPERATIONS_TIME_ZONES: { zone: string; label: string }[] = [
+  { zone: 'America/New_York', label: 'Eastern' },
+  { zone: 'America/Chicago', label: 'Central' },
+  { zone: 'America/Denver', label: 'Mountain' },
+  { zone: 'America/Phoenix', label: 'Arizona' },
+  { zone: 'America/Los_Angeles', label: 'Pacific' },
+  { zone: 'UTC', label: 'UTC' },
+];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// ============================================================================
+// REGISTRY - the zone loaded from Supabase (or handed to the upload worker)
+// ============================================================================
+
+let operationsTimeZone = DEFAULT_OPERATIONS_TIME_ZONE;
+
+export const setOperationsTimeZone = (timeZone: string | null | undefined) => {
+  operationsTimeZone = timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_OPERATIONS_TIME_ZONE;
+};
+
+export const getOperationsTimeZone = (): string => operationsTimeZone;
+
+// ============================================================================
+// WALL TIMES
+// ============================================================================
+
+// Wall time in the operations zone at an instant
+export function toOperationsTime(instant: Date, timeZone: string = operationsTimeZone): Date {
+  const parts = formatterFor(timeZone).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value ?? 0);
+  return new Date(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+}
+
+// Now at the facilities; for "today" and "this WM week"
+export const operationsNow = (): Date => toOperationsTime(new Date());
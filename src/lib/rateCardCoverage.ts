@@ -0,0 +1,98 @@
+// Rate card coverage diagnostics
+// A lookup miss silently prices a fee at $0 - collect every category/program(/condition)
+// that had no invoiced value and no rate card hit so finance can supply the missing rates
+
+import { toCSV } from '@/lib/csvWriter';
+import { SaleRecord, explainFeesForSale } from '@/lib/feeCalculator';
+
+export type CoverageFeeType = 'checkInFee' | 'refurbFee' | 'ppsFee';
+
+export const COVERAGE_FEE_LABELS: Record<CoverageFeeType, string> = {
+  checkInFee: 'Check-In',
+  refurbFee: 'Refurb',
+  ppsFee: 'PPS',
+};
+
+const COVERAGE_FEES: CoverageFeeType[] = ['checkInFee', 'refurbFee', 'ppsFee'];
+
+export interface CoverageRecord extends SaleRecord {
+  // Sales carry the unit's pricing condition; WIP units don't have one yet
+  tag_pricing_condition?: string | null;
+}
+
+export interface CoverageGap {
+  feeType: CoverageFeeType;
+  category: string;
+  program: string;
+  condition: string | null;
+  soldUnits: number;
+  wipUnits: number;
+  retailAtStake: number;
+  keysTried: string[];
+}
+
+// Walk the fee trace of every record and group lookup misses
+export const findCoverageGaps = (sales: CoverageRecord[], wipUnits: CoverageRecord[]): CoverageGap[] => {
+  const gaps = new Map<string, CoverageGap>();
+
+  const collect = (record: CoverageRecord, source: 'sold' | 'wip') => {
+    const { trace } = explainFeesForSale(record);
+    const retail = Number(trace.inputs.effectiveRetail) || 0;
+
+    for (const component of trace.components) {
+      const feeType = component.fee as CoverageFeeType;
+      if (!COVERAGE_FEES.includes(feeType)) continue;
+      // No keys tried = the fee doesn't apply (e.g. check-in outside RECLAIMS-OVERSTOCK)
+      if (component.rule !== 'no-match' || component.keysTried.length === 0) continue;
+
+      const category = record.category_name || '';
+      const program = record.program_name || '';
+      const condition = feeType === 'refurbFee' ? record.tag_pricing_condition?.toUpperCase() || null : null;
+      const key = `${feeType}|${category}|${program}|${condition ?? ''}`;
+
+      let gap = gaps.get(key);
+      if (!gap) {
+        gap = {
+          feeType,
+          category,
+          program,
+          condition,
+          soldUnits: 0,
+          wipUnits: 0,
+          retailAtStake: 0,
+          keysTried: component.keysTried,
+        };
+        gaps.set(key, gap);
+      }
+      if (source === 'sold') gap.soldUnits++;
+      else gap.wipUnits++;
+      gap.retailAtStake += retail;
+    }
+  };
+
+  sales.forEach(record => collect(record, 'sold'));
+  wipUnits.forEach(record => collect(record, 'wip'));
+
+  return Array.from(gaps.values()).sort(
+    (a, b) => b.soldUnits + b.wipUnits - (a.soldUnits + a.wipUnits) || b.retailAtStake - a.retailAtStake
+  );
+};
+
+// CSV for the finance request
+export const coverageGapsToCSV = (gaps: CoverageGap[]): string => {
+  const rows = [
+    ['Fee', 'Category', 'Program', 'Condition', 'Sold Units', 'WIP Units', 'Retail At Stake', 'Keys Tried'],
+    ...gaps.map(gap => [
+      COVERAGE_FEE_LABELS[gap.feeType],
+      gap.category,
+      gap.program,
+      gap.condition || '',
+      gap.soldUnits.toString(),
+      gap.wipUnits.toString(),
+      gap.retailAtStake.toFixed(2),
+      gap.keysTried.join(' | '),
+    ]),
+  ];
+
+  return toCSV(rows);
+};
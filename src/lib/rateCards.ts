@@ -0,0 +1,423 @@
+// Fee rate cards - versioned lookup tables with effective dates
+// Published versions live in Supabase (rate_cards / rate_card_entries).
+// The bundled CSVs are the legacy card, used for any date no published version covers.
+// Each client publishes its own versions; the bundled card is the fallback for every client.
+
+import { format } from 'date-fns';
+import { getClientConfig } from '@/lib/clients';
+import { operationsNow } from '@/lib/operationsTime';
+import { parseCSVRecords } from '@/lib/csvReader';
+import checkinData from '@/data/checkin.csv?raw';
+import ppsData from '@/data/pps.csv?raw';
+import refurbFeeData from '@/data/refurb_fee.csv?raw';
+import refurbPctData from '@/data/of_retail_ref.csv?raw';
+
+// Types
+export type RateCardType = 'CheckIn' | 'PPS' | 'RefurbFee' | 'RefurbPct';
+
+export const RATE_CARD_TYPES: RateCardType[] = ['CheckIn', 'PPS', 'RefurbFee', 'RefurbPct'];
+
+export const RATE_CARD_LABELS: Record<RateCardType, string> = {
+  CheckIn: 'Check-In',
+  PPS: 'PPS',
+  RefurbFee: 'Refurb Fee',
+  RefurbPct: 'Refurb % of Retail',
+};
+
+export const BUNDLED_RATE_CARD_ID = 'bundled';
+
+export interface CheckInLookup {
+  [key: string]: number;
+}
+
+export interface PPSLookup {
+  [key: string]: number;
+}
+
+export interface RefurbFeeLookup {
+  [key: string]: { type: 'dollar' | 'percent'; value: number };
+}
+
+export interface RefurbPctLookup {
+  [key: string]: number; // percentage as decimal
+}
+
+// One row of a rate card, in the shape stored in rate_card_entries
+export interface RateCardEntry {
+  key: string;
+  category: string | null;
+  program: string | null;
+  condition: string | null;
+  priceType: 'dollar' | 'percent';
+  price: number; // RefurbPct prices are whole percents (4 = 4%)
+}
+
+export interface RateCardVersion {
+  id: string;
+  clientSource: string;
+  cardType: RateCardType;
+  version: number;
+  effectiveFrom: string; // yyyy-MM-dd
+  effectiveTo: string | null; // inclusive, null = open-ended
+  entries: RateCardEntry[];
+  sourceFileName?: string | null;
+  notes?: string | null;
+  publishedAt?: string;
+}
+
+// The four lookups in force on a given date, plus the card ids they came from
+export interface RateCardSet {
+  checkIn: CheckInLookup;
+  pps: PPSLookup;
+  refurbFee: RefurbFeeLookup;
+  refurbPct: RefurbPctLookup;
+  cardIds: Record<RateCardType, string>;
+}
+
+// A row that was rejected (error) or left out of the card (skipped), by sheet line number
+export interface RateCardRowIssue {
+  line: number; // 1-based, the header is line 1
+  severity: 'error' | 'skipped';
+  message: string;
+  raw: string;
+}
+
+export interface RateCardParseResult {
+  entries: RateCardEntry[];
+  issues: RateCardRowIssue[];
+}
+
+// Column layout of each finance sheet
+interface SheetLayout {
+  header: string;
+  minFields: number;
+  keyIndex: number;
+  priceIndex: number;
+  toEntry: (fields: string[], key: string, price: number) => RateCardEntry;
+}
+
+// Parse helper to handle CSV price values ($4.00, 4%, 1,250.00). Null when not a number.
+export const parsePrice = (value: string): number | null => {
+  const cleaned = value.replace(/[$,%]/g, '').trim();
+  if (cleaned === '') return null;
+  const num = Number(cleaned);
+  return isNaN(num) ? null : num;
+};
+
+// Shared row loop for the rate card sheets.
+// Malformed rows are errors; zero prices and repeated keys with the same price are skipped,
+// which keeps them out of the lookups exactly as before.
+const parseSheet = (csv: string, layout: SheetLayout): RateCardParseResult => {
+  const records = parseCSVRecords(csv);
+  const entries: RateCardEntry[] = [];
+  const issues: RateCardRowIssue[] = [];
+  const seen = new Map<string, { line: number; entry: RateCardEntry }>();
+
+  const headerFields = (records[0]?.fields ?? ['']).map(f => f.trim());
+  if (headerFields.length < layout.minFields) {
+    issues.push({
+      line: records[0]?.line ?? 1,
+      severity: 'error',
+      message: `Header has ${headerFields.length} columns, expected ${layout.header}`,
+      raw: headerFields.join(','),
+    });
+    return { entries, issues };
+  }
+
+  for (const record of records.slice(1)) {
+    const fields = record.fields.map(f => f.trim());
+    if (fields.length === 1 && !fields[0]) continue;
+    const lineNumber = record.line;
+    const raw = fields.join(',');
+
+    if (fields.length < layout.minFields) {
+      issues.push({ line: lineNumber, severity: 'error', message: `Expected at least ${layout.minFields} columns, found ${fields.length}`, raw });
+      continue;
+    }
+
+    const key = fields[layout.keyIndex];
+    if (!key) {
+      issues.push({ line: lineNumber, severity: 'error', message: 'Missing lookup key', raw });
+      continue;
+    }
+
+    const price = parsePrice(fields[layout.priceIndex]);
+    if (price === null) {
+      issues.push({ line: lineNumber, severity: 'error', message: `Price "${fields[layout.priceIndex]}" is not a number`, raw });
+      continue;
+    }
+    if (price < 0) {
+      issues.push({ line: lineNumber, severity: 'error', message: `Negative price ${price}`, raw });
+      continue;
+    }
+    if (price === 0) {
+      issues.push({ line: lineNumber, severity: 'skipped', message: 'Zero price, row left out of the card', raw });
+      continue;
+    }
+
+    const entry = layout.toEntry(fields, key, price);
+    const previous = seen.get(key);
+    if (previous) {
+      if (previous.entry.price === entry.price && previous.entry.priceType === entry.priceType) {
+        issues.push({ line: lineNumber, severity: 'skipped', message: `Duplicate of line ${previous.line}`, raw });
+      } else {
+        issues.push({ line: lineNumber, severity: 'error', message: `Key already priced at ${previous.entry.price} on line ${previous.line}`, raw });
+      }
+      continue;
+    }
+
+    seen.set(key, { line: lineNumber, entry });
+    entries.push(entry);
+  }
+
+  return { entries, issues };
+};
+
+export const RATE_CARD_LAYOUTS: Record<RateCardType, SheetLayout> = {
+  // Check-In CSV: Category,Program,BasePriceType,Key,Price
+  CheckIn: {
+    header: 'Category,Program,BasePriceType,Key,Price',
+    minFields: 5,
+    keyIndex: 3,
+    priceIndex: 4,
+    toEntry: (fields, key, price) => ({
+      key, category: fields[0] || null, program: fields[1] || null, condition: null, priceType: 'dollar', price,
+    }),
+  },
+  // PPS CSV: Category,Program(s),key,BasePriceType,Price
+  PPS: {
+    header: 'Category,Program(s),key,BasePriceType,Price',
+    minFields: 5,
+    keyIndex: 2,
+    priceIndex: 4,
+    toEntry: (fields, key, price) => ({
+      key, category: fields[0] || null, program: fields[1] || null, condition: null, priceType: 'dollar', price,
+    }),
+  },
+  // Refurb Fee CSV: Category,Program(s),Key,BasePriceType,Price,Pricing Condition,...
+  RefurbFee: {
+    header: 'Category,Program(s),Key,BasePriceType,Price,Pricing Condition,...',
+    minFields: 5,
+    keyIndex: 2,
+    priceIndex: 4,
+    toEntry: (fields, key, price) => ({
+      key,
+      category: fields[0] || null,
+      program: fields[1] || null,
+      condition: fields[5]?.toUpperCase() || null,
+      priceType: fields[3]?.toLowerCase() === 'percent' ? 'percent' : 'dollar',
+      price,
+    }),
+  },
+  // % of Retail Refurb CSV: Category,Key,Program(s),Price
+  RefurbPct: {
+    header: 'Category,Key,Program(s),Price',
+    minFields: 4,
+    keyIndex: 1,
+    priceIndex: 3,
+    toEntry: (fields, key, price) => ({
+      key, category: fields[0] || null, program: fields[2] || null, condition: null, priceType: 'percent', price,
+    }),
+  },
+};
+
+export const parseCheckIn = (csv: string): RateCardParseResult => parseSheet(csv, RATE_CARD_LAYOUTS.CheckIn);
+
+export const parsePPS = (csv: string): RateCardParseResult => parseSheet(csv, RATE_CARD_LAYOUTS.PPS);
+
+export const parseRefurbFee = (csv: string): RateCardParseResult => parseSheet(csv, RATE_CARD_LAYOUTS.RefurbFee);
+
+export const parseRefurbPct = (csv: string): RateCardParseResult => parseSheet(csv, RATE_CARD_LAYOUTS.RefurbPct);
+
+export const RATE_CARD_PARSERS: Record<RateCardType, (csv: string) => RateCardParseResult> = {
+  CheckIn: parseCheckIn,
+  PPS: parsePPS,
+  RefurbFee: parseRefurbFee,
+  RefurbPct: parseRefurbPct,
+};
+
+// Convert entries into the key → price maps the fee calculator reads
+const toPriceLookup = (entries: RateCardEntry[]): Record<string, number> => {
+  const lookup: Record<string, number> = {};
+  for (const entry of entries) {
+    lookup[entry.key] = entry.price;
+  }
+  return lookup;
+};
+
+const toRefurbFeeLookup = (entries: RateCardEntry[]): RefurbFeeLookup => {
+  const lookup: RefurbFeeLookup = {};
+  for (const entry of entries) {
+    lookup[entry.key] = { type: entry.priceType, value: entry.price };
+  }
+  return lookup;
+};
+
+const toRefurbPctLookup = (entries: RateCardEntry[]): RefurbPctLookup => {
+  const lookup: RefurbPctLookup = {};
+  for (const entry of entries) {
+    lookup[entry.key] = entry.price / 100;
+  }
+  return lookup;
+};
+
+type AnyLookup = CheckInLookup | PPSLookup | RefurbFeeLookup | RefurbPctLookup;
+
+export const buildLookup = (cardType: RateCardType, entries: RateCardEntry[]): AnyLookup => {
+  switch (cardType) {
+    case 'RefurbFee':
+      return toRefurbFeeLookup(entries);
+    case 'RefurbPct':
+      return toRefurbPctLookup(entries);
+    default:
+      return toPriceLookup(entries);
+  }
+};
+
+// ============================================================================
+// REGISTRY - published versions loaded from Supabase, resolved by date
+// ============================================================================
+
+const BUNDLED_SHEETS: Record<RateCardType, string> = {
+  CheckIn: checkinData,
+  PPS: ppsData,
+  RefurbFee: refurbFeeData,
+  RefurbPct: refurbPctData,
+};
+
+let bundledEntries: Record<RateCardType, RateCardEntry[]> | null = null;
+let publishedVersions: RateCardVersion[] = [];
+const lookupCache = new Map<string, AnyLookup>();
+
+// Entries of the bundled (legacy) card for a type
+export const getBundledEntries = (cardType: RateCardType): RateCardEntry[] => {
+  if (!bundledEntries) {
+    bundledEntries = {
+      CheckIn: parseCheckIn(BUNDLED_SHEETS.CheckIn).entries,
+      PPS: parsePPS(BUNDLED_SHEETS.PPS).entries,
+      RefurbFee: parseRefurbFee(BUNDLED_SHEETS.RefurbFee).entries,
+      RefurbPct: parseRefurbPct(BUNDLED_SHEETS.RefurbPct).entries,
+    };
+    console.log('Bundled rate cards parsed:', {
+      checkIn: bundledEntries.CheckIn.length,
+      pps: bundledEntries.PPS.length,
+      refurbFee: bundledEntries.RefurbFee.length,
+      refurbPct: bundledEntries.RefurbPct.length,
+    });
+  }
+  return bundledEntries[cardType];
+};
+
+// Replace the published versions used for date resolution
+export const setRateCardVersions = (versions: RateCardVersion[]) => {
+  publishedVersions = versions;
+  lookupCache.clear();
+};
+
+export const getRateCardVersions = (): RateCardVersion[] => publishedVersions;
+
+// Find a client's published version of a card type in force on a date (null = bundled).
+// No client means the one picked in the header switcher.
+export const findRateCardVersion = (
+  cardType: RateCardType,
+  date: string,
+  clientSource?: string | null
+): RateCardVersion | null => {
+  const client = getClientConfig(clientSource).code;
+  let match: RateCardVersion | null = null;
+  for (const v of publishedVersions) {
+    if (v.cardType !== cardType || v.clientSource !== client) continue;
+    if (v.effectiveFrom > date) continue;
+    if (v.effectiveTo !== null && v.effectiveTo < date) continue;
+    // Overlapping versions: the highest version number wins
+    if (!match || v.version > match.version) match = v;
+  }
+  return match;
+};
+
+const getLookup = (cardType: RateCardType, version: RateCardVersion | null): AnyLookup => {
+  const cacheKey = version ? version.id : `${BUNDLED_RATE_CARD_ID}:${cardType}`;
+  let lookup = lookupCache.get(cacheKey);
+  if (!lookup) {
+    lookup = buildLookup(cardType, version ? version.entries : getBundledEntries(cardType));
+    lookupCache.set(cacheKey, lookup);
+  }
+  return lookup;
+};
+
+// Resolves the rate cards to price a sale with - swapped out by what-if scenarios
+export type RateCardResolver = (date: string | null | undefined, clientSource?: string | null) => RateCardSet;
+
+// Resolve a client's four lookups in force on a date (yyyy-MM-dd). Undated sales use today's cards,
+// today being the operations zone's day like every other date we store.
+export const getRateCardsForDate = (date: string | null | undefined, clientSource?: string | null): RateCardSet => {
+  const day = date ? date.slice(0, 10) : format(operationsNow(), 'yyyy-MM-dd');
+
+  const checkIn = findRateCardVersion('CheckIn', day, clientSource);
+  const pps = findRateCardVersion('PPS', day, clientSource);
+  const refurbFee = findRateCardVersion('RefurbFee', day, clientSource);
+  const refurbPct = findRateCardVersion('RefurbPct', day, clientSource);
+
+  return {
+    checkIn: getLookup('CheckIn', checkIn) as CheckInLookup,
+    pps: getLookup('PPS', pps) as PPSLookup,
+    refurbFee: getLookup('RefurbFee', refurbFee) as RefurbFeeLookup,
+    refurbPct: getLookup('RefurbPct', refurbPct) as RefurbPctLookup,
+    cardIds: {
+      CheckIn: checkIn?.id ?? BUNDLED_RATE_CARD_ID,
+      PPS: pps?.id ?? BUNDLED_RATE_CARD_ID,
+      RefurbFee: refurbFee?.id ?? BUNDLED_RATE_CARD_ID,
+      RefurbPct: refurbPct?.id ?? BUNDLED_RATE_CARD_ID,
+    },
+  };
+};
+
+// Entries behind a card id as reported in RateCardSet.cardIds
+export const getRateCardEntries = (cardType: RateCardType, cardId: string): RateCardEntry[] => {
+  if (cardId === BUNDLED_RATE_CARD_ID) return getBundledEntries(cardType);
+  return publishedVersions.find(v => v.id === cardId)?.entries ?? [];
+};
+
+// Client's version in force today for a card type (null = bundled) with its entries
+export const getCurrentRateCard = (
+  cardType: RateCardType,
+  clientSource?: string | null
+): { version: RateCardVersion | null; entries: RateCardEntry[] } => {
+  const version = findRateCardVersion(cardType, format(operationsNow(), 'yyyy-MM-dd'), clientSource);
+  return { version, entries: version ? version.entries : getBundledEntries(cardType) };
+};
+
+// ============================================================================
+// DIFF - row-level comparison of a new sheet against the current card
+// ============================================================================
+
+export interface RateCardDiff {
+  added: RateCardEntry[];
+  removed: RateCardEntry[];
+  changed: { key: string; before: RateCardEntry; after: RateCardEntry }[];
+  unchangedCount: number;
+}
+
+export const diffRateCardEntries = (current: RateCardEntry[], next: RateCardEntry[]): RateCardDiff => {
+  const currentByKey = new Map(current.map(e => [e.key, e]));
+  const nextKeys = new Set<string>();
+  const diff: RateCardDiff = { added: [], removed: [], changed: [], unchangedCount: 0 };
+
+  for (const entry of next) {
+    nextKeys.add(entry.key);
+    const before = currentByKey.get(entry.key);
+    if (!before) {
+      diff.added.push(entry);
+    } else if (before.price !== entry.price || before.priceType !== entry.priceType) {
+      diff.changed.push({ key: entry.key, before, after: entry });
+    } else {
+      diff.unchangedCount++;
+    }
+  }
+
+  for (const entry of current) {
+    if (!nextKeys.has(entry.key)) diff.removed.push(entry);
+  }
+
+  return diff;
+};
@@ -0,0 +1,88 @@
+// Row-level upload issues
+// The unit parser reports every value it could not use: rows rejected outright (no TRGID) and values
+// it had to drop or guess at (unreadable dates, non-numeric prices). Counts cover the whole file;
+// the rows themselves are kept up to a cap, so a badly mapped column cannot flood the table.
+
+import { toCSV } from '@/lib/csvWriter';
+
+export type RowIssueSeverity = 'rejected' | 'warning';
+
+export interface RowIssue {
+  line: number; // 1-based line in the file where the row starts
+  trgid: string | null;
+  column: string | null; // header as it appears in the file
+  value: string; // raw cell value
+  reason: string;
+  severity: RowIssueSeverity;
+}
+
+export interface RowIssueSummary {
+  total: number;
+  rejected: number; // rows not saved at all
+  warnings: number; // values saved as empty or only partly read
+  byReason: Record<string, number>;
+  truncated: boolean; // more issues than MAX_STORED_ROW_ISSUES; only the first ones are kept
+}
+
+export interface RowIssueLog {
+  add: (issue: RowIssue) => void;
+  summary: () => RowIssueSummary;
+  issues: () => RowIssue[];
+}
+
+export const MAX_STORED_ROW_ISSUES = 10000;
+
+export const ROW_ISSUE_REASONS = {
+  missingTrgid: 'Missing TRGID',
+  invalidDate: 'Unrecognized date',
+  invalidNumber: 'Not a number',
+  partialNumber: 'Only the leading number was read',
+} as const;
+
+export function createRowIssueLog(limit = MAX_STORED_ROW_ISSUES): RowIssueLog {
+  const issues: RowIssue[] = [];
+  const byReason: Record<string, number> = {};
+  let total = 0;
+  let rejected = 0;
+
+  return {
+    add: issue => {
+      total++;
+      if (issue.severity === 'rejected') rejected++;
+      byReason[issue.reason] = (byReason[issue.reason] || 0) + 1;
+      if (issues.length < limit) issues.push(issue);
+    },
+    summary: () => ({
+      total,
+      rejected,
+      warnings: total - rejected,
+      byReason: { ...byReason },
+      truncated: total > issues.length,
+    }),
+    issues: () => issues,
+  };
+}
+
+export const emptyRowIssueSummary = (): RowIssueSummary => ({
+  total: 0,
+  rejected: 0,
+  warnings: 0,
+  byReason: {},
+  truncated: false,
+});
+
+export const rowIssuesToCSV = (issues: RowIssue[]): string => {
+  const rows = [
+    ['Line', 'TRGID', 'Column', 'Value', 'Reason', 'Severity'],
+    ...issues.map(issue => [
+      issue.line.toString(),
+      issue.trgid || '',
+      issue.column || '',
+      issue.value,
+      issue.reason,
+      issue.severity === 'rejected' ? 'Rejected' : 'Warning',
+    ]),
+  ];
+
+  return toCSV(rows);
+};
@@ -0,0 +1,96 @@
+// Stored fee breakdown per sale (sale_fees table)
+// Every sale is priced once with the full calculator and saved with the rate cards and rule
+// set version that priced it; a row is stale when either no longer matches what is in force.
+
+import { SaleRecord, calculateFeesForSale, calculateNetDollarsForSale } from '@/lib/feeCalculator';
+import { getRateCardsForDate } from '@/lib/rateCards';
+import { getActiveFeeRuleSet } from '@/lib/feeRules';
+
+export interface SaleFeeSource extends SaleRecord {
+  trgid: string;
+  wm_week?: number | null;
+}
+
+// Columns that say how a stored row was priced
+export interface SaleFeeProvenance {
+  check_in_rate_card_id: string;
+  pps_rate_card_id: string;
+  refurb_fee_rate_card_id: string;
+  refurb_pct_rate_card_id: string;
+  fee_rule_set_version: number;
+}
+
+export interface SaleFeeRow extends SaleFeeProvenance {
+  trgid: string;
+  order_closed_date: string | null;
+  wm_week: number | null;
+  program_name: string | null;
+  category_name: string | null;
+  facility: string | null;
+  tag_clientsource: string | null;
+  check_in_fee: number;
+  refurb_fee: number;
+  overbox_fee: number;
+  packaging_fee: number;
+  pps_fee: number;
+  shipping_fee: number;
+  merchant_fee: number;
+  revshare_fee: number;
+  third_party_mp_fee: number;
+  marketing_fee: number;
+  refund_fee: number;
+  total_fees: number;
+  net_dollars: number;
+  calculated_at: string;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Rate cards and rule set a sale would be priced with right now
+export const getCurrentProvenance = (sale: SaleRecord): SaleFeeProvenance => {
+  const { cardIds } = getRateCardsForDate(sale.order_closed_date, sale.tag_clientsource);
+  return {
+    check_in_rate_card_id: cardIds.CheckIn,
+    pps_rate_card_id: cardIds.PPS,
+    refurb_fee_rate_card_id: cardIds.RefurbFee,
+    refurb_pct_rate_card_id: cardIds.RefurbPct,
+    fee_rule_set_version: getActiveFeeRuleSet().version,
+  };
+};
+
+export const isSaleFeeRowStale = (stored: SaleFeeProvenance | undefined, sale: SaleRecord): boolean => {
+  if (!stored) return true;
+  const current = getCurrentProvenance(sale);
+  return (Object.keys(current) as (keyof SaleFeeProvenance)[]).some(key => stored[key] !== current[key]);
+};
+
+// Price a sale with the published cards and rules and shape it as a sale_fees row
+export const buildSaleFeeRow = (sale: SaleFeeSource): SaleFeeRow => {
+  const fees = calculateFeesForSale(sale);
+  const netDollars = calculateNetDollarsForSale(sale, fees);
+
+  return {
+    trgid: sale.trgid,
+    order_closed_date: sale.order_closed_date ?? null,
+    wm_week: sale.wm_week ?? null,
+    program_name: sale.program_name,
+    category_name: sale.category_name,
+    facility: sale.facility,
+    tag_clientsource: sale.tag_clientsource ?? null,
+    check_in_fee: round2(fees.checkInFee),
+    refurb_fee: round2(fees.refurbFee),
+    overbox_fee: round2(fees.overboxFee),
+    packaging_fee: round2(fees.packagingFee),
+    pps_fee: round2(fees.ppsFee),
+    shipping_fee: round2(fees.shippingFee),
+    merchant_fee: round2(fees.merchantFee),
+    revshare_fee: round2(fees.revshareFee),
+    third_party_mp_fee: round2(fees.thirdPartyMPFee),
+    marketing_fee: round2(fees.marketingFee),
+    refund_fee: round2(fees.refundFee),
+    total_fees: round2(fees.totalFees),
+    net_dollars: round2(netDollars),
+    calculated_at: new Date().toISOString(),
+    ...getCurrentProvenance(sale),
+  };
+};
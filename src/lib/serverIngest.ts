@@ -0,0 +1,392 @@
+// Ingest without a browser
+// The parts of an upload that do not depend on where the file comes from: picking sheets and a
+// column mapping the way the upload wizard would, streaming rows through the shared parser, and writing
+// each batch through the shared batch writer (src/lib/uploadBatches.ts) as soon as it is parsed, with a
+// Supabase client passed in by the caller. Only a workbook is held in memory, while it is converted.
+// Used by the ingest-upload edge function and the ingest CLI (src/cli/ingest.ts); browser uploads go
+// through useFileUpload, which calls the same writer with its own retry and concurrency.
+
+import * as XLSX from 'xlsx';
+import type { Database } from '@/integrations/supabase/types';
+import { parseCSVFile, ParsedUnit } from '@/lib/csvParser';
+import { CSVSource, readCSVHeader } from '@/lib/csvReader';
+import { autoColumnMapping, ColumnMapping, getHeaderSignature } from '@/lib/columnMapping';
+import { defaultSheetSelection, getFileNamePattern, isExcelFileName, mismatchedSheets } from '@/lib/excelSheets';
+import { listSheets, sheetsToCSV } from '@/lib/excelWorkbook';
+import { createRowIssueLog, RowIssue, RowIssueLog } from '@/lib/rowIssues';
+import { detectFileType, FileTypeDetection } from '@/lib/fileTypeDetection';
+import { hashTrgids } from '@/lib/fileHash';
+import { fetchAllPages } from '@/lib/fetchAllPages';
+import { parseFileBusinessDate } from '@/lib/wmWeek';
+import { setOperationsTimeZone } from '@/lib/operationsTime';
+import { shapeUploadBatch, UploadBatchContext } from '@/lib/uploadRecords';
+import { UploadClient, writeUploadBatch } from '@/lib/uploadBatches';
+import {
+  BUNDLED_CHANNEL_RULES,
+  BUNDLED_DEFAULT_CHANNEL,
+  BUNDLED_MARKETPLACE_RULES,
+  ChannelRule,
+  MarketplaceMappingRule,
+  setClientConfigs,
+} from '@/lib/clients';
+import { RateCardType, setRateCardVersions } from '@/lib/rateCards';
+import { BUNDLED_FEE_RULE_SET, FeeEligibilityRule, FeeRuleSet, setActiveFeeRuleSet } from '@/lib/feeRules';
+
+export type IngestClient = UploadClient;
+
+export const INGEST_BATCH_SIZE = 500; // same as browser uploads
+const PAGE_SIZE = 1000;
+const RETRY_ROUNDS = 2; // extra attempts for a failed batch
+
+// Storage and PostgREST errors are plain objects with a message
+export const ingestErrorMessage = (error: unknown): string =>
+  error && typeof error === 'object' && 'message' in error ? String(error.message) : String(error);
+
+// ============================================================================
+// FEE REGISTRIES - what useClients / useRateCards / useFeeRules register in the browser
+// ============================================================================
+
+async function loadClients(supabase: IngestClient) {
+  const { data, error } = await supabase.from('clients').select('*').order('code', { ascending: true });
+  if (error) throw error;
+
+  setClientConfigs((data || []).map(row => ({
+    code: row.code,
+    name: row.name,
+    marketplaceRules: (row.marketplace_rules as unknown as MarketplaceMappingRule[] | null) ?? BUNDLED_MARKETPLACE_RULES,
+    channelRules: (row.channel_rules as unknown as ChannelRule[] | null) ?? BUNDLED_CHANNEL_RULES,
+    defaultChannel: row.default_channel || BUNDLED_DEFAULT_CHANNEL,
+  })));
+}
+
+async function loadRateCards(supabase: IngestClient) {
+  const { data: cards, error } = await supabase
+    .from('rate_cards')
+    .select('*')
+    .order('effective_from', { ascending: true });
+  if (error) throw error;
+  if (!cards || cards.length === 0) {
+    setRateCardVersions([]);
+    return;
+  }
+
+  const entries = await fetchAllPages<Database['public']['Tables']['rate_card_entries']['Row']>((from, to) =>
+    supabase
+      .from('rate_card_entries')
+      .select('*')
+      .in('rate_card_id', cards.map(c => c.id))
+      .order('id', { ascending: true })
+      .range(from, to)
+  );
+
+  setRateCardVersions(cards.map(card => ({
+    id: card.id,
+    clientSource: card.client_source,
+    cardType: card.card_type as RateCardType,
+    version: card.version,
+    effectiveFrom: card.effective_from,
+    effectiveTo: card.effective_to,
+    sourceFileName: card.source_file_name,
+    notes: card.notes,
+    publishedAt: card.published_at,
+    entries: entries
+      .filter(e => e.rate_card_id === card.id)
+      .map(e => ({
+        key: e.lookup_key,
+        category: e.category,
+        program: e.program,
+        condition: e.pricing_condition,
+        priceType: e.price_type === 'percent' ? 'percent' : 'dollar',
+        price: Number(e.price) || 0,
+      })),
+  })));
+}
+
+async function loadFeeRules(supabase: IngestClient) {
+  const { data, error } = await supabase
+    .from('fee_rule_sets')
+    .select('*')
+    .order('version', { ascending: false })
+    .limit(1);
+  if (error) throw error;
+
+  const latest = data?.[0];
+  const ruleSet: FeeRuleSet | null = latest
+    ? {
+        id: latest.id,
+        version: latest.version,
+        defaults: { ...BUNDLED_FEE_RULE_SET.defaults, ...(latest.defaults as Partial<FeeRuleSet['defaults']>) },
+        rules: latest.rules as unknown as FeeEligibilityRule[],
+        notes: latest.notes,
+        publishedAt: latest.published_at,
+      }
+    : null;
+  setActiveFeeRuleSet(ruleSet);
+}
+
+// Register everything the fee calculator reads, so buildSaleFeeRow prices sales as the browser would
+export async function loadFeeRegistries(supabase: IngestClient): Promise<void> {
+  await Promise.all([loadClients(supabase), loadRateCards(supabase), loadFeeRules(supabase)]);
+}
+
+// ============================================================================
+// PARSING - sheet and column choices, then the shared parser streaming rows
+// ============================================================================
+
+// The sheets given, else the ones remembered for the file-name pattern, else the largest sheet
+async function chooseSheets(
+  supabase: IngestClient,
+  fileName: string,
+  workbook: XLSX.WorkBook,
+  sheetNames: string[] | null
+): Promise<string[]> {
+  if (sheetNames?.length) return sheetNames;
+
+  const sheets = listSheets(workbook);
+  if (sheets.length === 1) return [sheets[0].name];
+
+  const { data } = await supabase
+    .from('excel_sheet_selections')
+    .select('sheet_names')
+    .eq('file_pattern', getFileNamePattern(fileName))
+    .maybeSingle();
+  const remembered = (data?.sheet_names as unknown as string[] | null) ?? [];
+  if (
+    remembered.length > 0 &&
+    remembered.every(name => sheets.some(s => s.name === name)) &&
+    mismatchedSheets(sheets, remembered).length === 0
+  ) {
+    return remembered;
+  }
+  return defaultSheetSelection(sheets);
+}
+
+// Dates are read in the operations zone; the bundled default when the settings row cannot be read
+async function loadOperationsTimeZone(supabase: IngestClient): Promise<void> {
+  const { data, error } = await supabase.from('operations_settings').select('time_zone').maybeSingle();
+  if (error) console.warn('Could not load the operations time zone:', error.message);
+  setOperationsTimeZone(data?.time_zone ?? null);
+}
+
+// The mapping given, else a saved profile for the header layout, else what the parser detects on its own
+async function chooseMapping(supabase: IngestClient, headers: string[], mapping: ColumnMapping | null): Promise<ColumnMapping> {
+  if (mapping) return mapping;
+
+  const { data } = await supabase
+    .from('column_mapping_profiles')
+    .select('mapping')
+    .eq('header_signature', getHeaderSignature(headers))
+    .maybeSingle();
+  return (data?.mapping as unknown as ColumnMapping | null) ?? autoColumnMapping(headers);
+}
+
+// A file to ingest: CSV is streamed, a workbook is read whole
+export type IngestFile = CSVSource & Pick<Blob, 'arrayBuffer'>;
+
+export interface IngestSource {
+  fileName: string;
+  file: IngestFile;
+  sheetNames: string[] | null; // workbooks: chosen automatically when null
+  mapping: ColumnMapping | null; // chosen automatically when null
+}
+
+// A source with its sheets and mapping chosen, ready to stream rows from
+export interface OpenedIngest {
+  fileName: string;
+  csv: CSVSource; // the file itself, or the chosen sheets converted to CSV
+  headers: string[];
+  mapping: ColumnMapping;
+  sheetNames: string[] | null;
+  fileTypeDetection: FileTypeDetection; // from the header row; the file name breaks ties
+  businessDate: Date | null; // from the file name
+}
+
+// The parser reads nothing without a TRGID column; checked here, before an upload row is written to
+function requireTrgidColumn(headers: string[], mapping: ColumnMapping) {
+  if (!mapping.trgid || !headers.includes(mapping.trgid)) {
+    throw new Error('No valid data found. The file must have a TRGID column.');
+  }
+}
+
+// onStep runs between the slow steps of opening a workbook, which give no progress of their own
+export async function openIngestSource(
+  supabase: IngestClient,
+  source: IngestSource,
+  onStep?: (message: string) => Promise<void> | void
+): Promise<OpenedIngest> {
+  await loadOperationsTimeZone(supabase);
+  const { fileName } = source;
+  const businessDate = parseFileBusinessDate(fileName);
+
+  if (isExcelFileName(fileName)) {
+    await onStep?.('Reading workbook');
+    let workbook: XLSX.WorkBook | null = XLSX.read(await source.file.arrayBuffer(), {
+      type: 'array',
+      dense: true,
+      cellFormula: false,
+      cellHTML: false,
+      cellText: false,
+      cellStyles: false,
+      cellDates: true,
+    });
+    const sheetNames = await chooseSheets(supabase, fileName, workbook, source.sheetNames);
+    const headers = listSheets(workbook).find(s => s.name === sheetNames[0])?.headers ?? [];
+    const mapping = await chooseMapping(supabase, headers, source.mapping);
+    requireTrgidColumn(headers, mapping);
+
+    await onStep?.('Converting sheets');
+    const csv = new Blob([sheetsToCSV(workbook, sheetNames, source.file.size / (1024 * 1024))]);
+    workbook = null;
+    return { fileName, csv, headers, mapping, sheetNames, fileTypeDetection: detectFileType(headers, fileName), businessDate };
+  }
+
+  const headers = await readCSVHeader(source.file);
+  const mapping = await chooseMapping(supabase, headers, source.mapping);
+  requireTrgidColumn(headers, mapping);
+  return { fileName, csv: source.file, headers, mapping, sheetNames: null, fileTypeDetection: detectFileType(headers, fileName), businessDate };
+}
+
+export interface StreamedIngest {
+  rowCount: number;
+  skippedRows: number;
+  issues: RowIssueLog;
+}
+
+// Parse an opened source, handing units over as they are read; reading waits while onUnits works
+export async function streamIngestUnits(
+  opened: OpenedIngest,
+  onUnits: (units: ParsedUnit[]) => Promise<void> | void
+): Promise<StreamedIngest> {
+  const issues = createRowIssueLog();
+  const parsed = await parseCSVFile(opened.csv, opened.fileName, onUnits, undefined, opened.mapping, issues);
+  return { rowCount: parsed.rowCount, skippedRows: parsed.skippedRows, issues };
+}
+
+// ============================================================================
+// WRITING - issue log, checkpoints and table rows for one upload
+// ============================================================================
+
+// Replaces any issue log an earlier run saved for the upload
+export async function saveIngestRowIssues(supabase: IngestClient, fileUploadId: string, issues: RowIssue[]): Promise<void> {
+  const { error } = await supabase.from('upload_row_issues').delete().eq('file_upload_id', fileUploadId);
+  if (error) throw error;
+  for (let i = 0; i < issues.length; i += PAGE_SIZE) {
+    const { error: insertError } = await supabase.from('upload_row_issues').insert(
+      issues.slice(i, i + PAGE_SIZE).map(issue => ({
+        file_upload_id: fileUploadId,
+        line_number: issue.line,
+        trgid: issue.trgid,
+        column_name: issue.column,
+        raw_value: issue.value,
+        reason: issue.reason,
+        severity: issue.severity,
+      }))
+    );
+    if (insertError) throw insertError;
+  }
+}
+
+// Indices of every batch already saved for an upload
+export async function fetchSavedBatchIndices(supabase: IngestClient, fileUploadId: string): Promise<Set<number>> {
+  const rows = await fetchAllPages<{ batch_index: number }>((from, to) =>
+    supabase
+      .from('file_upload_batches')
+      .select('batch_index')
+      .eq('file_upload_id', fileUploadId)
+      .eq('status', 'done')
+      .order('batch_index')
+      .range(from, to)
+  );
+  return new Set(rows.map(row => row.batch_index));
+}
+
+// A lost checkpoint only means the batch is written again next run
+export async function checkpointBatch(
+  supabase: IngestClient,
+  fileUploadId: string,
+  batchIndex: number,
+  error: string | null
+): Promise<void> {
+  const { error: saveError } = await supabase.from('file_upload_batches').upsert(
+    { file_upload_id: fileUploadId, batch_index: batchIndex, status: error === null ? 'done' : 'failed', error },
+    { onConflict: 'file_upload_id,batch_index' }
+  );
+  if (saveError) console.warn(`Could not checkpoint batch ${batchIndex}:`, saveError.message);
+}
+
+export interface IngestProgress {
+  parsedRows: number;
+  savedBatches: number; // by this run and earlier ones
+  failedBatches: number;
+}
+
+export interface IngestBatchRun {
+  context: UploadBatchContext;
+  savedBatches: Set<number>; // checkpointed by an earlier run: parsed past, not written again
+  resend: boolean; // the batches may have been partly written by an earlier run
+  // Runs at every batch boundary, writing says whether the batch is about to be sent; throwing stops the run
+  beforeBatch?: (progress: IngestProgress, writing: boolean) => Promise<void> | void;
+}
+
+export interface IngestResult extends StreamedIngest {
+  totalBatches: number;
+  failed: number[]; // batches still failing after their retries
+  trgidHash: string; // hashTrgids of every parsed unit, for the upload fingerprint
+}
+
+// Stream the file into batches of INGEST_BATCH_SIZE (numbered as a browser upload numbers them) and
+// write each one as soon as it is full, checkpointing it. A failed batch is retried RETRY_ROUNDS more
+// times while its rows are still in hand; only the TRGIDs outlive their batch, for the fingerprint.
+export async function ingestBatches(
+  supabase: IngestClient,
+  opened: OpenedIngest,
+  { context, savedBatches, resend, beforeBatch }: IngestBatchRun
+): Promise<IngestResult> {
+  const trgids: string[] = [];
+  const failed: number[] = [];
+  let saved = 0;
+  let batchIndex = 0;
+  let pending: ParsedUnit[] = [];
+
+  const progress = (): IngestProgress => ({ parsedRows: trgids.length, savedBatches: saved, failedBatches: failed.length });
+
+  const flush = async (units: ParsedUnit[]) => {
+    const index = batchIndex++;
+    if (savedBatches.has(index)) {
+      saved++;
+      await beforeBatch?.(progress(), false);
+      return;
+    }
+
+    let lastError = '';
+    for (let attempt = 0; attempt <= RETRY_ROUNDS; attempt++) {
+      await beforeBatch?.(progress(), true);
+      try {
+        await writeUploadBatch(supabase, shapeUploadBatch(units, context), context, { resend: resend || attempt > 0 });
+        await checkpointBatch(supabase, context.fileUploadId, index, null);
+        saved++;
+        return;
+      } catch (error) {
+        lastError = ingestErrorMessage(error);
+        console.error(`Batch ${index} failed${attempt > 0 ? ` (retry ${attempt})` : ''}:`, lastError);
+      }
+    }
+    await checkpointBatch(supabase, context.fileUploadId, index, lastError);
+    failed.push(index);
+  };
+
+  const streamed = await streamIngestUnits(opened, async units => {
+    for (const unit of units) {
+      trgids.push(unit.trgid);
+      pending.push(unit);
+      if (pending.length === INGEST_BATCH_SIZE) {
+        const batch = pending;
+        pending = [];
+        await flush(batch);
+      }
+    }
+  });
+  if (pending.length > 0) await flush(pending);
+
+  return { ...streamed, totalBatches: batchIndex, failed, trgidHash: await hashTrgids(trgids) };
+}
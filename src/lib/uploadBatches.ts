@@ -0,0 +1,133 @@
+// Upload batches
+// Writing one shaped batch (shapeUploadBatch) to every table it touches, and telling a running upload
+// from an abandoned one by its checkpoints. Shared by browser uploads (useFileUpload), the ingest-upload
+// function and the ingest CLI (src/lib/serverIngest.ts); each passes its own Supabase client and retry policy.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/integrations/supabase/types';
+import { buildSaleFeeRow } from '@/lib/saleFees';
+import type { UploadBatch, UploadBatchContext } from '@/lib/uploadRecords';
+
+export type UploadClient = SupabaseClient<Database>;
+
+// Runs one table write, retrying however the caller sees fit
+export type RetryPolicy = <T>(write: () => Promise<T>) => Promise<T>;
+export const writeOnce: RetryPolicy = write => write();
+
+export interface BatchWriteOptions {
+  resend: boolean; // the batch may have been partly written by an earlier attempt
+  retry?: RetryPolicy;
+}
+
+// Write a batch's rows, each table in parallel; throws with every table that failed
+export async function writeUploadBatch(
+  supabase: UploadClient,
+  batch: UploadBatch,
+  context: UploadBatchContext,
+  { resend, retry = writeOnce }: BatchWriteOptions
+): Promise<void> {
+  const { canonical, lifecycle, sales, fees, inventory, shipments } = batch;
+
+  // Everything else is an upsert; lifecycle events are plain inserts, so clear any an earlier attempt left
+  if (resend && lifecycle.length > 0) {
+    await retry(async () => {
+      const { error } = await supabase
+        .from('lifecycle_events')
+        .delete()
+        .eq('file_upload_id', context.fileUploadId)
+        .in('trgid', [...new Set(lifecycle.map(e => e.trgid))]);
+      if (error) throw new Error(`Lifecycle cleanup failed: ${error.message}`);
+    });
+  }
+
+  const writes: Promise<void>[] = [];
+
+  // 1. Units canonical (not for Inventory & Outbound files); SLA files never overwrite a stored unit
+  if (canonical.length > 0) {
+    writes.push(retry(async () => {
+      const { error } = await supabase
+        .from('units_canonical')
+        .upsert(canonical, { onConflict: 'trgid', ignoreDuplicates: context.finalFileType === 'SLA' });
+      if (error) throw new Error(`Units insert failed: ${error.message}`);
+    }));
+  }
+
+  // 2. Lifecycle events
+  if (lifecycle.length > 0) {
+    writes.push(retry(async () => {
+      const { error } = await supabase.from('lifecycle_events').insert(lifecycle);
+      if (error) throw new Error(`Lifecycle insert failed: ${error.message}`);
+    }));
+  }
+
+  // 3. Sales metrics (for Sales & Monthly files)
+  if (sales.length > 0) {
+    writes.push(retry(async () => {
+      const { error } = await supabase.from('sales_metrics').upsert(sales, { onConflict: 'trgid' });
+      if (error) throw new Error(`Sales insert failed: ${error.message}`);
+      // Calculated breakdown references the sales row, so it goes in after it
+      const { error: feesError } = await supabase
+        .from('sale_fees')
+        .upsert(sales.map(buildSaleFeeRow), { onConflict: 'trgid' });
+      if (feesError) throw new Error(`Sale fee insert failed: ${feesError.message}`);
+    }));
+  }
+
+  // 4. Fee metrics (for Outbound files)
+  if (fees.length > 0) {
+    writes.push(retry(async () => {
+      const { error } = await supabase.from('fee_metrics').upsert(fees, { onConflict: 'trgid' });
+      if (error) throw new Error(`Fee insert failed: ${error.message}`);
+    }));
+  }
+
+  // 5. Inventory snapshot (for Inventory files)
+  if (inventory.length > 0) {
+    writes.push(retry(async () => {
+      const { error } = await supabase.from('inventory_snapshots').upsert(inventory, { onConflict: 'snapshot_date,trgid' });
+      if (error) throw new Error(`Inventory snapshot insert failed: ${error.message}`);
+    }));
+  }
+
+  // 6. Outbound shipments (for Outbound files)
+  if (shipments.length > 0) {
+    writes.push(retry(async () => {
+      const { error } = await supabase.from('outbound_shipments').upsert(shipments, { onConflict: 'trgid,ship_date' });
+      if (error) throw new Error(`Shipment insert failed: ${error.message}`);
+    }));
+  }
+
+  // allSettled so a lifecycle failure doesn't stop the sales insert
+  const results = await Promise.allSettled(writes);
+  const failures = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+  if (failures.length > 0) {
+    const failMessages = failures.map(f => (f.reason instanceof Error ? f.reason.message : String(f.reason))).join('; ');
+    throw new Error(`Batch insert partial failure: ${failMessages}`);
+  }
+}
+
+export interface UploadBatchProgress {
+  doneBatches: number;
+  failedBatches: number;
+  lastCheckpointAt: string | null;
+}
+
+// An 'uploading' row with no checkpoint for this long was left by a closed page or a stopped run
+const STALE_UPLOAD_MS = 2 * 60 * 1000;
+
+export function isUploadStalled(uploadTimestamp: string, progress: UploadBatchProgress | undefined): boolean {
+  const lastActivity = progress?.lastCheckpointAt ?? uploadTimestamp;
+  return Date.now() - new Date(lastActivity).getTime() > STALE_UPLOAD_MS;
+}
+
+// Checkpoint totals for one upload (get_upload_batch_progress)
+export async function fetchUploadBatchProgress(supabase: UploadClient, uploadId: string): Promise<UploadBatchProgress> {
+  const { data, error } = await supabase.rpc('get_upload_batch_progress', { p_upload_id: uploadId });
+  if (error) throw error;
+  const row = data?.[0];
+  return {
+    doneBatches: Number(row?.done_batches || 0),
+    failedBatches: Number(row?.failed_batches || 0),
+    lastCheckpointAt: row?.last_checkpoint_at ?? null,
+  };
+}
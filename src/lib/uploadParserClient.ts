@@ -0,0 +1,181 @@
+// Main-thread side of the upload parser worker (workers/uploadParser.worker.ts)
+// The worker hashes the file and reads the header row, parses the whole file with the chosen column mapping, then hands
+// back shaped table rows one batch at a time, so only the batches being written are ever held on the
+// main thread.
+
+import type { UploadBatch, UploadBatchContext } from '@/lib/uploadRecords';
+import type { ColumnMapping } from '@/lib/columnMapping';
+import type { SheetInfo } from '@/lib/excelSheets';
+import type { UploadPreviewStats } from '@/lib/uploadPreview';
+import type { RowIssue, RowIssueSummary } from '@/lib/rowIssues';
+
+export interface UploadParserProgress {
+  stage: 'reading' | 'parsing';
+  message: string;
+  progress: number;
+}
+
+// What the hook needs to know about the file before writing it
+export interface ParsedFileSummary {
+  rowCount: number;
+  salesRowCount: number; // units with an order closed date (post-upload verification)
+  fileType: string;
+  businessDate: string | null; // yyyy-MM-dd, from the file name
+  headerPreview: string;
+  preview: UploadPreviewStats; // dry-run details shown before anything is written
+  trgidHash: string; // hashTrgids over every parsed unit, for the upload fingerprint
+  issues: RowIssueSummary; // rejected rows and unreadable values; the rows come from getIssues
+}
+
+// Header row and content hash, read before the file is parsed
+export interface FileInspection {
+  headers: string[]; // of the default sheet (defaultSheetSelection), for workbooks
+  contentHash: string;
+  sheets?: SheetInfo[]; // workbooks with more than one sheet
+}
+
+export interface UploadParseOptions {
+  mapping?: ColumnMapping;
+  fileType: string; // after the upload zone's override
+  sheetNames?: string[]; // workbook sheets to combine, in order; defaultSheetSelection when omitted
+  timeZone: string; // operations time zone; the worker does not share the page's registry
+}
+
+export type UploadParserRequest =
+  | { type: 'inspect'; file: File }
+  | { type: 'parse'; file: File; options: UploadParseOptions }
+  | { type: 'batch'; id: number; index: number; batchSize: number; context: UploadBatchContext }
+  | { type: 'trgids'; id: number; index: number; batchSize: number }
+  | { type: 'issues'; id: number };
+
+export type UploadParserResponse =
+  | { type: 'progress'; progress: UploadParserProgress }
+  | { type: 'inspected'; inspection: FileInspection }
+  | { type: 'parsed'; summary: ParsedFileSummary }
+  | { type: 'batch'; id: number; batch: UploadBatch }
+  | { type: 'trgids'; id: number; trgids: string[] }
+  | { type: 'issues'; id: number; issues: RowIssue[] }
+  | { type: 'error'; id?: number; message: string };
+
+export interface UploadParser {
+  inspect: (file: File, onProgress: (progress: UploadParserProgress) => void) => Promise<FileInspection>;
+  parse: (file: File, options: UploadParseOptions, onProgress: (progress: UploadParserProgress) => void) => Promise<ParsedFileSummary>;
+  getBatch: (index: number, batchSize: number, context: UploadBatchContext) => Promise<UploadBatch>;
+  getTrgids: (index: number, batchSize: number) => Promise<string[]>;
+  getIssues: () => Promise<RowIssue[]>;
+  terminate: () => void;
+}
+
+interface Pending<T> {
+  resolve: (value: T) => void;
+  reject: (error: Error) => void;
+}
+
+type WithProgress<T> = Pending<T> & { onProgress: (progress: UploadParserProgress) => void };
+
+export function createUploadParser(): UploadParser {
+  const worker = new Worker(new URL('../workers/uploadParser.worker.ts', import.meta.url), { type: 'module' });
+  const pendingBatches = new Map<number, Pending<UploadBatch>>();
+  const pendingTrgids = new Map<number, Pending<string[]>>();
+  const pendingIssues = new Map<number, Pending<RowIssue[]>>();
+  let pendingInspect: WithProgress<FileInspection> | null = null;
+  let pendingParse: WithProgress<ParsedFileSummary> | null = null;
+  let nextId = 0;
+
+  const failAll = (error: Error) => {
+    pendingInspect?.reject(error);
+    pendingInspect = null;
+    pendingParse?.reject(error);
+    pendingParse = null;
+    pendingBatches.forEach(p => p.reject(error));
+    pendingBatches.clear();
+    pendingTrgids.forEach(p => p.reject(error));
+    pendingTrgids.clear();
+    pendingIssues.forEach(p => p.reject(error));
+    pendingIssues.clear();
+  };
+
+  worker.onmessage = (event: MessageEvent<UploadParserResponse>) => {
+    const message = event.data;
+    switch (message.type) {
+      case 'progress':
+        (pendingParse ?? pendingInspect)?.onProgress(message.progress);
+        break;
+      case 'inspected':
+        pendingInspect?.resolve(message.inspection);
+        pendingInspect = null;
+        break;
+      case 'parsed':
+        pendingParse?.resolve(message.summary);
+        pendingParse = null;
+        break;
+      case 'batch':
+        pendingBatches.get(message.id)?.resolve(message.batch);
+        pendingBatches.delete(message.id);
+        break;
+      case 'trgids':
+        pendingTrgids.get(message.id)?.resolve(message.trgids);
+        pendingTrgids.delete(message.id);
+        break;
+      case 'issues':
+        pendingIssues.get(message.id)?.resolve(message.issues);
+        pendingIssues.delete(message.id);
+        break;
+      case 'error':
+        if (message.id !== undefined) {
+          pendingBatches.get(message.id)?.reject(new Error(message.message));
+          pendingBatches.delete(message.id);
+          pendingTrgids.get(message.id)?.reject(new Error(message.message));
+          pendingTrgids.delete(message.id);
+        } else {
+          pendingInspect?.reject(new Error(message.message));
+          pendingInspect = null;
+          pendingParse?.reject(new Error(message.message));
+          pendingParse = null;
+        }
+        break;
+    }
+  };
+
+  worker.onerror = (event: ErrorEvent) => {
+    event.preventDefault();
+    failAll(new Error(event.message || 'Upload parser crashed'));
+  };
+
+  const send = (request: UploadParserRequest) => worker.postMessage(request);
+
+  return {
+    inspect: (file, onProgress) =>
+      new Promise((resolve, reject) => {
+        pendingInspect = { resolve, reject, onProgress };
+        send({ type: 'inspect', file });
+      }),
+    parse: (file, options, onProgress) =>
+      new Promise((resolve, reject) => {
+        pendingParse = { resolve, reject, onProgress };
+        send({ type: 'parse', file, options });
+      }),
+    getBatch: (index, batchSize, context) =>
+      new Promise((resolve, reject) => {
+        const id = nextId++;
+        pendingBatches.set(id, { resolve, reject });
+        send({ type: 'batch', id, index, batchSize, context });
+      }),
+    getTrgids: (index, batchSize) =>
+      new Promise((resolve, reject) => {
+        const id = nextId++;
+        pendingTrgids.set(id, { resolve, reject });
+        send({ type: 'trgids', id, index, batchSize });
+      }),
+    getIssues: () =>
+      new Promise((resolve, reject) => {
+        const id = nextId++;
+        pendingIssues.set(id, { resolve, reject });
+        send({ type: 'issues', id });
+      }),
+    terminate: () => {
+      worker.terminate();
+      failAll(new Error('Upload cancelled'));
+    },
+  };
+}
@@ -0,0 +1,177 @@
+// Upload dry run
+// What a parsed file would write, worked out before anything is saved: stage mix, WM weeks,
+// sample rows and parse warnings. Runs in the upload parser worker; the hook adds the counts of
+// TRGIDs that already exist and asks the user to confirm.
+
+import { format } from 'date-fns';
+import type { ParsedUnit } from '@/lib/csvParser';
+import { getWMWeekNumber } from '@/lib/wmWeek';
+import type { RowIssueSummary } from '@/lib/rowIssues';
+import type { FileTypeChoice } from '@/lib/fileTypeDetection';
+import { inventoryStage } from '@/lib/uploadRecords';
+
+export interface UploadPreviewRow {
+  trgid: string;
+  stage: string | null;
+  programName: string;
+  categoryName: string;
+  receivedOn: string | null;
+  orderClosedDate: string | null;
+  salePrice: number | null;
+  marketplace: string;
+  locationId: string;
+  daysOnHand: number | null;
+  shipDate: string | null;
+  carrier: string;
+  shippingCost: number | null;
+}
+
+export interface UploadPreviewStats {
+  skippedRows: number; // rows without a TRGID
+  duplicateTrgids: number; // TRGIDs on more than one row (the last row wins)
+  stageCounts: Record<string, number>; // current stage (inventory stage for Inventory files) -> units; 'None' when none
+  wmWeeks: number[]; // every WM week a lifecycle or ship date falls in, ascending
+  sampleRows: UploadPreviewRow[];
+  warnings: string[];
+}
+
+// Rows already stored for the file's TRGIDs
+export interface ExistingTrgidCounts {
+  units: number;
+  sales: number;
+  fees: number;
+  shipments: number;
+  snapshot: number; // units already in the inventory snapshot for the file's business date
+}
+
+const SAMPLE_SIZE = 5;
+const toDay = (date: Date | null) => (date ? format(date, 'yyyy-MM-dd') : null);
+
+// Running summary of a file's units, fed batch by batch as they are parsed, so a caller that streams
+// the file (the CLI dry run) never has to hold every unit
+export interface UnitSummary {
+  add(units: ParsedUnit[]): void;
+  finish(businessDate: Date | null, skippedRows: number, issues?: RowIssueSummary): UploadPreviewStats;
+}
+
+export function createUnitSummary(fileType: string): UnitSummary {
+  const stageCounts: Record<string, number> = {};
+  const weeks = new Set<number>();
+  const seen = new Set<string>();
+  const sampleRows: UploadPreviewRow[] = [];
+  let unitCount = 0;
+  let duplicateTrgids = 0;
+  let withoutSaleDate = 0;
+  let withoutShipDate = 0;
+  let withoutLocation = 0;
+
+  const add = (units: ParsedUnit[]) => {
+    for (const unit of units) {
+      unitCount++;
+      const stage = (fileType === 'Inventory' ? inventoryStage(unit) : unit.currentStage) ?? 'None';
+      stageCounts[stage] = (stageCounts[stage] || 0) + 1;
+
+      for (const date of [unit.receivedOn, unit.checkedInOn, unit.testedOn, unit.firstListedDate, unit.orderClosedDate, unit.shipDate]) {
+        if (date) weeks.add(getWMWeekNumber(date));
+      }
+
+      if (seen.has(unit.trgid)) duplicateTrgids++;
+      else seen.add(unit.trgid);
+
+      if (!unit.orderClosedDate) withoutSaleDate++;
+      if (!unit.shipDate) withoutShipDate++;
+      if (!unit.locationId) withoutLocation++;
+
+      if (sampleRows.length < SAMPLE_SIZE) {
+        sampleRows.push({
+          trgid: unit.trgid,
+          stage: unit.currentStage,
+          programName: unit.programName,
+          categoryName: unit.categoryName,
+          receivedOn: toDay(unit.receivedOn),
+          orderClosedDate: toDay(unit.orderClosedDate),
+          salePrice: unit.salePrice,
+          marketplace: unit.marketplaceProfileSoldOn,
+          locationId: unit.locationId,
+          daysOnHand: unit.daysOnHand,
+          shipDate: toDay(unit.shipDate),
+          carrier: unit.carrier,
+          shippingCost: unit.shippingCost,
+        });
+      }
+    }
+  };
+
+  const finish = (businessDate: Date | null, skippedRows: number, issues?: RowIssueSummary): UploadPreviewStats => {
+    const warnings: string[] = [];
+    if (skippedRows > 0) {
+      warnings.push(`${skippedRows.toLocaleString()} rows have no TRGID and will be skipped`);
+    }
+    if (duplicateTrgids > 0) {
+      warnings.push(`${duplicateTrgids.toLocaleString()} TRGIDs appear on more than one row; the last row wins`);
+    }
+    if ((fileType === 'Sales' || fileType === 'Monthly') && withoutSaleDate > 0) {
+      warnings.push(`${withoutSaleDate.toLocaleString()} rows have no order closed date and will not be saved as sales`);
+    }
+    if (fileType === 'Outbound' && withoutShipDate > 0) {
+      warnings.push(`${withoutShipDate.toLocaleString()} rows have no ship date and will only be saved as fees, not shipments`);
+    }
+    if (fileType === 'Inventory' && withoutLocation > 0) {
+      warnings.push(`${withoutLocation.toLocaleString()} rows have no location`);
+    }
+    if (issues && issues.warnings > 0) {
+      warnings.push(`${issues.warnings.toLocaleString()} values could not be fully read (dates or numbers); they are listed in the issue log after upload`);
+    }
+    if (!businessDate) {
+      warnings.push("No business date in the file name; today's date will be used");
+    }
+    if (weeks.size === 0 && unitCount > 0 && fileType !== 'Inventory' && fileType !== 'Outbound') {
+      warnings.push('No lifecycle dates could be read; check the date columns');
+    }
+
+    return {
+      skippedRows,
+      duplicateTrgids,
+      stageCounts,
+      wmWeeks: [...weeks].sort((a, b) => a - b),
+      sampleRows,
+      warnings,
+    };
+  };
+
+  return { add, finish };
+}
+
+export function summarizeUnits(
+  units: ParsedUnit[],
+  fileType: string,
+  businessDate: Date | null,
+  skippedRows: number,
+  issues?: RowIssueSummary
+): UploadPreviewStats {
+  const summary = createUnitSummary(fileType);
+  summary.add(units);
+  return summary.finish(businessDate, skippedRows, issues);
+}
+
+// An earlier upload matching the one being checked
+export interface DuplicateUpload {
+  id: string;
+  fileName: string;
+  fileType: string;
+  businessDate: string;
+  uploadedAt: string;
+  match: 'content' | 'units' | 'date'; // same bytes / same TRGIDs, type and date / same type and date only
+}
+
+// Everything the confirm step shows for one file
+export interface UploadPreview {
+  fileName: string;
+  fileType: string; // after the upload zone's override
+  fileTypeChoice: FileTypeChoice; // what the columns say the file is, and why
+  businessDate: string | null; // yyyy-MM-dd, from the file name
+  rowCount: number;
+  stats: UploadPreviewStats;
+  existing: ExistingTrgidCounts | null; // null when the lookup failed
+  duplicates: DuplicateUpload[]; // near-duplicates (exact ones are blocked before parsing)
+}
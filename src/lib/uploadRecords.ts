@@ -0,0 +1,212 @@
+// Record shaping for uploads
+// Turns parsed units into the rows each table receives. Runs inside the upload parser worker,
+// so the main thread only sends finished rows to Supabase.
+// Inventory and Outbound files have tables of their own (inventory_snapshots, outbound_shipments) and
+// leave units_canonical and lifecycle_events alone: their rows carry no lifecycle dates, and an upsert
+// of them would blank the dates the other files stored.
+
+import { differenceInCalendarDays, format } from 'date-fns';
+import type { TablesInsert } from '@/integrations/supabase/types';
+import type { ParsedUnit } from '@/lib/csvParser';
+import type { SaleFeeSource } from '@/lib/saleFees';
+import { getWMWeekNumber, getWMDayOfWeek } from '@/lib/wmWeek';
+import { operationsNow } from '@/lib/operationsTime';
+
+export interface UploadBatchContext {
+  fileUploadId: string;
+  parsedFileType: string; // what the header row says the file holds; decides the tables
+  finalFileType: string;  // after the upload zone's override
+  businessDate: string | null; // yyyy-MM-dd
+}
+
+export type SalesMetricsInsert = TablesInsert<'sales_metrics'> & SaleFeeSource;
+
+export interface UploadBatch {
+  canonical: TablesInsert<'units_canonical'>[];
+  lifecycle: TablesInsert<'lifecycle_events'>[];
+  sales: SalesMetricsInsert[];
+  fees: TablesInsert<'fee_metrics'>[];
+  inventory: TablesInsert<'inventory_snapshots'>[];
+  shipments: TablesInsert<'outbound_shipments'>[];
+}
+
+// File types whose rows are not lifecycle records
+const hasOwnTables = (fileType: string) => fileType === 'Inventory' || fileType === 'Outbound';
+
+// Stage of a unit in an inventory file: the file's own stage column, else the latest lifecycle date
+export const inventoryStage = (unit: ParsedUnit): string | null => unit.inventoryStage || unit.currentStage;
+
+const toDay = (date: Date | null) => (date ? format(date, 'yyyy-MM-dd') : null);
+
+// Rows for one batch of units, per target table
+export const shapeUploadBatch = (units: ParsedUnit[], ctx: UploadBatchContext): UploadBatch => {
+  const businessDate = ctx.businessDate || format(operationsNow(), 'yyyy-MM-dd');
+
+  const unitRows = hasOwnTables(ctx.parsedFileType) ? [] : units;
+
+  const canonical = unitRows.map(unit => ({
+    trgid: unit.trgid,
+    file_upload_id: ctx.fileUploadId,
+    received_on: toDay(unit.receivedOn),
+    checked_in_on: toDay(unit.checkedInOn),
+    tested_on: toDay(unit.testedOn),
+    first_listed_date: toDay(unit.firstListedDate),
+    order_closed_date: toDay(unit.orderClosedDate),
+    current_stage: unit.currentStage,
+    upc_retail: unit.upcRetail,
+    mr_lmr_upc_average_category_retail: unit.mrLmrUpcAverageCategoryRetail,
+    effective_retail: unit.effectiveRetail,
+    sale_price: unit.salePrice,
+    discount_amount: unit.discountAmount,
+    program_name: unit.programName,
+    master_program_name: unit.masterProgramName,
+    category_name: unit.categoryName,
+    marketplace_profile_sold_on: unit.marketplaceProfileSoldOn,
+    facility: unit.facility,
+    location_id: unit.locationId,
+    tag_client_ownership: unit.tagClientOwnership,
+    tag_clientsource: unit.tagClientSource || null,
+    wm_week: unit.wmWeek,
+    wm_day_of_week: unit.wmDayOfWeek,
+  }));
+
+  const lifecycle: TablesInsert<'lifecycle_events'>[] = [];
+  for (const unit of unitRows) {
+    const stages = [
+      { stage: 'Received' as const, date: unit.receivedOn },
+      { stage: 'CheckedIn' as const, date: unit.checkedInOn },
+      { stage: 'Tested' as const, date: unit.testedOn },
+      { stage: 'Listed' as const, date: unit.firstListedDate },
+      { stage: 'Sold' as const, date: unit.orderClosedDate },
+    ];
+    for (const { stage, date } of stages) {
+      if (date) {
+        lifecycle.push({
+          trgid: unit.trgid,
+          file_upload_id: ctx.fileUploadId,
+          stage,
+          event_date: format(date, 'yyyy-MM-dd'),
+          file_business_date: businessDate,
+          wm_week: getWMWeekNumber(date),
+          wm_day_of_week: getWMDayOfWeek(date),
+        });
+      }
+    }
+  }
+
+  // Sales metrics (for Sales & Monthly files)
+  const sales: SalesMetricsInsert[] =
+    ctx.parsedFileType === 'Sales' || ctx.finalFileType === 'Monthly'
+      ? units
+          .filter(unit => unit.orderClosedDate)
+          .map(unit => ({
+            trgid: unit.trgid,
+            file_upload_id: ctx.fileUploadId,
+            order_closed_date: format(unit.orderClosedDate!, 'yyyy-MM-dd'),
+            sale_price: unit.salePrice || 0,
+            discount_amount: unit.discountAmount || 0,
+            gross_sale: unit.grossSale || 0,
+            effective_retail: unit.effectiveRetail,
+            refund_amount: unit.refundAmount || 0,
+            is_refunded: unit.isRefunded,
+            program_name: unit.programName,
+            master_program_name: unit.masterProgramName,
+            category_name: unit.categoryName,
+            marketplace_profile_sold_on: unit.marketplaceProfileSoldOn,
+            facility: unit.facility,
+            tag_clientsource: unit.tagClientSource || null,
+            wm_week: unit.wmWeek,
+            wm_day_of_week: unit.wmDayOfWeek,
+            invoiced_check_in_fee: unit.invoicedCheckInFee,
+            invoiced_refurb_fee: unit.invoicedRefurbFee,
+            invoiced_overbox_fee: unit.invoicedOverboxFee,
+            invoiced_packaging_fee: unit.invoicedPackagingFee,
+            invoiced_pps_fee: unit.invoicedPpsFee,
+            invoiced_shipping_fee: unit.invoicedShippingFee,
+            invoiced_merchant_fee: unit.invoicedMerchantFee,
+            invoiced_3pmp_fee: unit.invoiced3pmpFee,
+            invoiced_revshare_fee: unit.invoicedRevshareFee,
+            invoiced_marketing_fee: unit.invoicedMarketingFee,
+            invoiced_refund_fee: unit.invoicedRefundFee,
+            service_invoice_total: unit.serviceInvoiceTotal,
+            vendor_invoice_total: unit.vendorInvoiceTotal,
+            expected_hv_as_is_refurb_fee: unit.expectedHvAsIsRefurbFee,
+            sorting_index: unit.sortingIndex || null,
+            b2c_auction: unit.b2cAuction || null,
+            tag_ebay_auction_sale: unit.tagEbayAuctionSale,
+            order_type_sold_on: unit.orderTypeSoldOn || null,
+            title: unit.title || null,
+          }))
+      : [];
+
+  // Fee metrics (for Outbound files)
+  const fees: TablesInsert<'fee_metrics'>[] =
+    ctx.parsedFileType === 'Outbound'
+      ? units
+          .filter(unit => unit.totalFees !== null)
+          .map(unit => ({
+            trgid: unit.trgid,
+            file_upload_id: ctx.fileUploadId,
+            check_in_fee: unit.checkInFee || 0,
+            packaging_fee: unit.packagingFee || 0,
+            pick_pack_ship_fee: unit.pickPackShipFee || 0,
+            refurbishing_fee: unit.refurbishingFee || 0,
+            marketplace_fee: unit.marketplaceFee || 0,
+            total_fees: unit.totalFees || 0,
+            program_name: unit.programName,
+            facility: unit.facility,
+            wm_week: unit.wmWeek ?? (unit.shipDate ? getWMWeekNumber(unit.shipDate) : null),
+            tag_clientsource: unit.tagClientSource || null,
+          }))
+      : [];
+
+  // Inventory snapshot (for Inventory files): where each unit is on the business date
+  const snapshotDate = new Date(`${businessDate}T12:00:00`);
+  const inventory: TablesInsert<'inventory_snapshots'>[] =
+    ctx.parsedFileType === 'Inventory'
+      ? units.map(unit => ({
+          trgid: unit.trgid,
+          file_upload_id: ctx.fileUploadId,
+          snapshot_date: businessDate,
+          stage: inventoryStage(unit),
+          facility: unit.facility || null,
+          location_id: unit.locationId || null,
+          // The file's own aging when it has one, otherwise days since receipt
+          days_on_hand:
+            unit.daysOnHand !== null
+              ? Math.round(unit.daysOnHand)
+              : unit.receivedOn
+                ? Math.max(0, differenceInCalendarDays(snapshotDate, unit.receivedOn))
+                : null,
+          received_on: toDay(unit.receivedOn),
+          program_name: unit.programName || null,
+          master_program_name: unit.masterProgramName || null,
+          category_name: unit.categoryName || null,
+          effective_retail: unit.effectiveRetail,
+          tag_clientsource: unit.tagClientSource || null,
+          wm_week: getWMWeekNumber(snapshotDate),
+        }))
+      : [];
+
+  // Outbound shipments (for Outbound files): rows without a ship date only carry fees
+  const shipments: TablesInsert<'outbound_shipments'>[] =
+    ctx.parsedFileType === 'Outbound'
+      ? units
+          .filter(unit => unit.shipDate)
+          .map(unit => ({
+            trgid: unit.trgid,
+            file_upload_id: ctx.fileUploadId,
+            ship_date: format(unit.shipDate!, 'yyyy-MM-dd'),
+            carrier: unit.carrier || null,
+            tracking_number: unit.trackingNumber || null,
+            shipping_cost: unit.shippingCost,
+            program_name: unit.programName || null,
+            facility: unit.facility || null,
+            tag_clientsource: unit.tagClientSource || null,
+            wm_week: getWMWeekNumber(unit.shipDate!),
+            wm_day_of_week: getWMDayOfWeek(unit.shipDate!),
+          }))
+      : [];
+
+  return { canonical, lifecycle, sales, fees, inventory, shipments };
+};
@@ -0,0 +1,113 @@
+// Date and amount parsing for upload files
+// Exports reach us from several systems and through Excel, so one column can hold 10/18/2026 2:05:00 PM,
+// 10/18/26 14:05, 2026-10-18, 2026-10-18T19:05:00Z or an Excel serial day (46313.58), and amounts
+// can read 1,234.50, $1,234.50, (12.50) for a negative or 12.50 USD.
+// Dates come back as operations wall times (see operationsTime.ts): values without a zone are taken to
+// be in the operations zone already, values with one (Z, -05:00) are converted to it.
+
+import { getOperationsTimeZone, toOperationsTime } from '@/lib/operationsTime';
+
+// Excel day 0, with its 1900 leap-year bug folded in (serials from March 1900 on are right)
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// Bare numbers are only taken as serial days between 1954 and 2119; others are more likely not dates
+const EXCEL_SERIAL_MIN = 20000;
+const EXCEL_SERIAL_MAX = 80000;
+
+// M/D/YYYY or M/D/YY, optionally with H:MM[:SS] and AM/PM; a trailing zone abbreviation is ignored
+const US_DATE = /^(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})(?:[\sT]+(\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?\s*([AP]M)?)?(?:\s+[A-Z]{2,5})?$/i;
+// YYYY-MM-DD, optionally with HH:MM[:SS[.fff]] and a zone
+const ISO_DATE = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[\sT](\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?\s*(Z|[+-]\d{2}:?\d{2})?)?$/i;
+
+// Wall time from its fields, or null when they do not make a real date (02/30, hour 25);
+// date-only values sit at noon, as they always have, clear of any day boundary
+function wallTime(year: number, month: number, day: number, hour = 12, minute = 0, second = 0): Date | null {
+  if (month < 1 || month > 12 || hour > 23 || minute > 59 || second > 59) return null;
+  const date = new Date(year, month - 1, day, hour, minute, second);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+const fullYear = (year: string) => (year.length === 2 ? 2000 + Number(year) : Number(year));
+
+const hour24 = (hour: number, meridiem: string | undefined) => {
+  if (!meridiem) return hour;
+  if (hour < 1 || hour > 12) return 99; // 13:00 PM is not a time
+  return (hour % 12) + (meridiem.toUpperCase() === 'PM' ? 12 : 0);
+};
+
+export function parseDateValue(value: string, timeZone: string = getOperationsTimeZone()): Date | null {
+  const text = value?.trim();
+  if (!text) return null;
+
+  const us = text.match(US_DATE);
+  if (us) {
+    const [, month, day, year, hour, minute, second, meridiem] = us;
+    return hour
+      ? wallTime(fullYear(year), Number(month), Number(day), hour24(Number(hour), meridiem), Number(minute), Number(second ?? 0))
+      : wallTime(fullYear(year), Number(month), Number(day));
+  }
+
+  const iso = text.match(ISO_DATE);
+  if (iso) {
+    const [, year, month, day, hour, minute, second, zone] = iso;
+    if (!hour) return wallTime(Number(year), Number(month), Number(day));
+    if (!zone) return wallTime(Number(year), Number(month), Number(day), Number(hour), Number(minute), Number(second ?? 0));
+    // An instant: read it in its own zone, then move it to the operations zone
+    if (!wallTime(Number(year), Number(month), Number(day), Number(hour), Number(minute), Number(second ?? 0))) return null;
+    const pad = (n: string) => n.padStart(2, '0');
+    const offset = zone.toUpperCase() === 'Z' ? 'Z' : `${zone.slice(0, 3)}:${zone.slice(-2)}`;
+    const instant = new Date(`${year}-${pad(month)}-${pad(day)}T${pad(hour)}:${minute}:${second ?? '00'}${offset}`);
+    return isNaN(instant.getTime()) ? null : toOperationsTime(instant, timeZone);
+  }
+
+  // Excel serial day: a date cell that reached the CSV unformatted. It has no zone, so its
+  // fields are read as UTC and kept as the wall time
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    const serial = Number(text);
+    if (serial < EXCEL_SERIAL_MIN || serial > EXCEL_SERIAL_MAX) return null;
+    const fields = new Date(EXCEL_EPOCH_MS + Math.round(serial * MS_PER_DAY));
+    return Number.isInteger(serial)
+      ? wallTime(fields.getUTCFullYear(), fields.getUTCMonth() + 1, fields.getUTCDate())
+      : wallTime(
+          fields.getUTCFullYear(),
+          fields.getUTCMonth() + 1,
+          fields.getUTCDate(),
+          fields.getUTCHours(),
+          fields.getUTCMinutes(),
+          fields.getUTCSeconds()
+        );
+  }
+
+  return null;
+}
+
+// Sign, currency symbol or code on either side, digits with commas only as thousands separators,
+// then an optional trailing minus; parentheses around the whole thing are handled separately.
+// Anything else ("1.234,50", "1,2", "12 pcs") is not an amount and ends up in the row issue log.
+const AMOUNT =
+  /^(-)?\s*(?:(?:USD|CAD|EUR|GBP)\s*)?[$€£]?\s*(-)?\s*(\d{1,3}(?:,\d{3})+(?:\.\d*)?|\d+(?:\.\d*)?|\.\d+)\s*(?:[$€£]|USD|CAD|EUR|GBP)?\s*(-)?$/;
+
+// Amount from an export cell, or null when the whole value is not one
+export function parseAmount(value: string): number | null {
+  let text = value?.trim();
+  if (!text) return null;
+
+  // Accounting negative: (12.50), ($12.50)
+  const bracketed = text.startsWith('(') && text.endsWith(')');
+  if (bracketed) text = text.slice(1, -1).trim();
+
+  const match = text.match(AMOUNT);
+  if (!match) return null;
+  const [, leadingMinus, innerMinus, digits, trailingMinus] = match;
+  const minuses = [leadingMinus, innerMinus, trailingMinus].filter(Boolean).length;
+  if (minuses > 1 || (bracketed && minuses > 0)) return null;
+
+  const amount = Number(digits.replace(/,/g, ''));
+  return bracketed || minuses === 1 ? -amount : amount;
+}
+
+// What is left when parseAmount gives up: the number the value starts with, if any ("12.5 approx")
+export function parseLeadingAmount(value: string): number | null {
+  const num = parseFloat(value.replace(/[,$]/g, '').trim());
+  return isNaN(num) ? null : num;
+}
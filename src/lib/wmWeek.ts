@@ -1,5 +1,6 @@
 import { startOfWeek, endOfWeek, format, parse, isValid, addDays, differenceInDays } from 'date-fns';
 
+// Dates are operations wall times (see operationsTime.ts): their local fields are facility days
 // Walmart week runs Saturday (Day 1) to Friday (Day 7)
 export function getWMWeekStart(date: Date): Date {
   // Adjust so Saturday is the start
@@ -117,31 +118,6 @@ export function parseFileBusinessDate(fileName: string): Date | null {
   return null;
 }
 
-export function determineFileType(fileName: string): 'Sales' | 'Inbound' | 'Outbound' | 'Inventory' | 'Production' | 'SLA' | 'Unknown' {
-  const lowerName = fileName.toLowerCase();
-  
-  // SLA files - "Checked In" pattern
-  if (lowerName.includes('checked in') || lowerName.includes('checked_in') || lowerName.includes('checkedin') || lowerName.includes('sla')) return 'SLA';
-  
-  // Inbound files - "Received" pattern
-  if (lowerName.includes('received') || lowerName.includes('inbound')) return 'Inbound';
-  
-  if (lowerName.includes('sales')) return 'Sales';
-  if (lowerName.includes('outbound')) return 'Outbound';
-  if (lowerName.includes('inventory')) return 'Inventory';
-  if (lowerName.includes('production') || lowerName.includes('processing')) return 'Production';
-  
-  // Smart fallback based on common file naming patterns
-  if (lowerName.includes('recv') || lowerName.includes('receipt')) return 'Inbound';
-  if (lowerName.includes('ship') || lowerName.includes('fulfill')) return 'Outbound';
-  if (lowerName.includes('order') || lowerName.includes('sold')) return 'Sales';
-  if (lowerName.includes('test') || lowerName.includes('list')) return 'Production';
-  if (lowerName.includes('stock') || lowerName.includes('wip')) return 'Inventory';
-  
-  // Final fallback - return Inbound as default since most operations start with receiving
-  return 'Inbound';
-}
-
 export const WM_DAY_NAMES = ['Sat', 'Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri'] as const;
 
 export function getWMDayName(wmDayOfWeek: number): string {
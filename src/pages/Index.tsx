@@ -8,9 +8,13 @@ import { OutboundTab } from '@/components/tabs/OutboundTab';
 import { MarketplaceTab } from '@/components/tabs/MarketplaceTab';
 import { DSVTab } from '@/components/tabs/DSVTab';
 import { QuarterlyReviewTab } from '@/components/tabs/QuarterlyReviewTab';
+import { RateCardsTab } from '@/components/tabs/RateCardsTab';
+import { useClients } from '@/hooks/useClients';
 
 const Index = () => {
   const [activeTab, setActiveTab] = useState('inbound');
+  // Re-render the tabs once client mapping / channel rules are registered
+  useClients();
 
   const renderTab = () => {
     switch (activeTab) {
@@ -30,6 +34,8 @@ const Index = () => {
         return <DSVTab />;
       case 'quarterly':
         return <QuarterlyReviewTab />;
+      case 'rate-cards':
+        return <RateCardsTab />;
       default:
         return <InboundTab />;
     }
@@ -0,0 +1,209 @@
+// Upload parser worker
+// Streams CSV files through the shared reader (Excel is converted to CSV first), parses them and
+// shapes table rows off the main thread.
+// The hook first asks for the content hash (duplicate check) and header row (to pick a column
+// mapping), plus the sheet list for workbooks, then parses with that mapping and sheet choice.
+// The parsed units stay here; the hook requests a dry-run summary, then shaped batches by index as
+// it writes them, and the row issue log to save with the upload. Holding them is why the hook sends
+// files over BROWSER_UPLOAD_LIMIT_MB to the server instead.
+
+import * as XLSX from 'xlsx';
+import { format } from 'date-fns';
+import { parseCSV, parseCSVFile, ParsedUnit } from '@/lib/csvParser';
+import { readCSVHeader } from '@/lib/csvReader';
+import type { ColumnMapping } from '@/lib/columnMapping';
+import { defaultSheetSelection } from '@/lib/excelSheets';
+import { excelError, listSheets, sheetsToCSV } from '@/lib/excelWorkbook';
+import { shapeUploadBatch } from '@/lib/uploadRecords';
+import { summarizeUnits } from '@/lib/uploadPreview';
+import { hashFile, hashTrgids } from '@/lib/fileHash';
+import { createRowIssueLog, RowIssueLog } from '@/lib/rowIssues';
+import { setOperationsTimeZone } from '@/lib/operationsTime';
+import type {
+  FileInspection,
+  UploadParseOptions,
+  UploadParserProgress,
+  UploadParserRequest,
+  UploadParserResponse,
+} from '@/lib/uploadParserClient';
+
+const VERY_LARGE_FILE_THRESHOLD = 200 * 1024 * 1024; // 200MB
+
+const ctx = self as unknown as Worker;
+let units: ParsedUnit[] = [];
+let rowIssues: RowIssueLog = createRowIssueLog(); // filled by parse, saved by the hook with the upload
+let workbookCache: { file: File; workbook: XLSX.WorkBook } | null = null; // read during inspect, reused by parse
+
+const post = (message: UploadParserResponse) => ctx.postMessage(message);
+
+const reportProgress = (stage: UploadParserProgress['stage'], message: string, progress: number) =>
+  post({ type: 'progress', progress: { stage, message, progress } });
+
+// Load a workbook with the most memory-efficient options
+async function readWorkbook(file: File, onProgress: (percent: number) => void): Promise<XLSX.WorkBook> {
+  const fileSizeMB = file.size / (1024 * 1024);
+
+  try {
+    console.log(`Reading Excel file (${fileSizeMB.toFixed(1)} MB)...`);
+    if (file.size > VERY_LARGE_FILE_THRESHOLD) {
+      console.warn(`Very large file detected (${fileSizeMB.toFixed(0)}MB). This may take several minutes.`);
+    }
+
+    const arrayBuffer = await file.arrayBuffer();
+    onProgress(40);
+    console.log('File loaded into memory, parsing workbook...');
+
+    const workbook = XLSX.read(arrayBuffer, {
+      type: 'array',
+      dense: true,
+      cellFormula: false,
+      cellHTML: false,
+      cellText: false,
+      cellStyles: false,
+      cellDates: true,
+    });
+    onProgress(100);
+
+    if (!workbook.SheetNames || workbook.SheetNames.length === 0) {
+      throw new Error('Excel file has no sheets');
+    }
+    return workbook;
+  } catch (error) {
+    throw excelError(error, fileSizeMB);
+  }
+}
+
+const isExcelFile = (file: File) => file.name.endsWith('.xlsx') || file.name.endsWith('.xls');
+
+async function getWorkbook(file: File) {
+  if (workbookCache?.file !== file) {
+    const workbook = await readWorkbook(file, percent => reportProgress('reading', `Reading Excel: ${Math.round(percent)}%`, 5 + percent * 0.2));
+    workbookCache = { file, workbook };
+  }
+  return workbookCache.workbook;
+}
+
+// Header row of the default sheet, and every sheet when there is more than one to choose from
+async function readLayout(file: File): Promise<Omit<FileInspection, 'contentHash'>> {
+  if (!isExcelFile(file)) return { headers: await readCSVHeader(file) };
+  const sheets = listSheets(await getWorkbook(file));
+  const [defaultSheet] = defaultSheetSelection(sheets);
+  return { headers: sheets.find(s => s.name === defaultSheet)?.headers ?? [], sheets: sheets.length > 1 ? sheets : undefined };
+}
+
+// Excel: convert the chosen sheets (the default sheet when none are given) to CSV text, then parse it in one pass
+async function parseExcel(file: File, mapping?: ColumnMapping, sheetNames?: string[]) {
+  const workbook = await getWorkbook(file);
+  reportProgress('reading', 'Converting sheets...', 25);
+  const chosen = sheetNames?.length ? sheetNames : defaultSheetSelection(listSheets(workbook));
+  const content = sheetsToCSV(workbook, chosen, file.size / (1024 * 1024));
+  workbookCache = null;
+
+  reportProgress('parsing', 'Parsing data...', 30);
+  const headerPreview = content.substring(0, content.indexOf('\n') === -1 ? 200 : Math.min(content.indexOf('\n'), 200));
+  console.log(`Content size: ${(content.length / 1024 / 1024).toFixed(1)} MB`);
+
+  const parsed = parseCSV(content, file.name, (rowsParsed, totalRows) => {
+    reportProgress(
+      'parsing',
+      `Parsing data: ${rowsParsed.toLocaleString()} of ${totalRows.toLocaleString()} rows`,
+      30 + (rowsParsed / totalRows) * 20
+    );
+  }, mapping, rowIssues);
+  units = parsed.units;
+  return { fileType: parsed.fileType, businessDate: parsed.businessDate, skippedRows: parsed.skippedRows, headerPreview };
+}
+
+// CSV: read and parse in one streaming pass over the file
+async function parseCsv(file: File, mapping?: ColumnMapping) {
+  units = [];
+  const parsed = await parseCSVFile(
+    file,
+    file.name,
+    batch => {
+      for (const unit of batch) units.push(unit);
+    },
+    (bytesRead, totalBytes) => {
+      const percent = totalBytes > 0 ? (bytesRead / totalBytes) * 100 : 100;
+      reportProgress('parsing', `Parsing file: ${Math.round(percent)}% (${units.length.toLocaleString()} rows)`, 5 + percent * 0.45);
+    },
+    mapping,
+    rowIssues
+  );
+  return {
+    fileType: parsed.fileType,
+    businessDate: parsed.businessDate,
+    skippedRows: parsed.skippedRows,
+    headerPreview: parsed.headers.join(',').substring(0, 200),
+  };
+}
+
+async function parseFile(file: File, options: UploadParseOptions) {
+  const fileSizeMB = (file.size / (1024 * 1024)).toFixed(1);
+  const isExcel = isExcelFile(file);
+
+  reportProgress('reading', isExcel ? `Converting Excel (${fileSizeMB} MB)...` : `Reading file (${fileSizeMB} MB)...`, 5);
+  rowIssues = createRowIssueLog();
+  setOperationsTimeZone(options.timeZone);
+  const parsed = isExcel ? await parseExcel(file, options.mapping, options.sheetNames) : await parseCsv(file, options.mapping);
+
+  console.log(`Parsed ${units.length} units from file`);
+  post({
+    type: 'parsed',
+    summary: {
+      rowCount: units.length,
+      salesRowCount: units.filter(u => u.orderClosedDate).length,
+      fileType: parsed.fileType,
+      businessDate: parsed.businessDate ? format(parsed.businessDate, 'yyyy-MM-dd') : null,
+      headerPreview: parsed.headerPreview,
+      preview: summarizeUnits(units, options.fileType, parsed.businessDate, parsed.skippedRows, rowIssues.summary()),
+      issues: rowIssues.summary(),
+      trgidHash: await hashTrgids(units.map(u => u.trgid)),
+    },
+  });
+}
+
+ctx.onmessage = async (event: MessageEvent<UploadParserRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'inspect') {
+    try {
+      const contentHash = await hashFile(request.file, percent =>
+        reportProgress('reading', `Checking file: ${Math.round(percent)}%`, 2 + percent * 0.03)
+      );
+      const layout = await readLayout(request.file);
+      post({ type: 'inspected', inspection: { ...layout, contentHash } });
+    } catch (error) {
+      post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+    return;
+  }
+
+  if (request.type === 'parse') {
+    try {
+      await parseFile(request.file, request.options);
+    } catch (error) {
+      post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+    return;
+  }
+
+  if (request.type === 'issues') {
+    post({ type: 'issues', id: request.id, issues: rowIssues.issues() });
+    return;
+  }
+
+  if (request.type === 'trgids') {
+    const start = request.index * request.batchSize;
+    post({ type: 'trgids', id: request.id, trgids: units.slice(start, start + request.batchSize).map(u => u.trgid) });
+    return;
+  }
+
+  try {
+    const start = request.index * request.batchSize;
+    const batch = shapeUploadBatch(units.slice(start, start + request.batchSize), request.context);
+    post({ type: 'batch', id: request.id, batch });
+  } catch (error) {
+    post({ type: 'error', id: request.id, message: error instanceof Error ? error.message : String(error) });
+  }
+};
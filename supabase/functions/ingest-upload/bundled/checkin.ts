@@ -0,0 +1,2 @@
+// Stands in for Vite's ?raw import of the bundled rate card (mapped in deno.json)
+export default Deno.readTextFileSync(new URL('../../../../src/data/checkin.csv', import.meta.url));
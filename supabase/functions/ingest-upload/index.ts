@@ -0,0 +1,52 @@
+// ingest-upload edge function
+// POST { "uploadId": "..." } for a file_uploads row created with ingest_mode 'server' whose raw file
+// is in the uploads bucket. The job is claimed (so two calls cannot run it twice), the response goes
+// back straight away, and the ingest runs in the background; the browser follows it by polling
+// job_status / job_message on the row. Calling again for a failed or stalled job resumes it.
+//
+// Local stack: `supabase start`, then `supabase functions serve ingest-upload` and POST to
+// http://127.0.0.1:54321/functions/v1/ingest-upload with the anon key as the bearer token.
+
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '@/integrations/supabase/types';
+import { runIngestJob } from './ingest.ts';
+
+// Keeps the worker alive for background work after the response; absent under plain `deno run`
+declare const EdgeRuntime: { waitUntil: (promise: Promise<unknown>) => void } | undefined;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const respond = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return respond({ error: 'Use POST' }, 405);
+
+  const body = await req.json().catch(() => null);
+  const uploadId: unknown = body?.uploadId;
+  if (typeof uploadId !== 'string' || !uploadId) return respond({ error: 'uploadId is required' }, 400);
+
+  // The job writes every table and the storage bucket, so it runs with the service role
+  const supabase = createClient<Database>(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    { auth: { persistSession: false } }
+  );
+
+  const { data, error } = await supabase.rpc('claim_ingest_job', { p_upload_id: uploadId });
+  if (error) return respond({ error: error.message }, 500);
+  const upload = data?.[0];
+  if (!upload) return respond({ error: 'The upload is not waiting for a server ingest, or its job is already running' }, 409);
+
+  const job = runIngestJob(supabase, upload);
+  if (typeof EdgeRuntime !== 'undefined') {
+    EdgeRuntime.waitUntil(job);
+    return respond({ uploadId, jobStatus: 'running' }, 202);
+  }
+  await job;
+  return respond({ uploadId, jobStatus: 'finished' });
+});
@@ -0,0 +1,232 @@
+// Server-side ingest job
+// Streams a claimed upload's raw file from storage and loads it with the shared ingest steps in
+// src/lib/serverIngest.ts: the same parser the browser worker uses, shapeUploadBatch and
+// buildSaleFeeRow. Each batch is written and checkpointed in file_upload_batches as soon as its rows are
+// parsed, like a browser upload's, so a job that fails or runs out of time can be claimed again and only
+// writes what is missing. Workbooks are read whole, so big ones are refused (checkServerWorkbookSize).
+// Progress and the outcome are written to the file_uploads row, which the browser polls. Every write to
+// the row checks the job's claim: once a later run has claimed it, this one stops.
+
+import type { Database, Json, Tables } from '@/integrations/supabase/types';
+import type { ColumnMapping } from '@/lib/columnMapping';
+import { checkServerWorkbookSize, isExcelFileName } from '@/lib/excelSheets';
+import type { UploadBatchContext } from '@/lib/uploadRecords';
+import {
+  INGEST_BATCH_SIZE,
+  IngestClient,
+  IngestFile,
+  fetchSavedBatchIndices,
+  ingestBatches,
+  ingestErrorMessage,
+  loadFeeRegistries,
+  openIngestSource,
+  saveIngestRowIssues,
+} from '@/lib/serverIngest';
+
+type UploadRow = Tables<'file_uploads'>;
+
+const UPLOAD_BUCKET = 'uploads';
+const PARSE_REPORT_MS = 10 * 1000;
+
+// The raw file in storage; every stream() is a fresh download, read as it arrives
+async function openStoredFile(supabase: IngestClient, fileName: string, path: string): Promise<IngestFile> {
+  const bucket = supabase.storage.from(UPLOAD_BUCKET);
+  const { data: info, error } = await bucket.info(path);
+  if (error || !info) throw new Error(`Could not find ${fileName} in storage: ${error?.message ?? 'no data'}`);
+  const downloadError = (reason: { message: string } | null) =>
+    new Error(`Could not download ${fileName}: ${reason?.message ?? 'no data'}`);
+
+  return {
+    size: info.size ?? 0,
+    stream: () => {
+      let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+      return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          if (!reader) {
+            const { data, error: streamError } = await bucket.download(path).asStream();
+            if (streamError || !data) throw downloadError(streamError);
+            reader = data.getReader();
+          }
+          const { done, value } = await reader.read();
+          if (done) controller.close();
+          else controller.enqueue(value);
+        },
+        cancel: reason => reader?.cancel(reason),
+      });
+    },
+    arrayBuffer: async () => {
+      const { data, error: blobError } = await bucket.download(path);
+      if (blobError || !data) throw downloadError(blobError);
+      return data.arrayBuffer();
+    },
+  };
+}
+
+// Run a claimed job to the end; never throws, the outcome is written to the upload row
+export async function runIngestJob(supabase: IngestClient, upload: UploadRow): Promise<void> {
+  const startedAt = Date.now();
+  const claimId = upload.job_claim_id!; // claim_ingest_job sets a new one on every claim
+  let superseded = false;
+
+  // Only while this run still holds the claim; a stale heartbeat lets another run take the job over
+  const updateJob = async (values: Database['public']['Tables']['file_uploads']['Update']) => {
+    const { data, error } = await supabase
+      .from('file_uploads')
+      .update(values)
+      .eq('id', upload.id)
+      .eq('job_claim_id', claimId)
+      .select('id');
+    if (error) throw error;
+    if (!data || data.length === 0) {
+      superseded = true;
+      throw new Error('The job was claimed by a later run');
+    }
+  };
+
+  // Progress line for the polling UI; doubles as the heartbeat that keeps the job claimed
+  const reportJob = async (message: string) => {
+    try {
+      await updateJob({ job_message: message, job_heartbeat_at: new Date().toISOString() });
+    } catch (error) {
+      if (superseded) throw error;
+      console.warn('Could not report job progress:', ingestErrorMessage(error));
+    }
+  };
+
+  try {
+    if (!upload.storage_path) throw new Error('The upload has no file in storage');
+
+    await reportJob('Downloading file');
+    const [file] = await Promise.all([
+      openStoredFile(supabase, upload.file_name, upload.storage_path),
+      loadFeeRegistries(supabase),
+    ]);
+    if (isExcelFileName(upload.file_name)) checkServerWorkbookSize(upload.file_name, file.size);
+
+    // Reading and converting a workbook give no progress of their own, so each step reports
+    const opened = await openIngestSource(
+      supabase,
+      {
+        fileName: upload.file_name,
+        file,
+        sheetNames: upload.sheet_names as unknown as string[] | null,
+        mapping: upload.column_mapping as unknown as ColumnMapping | null,
+      },
+      reportJob
+    );
+
+    // Batch numbers depend on the sheets, the mapping and the batch size, so they are stored before
+    // the first batch is written and every rerun keeps them
+    const resend = upload.batch_size !== null;
+    if (resend && upload.batch_size !== INGEST_BATCH_SIZE) {
+      throw new Error(`${upload.file_name} was started with batches of ${upload.batch_size} rows. Replace it instead.`);
+    }
+    if (!resend) {
+      await updateJob({
+        batch_size: INGEST_BATCH_SIZE,
+        column_mapping: opened.mapping as unknown as Json,
+        sheet_names: opened.sheetNames as unknown as Json,
+      });
+    }
+
+    const detectedType = opened.fileTypeDetection.fileType;
+    const context: UploadBatchContext = {
+      fileUploadId: upload.id,
+      // A file the user had to type only has its label left to go by
+      parsedFileType: detectedType === 'Unknown' ? upload.file_type : detectedType,
+      finalFileType: upload.file_type,
+      // Set when the file was queued (the date in its name, else that day), so a rerun shapes the same rows
+      businessDate: upload.file_business_date,
+    };
+    const saved = resend ? await fetchSavedBatchIndices(supabase, upload.id) : new Set<number>();
+    console.log(`Ingesting ${upload.file_name}: ${saved.size} batches of ${INGEST_BATCH_SIZE} already saved`);
+
+    // Every write is preceded by a heartbeat, which stops the run if it lost its claim; batches saved
+    // earlier are only parsed past, so those report now and then
+    const knownTotal = upload.total_batches !== null ? `/${upload.total_batches.toLocaleString()}` : '';
+    let lastReport = 0;
+    const result = await ingestBatches(supabase, opened, {
+      context,
+      savedBatches: saved,
+      resend,
+      beforeBatch: async ({ parsedRows, savedBatches, failedBatches }, writing) => {
+        if (!writing && Date.now() - lastReport < PARSE_REPORT_MS) return;
+        lastReport = Date.now();
+        await reportJob(
+          `Saved ${savedBatches.toLocaleString()}${knownTotal} batches, ${parsedRows.toLocaleString()} rows read` +
+            (failedBatches > 0 ? ` (${failedBatches} failed)` : '')
+        );
+      },
+    });
+
+    const { rowCount, totalBatches, failed } = result;
+    if (rowCount === 0) throw new Error('No valid rows found in the file.');
+    // A rerun must parse to the same rows, or the checkpointed batch indices no longer line up
+    if (upload.total_batches !== null && upload.row_count !== rowCount) {
+      throw new Error(`${upload.file_name} now parses to ${rowCount.toLocaleString()} rows, not ${upload.row_count?.toLocaleString()}. Replace it instead.`);
+    }
+
+    const issueSummary = result.issues.summary();
+    await updateJob({
+      row_count: rowCount,
+      fingerprint: `${upload.file_type}|${upload.file_business_date}|${result.trgidHash}`,
+      total_batches: totalBatches,
+      issue_summary: issueSummary as unknown as Json,
+    });
+    if (issueSummary.total > 0) {
+      try {
+        await saveIngestRowIssues(supabase, upload.id, result.issues.issues());
+      } catch (error) {
+        console.warn('Could not save row issues:', ingestErrorMessage(error));
+      }
+    }
+
+    if (failed.length > 0) {
+      await updateJob({
+        upload_status: 'incomplete',
+        processed: false,
+        job_status: 'failed',
+        job_message: `${failed.length} of ${totalBatches} batches could not be saved. Run the job again to send only those.`,
+        job_finished_at: new Date().toISOString(),
+      });
+      return;
+    }
+
+    await updateJob({
+      upload_status: 'complete',
+      processed: true,
+      job_status: 'succeeded',
+      job_message: `Saved ${rowCount.toLocaleString()} units in ${Math.round((Date.now() - startedAt) / 1000)}s`,
+      job_finished_at: new Date().toISOString(),
+    });
+
+    // A replacement only takes over from the old upload once every batch is in
+    if (upload.replaces_upload_id) {
+      const { error } = await supabase.rpc('replace_file_upload', { p_new_upload_id: upload.id });
+      if (error) console.error('Could not remove the replaced upload:', error.message);
+    }
+
+    // The raw file is only kept while the job may need to run again
+    const { error: removeError } = await supabase.storage.from(UPLOAD_BUCKET).remove([upload.storage_path]);
+    if (removeError) console.warn('Could not remove the uploaded file:', removeError.message);
+    else await updateJob({ storage_path: null });
+  } catch (error) {
+    // The run that took over owns the row now
+    if (superseded) {
+      console.warn(`Ingest of ${upload.file_name} stopped: ${ingestErrorMessage(error)}`);
+      return;
+    }
+    console.error(`Ingest of ${upload.file_name} failed:`, error);
+    try {
+      await updateJob({
+        upload_status: 'incomplete',
+        processed: false,
+        job_status: 'failed',
+        job_message: ingestErrorMessage(error),
+        job_finished_at: new Date().toISOString(),
+      });
+    } catch (statusError) {
+      console.error('Could not record the failed job:', ingestErrorMessage(statusError));
+    }
+  }
+}
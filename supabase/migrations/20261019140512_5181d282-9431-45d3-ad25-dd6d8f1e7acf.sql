@@ -0,0 +1,50 @@
+-- Versioned fee rate cards with effective dates
+-- Each card type (check-in, PPS, refurb fee, refurb % of retail) is versioned independently.
+-- Sales are priced with the version in force on their order_closed_date.
+
+CREATE TYPE public.rate_card_type AS ENUM ('CheckIn', 'PPS', 'RefurbFee', 'RefurbPct');
+
+CREATE TABLE public.rate_cards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  card_type rate_card_type NOT NULL,
+  version INTEGER NOT NULL,
+  effective_from DATE NOT NULL,
+  effective_to DATE,
+  source_file_name TEXT,
+  notes TEXT,
+  published_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (card_type, version),
+  CHECK (effective_to IS NULL OR effective_to >= effective_from)
+);
+
+CREATE TABLE public.rate_card_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rate_card_id UUID NOT NULL REFERENCES public.rate_cards(id) ON DELETE CASCADE,
+  lookup_key TEXT NOT NULL,
+  category TEXT,
+  program TEXT,
+  pricing_condition TEXT,
+  price_type TEXT NOT NULL DEFAULT 'dollar' CHECK (price_type IN ('dollar', 'percent')),
+  price NUMERIC(12,4) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (rate_card_id, lookup_key)
+);
+
+CREATE INDEX idx_rate_cards_type_effective ON public.rate_cards(card_type, effective_from);
+CREATE INDEX idx_rate_card_entries_rate_card_id ON public.rate_card_entries(rate_card_id);
+
+ALTER TABLE public.rate_cards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rate_card_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations for authenticated users on rate_cards"
+ON public.rate_cards FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE POLICY "Allow all operations for anonymous users on rate_cards"
+ON public.rate_cards FOR ALL TO anon USING (true) WITH CHECK (true);
+
+CREATE POLICY "Allow all operations for authenticated users on rate_card_entries"
+ON public.rate_card_entries FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE POLICY "Allow all operations for anonymous users on rate_card_entries"
+ON public.rate_card_entries FOR ALL TO anon USING (true) WITH CHECK (true);
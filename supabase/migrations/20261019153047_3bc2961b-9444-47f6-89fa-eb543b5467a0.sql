@@ -0,0 +1,57 @@
+-- Publish a new rate card version in one transaction
+-- Closes the currently open version of the same type the day before the new one takes effect.
+CREATE OR REPLACE FUNCTION public.publish_rate_card(
+  p_card_type rate_card_type,
+  p_effective_from date,
+  p_entries jsonb,
+  p_source_file_name text DEFAULT NULL,
+  p_notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  latest_effective_from date;
+  latest_version integer;
+  new_card_id uuid;
+BEGIN
+  IF p_entries IS NULL OR jsonb_array_length(p_entries) = 0 THEN
+    RAISE EXCEPTION 'Rate card has no entries';
+  END IF;
+
+  SELECT MAX(effective_from), COALESCE(MAX(version), 0)
+  INTO latest_effective_from, latest_version
+  FROM rate_cards
+  WHERE card_type = p_card_type;
+
+  -- Back-dating would silently re-price sales already covered by a published card
+  IF latest_effective_from IS NOT NULL AND p_effective_from <= latest_effective_from THEN
+    RAISE EXCEPTION 'Effective date % must be after the latest % card (effective %)',
+      p_effective_from, p_card_type, latest_effective_from;
+  END IF;
+
+  UPDATE rate_cards
+  SET effective_to = p_effective_from - 1
+  WHERE card_type = p_card_type
+    AND (effective_to IS NULL OR effective_to >= p_effective_from);
+
+  INSERT INTO rate_cards (card_type, version, effective_from, source_file_name, notes)
+  VALUES (p_card_type, latest_version + 1, p_effective_from, p_source_file_name, p_notes)
+  RETURNING id INTO new_card_id;
+
+  INSERT INTO rate_card_entries (rate_card_id, lookup_key, category, program, pricing_condition, price_type, price)
+  SELECT
+    new_card_id,
+    e->>'key',
+    NULLIF(e->>'category', ''),
+    NULLIF(e->>'program', ''),
+    NULLIF(e->>'condition', ''),
+    COALESCE(e->>'priceType', 'dollar'),
+    (e->>'price')::numeric
+  FROM jsonb_array_elements(p_entries) AS e;
+
+  RETURN new_card_id;
+END;
+$$;
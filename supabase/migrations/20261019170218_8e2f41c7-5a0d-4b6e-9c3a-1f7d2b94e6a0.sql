@@ -0,0 +1,47 @@
+-- Versioned fee eligibility rule sets
+-- The latest version decides the B2C / dropship / excluded / SAMS / vendor pallet flags
+-- the fee calculator uses. Older versions are kept for history.
+
+CREATE TABLE public.fee_rule_sets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  version INTEGER NOT NULL UNIQUE,
+  defaults JSONB NOT NULL,
+  rules JSONB NOT NULL,
+  notes TEXT,
+  published_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (jsonb_typeof(rules) = 'array')
+);
+
+ALTER TABLE public.fee_rule_sets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations for authenticated users on fee_rule_sets"
+ON public.fee_rule_sets FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE POLICY "Allow all operations for anonymous users on fee_rule_sets"
+ON public.fee_rule_sets FOR ALL TO anon USING (true) WITH CHECK (true);
+
+-- Publish the next version; numbering happens server-side so concurrent publishes can't collide
+CREATE OR REPLACE FUNCTION public.publish_fee_rule_set(
+  p_defaults jsonb,
+  p_rules jsonb,
+  p_notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_id uuid;
+BEGIN
+  LOCK TABLE fee_rule_sets IN SHARE ROW EXCLUSIVE MODE;
+
+  INSERT INTO fee_rule_sets (version, defaults, rules, notes)
+  SELECT COALESCE(MAX(version), 0) + 1, p_defaults, p_rules, p_notes
+  FROM fee_rule_sets
+  RETURNING id INTO new_id;
+
+  RETURN new_id;
+END;
+$$;
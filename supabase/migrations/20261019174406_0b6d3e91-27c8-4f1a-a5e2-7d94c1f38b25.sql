@@ -0,0 +1,103 @@
+-- Calculated fee breakdown per sale
+-- fee_metrics keeps the fees reported in the Outbound export; sale_fees holds what our own
+-- calculator priced for every sales_metrics row, tagged with the rate cards and fee rule
+-- set version used so rows can be re-priced when either changes.
+
+CREATE TABLE public.sale_fees (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trgid TEXT NOT NULL UNIQUE REFERENCES public.sales_metrics(trgid) ON DELETE CASCADE,
+
+  -- Dimensions copied from the sale so dashboards can group without a join
+  order_closed_date DATE,
+  wm_week INTEGER,
+  program_name TEXT,
+  category_name TEXT,
+  facility TEXT,
+
+  -- All 11 fee components
+  check_in_fee NUMERIC(10,2) NOT NULL DEFAULT 0,
+  refurb_fee NUMERIC(10,2) NOT NULL DEFAULT 0,
+  overbox_fee NUMERIC(10,2) NOT NULL DEFAULT 0,
+  packaging_fee NUMERIC(10,2) NOT NULL DEFAULT 0,
+  pps_fee NUMERIC(10,2) NOT NULL DEFAULT 0,
+  shipping_fee NUMERIC(10,2) NOT NULL DEFAULT 0,
+  merchant_fee NUMERIC(10,2) NOT NULL DEFAULT 0,
+  revshare_fee NUMERIC(10,2) NOT NULL DEFAULT 0,
+  third_party_mp_fee NUMERIC(10,2) NOT NULL DEFAULT 0,
+  marketing_fee NUMERIC(10,2) NOT NULL DEFAULT 0,
+  refund_fee NUMERIC(10,2) NOT NULL DEFAULT 0,
+  total_fees NUMERIC(10,2) NOT NULL DEFAULT 0,
+  net_dollars NUMERIC(10,2) NOT NULL DEFAULT 0,
+
+  -- Pricing provenance: rate card ids are 'bundled' when no published card was in force
+  check_in_rate_card_id TEXT NOT NULL,
+  pps_rate_card_id TEXT NOT NULL,
+  refurb_fee_rate_card_id TEXT NOT NULL,
+  refurb_pct_rate_card_id TEXT NOT NULL,
+  fee_rule_set_version INTEGER NOT NULL,
+  calculated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_sale_fees_wm_week ON public.sale_fees(wm_week);
+CREATE INDEX idx_sale_fees_order_closed ON public.sale_fees(order_closed_date);
+CREATE INDEX idx_sale_fees_program ON public.sale_fees(program_name);
+
+ALTER TABLE public.sale_fees ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations for authenticated users on sale_fees"
+ON public.sale_fees FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE POLICY "Allow all operations for anonymous users on sale_fees"
+ON public.sale_fees FOR ALL TO anon USING (true) WITH CHECK (true);
+
+-- Aggregate the stored breakdown so dashboards don't have to re-price every sale in the browser
+CREATE OR REPLACE FUNCTION public.get_sale_fee_totals(
+  p_wm_weeks integer[] DEFAULT NULL,
+  p_program_names text[] DEFAULT NULL,
+  p_facilities text[] DEFAULT NULL
+)
+RETURNS TABLE (
+  units bigint,
+  check_in_fees numeric,
+  refurb_fees numeric,
+  overbox_fees numeric,
+  packaging_fees numeric,
+  pps_fees numeric,
+  shipping_fees numeric,
+  merchant_fees numeric,
+  revshare_fees numeric,
+  third_party_mp_fees numeric,
+  marketing_fees numeric,
+  refund_fees numeric,
+  total_fees numeric,
+  net_dollars numeric,
+  last_calculated_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COUNT(*),
+    COALESCE(SUM(check_in_fee), 0),
+    COALESCE(SUM(refurb_fee), 0),
+    COALESCE(SUM(overbox_fee), 0),
+    COALESCE(SUM(packaging_fee), 0),
+    COALESCE(SUM(pps_fee), 0),
+    COALESCE(SUM(shipping_fee), 0),
+    COALESCE(SUM(merchant_fee), 0),
+    COALESCE(SUM(revshare_fee), 0),
+    COALESCE(SUM(third_party_mp_fee), 0),
+    COALESCE(SUM(marketing_fee), 0),
+    COALESCE(SUM(refund_fee), 0),
+    COALESCE(SUM(total_fees), 0),
+    COALESCE(SUM(net_dollars), 0),
+    MAX(calculated_at)
+  FROM sale_fees
+  WHERE (p_wm_weeks IS NULL OR wm_week = ANY(p_wm_weeks))
+    AND (p_program_names IS NULL OR program_name = ANY(p_program_names))
+    AND (p_facilities IS NULL OR facility = ANY(p_facilities));
+$$;
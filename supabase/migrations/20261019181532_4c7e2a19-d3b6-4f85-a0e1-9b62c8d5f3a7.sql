@@ -0,0 +1,342 @@
+-- Multi-client support
+-- Client source becomes a first-class dimension instead of a hard-coded WMUS filter.
+-- Each client carries its own marketplace mapping and sales channel rules (NULL = the bundled
+-- Walmart rules) and publishes its own rate card versions.
+
+CREATE TABLE public.clients (
+  code TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  marketplace_rules JSONB,
+  channel_rules JSONB,
+  default_channel TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (marketplace_rules IS NULL OR jsonb_typeof(marketplace_rules) = 'array'),
+  CHECK (channel_rules IS NULL OR jsonb_typeof(channel_rules) = 'array')
+);
+
+ALTER TABLE public.clients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations for authenticated users on clients"
+ON public.clients FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE POLICY "Allow all operations for anonymous users on clients"
+ON public.clients FOR ALL TO anon USING (true) WITH CHECK (true);
+
+INSERT INTO public.clients (code, name) VALUES
+  ('WMUS', 'Walmart US'),
+  ('SAMS', 'Sam''s Club');
+
+-- Rate cards are versioned per client and card type; existing cards belong to WMUS
+ALTER TABLE public.rate_cards ADD COLUMN client_source TEXT NOT NULL DEFAULT 'WMUS';
+ALTER TABLE public.rate_cards DROP CONSTRAINT rate_cards_card_type_version_key;
+ALTER TABLE public.rate_cards ADD CONSTRAINT rate_cards_client_source_card_type_version_key
+  UNIQUE (client_source, card_type, version);
+
+DROP INDEX IF EXISTS public.idx_rate_cards_type_effective;
+CREATE INDEX idx_rate_cards_client_type_effective ON public.rate_cards(client_source, card_type, effective_from);
+
+-- Publish a new rate card version for one client in one transaction
+-- Closes that client's open version of the same type the day before the new one takes effect.
+DROP FUNCTION IF EXISTS public.publish_rate_card(rate_card_type, date, jsonb, text, text);
+
+CREATE OR REPLACE FUNCTION public.publish_rate_card(
+  p_card_type rate_card_type,
+  p_effective_from date,
+  p_entries jsonb,
+  p_source_file_name text DEFAULT NULL,
+  p_notes text DEFAULT NULL,
+  p_client_source text DEFAULT 'WMUS'
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  latest_effective_from date;
+  latest_version integer;
+  new_card_id uuid;
+BEGIN
+  IF p_entries IS NULL OR jsonb_array_length(p_entries) = 0 THEN
+    RAISE EXCEPTION 'Rate card has no entries';
+  END IF;
+
+  SELECT MAX(effective_from), COALESCE(MAX(version), 0)
+  INTO latest_effective_from, latest_version
+  FROM rate_cards
+  WHERE client_source = p_client_source
+    AND card_type = p_card_type;
+
+  -- Back-dating would silently re-price sales already covered by a published card
+  IF latest_effective_from IS NOT NULL AND p_effective_from <= latest_effective_from THEN
+    RAISE EXCEPTION 'Effective date % must be after the latest % % card (effective %)',
+      p_effective_from, p_client_source, p_card_type, latest_effective_from;
+  END IF;
+
+  UPDATE rate_cards
+  SET effective_to = p_effective_from - 1
+  WHERE client_source = p_client_source
+    AND card_type = p_card_type
+    AND (effective_to IS NULL OR effective_to >= p_effective_from);
+
+  INSERT INTO rate_cards (client_source, card_type, version, effective_from, source_file_name, notes)
+  VALUES (p_client_source, p_card_type, latest_version + 1, p_effective_from, p_source_file_name, p_notes)
+  RETURNING id INTO new_card_id;
+
+  INSERT INTO rate_card_entries (rate_card_id, lookup_key, category, program, pricing_condition, price_type, price)
+  SELECT
+    new_card_id,
+    e->>'key',
+    NULLIF(e->>'category', ''),
+    NULLIF(e->>'program', ''),
+    NULLIF(e->>'condition', ''),
+    COALESCE(e->>'priceType', 'dollar'),
+    (e->>'price')::numeric
+  FROM jsonb_array_elements(p_entries) AS e;
+
+  RETURN new_card_id;
+END;
+$$;
+
+-- Fee rows carry the client so fee views can be scoped like the sales they belong to
+ALTER TABLE public.fee_metrics ADD COLUMN tag_clientsource TEXT;
+
+UPDATE public.fee_metrics f
+SET tag_clientsource = u.tag_clientsource
+FROM public.units_canonical u
+WHERE u.trgid = f.trgid
+  AND f.tag_clientsource IS NULL;
+
+CREATE INDEX idx_fee_metrics_tag_clientsource ON public.fee_metrics(tag_clientsource) WHERE tag_clientsource IS NOT NULL;
+
+ALTER TABLE public.sale_fees ADD COLUMN tag_clientsource TEXT;
+
+UPDATE public.sale_fees f
+SET tag_clientsource = s.tag_clientsource
+FROM public.sales_metrics s
+WHERE s.trgid = f.trgid;
+
+CREATE INDEX idx_sale_fees_tag_clientsource ON public.sale_fees(tag_clientsource);
+
+-- Stored fee totals, optionally for one client (NULL = all clients)
+DROP FUNCTION IF EXISTS public.get_sale_fee_totals(integer[], text[], text[]);
+
+CREATE OR REPLACE FUNCTION public.get_sale_fee_totals(
+  p_wm_weeks integer[] DEFAULT NULL,
+  p_program_names text[] DEFAULT NULL,
+  p_facilities text[] DEFAULT NULL,
+  p_client_source text DEFAULT NULL
+)
+RETURNS TABLE (
+  units bigint,
+  check_in_fees numeric,
+  refurb_fees numeric,
+  overbox_fees numeric,
+  packaging_fees numeric,
+  pps_fees numeric,
+  shipping_fees numeric,
+  merchant_fees numeric,
+  revshare_fees numeric,
+  third_party_mp_fees numeric,
+  marketing_fees numeric,
+  refund_fees numeric,
+  total_fees numeric,
+  net_dollars numeric,
+  last_calculated_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COUNT(*),
+    COALESCE(SUM(check_in_fee), 0),
+    COALESCE(SUM(refurb_fee), 0),
+    COALESCE(SUM(overbox_fee), 0),
+    COALESCE(SUM(packaging_fee), 0),
+    COALESCE(SUM(pps_fee), 0),
+    COALESCE(SUM(shipping_fee), 0),
+    COALESCE(SUM(merchant_fee), 0),
+    COALESCE(SUM(revshare_fee), 0),
+    COALESCE(SUM(third_party_mp_fee), 0),
+    COALESCE(SUM(marketing_fee), 0),
+    COALESCE(SUM(refund_fee), 0),
+    COALESCE(SUM(total_fees), 0),
+    COALESCE(SUM(net_dollars), 0),
+    MAX(calculated_at)
+  FROM sale_fees
+  WHERE (p_wm_weeks IS NULL OR wm_week = ANY(p_wm_weeks))
+    AND (p_program_names IS NULL OR program_name = ANY(p_program_names))
+    AND (p_facilities IS NULL OR facility = ANY(p_facilities))
+    AND (p_client_source IS NULL OR tag_clientsource = p_client_source);
+$$;
+
+-- Inbound aggregates scoped to a client (NULL = all clients) instead of WMUS only
+DROP FUNCTION IF EXISTS public.get_inbound_metrics(uuid[], integer[], integer[]);
+
+CREATE OR REPLACE FUNCTION public.get_inbound_metrics(
+  p_file_ids uuid[],
+  p_wm_weeks integer[] DEFAULT NULL,
+  p_wm_days integer[] DEFAULT NULL,
+  p_client_source text DEFAULT 'WMUS'
+)
+RETURNS TABLE (
+  received_count bigint,
+  checked_in_count bigint,
+  sold_same_week_sales numeric,
+  sold_same_week_retail numeric,
+  sold_count bigint,
+  checked_in_same_week_retail numeric,
+  not_checked_in_same_week_retail numeric,
+  avg_days_to_checkin numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH week_ranges AS (
+    SELECT r.start_date, r.end_date
+    FROM unnest(COALESCE(p_wm_weeks, ARRAY[]::integer[])) AS w(week_num)
+    CROSS JOIN LATERAL get_wm_week_date_range(w.week_num, 2025) AS r
+  ),
+  -- Get SLA file IDs (separate from inbound files)
+  sla_file_ids AS (
+    SELECT id FROM file_uploads WHERE file_type = 'SLA'
+  ),
+  -- Main deduped set filtered by received_on date (for received/checked-in/sales metrics)
+  deduped AS (
+    SELECT DISTINCT ON (u.trgid)
+      u.trgid,
+      u.received_on,
+      u.checked_in_on,
+      u.order_closed_date,
+      u.effective_retail,
+      u.sale_price,
+      u.master_program_name
+    FROM units_canonical u
+    WHERE u.file_upload_id = ANY(p_file_ids)
+      AND (p_client_source IS NULL OR u.tag_clientsource = p_client_source)
+      AND u.received_on IS NOT NULL
+      AND (
+        p_wm_weeks IS NULL 
+        OR EXISTS (
+          SELECT 1 FROM week_ranges wr 
+          WHERE u.received_on BETWEEN wr.start_date AND wr.end_date
+        )
+      )
+      AND (
+        p_wm_days IS NULL 
+        OR get_wm_day_of_week(u.received_on) = ANY(p_wm_days)
+      )
+    ORDER BY u.trgid, u.received_on DESC
+  ),
+  -- SLA metric calculated from SLA files only, filtered by checked_in_on date
+  sla_deduped AS (
+    SELECT DISTINCT ON (u.trgid)
+      u.trgid,
+      u.received_on,
+      u.checked_in_on
+    FROM units_canonical u
+    WHERE u.file_upload_id IN (SELECT id FROM sla_file_ids)
+      AND (p_client_source IS NULL OR u.tag_clientsource = p_client_source)
+      AND u.checked_in_on IS NOT NULL
+      AND u.received_on IS NOT NULL
+      AND (
+        p_wm_weeks IS NULL 
+        OR EXISTS (
+          SELECT 1 FROM week_ranges wr 
+          WHERE u.checked_in_on BETWEEN wr.start_date AND wr.end_date
+        )
+      )
+      AND (
+        p_wm_days IS NULL 
+        OR get_wm_day_of_week(u.checked_in_on) = ANY(p_wm_days)
+      )
+    ORDER BY u.trgid, u.checked_in_on DESC
+  ),
+  -- Calculate SLA metric from SLA files
+  sla_metrics AS (
+    SELECT COALESCE(AVG(checked_in_on - received_on), 0)::numeric as avg_days
+    FROM sla_deduped
+  )
+  SELECT
+    COUNT(*)::bigint as received_count,
+    COUNT(*) FILTER (WHERE checked_in_on IS NOT NULL)::bigint as checked_in_count,
+    COALESCE(SUM(sale_price) FILTER (
+      WHERE order_closed_date IS NOT NULL 
+        AND sale_price IS NOT NULL
+        AND sale_price > 0
+        AND (master_program_name IS NULL OR LOWER(master_program_name) NOT LIKE '%owned%')
+        AND get_wm_week_number(order_closed_date) = get_wm_week_number(received_on)
+    ), 0)::numeric as sold_same_week_sales,
+    COALESCE(SUM(effective_retail) FILTER (
+      WHERE order_closed_date IS NOT NULL 
+        AND sale_price IS NOT NULL
+        AND sale_price > 0
+        AND (master_program_name IS NULL OR LOWER(master_program_name) NOT LIKE '%owned%')
+        AND get_wm_week_number(order_closed_date) = get_wm_week_number(received_on)
+    ), 0)::numeric as sold_same_week_retail,
+    COUNT(*) FILTER (
+      WHERE order_closed_date IS NOT NULL 
+        AND sale_price IS NOT NULL
+        AND sale_price > 0
+        AND (master_program_name IS NULL OR LOWER(master_program_name) NOT LIKE '%owned%')
+        AND get_wm_week_number(order_closed_date) = get_wm_week_number(received_on)
+    )::bigint as sold_count,
+    COALESCE(SUM(effective_retail) FILTER (WHERE checked_in_on IS NOT NULL), 0)::numeric as checked_in_same_week_retail,
+    COALESCE(SUM(effective_retail) FILTER (WHERE checked_in_on IS NULL), 0)::numeric as not_checked_in_same_week_retail,
+    (SELECT avg_days FROM sla_metrics) as avg_days_to_checkin
+  FROM deduped;
+$$;
+
+DROP FUNCTION IF EXISTS public.get_inbound_daily_chart(uuid[], integer[], integer[]);
+
+CREATE OR REPLACE FUNCTION public.get_inbound_daily_chart(
+  p_file_ids uuid[],
+  p_wm_weeks integer[] DEFAULT NULL,
+  p_wm_days integer[] DEFAULT NULL,
+  p_client_source text DEFAULT 'WMUS'
+)
+RETURNS TABLE(date date, received bigint, checked_in bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH week_ranges AS (
+    SELECT r.start_date, r.end_date
+    FROM unnest(COALESCE(p_wm_weeks, ARRAY[]::integer[])) AS w(week_num)
+    CROSS JOIN LATERAL get_wm_week_date_range(w.week_num, 2025) AS r
+  ),
+  deduped AS (
+    SELECT DISTINCT ON (u.trgid)
+      u.trgid,
+      u.received_on,
+      u.checked_in_on
+    FROM units_canonical u
+    WHERE u.file_upload_id = ANY(p_file_ids)
+      AND (p_client_source IS NULL OR u.tag_clientsource = p_client_source)
+      AND u.received_on IS NOT NULL
+      AND (
+        p_wm_weeks IS NULL 
+        OR EXISTS (
+          SELECT 1 FROM week_ranges wr 
+          WHERE u.received_on BETWEEN wr.start_date AND wr.end_date
+        )
+      )
+      AND (
+        p_wm_days IS NULL 
+        OR get_wm_day_of_week(u.received_on) = ANY(p_wm_days)
+      )
+    ORDER BY u.trgid, u.received_on DESC
+  )
+  SELECT
+    received_on as date,
+    COUNT(*)::bigint as received,
+    COUNT(*) FILTER (WHERE checked_in_on IS NOT NULL)::bigint as checked_in
+  FROM deduped
+  GROUP BY received_on
+  ORDER BY received_on;
+$$;
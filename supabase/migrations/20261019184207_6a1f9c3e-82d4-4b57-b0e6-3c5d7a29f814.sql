@@ -0,0 +1,28 @@
+-- Column mapping profiles for uploads
+-- A profile maps ParsedUnit fields to the headers of one report layout. Files are matched to a
+-- profile by header signature (normalized, order-independent), so a renamed export column only
+-- has to be mapped once.
+
+CREATE TABLE public.column_mapping_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  header_signature TEXT NOT NULL UNIQUE,
+  headers JSONB NOT NULL DEFAULT '[]'::jsonb,
+  mapping JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (jsonb_typeof(headers) = 'array'),
+  CHECK (jsonb_typeof(mapping) = 'object')
+);
+
+ALTER TABLE public.column_mapping_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations for authenticated users on column_mapping_profiles"
+ON public.column_mapping_profiles FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE POLICY "Allow all operations for anonymous users on column_mapping_profiles"
+ON public.column_mapping_profiles FOR ALL TO anon USING (true) WITH CHECK (true);
+
+CREATE TRIGGER update_column_mapping_profiles_updated_at
+BEFORE UPDATE ON public.column_mapping_profiles
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
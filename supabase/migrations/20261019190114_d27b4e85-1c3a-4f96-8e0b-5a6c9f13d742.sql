@@ -0,0 +1,19 @@
+-- Upload dry run
+-- How many of a file's TRGIDs are already stored, per table an upload writes to, so the preview can
+-- say what would be overwritten (or ignored, for SLA files) before anything is saved.
+CREATE OR REPLACE FUNCTION public.count_existing_trgids(p_trgids text[])
+RETURNS TABLE (
+  units_existing bigint,
+  sales_existing bigint,
+  fees_existing bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    (SELECT COUNT(*) FROM units_canonical WHERE trgid = ANY(p_trgids)),
+    (SELECT COUNT(*) FROM sales_metrics WHERE trgid = ANY(p_trgids)),
+    (SELECT COUNT(*) FROM fee_metrics WHERE trgid = ANY(p_trgids));
+$$;
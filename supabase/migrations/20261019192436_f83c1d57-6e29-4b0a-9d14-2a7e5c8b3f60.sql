@@ -0,0 +1,10 @@
+-- Duplicate upload detection
+-- content_hash: SHA-256 of the file bytes (same export uploaded again under any name).
+-- fingerprint: file type, business date and a hash of the file's TRGIDs (same units re-exported).
+-- The app blocks exact matches and flags fingerprint or type/business date matches before saving.
+ALTER TABLE public.file_uploads ADD COLUMN content_hash TEXT;
+ALTER TABLE public.file_uploads ADD COLUMN fingerprint TEXT;
+
+CREATE INDEX idx_file_uploads_content_hash ON public.file_uploads(content_hash);
+CREATE INDEX idx_file_uploads_fingerprint ON public.file_uploads(fingerprint);
+CREATE INDEX idx_file_uploads_type_business_date ON public.file_uploads(file_type, file_business_date);
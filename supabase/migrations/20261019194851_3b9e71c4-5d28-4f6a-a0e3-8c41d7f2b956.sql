@@ -0,0 +1,57 @@
+-- Resumable uploads
+-- Every batch an upload writes is checkpointed in file_upload_batches, and the upload row keeps the
+-- batch size, batch count and column mapping it was parsed with. When batches still fail after the
+-- retry rounds (or the page is closed mid-upload) the upload stays 'incomplete', and picking the same
+-- file again re-sends only the batches without a 'done' checkpoint.
+ALTER TABLE public.file_uploads
+  ADD COLUMN upload_status TEXT NOT NULL DEFAULT 'complete'
+  CHECK (upload_status IN ('uploading', 'incomplete', 'complete'));
+ALTER TABLE public.file_uploads ADD COLUMN batch_size INTEGER;
+ALTER TABLE public.file_uploads ADD COLUMN total_batches INTEGER;
+ALTER TABLE public.file_uploads ADD COLUMN column_mapping JSONB;
+
+CREATE INDEX idx_file_uploads_upload_status ON public.file_uploads(upload_status)
+WHERE upload_status <> 'complete';
+
+CREATE TABLE public.file_upload_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_upload_id UUID NOT NULL REFERENCES public.file_uploads(id) ON DELETE CASCADE,
+  batch_index INTEGER NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('done', 'failed')),
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (file_upload_id, batch_index)
+);
+
+ALTER TABLE public.file_upload_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations for authenticated users on file_upload_batches"
+ON public.file_upload_batches FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE POLICY "Allow all operations for anonymous users on file_upload_batches"
+ON public.file_upload_batches FOR ALL TO anon USING (true) WITH CHECK (true);
+
+CREATE TRIGGER update_file_upload_batches_updated_at
+BEFORE UPDATE ON public.file_upload_batches
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Checkpoint totals for one upload; last_checkpoint_at tells a running upload from an abandoned one
+CREATE OR REPLACE FUNCTION public.get_upload_batch_progress(p_upload_id uuid)
+RETURNS TABLE (
+  done_batches bigint,
+  failed_batches bigint,
+  last_checkpoint_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COUNT(*) FILTER (WHERE status = 'done'),
+    COUNT(*) FILTER (WHERE status = 'failed'),
+    MAX(updated_at)
+  FROM file_upload_batches
+  WHERE file_upload_id = p_upload_id;
+$$;
@@ -0,0 +1,92 @@
+-- Atomic file delete and replace
+-- Deleting an upload used to be five separate client calls; a failure part way left orphaned rows.
+-- delete_file_upload removes an upload and everything it wrote in one transaction and reports the
+-- rows removed per table. A replacement upload records the upload it replaces, and
+-- replace_file_upload drops the old one only once the new upload has loaded every batch.
+ALTER TABLE public.file_uploads
+  ADD COLUMN replaces_upload_id UUID REFERENCES public.file_uploads(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.delete_file_upload(p_upload_id uuid)
+RETURNS TABLE (
+  lifecycle_events_deleted bigint,
+  sales_metrics_deleted bigint,
+  sale_fees_deleted bigint,
+  fee_metrics_deleted bigint,
+  units_canonical_deleted bigint,
+  file_uploads_deleted bigint
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Lock the upload row so a concurrent replace or delete waits for this one
+  PERFORM 1 FROM file_uploads WHERE id = p_upload_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'File upload % not found', p_upload_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- sale_fees rows go with their sales row (ON DELETE CASCADE), so count them first
+  SELECT COUNT(*) INTO sale_fees_deleted
+  FROM sale_fees f
+  JOIN sales_metrics s ON s.trgid = f.trgid
+  WHERE s.file_upload_id = p_upload_id;
+
+  DELETE FROM lifecycle_events WHERE file_upload_id = p_upload_id;
+  GET DIAGNOSTICS lifecycle_events_deleted = ROW_COUNT;
+
+  DELETE FROM sales_metrics WHERE file_upload_id = p_upload_id;
+  GET DIAGNOSTICS sales_metrics_deleted = ROW_COUNT;
+
+  DELETE FROM fee_metrics WHERE file_upload_id = p_upload_id;
+  GET DIAGNOSTICS fee_metrics_deleted = ROW_COUNT;
+
+  DELETE FROM units_canonical WHERE file_upload_id = p_upload_id;
+  GET DIAGNOSTICS units_canonical_deleted = ROW_COUNT;
+
+  DELETE FROM file_uploads WHERE id = p_upload_id;
+  GET DIAGNOSTICS file_uploads_deleted = ROW_COUNT;
+
+  RETURN NEXT;
+END;
+$$;
+
+-- Swap a finished replacement in for the upload it replaces. Rows the new file re-sent already point
+-- at the new upload (upserts on trgid), so only the old file's leftover rows are removed.
+CREATE OR REPLACE FUNCTION public.replace_file_upload(p_new_upload_id uuid)
+RETURNS TABLE (
+  lifecycle_events_deleted bigint,
+  sales_metrics_deleted bigint,
+  sale_fees_deleted bigint,
+  fee_metrics_deleted bigint,
+  units_canonical_deleted bigint,
+  file_uploads_deleted bigint
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old_upload_id uuid;
+  v_status text;
+BEGIN
+  SELECT replaces_upload_id, upload_status INTO v_old_upload_id, v_status
+  FROM file_uploads
+  WHERE id = p_new_upload_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'File upload % not found', p_new_upload_id USING ERRCODE = 'no_data_found';
+  END IF;
+  IF v_status <> 'complete' THEN
+    RAISE EXCEPTION 'Upload % has not finished loading; the file it replaces is kept until it does', p_new_upload_id;
+  END IF;
+  -- Already swapped, or the old upload was deleted in the meantime
+  IF v_old_upload_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE file_uploads SET replaces_upload_id = NULL WHERE id = p_new_upload_id;
+  RETURN QUERY SELECT * FROM delete_file_upload(v_old_upload_id);
+END;
+$$;
@@ -0,0 +1,27 @@
+-- Row-level upload issues
+-- Rows the parser rejected (no TRGID) and values it could not read (dates, numbers), saved against
+-- the upload so they can be reviewed and sent back to the source system. issue_summary on the
+-- upload holds the counts for the whole file; upload_row_issues keeps the first 10,000 rows.
+ALTER TABLE public.file_uploads ADD COLUMN issue_summary JSONB;
+
+CREATE TABLE public.upload_row_issues (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_upload_id UUID NOT NULL REFERENCES public.file_uploads(id) ON DELETE CASCADE,
+  line_number INTEGER NOT NULL,
+  trgid TEXT,
+  column_name TEXT,
+  raw_value TEXT NOT NULL DEFAULT '',
+  reason TEXT NOT NULL,
+  severity TEXT NOT NULL CHECK (severity IN ('rejected', 'warning')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_upload_row_issues_file_upload_id ON public.upload_row_issues(file_upload_id, line_number);
+
+ALTER TABLE public.upload_row_issues ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations for authenticated users on upload_row_issues"
+ON public.upload_row_issues FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE POLICY "Allow all operations for anonymous users on upload_row_issues"
+ON public.upload_row_issues FOR ALL TO anon USING (true) WITH CHECK (true);
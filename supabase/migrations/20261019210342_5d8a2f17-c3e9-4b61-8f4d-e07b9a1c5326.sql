@@ -0,0 +1,27 @@
+-- Excel sheet selections
+-- Which sheets of a workbook to ingest, remembered per file-name pattern (the name lower-cased with
+-- every run of digits replaced by '#'), so next month's workbook uses the same sheets without asking.
+-- file_uploads.sheet_names records the sheets an upload was read from, so it can be resumed.
+
+CREATE TABLE public.excel_sheet_selections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_pattern TEXT NOT NULL UNIQUE,
+  sheet_names JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (jsonb_typeof(sheet_names) = 'array')
+);
+
+ALTER TABLE public.excel_sheet_selections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations for authenticated users on excel_sheet_selections"
+ON public.excel_sheet_selections FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE POLICY "Allow all operations for anonymous users on excel_sheet_selections"
+ON public.excel_sheet_selections FOR ALL TO anon USING (true) WITH CHECK (true);
+
+CREATE TRIGGER update_excel_sheet_selections_updated_at
+BEFORE UPDATE ON public.excel_sheet_selections
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.file_uploads ADD COLUMN sheet_names JSONB;
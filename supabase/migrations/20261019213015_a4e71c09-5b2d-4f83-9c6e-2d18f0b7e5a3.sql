@@ -0,0 +1,61 @@
+-- Server-side ingestion
+-- Instead of parsing in the browser, an upload can send the raw file to the "uploads" storage bucket
+-- and hand it to the ingest-upload edge function. The job is tracked on the file_uploads row: the
+-- browser polls job_status / job_message, and the batches it writes are checkpointed in
+-- file_upload_batches exactly as a browser upload's are, so a failed or timed-out job can be run again
+-- and only sends the batches that are missing.
+ALTER TABLE public.file_uploads
+  ADD COLUMN ingest_mode TEXT NOT NULL DEFAULT 'browser'
+  CHECK (ingest_mode IN ('browser', 'server'));
+ALTER TABLE public.file_uploads ADD COLUMN storage_path TEXT;
+ALTER TABLE public.file_uploads
+  ADD COLUMN job_status TEXT
+  CHECK (job_status IN ('queued', 'running', 'succeeded', 'failed'));
+ALTER TABLE public.file_uploads ADD COLUMN job_message TEXT;
+ALTER TABLE public.file_uploads ADD COLUMN job_started_at TIMESTAMPTZ;
+ALTER TABLE public.file_uploads ADD COLUMN job_heartbeat_at TIMESTAMPTZ;
+ALTER TABLE public.file_uploads ADD COLUMN job_finished_at TIMESTAMPTZ;
+-- New on every claim; a run whose claim was taken over by a later one stops writing
+ALTER TABLE public.file_uploads ADD COLUMN job_claim_id UUID;
+
+CREATE INDEX idx_file_uploads_job_status ON public.file_uploads(job_status)
+WHERE job_status IN ('queued', 'running');
+
+-- Raw files waiting for (or kept after a failed) server-side ingest
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('uploads', 'uploads', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Allow all operations for authenticated users on uploads bucket"
+ON storage.objects FOR ALL TO authenticated
+USING (bucket_id = 'uploads') WITH CHECK (bucket_id = 'uploads');
+
+CREATE POLICY "Allow all operations for anonymous users on uploads bucket"
+ON storage.objects FOR ALL TO anon
+USING (bucket_id = 'uploads') WITH CHECK (bucket_id = 'uploads');
+
+-- Hand a job to one function run. Queued and failed jobs can be claimed; a running job only once its
+-- heartbeat is older than p_stale_after (the run that held it was stopped). Returns no row otherwise.
+-- The returned job_claim_id is the run's token: its heartbeats and writes check it is still current.
+CREATE OR REPLACE FUNCTION public.claim_ingest_job(p_upload_id uuid, p_stale_after interval DEFAULT interval '2 minutes')
+RETURNS SETOF public.file_uploads
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE file_uploads
+  SET job_status = 'running',
+      job_claim_id = gen_random_uuid(),
+      job_message = 'Starting',
+      job_started_at = now(),
+      job_heartbeat_at = now(),
+      job_finished_at = NULL,
+      upload_status = 'uploading'
+  WHERE id = p_upload_id
+    AND ingest_mode = 'server'
+    AND (
+      job_status IN ('queued', 'failed')
+      OR (job_status = 'running' AND job_heartbeat_at < now() - p_stale_after)
+    )
+  RETURNING *;
+$$;
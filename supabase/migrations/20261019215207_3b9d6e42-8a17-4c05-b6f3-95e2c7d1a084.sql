@@ -0,0 +1,6 @@
+-- Command-line ingest
+-- Uploads loaded by the ingest CLI (npm run ingest) are parsed on the machine running it, like a
+-- browser upload, and checkpoint the same batches; ingest_mode records where they came from.
+ALTER TABLE public.file_uploads DROP CONSTRAINT IF EXISTS file_uploads_ingest_mode_check;
+ALTER TABLE public.file_uploads
+  ADD CONSTRAINT file_uploads_ingest_mode_check CHECK (ingest_mode IN ('browser', 'server', 'cli'));
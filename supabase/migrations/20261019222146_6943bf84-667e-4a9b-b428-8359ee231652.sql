@@ -0,0 +1,131 @@
+-- Operations time zone
+-- Export dates are calendar days at the facilities and WM weeks are counted in that zone, wherever the
+-- code reading them runs. The zone lives in a single-row settings table; uploads parse dates into it
+-- (src/lib/operationsTime.ts) and SQL turns timestamps into operations days with operations_date().
+-- get_wm_week_number is rewritten to find the fiscal year the way getWMWeekNumber does: the year
+-- starts on the Saturday closest to Feb 1, so a late-January week can already be WK01 of the new year.
+
+CREATE TABLE public.operations_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  time_zone TEXT NOT NULL DEFAULT 'America/Chicago',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.operations_settings (id) VALUES (true);
+
+ALTER TABLE public.operations_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations for authenticated users on operations_settings"
+ON public.operations_settings FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE POLICY "Allow all operations for anonymous users on operations_settings"
+ON public.operations_settings FOR ALL TO anon USING (true) WITH CHECK (true);
+
+CREATE TRIGGER update_operations_settings_updated_at
+BEFORE UPDATE ON public.operations_settings
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Only zones Postgres knows, so operations_date() can never fail on a stored value
+CREATE OR REPLACE FUNCTION public.validate_operations_time_zone()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.time_zone) THEN
+    RAISE EXCEPTION 'Unknown time zone: %', NEW.time_zone USING ERRCODE = '22023';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_operations_settings_time_zone
+BEFORE INSERT OR UPDATE OF time_zone ON public.operations_settings
+FOR EACH ROW EXECUTE FUNCTION public.validate_operations_time_zone();
+
+CREATE OR REPLACE FUNCTION public.operations_time_zone()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((SELECT time_zone FROM operations_settings WHERE id), 'America/Chicago');
+$$;
+
+-- Calendar day at the facilities at an instant (upload times, job timestamps, now())
+CREATE OR REPLACE FUNCTION public.operations_date(p_at timestamptz)
+RETURNS date
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT (p_at AT TIME ZONE operations_time_zone())::date;
+$$;
+
+-- Saturday closest to Feb 1 of a year (the earlier Saturday when both are as close)
+CREATE OR REPLACE FUNCTION public.wm_fiscal_year_start(p_year integer)
+RETURNS date
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  feb1 date := make_date(p_year, 2, 1);
+  feb1_dow integer := EXTRACT(DOW FROM make_date(p_year, 2, 1))::integer; -- 0=Sunday, 6=Saturday
+  days_to_prev_sat integer;
+  days_to_next_sat integer;
+BEGIN
+  IF feb1_dow = 6 THEN
+    RETURN feb1;
+  END IF;
+
+  days_to_prev_sat := feb1_dow + 1;
+  days_to_next_sat := 6 - feb1_dow;
+  IF days_to_prev_sat <= days_to_next_sat THEN
+    RETURN feb1 - days_to_prev_sat;
+  END IF;
+  RETURN feb1 + days_to_next_sat;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_wm_week_number(p_date date)
+RETURNS integer
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  week_start date;
+  fiscal_year_start date;
+BEGIN
+  IF p_date IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Saturday of the week containing the date (WM week runs Sat-Fri)
+  week_start := p_date - ((EXTRACT(DOW FROM p_date)::integer + 1) % 7);
+
+  -- Before this year's fiscal start the date belongs to the previous fiscal year
+  fiscal_year_start := wm_fiscal_year_start(EXTRACT(YEAR FROM p_date)::integer);
+  IF p_date < fiscal_year_start THEN
+    fiscal_year_start := wm_fiscal_year_start(EXTRACT(YEAR FROM p_date)::integer - 1);
+  END IF;
+
+  RETURN ((week_start - fiscal_year_start) / 7) + 1;
+END;
+$$;
+
+-- Same result as before for an explicit year; the default year is now the operations day's year
+CREATE OR REPLACE FUNCTION public.get_wm_week_date_range(p_wm_week integer, p_year integer DEFAULT NULL)
+RETURNS TABLE(start_date date, end_date date)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  start_date := wm_fiscal_year_start(COALESCE(p_year, EXTRACT(YEAR FROM operations_date(now()))::integer))
+    + ((p_wm_week - 1) * 7);
+  end_date := start_date + 6;
+  RETURN NEXT;
+END;
+$$;
@@ -0,0 +1,193 @@
+-- Inventory snapshots and outbound shipments
+-- Inventory and Outbound files used to go through the units + lifecycle + sales path, so an inventory
+-- file overwrote units_canonical with rows that have no lifecycle dates, and the only thing kept from an
+-- outbound file was its fee columns. Each now has its own table:
+--   inventory_snapshots: where every unit was on the file's business date (one row per unit per date)
+--   outbound_shipments:  one row per unit shipment (ship date, carrier, tracking, cost)
+-- Neither type writes units_canonical or lifecycle_events any more; Outbound files still write fee_metrics.
+
+CREATE TABLE public.inventory_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_upload_id UUID NOT NULL REFERENCES public.file_uploads(id) ON DELETE CASCADE,
+  snapshot_date DATE NOT NULL,
+  trgid TEXT NOT NULL,
+  stage TEXT,
+  facility TEXT,
+  location_id TEXT,
+  days_on_hand INTEGER,
+  received_on DATE,
+  program_name TEXT,
+  master_program_name TEXT,
+  category_name TEXT,
+  effective_retail NUMERIC(10,2),
+  tag_clientsource TEXT,
+  wm_week INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- A second file for the same day restates the unit rather than adding to it
+  UNIQUE (snapshot_date, trgid)
+);
+
+CREATE INDEX idx_inventory_snapshots_trgid ON public.inventory_snapshots(trgid);
+CREATE INDEX idx_inventory_snapshots_file_upload_id ON public.inventory_snapshots(file_upload_id);
+CREATE INDEX idx_inventory_snapshots_wm_week ON public.inventory_snapshots(wm_week);
+
+ALTER TABLE public.inventory_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations for authenticated users on inventory_snapshots"
+ON public.inventory_snapshots FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE POLICY "Allow all operations for anonymous users on inventory_snapshots"
+ON public.inventory_snapshots FOR ALL TO anon USING (true) WITH CHECK (true);
+
+CREATE TABLE public.outbound_shipments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_upload_id UUID NOT NULL REFERENCES public.file_uploads(id) ON DELETE CASCADE,
+  trgid TEXT NOT NULL,
+  ship_date DATE NOT NULL,
+  carrier TEXT,
+  tracking_number TEXT,
+  shipping_cost NUMERIC(10,2),
+  program_name TEXT,
+  facility TEXT,
+  tag_clientsource TEXT,
+  wm_week INTEGER,
+  wm_day_of_week INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- A unit can ship again after a return, but not twice on one day
+  UNIQUE (trgid, ship_date)
+);
+
+CREATE INDEX idx_outbound_shipments_ship_date ON public.outbound_shipments(ship_date);
+CREATE INDEX idx_outbound_shipments_file_upload_id ON public.outbound_shipments(file_upload_id);
+CREATE INDEX idx_outbound_shipments_wm_week ON public.outbound_shipments(wm_week);
+
+ALTER TABLE public.outbound_shipments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations for authenticated users on outbound_shipments"
+ON public.outbound_shipments FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE POLICY "Allow all operations for anonymous users on outbound_shipments"
+ON public.outbound_shipments FOR ALL TO anon USING (true) WITH CHECK (true);
+
+-- Deletes report the new tables too; the return type changes, so both functions are recreated
+DROP FUNCTION public.replace_file_upload(uuid);
+DROP FUNCTION public.delete_file_upload(uuid);
+
+CREATE FUNCTION public.delete_file_upload(p_upload_id uuid)
+RETURNS TABLE (
+  lifecycle_events_deleted bigint,
+  sales_metrics_deleted bigint,
+  sale_fees_deleted bigint,
+  fee_metrics_deleted bigint,
+  inventory_snapshots_deleted bigint,
+  outbound_shipments_deleted bigint,
+  units_canonical_deleted bigint,
+  file_uploads_deleted bigint
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Lock the upload row so a concurrent replace or delete waits for this one
+  PERFORM 1 FROM file_uploads WHERE id = p_upload_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'File upload % not found', p_upload_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- sale_fees rows go with their sales row (ON DELETE CASCADE), so count them first
+  SELECT COUNT(*) INTO sale_fees_deleted
+  FROM sale_fees f
+  JOIN sales_metrics s ON s.trgid = f.trgid
+  WHERE s.file_upload_id = p_upload_id;
+
+  DELETE FROM lifecycle_events WHERE file_upload_id = p_upload_id;
+  GET DIAGNOSTICS lifecycle_events_deleted = ROW_COUNT;
+
+  DELETE FROM sales_metrics WHERE file_upload_id = p_upload_id;
+  GET DIAGNOSTICS sales_metrics_deleted = ROW_COUNT;
+
+  DELETE FROM fee_metrics WHERE file_upload_id = p_upload_id;
+  GET DIAGNOSTICS fee_metrics_deleted = ROW_COUNT;
+
+  DELETE FROM inventory_snapshots WHERE file_upload_id = p_upload_id;
+  GET DIAGNOSTICS inventory_snapshots_deleted = ROW_COUNT;
+
+  DELETE FROM outbound_shipments WHERE file_upload_id = p_upload_id;
+  GET DIAGNOSTICS outbound_shipments_deleted = ROW_COUNT;
+
+  DELETE FROM units_canonical WHERE file_upload_id = p_upload_id;
+  GET DIAGNOSTICS units_canonical_deleted = ROW_COUNT;
+
+  DELETE FROM file_uploads WHERE id = p_upload_id;
+  GET DIAGNOSTICS file_uploads_deleted = ROW_COUNT;
+
+  RETURN NEXT;
+END;
+$$;
+
+-- Swap a finished replacement in for the upload it replaces. Rows the new file re-sent already point
+-- at the new upload (upserts), so only the old file's leftover rows are removed.
+CREATE FUNCTION public.replace_file_upload(p_new_upload_id uuid)
+RETURNS TABLE (
+  lifecycle_events_deleted bigint,
+  sales_metrics_deleted bigint,
+  sale_fees_deleted bigint,
+  fee_metrics_deleted bigint,
+  inventory_snapshots_deleted bigint,
+  outbound_shipments_deleted bigint,
+  units_canonical_deleted bigint,
+  file_uploads_deleted bigint
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old_upload_id uuid;
+  v_status text;
+BEGIN
+  SELECT replaces_upload_id, upload_status INTO v_old_upload_id, v_status
+  FROM file_uploads
+  WHERE id = p_new_upload_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'File upload % not found', p_new_upload_id USING ERRCODE = 'no_data_found';
+  END IF;
+  IF v_status <> 'complete' THEN
+    RAISE EXCEPTION 'Upload % has not finished loading; the file it replaces is kept until it does', p_new_upload_id;
+  END IF;
+  -- Already swapped, or the old upload was deleted in the meantime
+  IF v_old_upload_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE file_uploads SET replaces_upload_id = NULL WHERE id = p_new_upload_id;
+  RETURN QUERY SELECT * FROM delete_file_upload(v_old_upload_id);
+END;
+$$;
+
+-- The dry run also counts shipments already stored and units already in the snapshot for the file's date
+DROP FUNCTION public.count_existing_trgids(text[]);
+
+CREATE FUNCTION public.count_existing_trgids(p_trgids text[], p_snapshot_date date DEFAULT NULL)
+RETURNS TABLE (
+  units_existing bigint,
+  sales_existing bigint,
+  fees_existing bigint,
+  shipments_existing bigint,
+  snapshot_existing bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    (SELECT COUNT(*) FROM units_canonical WHERE trgid = ANY(p_trgids)),
+    (SELECT COUNT(*) FROM sales_metrics WHERE trgid = ANY(p_trgids)),
+    (SELECT COUNT(*) FROM fee_metrics WHERE trgid = ANY(p_trgids)),
+    (SELECT COUNT(*) FROM outbound_shipments WHERE trgid = ANY(p_trgids)),
+    (SELECT COUNT(*) FROM inventory_snapshots WHERE trgid = ANY(p_trgids) AND snapshot_date = p_snapshot_date);
+$$;
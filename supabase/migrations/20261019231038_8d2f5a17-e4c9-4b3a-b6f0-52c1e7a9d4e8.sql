@@ -0,0 +1,261 @@
+-- Inventory snapshot history
+-- inventory_snapshots keeps one row per unit per snapshot date, so work in progress can be read for any
+-- past day instead of from units_canonical as it is now. These functions aggregate in SQL: a day's
+-- snapshot broken down by stage, facility, location or age; on-hand units by WM week (the last snapshot
+-- of each week); and the difference between two snapshot dates.
+-- Every function takes the Processing tab's filters; NULL means no filter.
+
+CREATE INDEX IF NOT EXISTS idx_inventory_snapshots_snapshot_date ON public.inventory_snapshots(snapshot_date);
+
+-- Dates with a snapshot that has units passing the filters, newest first
+CREATE OR REPLACE FUNCTION public.get_inventory_snapshot_dates(
+  p_facilities text[] DEFAULT NULL,
+  p_program_names text[] DEFAULT NULL,
+  p_client_sources text[] DEFAULT NULL
+)
+RETURNS TABLE (snapshot_date date, units bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.snapshot_date, COUNT(*)
+  FROM inventory_snapshots s
+  WHERE (p_facilities IS NULL OR s.facility = ANY(p_facilities))
+    AND (p_program_names IS NULL OR s.program_name = ANY(p_program_names))
+    AND (p_client_sources IS NULL OR s.tag_clientsource = ANY(p_client_sources))
+  GROUP BY s.snapshot_date
+  ORDER BY s.snapshot_date DESC;
+$$;
+
+-- Age band of a unit; the labels are the ones src/lib/inventorySnapshots.ts orders by
+CREATE OR REPLACE FUNCTION public.inventory_aging_bucket(p_days_on_hand integer)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_days_on_hand IS NULL THEN 'Unknown'
+    WHEN p_days_on_hand <= 7 THEN '0-7 days'
+    WHEN p_days_on_hand <= 14 THEN '8-14 days'
+    WHEN p_days_on_hand <= 30 THEN '15-30 days'
+    WHEN p_days_on_hand <= 60 THEN '31-60 days'
+    WHEN p_days_on_hand <= 90 THEN '61-90 days'
+    ELSE 'Over 90 days'
+  END;
+$$;
+
+-- One snapshot date grouped by a single dimension: 'stage', 'facility', 'location' or 'aging'.
+-- Largest groups first; p_limit caps long lists such as locations.
+CREATE OR REPLACE FUNCTION public.get_inventory_snapshot_breakdown(
+  p_snapshot_date date,
+  p_dimension text,
+  p_facilities text[] DEFAULT NULL,
+  p_program_names text[] DEFAULT NULL,
+  p_client_sources text[] DEFAULT NULL,
+  p_limit integer DEFAULT NULL
+)
+RETURNS TABLE (
+  label text,
+  units bigint,
+  units_with_age bigint,
+  days_on_hand_total bigint,
+  retail numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_dimension NOT IN ('stage', 'facility', 'location', 'aging') THEN
+    RAISE EXCEPTION 'Unknown inventory dimension: %', p_dimension USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    COALESCE(
+      CASE p_dimension
+        WHEN 'stage' THEN s.stage
+        WHEN 'facility' THEN s.facility
+        WHEN 'location' THEN s.location_id
+        ELSE inventory_aging_bucket(s.days_on_hand)
+      END,
+      'Unknown'
+    ) AS label,
+    COUNT(*) AS units,
+    COUNT(s.days_on_hand) AS units_with_age,
+    COALESCE(SUM(s.days_on_hand), 0)::bigint AS days_on_hand_total,
+    COALESCE(SUM(s.effective_retail), 0) AS retail
+  FROM inventory_snapshots s
+  WHERE s.snapshot_date = p_snapshot_date
+    AND (p_facilities IS NULL OR s.facility = ANY(p_facilities))
+    AND (p_program_names IS NULL OR s.program_name = ANY(p_program_names))
+    AND (p_client_sources IS NULL OR s.tag_clientsource = ANY(p_client_sources))
+  GROUP BY 1
+  -- By position: the output column names are also this function's variables
+  ORDER BY 2 DESC, 1
+  LIMIT p_limit;
+END;
+$$;
+
+-- On-hand units per stage at the last snapshot of each WM week (weeks run Sat-Fri) that has units
+-- passing the filters, oldest first
+CREATE OR REPLACE FUNCTION public.get_inventory_weekly_trend(
+  p_since date DEFAULT NULL,
+  p_facilities text[] DEFAULT NULL,
+  p_program_names text[] DEFAULT NULL,
+  p_client_sources text[] DEFAULT NULL
+)
+RETURNS TABLE (
+  week_start date,
+  wm_week integer,
+  snapshot_date date,
+  stage text,
+  units bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH week_snapshots AS (
+    SELECT
+      d.snapshot_date - ((EXTRACT(DOW FROM d.snapshot_date)::integer + 1) % 7) AS week_start,
+      MAX(d.snapshot_date) AS snapshot_date
+    FROM (
+      -- Only dates with rows passing the filters, so a facility that uploads on another day keeps its week
+      SELECT DISTINCT snapshot_date
+      FROM inventory_snapshots
+      WHERE (p_facilities IS NULL OR facility = ANY(p_facilities))
+        AND (p_program_names IS NULL OR program_name = ANY(p_program_names))
+        AND (p_client_sources IS NULL OR tag_clientsource = ANY(p_client_sources))
+    ) d
+    WHERE p_since IS NULL OR d.snapshot_date >= p_since
+    GROUP BY 1
+  )
+  SELECT
+    w.week_start,
+    get_wm_week_number(w.snapshot_date),
+    w.snapshot_date,
+    COALESCE(s.stage, 'Unknown'),
+    COUNT(*)
+  FROM week_snapshots w
+  JOIN inventory_snapshots s ON s.snapshot_date = w.snapshot_date
+  WHERE (p_facilities IS NULL OR s.facility = ANY(p_facilities))
+    AND (p_program_names IS NULL OR s.program_name = ANY(p_program_names))
+    AND (p_client_sources IS NULL OR s.tag_clientsource = ANY(p_client_sources))
+  GROUP BY w.week_start, w.snapshot_date, COALESCE(s.stage, 'Unknown')
+  ORDER BY w.week_start, 4;
+$$;
+
+-- Every unit in either snapshot and how it changed between them:
+--   arrived     only in the later snapshot
+--   disappeared only in the earlier snapshot
+--   moved       in both, at a different facility or location (whatever happened to its stage)
+--   restaged    in both, same place, different stage
+--   unchanged   in both, same place and stage
+-- A unit passes the filters when the snapshot it is in (the later one, if both) does.
+CREATE OR REPLACE FUNCTION public.inventory_snapshot_diff(
+  p_from_date date,
+  p_to_date date,
+  p_facilities text[] DEFAULT NULL,
+  p_program_names text[] DEFAULT NULL,
+  p_client_sources text[] DEFAULT NULL
+)
+RETURNS TABLE (
+  trgid text,
+  change text,
+  program_name text,
+  from_stage text,
+  to_stage text,
+  from_facility text,
+  to_facility text,
+  from_location text,
+  to_location text,
+  days_on_hand integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT *
+  FROM (
+    SELECT
+      COALESCE(t.trgid, f.trgid) AS trgid,
+      CASE
+        WHEN f.trgid IS NULL THEN 'arrived'
+        WHEN t.trgid IS NULL THEN 'disappeared'
+        WHEN f.facility IS DISTINCT FROM t.facility OR f.location_id IS DISTINCT FROM t.location_id THEN 'moved'
+        WHEN f.stage IS DISTINCT FROM t.stage THEN 'restaged'
+        ELSE 'unchanged'
+      END AS change,
+      COALESCE(t.program_name, f.program_name) AS program_name,
+      f.stage AS from_stage,
+      t.stage AS to_stage,
+      f.facility AS from_facility,
+      t.facility AS to_facility,
+      f.location_id AS from_location,
+      t.location_id AS to_location,
+      COALESCE(t.days_on_hand, f.days_on_hand) AS days_on_hand
+    FROM (SELECT * FROM inventory_snapshots WHERE snapshot_date = p_from_date) f
+    FULL JOIN (SELECT * FROM inventory_snapshots WHERE snapshot_date = p_to_date) t ON t.trgid = f.trgid
+    WHERE (p_facilities IS NULL OR COALESCE(t.facility, f.facility) = ANY(p_facilities))
+      AND (p_program_names IS NULL OR COALESCE(t.program_name, f.program_name) = ANY(p_program_names))
+      AND (p_client_sources IS NULL OR COALESCE(t.tag_clientsource, f.tag_clientsource) = ANY(p_client_sources))
+  ) diff;
+$$;
+
+-- Units per kind of change between two snapshot dates
+CREATE OR REPLACE FUNCTION public.compare_inventory_snapshots(
+  p_from_date date,
+  p_to_date date,
+  p_facilities text[] DEFAULT NULL,
+  p_program_names text[] DEFAULT NULL,
+  p_client_sources text[] DEFAULT NULL
+)
+RETURNS TABLE (change text, units bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT d.change, COUNT(*)
+  FROM inventory_snapshot_diff(p_from_date, p_to_date, p_facilities, p_program_names, p_client_sources) d
+  GROUP BY d.change;
+$$;
+
+-- The units behind one kind of change, oldest on hand first
+CREATE OR REPLACE FUNCTION public.get_inventory_snapshot_changes(
+  p_from_date date,
+  p_to_date date,
+  p_change text,
+  p_facilities text[] DEFAULT NULL,
+  p_program_names text[] DEFAULT NULL,
+  p_client_sources text[] DEFAULT NULL,
+  p_limit integer DEFAULT 200
+)
+RETURNS TABLE (
+  trgid text,
+  change text,
+  program_name text,
+  from_stage text,
+  to_stage text,
+  from_facility text,
+  to_facility text,
+  from_location text,
+  to_location text,
+  days_on_hand integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT *
+  FROM inventory_snapshot_diff(p_from_date, p_to_date, p_facilities, p_program_names, p_client_sources) d
+  WHERE d.change = p_change
+  ORDER BY d.days_on_hand DESC NULLS LAST, d.trgid
+  LIMIT p_limit;
+$$;
@@ -0,0 +1,58 @@
+-- Stored fee totals for the sales a dashboard shows
+-- The Overview filters sales by more than get_sale_fee_totals' arguments (mapped marketplace, sales
+-- channel, owned programs), so it passes the TRGIDs of the sales it shows and the totals are summed
+-- from their stored sale_fees rows instead of re-pricing every sale in the browser.
+DROP FUNCTION IF EXISTS public.get_sale_fee_totals(integer[], text[], text[], text);
+
+CREATE OR REPLACE FUNCTION public.get_sale_fee_totals(
+  p_wm_weeks integer[] DEFAULT NULL,
+  p_program_names text[] DEFAULT NULL,
+  p_facilities text[] DEFAULT NULL,
+  p_client_source text DEFAULT NULL,
+  p_trgids text[] DEFAULT NULL
+)
+RETURNS TABLE (
+  units bigint,
+  check_in_fees numeric,
+  refurb_fees numeric,
+  overbox_fees numeric,
+  packaging_fees numeric,
+  pps_fees numeric,
+  shipping_fees numeric,
+  merchant_fees numeric,
+  revshare_fees numeric,
+  third_party_mp_fees numeric,
+  marketing_fees numeric,
+  refund_fees numeric,
+  total_fees numeric,
+  net_dollars numeric,
+  last_calculated_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COUNT(*),
+    COALESCE(SUM(check_in_fee), 0),
+    COALESCE(SUM(refurb_fee), 0),
+    COALESCE(SUM(overbox_fee), 0),
+    COALESCE(SUM(packaging_fee), 0),
+    COALESCE(SUM(pps_fee), 0),
+    COALESCE(SUM(shipping_fee), 0),
+    COALESCE(SUM(merchant_fee), 0),
+    COALESCE(SUM(revshare_fee), 0),
+    COALESCE(SUM(third_party_mp_fee), 0),
+    COALESCE(SUM(marketing_fee), 0),
+    COALESCE(SUM(refund_fee), 0),
+    COALESCE(SUM(total_fees), 0),
+    COALESCE(SUM(net_dollars), 0),
+    MAX(calculated_at)
+  FROM sale_fees
+  WHERE (p_wm_weeks IS NULL OR wm_week = ANY(p_wm_weeks))
+    AND (p_program_names IS NULL OR program_name = ANY(p_program_names))
+    AND (p_facilities IS NULL OR facility = ANY(p_facilities))
+    AND (p_client_source IS NULL OR tag_clientsource = p_client_source)
+    AND (p_trgids IS NULL OR trgid = ANY(p_trgids));
+$$;
@@ -0,0 +1,67 @@
+-- Deleting a server upload while its ingest job runs
+-- The job would keep writing batches for an upload that no longer exists, so the delete is refused
+-- until the job finishes, fails or goes stale (no heartbeat for claim_ingest_job's 2 minutes, the run
+-- that held it was stopped). The raw file in the uploads bucket is removed by the caller afterwards.
+CREATE OR REPLACE FUNCTION public.delete_file_upload(p_upload_id uuid)
+RETURNS TABLE (
+  lifecycle_events_deleted bigint,
+  sales_metrics_deleted bigint,
+  sale_fees_deleted bigint,
+  fee_metrics_deleted bigint,
+  inventory_snapshots_deleted bigint,
+  outbound_shipments_deleted bigint,
+  units_canonical_deleted bigint,
+  file_uploads_deleted bigint
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_file_name text;
+  v_job_status text;
+  v_job_heartbeat_at timestamptz;
+BEGIN
+  -- Lock the upload row so a concurrent replace, delete or job claim waits for this one
+  SELECT file_name, job_status, job_heartbeat_at INTO v_file_name, v_job_status, v_job_heartbeat_at
+  FROM file_uploads
+  WHERE id = p_upload_id
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'File upload % not found', p_upload_id USING ERRCODE = 'no_data_found';
+  END IF;
+  IF v_job_status = 'running' AND v_job_heartbeat_at >= now() - interval '2 minutes' THEN
+    RAISE EXCEPTION '% is still being loaded on the server; delete it once the job has finished', v_file_name
+      USING ERRCODE = 'object_in_use';
+  END IF;
+
+  -- sale_fees rows go with their sales row (ON DELETE CASCADE), so count them first
+  SELECT COUNT(*) INTO sale_fees_deleted
+  FROM sale_fees f
+  JOIN sales_metrics s ON s.trgid = f.trgid
+  WHERE s.file_upload_id = p_upload_id;
+
+  DELETE FROM lifecycle_events WHERE file_upload_id = p_upload_id;
+  GET DIAGNOSTICS lifecycle_events_deleted = ROW_COUNT;
+
+  DELETE FROM sales_metrics WHERE file_upload_id = p_upload_id;
+  GET DIAGNOSTICS sales_metrics_deleted = ROW_COUNT;
+
+  DELETE FROM fee_metrics WHERE file_upload_id = p_upload_id;
+  GET DIAGNOSTICS fee_metrics_deleted = ROW_COUNT;
+
+  DELETE FROM inventory_snapshots WHERE file_upload_id = p_upload_id;
+  GET DIAGNOSTICS inventory_snapshots_deleted = ROW_COUNT;
+
+  DELETE FROM outbound_shipments WHERE file_upload_id = p_upload_id;
+  GET DIAGNOSTICS outbound_shipments_deleted = ROW_COUNT;
+
+  DELETE FROM units_canonical WHERE file_upload_id = p_upload_id;
+  GET DIAGNOSTICS units_canonical_deleted = ROW_COUNT;
+
+  DELETE FROM file_uploads WHERE id = p_upload_id;
+  GET DIAGNOSTICS file_uploads_deleted = ROW_COUNT;
+
+  RETURN NEXT;
+END;
+$$;